@@ -0,0 +1,470 @@
+// ============================================================================
+// Collaboration Server
+// ============================================================================
+// Self-hostable Yjs websocket server for real-time collaborative editing.
+// Speaks the y-websocket protocol (document sync + awareness), so the
+// editor's WebsocketProvider connects to it directly:
+//
+//   ws://<host>:<port>/<docId>
+//
+// Each document id is a room holding one Y.Doc: the main document, the
+// ProjectCard nested documents and the side table the app auto-saves from
+// (see utils/collaboration.ts). Rooms are loaded from disk when their first
+// client connects, written back shortly after every change, and unloaded
+// once their last client leaves.
+//
+// A room whose main document is still empty gets filled by one of its
+// clients with the content it loaded from the app. The server picks which
+// one, so two clients opening a new document together don't both fill it.
+//
+// Configuration is read from the environment:
+// - COLLAB_HOST: interface to listen on (default "localhost")
+// - COLLAB_PORT: port to listen on (default 1234)
+// - COLLAB_DIR:  directory rooms are persisted to (default .data/collab)
+//
+// Run with `pnpm collab`.
+// ============================================================================
+
+import { randomUUID } from "node:crypto";
+import http from "node:http";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { WebSocketServer } from "ws";
+import * as Y from "yjs";
+import * as syncProtocol from "y-protocols/sync";
+import * as awarenessProtocol from "y-protocols/awareness";
+import * as encoding from "lib0/encoding";
+import * as decoding from "lib0/decoding";
+
+const HOST = process.env.COLLAB_HOST || "localhost";
+const PORT = Number(process.env.COLLAB_PORT) || 1234;
+const DATA_DIR =
+  process.env.COLLAB_DIR || path.join(process.cwd(), ".data", "collab");
+
+/**
+ * How long a room must be idle before it is written to disk, in milliseconds
+ */
+const SAVE_DELAY_MS = 2000;
+
+/**
+ * How often connections are checked for liveness, in milliseconds
+ */
+const PING_INTERVAL_MS = 30000;
+
+// Message types of the y-websocket protocol
+const MESSAGE_SYNC = 0;
+const MESSAGE_AWARENESS = 1;
+const MESSAGE_QUERY_AWARENESS = 3;
+
+/**
+ * Room names are document ids and used as file names, so they are held to
+ * the same safe character set as the document store's ids.
+ */
+const ROOM_NAME_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+// ============================================================================
+// Rooms
+// ============================================================================
+
+/**
+ * @typedef {Object} Room
+ * @property {string} name - The document id
+ * @property {Y.Doc} doc - The shared document
+ * @property {awarenessProtocol.Awareness} awareness - Presence of its clients
+ * @property {Map<import("ws").WebSocket, Set<number>>} connections - Open
+ *   connections and the awareness client ids each of them controls
+ * @property {ReturnType<typeof setTimeout> | null} saveTimeout - Pending save
+ * @property {Promise<void>} saving - The latest save, done or in progress
+ */
+
+/** @type {Map<string, Promise<Room>>} */
+const rooms = new Map();
+
+/**
+ * Final saves of unloaded rooms, by name; a room is only loaded again once
+ * its final save is written
+ *
+ * @type {Map<string, Promise<void>>}
+ */
+const unloading = new Map();
+
+/**
+ * Returns the file a room is persisted to.
+ *
+ * @param {string} name - The room name
+ * @returns {string} The file path
+ */
+const roomFile = (name) => path.join(DATA_DIR, `${name}.ystate`);
+
+/**
+ * Writes a room's document to disk. Writes go to a temporary file first and
+ * are then renamed into place, so a crash mid-write never leaves a truncated
+ * file behind. Saves of a room run one after another, so an older state
+ * never overwrites a newer one.
+ *
+ * @param {Room} room - The room to save
+ * @returns {Promise<void>} Resolves once this save is written
+ */
+function saveRoom(room) {
+  if (room.saveTimeout) clearTimeout(room.saveTimeout);
+  room.saveTimeout = null;
+
+  room.saving = room.saving.then(() => writeRoom(room));
+  return room.saving;
+}
+
+/**
+ * Writes a room's current state to its file, logging failures.
+ *
+ * @param {Room} room - The room to write
+ * @returns {Promise<void>}
+ */
+async function writeRoom(room) {
+  try {
+    await fs.mkdir(DATA_DIR, { recursive: true });
+    // Written whole and then renamed over the last save, so a crash
+    // mid-write keeps the last complete state of the room
+    const tempPath = `${roomFile(room.name)}.${randomUUID()}.tmp`;
+    await fs.writeFile(tempPath, Y.encodeStateAsUpdate(room.doc));
+    await fs.rename(tempPath, roomFile(room.name));
+  } catch (error) {
+    console.error(`❌ Failed to save room ${room.name}:`, error);
+  }
+}
+
+/**
+ * Encodes a message of the y-websocket protocol.
+ *
+ * @param {number} type - Message type
+ * @param {(encoder: encoding.Encoder) => void} write - Writes the payload
+ * @returns {Uint8Array} The message
+ */
+function encodeMessage(type, write) {
+  const encoder = encoding.createEncoder();
+  encoding.writeVarUint(encoder, type);
+  write(encoder);
+  return encoding.toUint8Array(encoder);
+}
+
+/**
+ * Sends a message to one connection, dropping connections that can no
+ * longer be written to.
+ *
+ * @param {Room} room - The connection's room
+ * @param {import("ws").WebSocket} connection - The connection
+ * @param {Uint8Array} message - The message
+ */
+function send(room, connection, message) {
+  if (connection.readyState !== connection.OPEN) {
+    closeConnection(room, connection);
+    return;
+  }
+  connection.send(message, (error) => {
+    if (error) closeConnection(room, connection);
+  });
+}
+
+/**
+ * Loads a room from disk, or creates an empty one.
+ *
+ * @param {string} name - The room name
+ * @returns {Promise<Room>} The room
+ */
+async function loadRoom(name) {
+  await unloading.get(name);
+
+  const doc = new Y.Doc({ gc: true });
+  try {
+    Y.applyUpdate(doc, await fs.readFile(roomFile(name)));
+  } catch (error) {
+    if (error?.code !== "ENOENT") {
+      console.error(`❌ Failed to load room ${name}, starting empty:`, error);
+    }
+  }
+
+  const awareness = new awarenessProtocol.Awareness(doc);
+  // The server itself has no presence
+  awareness.setLocalState(null);
+
+  /** @type {Room} */
+  const room = {
+    name,
+    doc,
+    awareness,
+    connections: new Map(),
+    saveTimeout: null,
+    saving: Promise.resolve(),
+  };
+  // A client chosen before the room was last unloaded is gone
+  assignSeeder(room);
+
+  // Forward document changes to every client and save once they pause
+  doc.on("update", (update) => {
+    const message = encodeMessage(MESSAGE_SYNC, (encoder) =>
+      syncProtocol.writeUpdate(encoder, update)
+    );
+    room.connections.forEach((_, connection) => send(room, connection, message));
+
+    if (room.saveTimeout) clearTimeout(room.saveTimeout);
+    room.saveTimeout = setTimeout(() => saveRoom(room), SAVE_DELAY_MS);
+  });
+
+  // Forward presence changes, remembering which client ids each connection
+  // controls so they can be removed when it closes
+  awareness.on("update", ({ added, updated, removed }, origin) => {
+    const changed = added.concat(updated, removed);
+    const controlled = room.connections.get(origin);
+    if (controlled) {
+      added.forEach((clientId) => controlled.add(clientId));
+      removed.forEach((clientId) => controlled.delete(clientId));
+      assignSeeder(room);
+    }
+
+    const message = encodeMessage(MESSAGE_AWARENESS, (encoder) =>
+      encoding.writeVarUint8Array(
+        encoder,
+        awarenessProtocol.encodeAwarenessUpdate(awareness, changed)
+      )
+    );
+    room.connections.forEach((_, connection) => send(room, connection, message));
+  });
+
+  console.log(`✅ Opened room ${name}`);
+  return room;
+}
+
+/**
+ * Picks the client that fills a room's empty main document: the first one
+ * to announce itself, or another one if it leaves before filling it. The
+ * choice is the client id of its Y.Doc, written to the shared "init" map
+ * (see joinSharedDocument in utils/collaboration.ts). Only the server
+ * writes it, so clients never disagree about it.
+ *
+ * @param {Room} room - The room
+ */
+function assignSeeder(room) {
+  if (room.doc.getXmlFragment("document").length > 0) return;
+
+  const init = room.doc.getMap("init");
+  const current = init.get("seededBy");
+  const present = Array.from(room.connections.values()).flatMap((ids) => Array.from(ids));
+  if (present.includes(current)) return;
+
+  if (present.length > 0) {
+    init.set("seededBy", present[0]);
+  } else if (current !== undefined) {
+    init.delete("seededBy");
+  }
+}
+
+/**
+ * Saves and unloads a room nobody is connected to anymore.
+ *
+ * @param {Room} room - The room
+ */
+function unloadRoom(room) {
+  rooms.delete(room.name);
+  const saved = saveRoom(room).then(() => {
+    room.doc.destroy();
+    if (unloading.get(room.name) === saved) unloading.delete(room.name);
+  });
+  unloading.set(room.name, saved);
+  console.log(`✅ Closed room ${room.name}`);
+}
+
+/**
+ * Returns a room, loading it on first use.
+ *
+ * @param {string} name - The room name
+ * @returns {Promise<Room>} The room
+ */
+function getRoom(name) {
+  let room = rooms.get(name);
+  if (!room) {
+    room = loadRoom(name);
+    rooms.set(name, room);
+  }
+  return room;
+}
+
+// ============================================================================
+// Connections
+// ============================================================================
+
+/**
+ * Removes a connection from its room, along with the presence of its
+ * clients. The last connection to leave saves and unloads the room.
+ *
+ * @param {Room} room - The connection's room
+ * @param {import("ws").WebSocket} connection - The closed connection
+ */
+function closeConnection(room, connection) {
+  const controlled = room.connections.get(connection);
+  if (!controlled) return;
+
+  room.connections.delete(connection);
+  awarenessProtocol.removeAwarenessStates(room.awareness, Array.from(controlled), null);
+  connection.close();
+
+  if (room.connections.size === 0) {
+    unloadRoom(room);
+  } else {
+    assignSeeder(room);
+  }
+}
+
+/**
+ * Handles one message from a client.
+ *
+ * @param {Room} room - The client's room
+ * @param {import("ws").WebSocket} connection - The client's connection
+ * @param {Uint8Array} data - The message
+ */
+function handleMessage(room, connection, data) {
+  try {
+    const decoder = decoding.createDecoder(data);
+    const type = decoding.readVarUint(decoder);
+
+    switch (type) {
+      case MESSAGE_SYNC: {
+        const encoder = encoding.createEncoder();
+        encoding.writeVarUint(encoder, MESSAGE_SYNC);
+        syncProtocol.readSyncMessage(decoder, encoder, room.doc, connection);
+        // Only sync step 1 needs an answer
+        if (encoding.length(encoder) > 1) {
+          send(room, connection, encoding.toUint8Array(encoder));
+        }
+        break;
+      }
+      case MESSAGE_AWARENESS:
+        awarenessProtocol.applyAwarenessUpdate(
+          room.awareness,
+          decoding.readVarUint8Array(decoder),
+          connection
+        );
+        break;
+      case MESSAGE_QUERY_AWARENESS:
+        sendAwareness(room, connection);
+        break;
+      default:
+        console.warn(`⚠️ Ignoring unknown message type ${type} in room ${room.name}`);
+    }
+  } catch (error) {
+    console.error(`❌ Failed to handle message in room ${room.name}:`, error);
+  }
+}
+
+/**
+ * Sends the presence of everyone in the room to one connection.
+ *
+ * @param {Room} room - The room
+ * @param {import("ws").WebSocket} connection - The connection
+ */
+function sendAwareness(room, connection) {
+  const clientIds = Array.from(room.awareness.getStates().keys());
+  if (clientIds.length === 0) return;
+  send(
+    room,
+    connection,
+    encodeMessage(MESSAGE_AWARENESS, (encoder) =>
+      encoding.writeVarUint8Array(
+        encoder,
+        awarenessProtocol.encodeAwarenessUpdate(room.awareness, clientIds)
+      )
+    )
+  );
+}
+
+/**
+ * Sets up a new client connection.
+ *
+ * @param {import("ws").WebSocket} connection - The connection
+ * @param {http.IncomingMessage} request - The upgrade request
+ */
+function handleConnection(connection, request) {
+  // Document ids only use characters URLs leave unescaped, so the raw path
+  // is checked as is; decoding a malformed escape like "%E0" would throw
+  const name = new URL(request.url ?? "/", "http://localhost").pathname.slice(1);
+  if (!ROOM_NAME_PATTERN.test(name)) {
+    connection.close(1008, "Invalid document id");
+    return;
+  }
+
+  connection.binaryType = "arraybuffer";
+  const roomReady = getRoom(name);
+
+  // Messages can arrive while the room is still loading; chaining them on
+  // the room's promise handles them in order once it is ready
+  connection.on("message", (data) =>
+    roomReady.then((room) => handleMessage(room, connection, new Uint8Array(data)))
+  );
+
+  roomReady.then((room) => {
+    if (connection.readyState !== connection.OPEN) {
+      // Closed while the room was loading. Once every connection waiting
+      // for the room has joined, unload it if none did.
+      setImmediate(() => {
+        if (room.connections.size === 0 && rooms.get(name) === roomReady) {
+          unloadRoom(room);
+        }
+      });
+      return;
+    }
+    room.connections.set(connection, new Set());
+    connection.on("close", () => closeConnection(room, connection));
+
+    // Keep-alive: connections that miss a ping are dropped
+    let isAlive = true;
+    connection.on("pong", () => {
+      isAlive = true;
+    });
+    const pingInterval = setInterval(() => {
+      if (!room.connections.has(connection)) {
+        clearInterval(pingInterval);
+      } else if (!isAlive) {
+        clearInterval(pingInterval);
+        closeConnection(room, connection);
+      } else {
+        isAlive = false;
+        connection.ping();
+      }
+    }, PING_INTERVAL_MS);
+
+    // Start syncing: send our state vector and everyone's presence
+    send(
+      room,
+      connection,
+      encodeMessage(MESSAGE_SYNC, (encoder) => syncProtocol.writeSyncStep1(encoder, room.doc))
+    );
+    sendAwareness(room, connection);
+  });
+}
+
+// ============================================================================
+// Server
+// ============================================================================
+
+const server = http.createServer((request, response) => {
+  response.writeHead(200, { "Content-Type": "text/plain" });
+  response.end("Portfolio collaboration server\n");
+});
+
+const wss = new WebSocketServer({ server });
+wss.on("connection", handleConnection);
+
+server.listen(PORT, HOST, () => {
+  console.log(`✅ Collaboration server listening on ws://${HOST}:${PORT}`);
+});
+
+/**
+ * Saves every open room before exiting, so no edits are lost on Ctrl+C.
+ */
+async function shutdown() {
+  console.log("Saving open rooms...");
+  const openRooms = await Promise.all(rooms.values());
+  await Promise.all([...openRooms.map(saveRoom), ...unloading.values()]);
+  process.exit(0);
+}
+
+process.on("SIGINT", shutdown);
+process.on("SIGTERM", shutdown);
@@ -0,0 +1,62 @@
+// ============================================================================
+// Asset API Route
+// ============================================================================
+// - GET /api/assets/:name              → serve a stored asset
+// - GET /api/assets/:name?w=640&q=75&f=webp → serve a resized variant
+//
+// Asset names are content hashes, so responses are cached indefinitely.
+// ============================================================================
+
+import { NextResponse } from "next/server";
+import {
+  assetContentType,
+  isValidAssetName,
+  readAsset,
+} from "@/app/blocknote-portfolio/utils/assetStore";
+import {
+  VARIANT_CONTENT_TYPES,
+  getImageVariant,
+  parseVariantParams,
+} from "@/app/blocknote-portfolio/utils/imageVariants";
+
+type RouteContext = { params: Promise<{ name: string }> };
+
+/**
+ * Returns the asset's bytes (or those of the requested variant), or 404 if
+ * it does not exist.
+ */
+export async function GET(request: Request, context: RouteContext) {
+  const { name } = await context.params;
+  if (!isValidAssetName(name)) {
+    return NextResponse.json({ error: "Invalid asset name" }, { status: 400 });
+  }
+
+  const variant = parseVariantParams(new URL(request.url).searchParams);
+  if (variant === "invalid") {
+    return NextResponse.json(
+      { error: "Unsupported image width, quality or format" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const bytes = variant
+      ? await getImageVariant(name, variant)
+      : await readAsset(name);
+    if (!bytes) {
+      return NextResponse.json({ error: "Asset not found" }, { status: 404 });
+    }
+    return new NextResponse(new Uint8Array(bytes), {
+      headers: {
+        "Content-Type": variant
+          ? VARIANT_CONTENT_TYPES[variant.format]
+          : assetContentType(name),
+        "Cache-Control": "public, max-age=31536000, immutable",
+        "X-Content-Type-Options": "nosniff",
+      },
+    });
+  } catch (error) {
+    console.error("❌ Failed to read asset:", error);
+    return NextResponse.json({ error: "Failed to read asset" }, { status: 500 });
+  }
+}
@@ -0,0 +1,60 @@
+// ============================================================================
+// Asset Collection API Route
+// ============================================================================
+// REST endpoints for uploaded files:
+// - GET  /api/assets → list stored assets (newest first)
+// - POST /api/assets → upload a file (multipart form field "file")
+// ============================================================================
+
+import { NextResponse } from "next/server";
+import {
+  listAssets,
+  saveAsset,
+} from "@/app/blocknote-portfolio/utils/assetStore";
+import { generateScreenVariants } from "@/app/blocknote-portfolio/utils/imageVariants";
+
+/**
+ * Lists all stored assets.
+ */
+export async function GET() {
+  try {
+    const assets = await listAssets();
+    return NextResponse.json({ assets });
+  } catch (error) {
+    console.error("❌ Failed to list assets:", error);
+    return NextResponse.json({ error: "Failed to list assets" }, { status: 500 });
+  }
+}
+
+/**
+ * Stores the uploaded `file` after validating its size and type, and
+ * pre-generates its thumbnails. Returns the stored asset, including the URL
+ * it is served from.
+ */
+export async function POST(request: Request) {
+  let file: FormDataEntryValue | null = null;
+  try {
+    file = (await request.formData()).get("file");
+  } catch {
+    // Not a multipart body; handled below
+  }
+
+  if (!file || typeof file === "string") {
+    return NextResponse.json(
+      { error: "Expected a multipart body with a \"file\" field" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const result = await saveAsset(Buffer.from(await file.arrayBuffer()), file.type);
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    await generateScreenVariants(result.asset.name);
+    return NextResponse.json(result.asset, { status: 201 });
+  } catch (error) {
+    console.error("❌ Failed to store asset:", error);
+    return NextResponse.json({ error: "Failed to store asset" }, { status: 500 });
+  }
+}
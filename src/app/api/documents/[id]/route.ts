@@ -0,0 +1,199 @@
+// ============================================================================
+// Document API Route
+// ============================================================================
+// REST endpoints for a single portfolio document:
+// - GET    /api/documents/:id → load the stored document
+// - PUT    /api/documents/:id → replace the stored document
+// - PATCH  /api/documents/:id → rename the stored document
+// - DELETE /api/documents/:id → remove the stored document
+// ============================================================================
+
+import { NextResponse } from "next/server";
+import {
+  DEFAULT_DOCUMENT_NAME,
+  getDocumentStore,
+  isValidDocumentId,
+} from "@/app/blocknote-portfolio/utils/documentStore";
+import {
+  CURRENT_SCHEMA_VERSION,
+  readEnvelope,
+} from "@/app/blocknote-portfolio/utils/schemaMigrations";
+import { repairContent } from "@/app/blocknote-portfolio/utils/documentValidation";
+import { getSnapshotStore } from "@/app/blocknote-portfolio/utils/snapshotStore";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * Checks that a request body field is a JSON object (not an array or null).
+ */
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * Resolves and validates the document id from the route params.
+ * Returns an error response instead when the id is unsafe.
+ */
+async function resolveId(
+  context: RouteContext
+): Promise<{ id: string } | { error: NextResponse }> {
+  const { id } = await context.params;
+  if (!isValidDocumentId(id)) {
+    return {
+      error: NextResponse.json({ error: "Invalid document id" }, { status: 400 }),
+    };
+  }
+  return { id };
+}
+
+/**
+ * Returns the stored document, or 404 if it does not exist.
+ */
+export async function GET(_request: Request, context: RouteContext) {
+  const resolved = await resolveId(context);
+  if ("error" in resolved) return resolved.error;
+
+  try {
+    const stored = await getDocumentStore().get(resolved.id);
+    if (!stored) {
+      return NextResponse.json({ error: "Document not found" }, { status: 404 });
+    }
+    return NextResponse.json(stored);
+  } catch (error) {
+    console.error("❌ Failed to load document:", error);
+    return NextResponse.json({ error: "Failed to load document" }, { status: 500 });
+  }
+}
+
+/**
+ * Replaces the stored document with the `document` array and optional
+ * `nestedContent` table in the request body. An optional `name` renames the document; otherwise the current name is kept.
+ * Likewise an optional `comments` table replaces the document's comment threads,
+ * and an optional `suggestions` table its pending suggested changes.
+ * Documents sent with an older `schemaVersion` are upgraded before saving.
+ *
+ * Malformed blocks are repaired rather than rejected, so an autosave never
+ * loses the rest of the document; the response lists the `issues` found.
+ */
+export async function PUT(request: Request, context: RouteContext) {
+  const resolved = await resolveId(context);
+  if ("error" in resolved) return resolved.error;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Request body must be JSON" }, { status: 400 });
+  }
+
+  if (!isPlainObject(body) || !Array.isArray(body.document)) {
+    return NextResponse.json(
+      { error: "Request body must contain a document array" },
+      { status: 400 }
+    );
+  }
+
+  const envelope = readEnvelope({
+    schemaVersion:
+      typeof body.schemaVersion === "number"
+        ? body.schemaVersion
+        : CURRENT_SCHEMA_VERSION,
+    savedAt: null,
+    document: body.document,
+    nestedContent: isPlainObject(body.nestedContent) ? body.nestedContent : {},
+    comments: body.comments,
+    suggestions: body.suggestions,
+  });
+  if (!envelope) {
+    return NextResponse.json(
+      { error: "Document schema version is not supported" },
+      { status: 422 }
+    );
+  }
+
+  const { content, issues } = repairContent(envelope);
+  if (issues.length > 0) {
+    console.warn(`⚠️ Repaired ${issues.length} problem(s) in document ${resolved.id}`);
+  }
+
+  try {
+    const store = getDocumentStore();
+    const existing = await store.get(resolved.id);
+    const name =
+      typeof body.name === "string" && body.name.trim()
+        ? body.name.trim()
+        : existing?.name ?? DEFAULT_DOCUMENT_NAME;
+    const stored = await store.put(resolved.id, {
+      name,
+      document: content.document,
+      nestedContent: content.nestedContent,
+      comments: body.comments !== undefined ? envelope.comments : existing?.comments,
+      suggestions:
+        body.suggestions !== undefined ? envelope.suggestions : existing?.suggestions,
+    });
+    return NextResponse.json({ ...stored, issues });
+  } catch (error) {
+    console.error("❌ Failed to save document:", error);
+    return NextResponse.json({ error: "Failed to save document" }, { status: 500 });
+  }
+}
+
+/**
+ * Renames the stored document to the `name` in the request body.
+ */
+export async function PATCH(request: Request, context: RouteContext) {
+  const resolved = await resolveId(context);
+  if ("error" in resolved) return resolved.error;
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Request body must be JSON" }, { status: 400 });
+  }
+
+  if (!body || typeof body.name !== "string" || !body.name.trim()) {
+    return NextResponse.json(
+      { error: "Request body must contain a non-empty name" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const store = getDocumentStore();
+    const existing = await store.get(resolved.id);
+    if (!existing) {
+      return NextResponse.json({ error: "Document not found" }, { status: 404 });
+    }
+    const stored = await store.put(resolved.id, {
+      name: body.name.trim(),
+      document: existing.document,
+      nestedContent: existing.nestedContent,
+      comments: existing.comments,
+      suggestions: existing.suggestions,
+    });
+    return NextResponse.json(stored);
+  } catch (error) {
+    console.error("❌ Failed to rename document:", error);
+    return NextResponse.json({ error: "Failed to rename document" }, { status: 500 });
+  }
+}
+
+/**
+ * Deletes the stored document and its snapshots. Deleting a missing document
+ * is not an error.
+ */
+export async function DELETE(_request: Request, context: RouteContext) {
+  const resolved = await resolveId(context);
+  if ("error" in resolved) return resolved.error;
+
+  try {
+    const deleted = await getDocumentStore().delete(resolved.id);
+    // A deleted document's version history goes with it
+    await getSnapshotStore().deleteAll(resolved.id);
+    return NextResponse.json({ deleted });
+  } catch (error) {
+    console.error("❌ Failed to delete document:", error);
+    return NextResponse.json({ error: "Failed to delete document" }, { status: 500 });
+  }
+}
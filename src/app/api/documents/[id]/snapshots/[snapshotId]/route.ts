@@ -0,0 +1,52 @@
+// ============================================================================
+// Document Snapshot API Route
+// ============================================================================
+// A single snapshot in a document's version history:
+// - GET    /api/documents/:id/snapshots/:snapshotId → load snapshot content
+// - DELETE /api/documents/:id/snapshots/:snapshotId → remove the snapshot
+// ============================================================================
+
+import { NextResponse } from "next/server";
+import { isValidDocumentId } from "@/app/blocknote-portfolio/utils/documentStore";
+import { getSnapshotStore } from "@/app/blocknote-portfolio/utils/snapshotStore";
+
+type RouteContext = { params: Promise<{ id: string; snapshotId: string }> };
+
+/**
+ * Returns the snapshot with its content, or 404 if it does not exist.
+ */
+export async function GET(_request: Request, context: RouteContext) {
+  const { id, snapshotId } = await context.params;
+  if (!isValidDocumentId(id) || !isValidDocumentId(snapshotId)) {
+    return NextResponse.json({ error: "Invalid snapshot id" }, { status: 400 });
+  }
+
+  try {
+    const snapshot = await getSnapshotStore().get(id, snapshotId);
+    if (!snapshot) {
+      return NextResponse.json({ error: "Snapshot not found" }, { status: 404 });
+    }
+    return NextResponse.json(snapshot);
+  } catch (error) {
+    console.error("❌ Failed to load snapshot:", error);
+    return NextResponse.json({ error: "Failed to load snapshot" }, { status: 500 });
+  }
+}
+
+/**
+ * Deletes the snapshot. Deleting a missing snapshot is not an error.
+ */
+export async function DELETE(_request: Request, context: RouteContext) {
+  const { id, snapshotId } = await context.params;
+  if (!isValidDocumentId(id) || !isValidDocumentId(snapshotId)) {
+    return NextResponse.json({ error: "Invalid snapshot id" }, { status: 400 });
+  }
+
+  try {
+    const deleted = await getSnapshotStore().delete(id, snapshotId);
+    return NextResponse.json({ deleted });
+  } catch (error) {
+    console.error("❌ Failed to delete snapshot:", error);
+    return NextResponse.json({ error: "Failed to delete snapshot" }, { status: 500 });
+  }
+}
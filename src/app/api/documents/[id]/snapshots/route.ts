@@ -0,0 +1,123 @@
+// ============================================================================
+// Document Snapshots API Route
+// ============================================================================
+// Version history for a single portfolio document:
+// - GET  /api/documents/:id/snapshots → list snapshot summaries (newest first)
+// - POST /api/documents/:id/snapshots → take a snapshot of posted content
+// ============================================================================
+
+import { NextResponse } from "next/server";
+import {
+  getDocumentStore,
+  isValidDocumentId,
+} from "@/app/blocknote-portfolio/utils/documentStore";
+import {
+  CURRENT_SCHEMA_VERSION,
+  readEnvelope,
+} from "@/app/blocknote-portfolio/utils/schemaMigrations";
+import { repairContent } from "@/app/blocknote-portfolio/utils/documentValidation";
+import {
+  addSnapshot,
+  getSnapshotStore,
+} from "@/app/blocknote-portfolio/utils/snapshotStore";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * Checks that a request body field is a JSON object (not an array or null).
+ */
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * Lists the snapshots of a document without their content.
+ */
+export async function GET(_request: Request, context: RouteContext) {
+  const { id } = await context.params;
+  if (!isValidDocumentId(id)) {
+    return NextResponse.json({ error: "Invalid document id" }, { status: 400 });
+  }
+
+  try {
+    const snapshots = await getSnapshotStore().list(id);
+    return NextResponse.json({ snapshots });
+  } catch (error) {
+    console.error("❌ Failed to list snapshots:", error);
+    return NextResponse.json({ error: "Failed to list snapshots" }, { status: 500 });
+  }
+}
+
+/**
+ * Stores a snapshot of the `document` and `nestedContent` in the request
+ * body. `kind` is "auto" or "manual" (default); `name` labels the snapshot.
+ * Malformed blocks are repaired rather than rejected, like when saving the
+ * document, so safety snapshots of a repaired document still succeed; the
+ * response lists the `issues` found. Documents that aren't stored get 404.
+ */
+export async function POST(request: Request, context: RouteContext) {
+  const { id } = await context.params;
+  if (!isValidDocumentId(id)) {
+    return NextResponse.json({ error: "Invalid document id" }, { status: 400 });
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Request body must be JSON" }, { status: 400 });
+  }
+
+  if (!isPlainObject(body) || !Array.isArray(body.document)) {
+    return NextResponse.json(
+      { error: "Request body must contain a document array" },
+      { status: 400 }
+    );
+  }
+
+  const envelope = readEnvelope({
+    schemaVersion:
+      typeof body.schemaVersion === "number"
+        ? body.schemaVersion
+        : CURRENT_SCHEMA_VERSION,
+    savedAt: null,
+    document: body.document,
+    nestedContent: isPlainObject(body.nestedContent) ? body.nestedContent : {},
+  });
+  if (!envelope) {
+    return NextResponse.json(
+      { error: "Document schema version is not supported" },
+      { status: 422 }
+    );
+  }
+
+  const { content, issues } = repairContent(envelope);
+  if (issues.length > 0) {
+    console.warn(`⚠️ Repaired ${issues.length} problem(s) in a snapshot of document ${id}`);
+  }
+
+  const kind = body.kind === "auto" ? "auto" : "manual";
+  const name =
+    typeof body.name === "string" && body.name.trim()
+      ? body.name.trim()
+      : kind === "auto"
+      ? "Auto-save"
+      : "Snapshot";
+
+  try {
+    // History only belongs to stored documents
+    if (!(await getDocumentStore().get(id))) {
+      return NextResponse.json({ error: "Document not found" }, { status: 404 });
+    }
+    const snapshot = await addSnapshot(getSnapshotStore(), id, {
+      name,
+      kind,
+      document: content.document,
+      nestedContent: content.nestedContent,
+    });
+    return NextResponse.json({ ...snapshot, issues }, { status: 201 });
+  } catch (error) {
+    console.error("❌ Failed to save snapshot:", error);
+    return NextResponse.json({ error: "Failed to save snapshot" }, { status: 500 });
+  }
+}
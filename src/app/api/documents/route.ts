@@ -0,0 +1,97 @@
+// ============================================================================
+// Document Collection API Route
+// ============================================================================
+// REST endpoints for the collection of portfolio documents:
+// - GET  /api/documents → list document summaries (newest first)
+// - POST /api/documents → create a new document with a generated id
+// ============================================================================
+
+import { randomUUID } from "crypto";
+import { NextResponse } from "next/server";
+import {
+  DEFAULT_DOCUMENT_NAME,
+  getDocumentStore,
+} from "@/app/blocknote-portfolio/utils/documentStore";
+import {
+  CURRENT_SCHEMA_VERSION,
+  readEnvelope,
+} from "@/app/blocknote-portfolio/utils/schemaMigrations";
+import { repairContent } from "@/app/blocknote-portfolio/utils/documentValidation";
+
+/**
+ * Lists all stored documents without their content.
+ */
+export async function GET() {
+  try {
+    const documents = await getDocumentStore().list();
+    return NextResponse.json({ documents });
+  } catch (error) {
+    console.error("❌ Failed to list documents:", error);
+    return NextResponse.json({ error: "Failed to list documents" }, { status: 500 });
+  }
+}
+
+/**
+ * Creates a document from an optional `name`, `document` and `nestedContent`
+ * in the request body. Used both for new blank documents and for duplicates. Documents sent
+ * with an older `schemaVersion` are upgraded before saving, and malformed blocks
+ * are repaired; the response lists the `issues` found.
+ */
+export async function POST(request: Request) {
+  let body: any = {};
+  try {
+    body = await request.json();
+  } catch {
+    // An empty body creates a blank, default-named document
+  }
+
+  if (body?.document !== undefined && !Array.isArray(body.document)) {
+    return NextResponse.json(
+      { error: "document must be an array when provided" },
+      { status: 400 }
+    );
+  }
+
+  const name =
+    typeof body?.name === "string" && body.name.trim()
+      ? body.name.trim()
+      : DEFAULT_DOCUMENT_NAME;
+
+  const envelope = readEnvelope({
+    schemaVersion:
+      typeof body?.schemaVersion === "number"
+        ? body.schemaVersion
+        : CURRENT_SCHEMA_VERSION,
+    savedAt: null,
+    document: body?.document ?? [],
+    nestedContent:
+      body?.nestedContent &&
+      typeof body.nestedContent === "object" &&
+      !Array.isArray(body.nestedContent)
+        ? body.nestedContent
+        : {},
+  });
+  if (!envelope) {
+    return NextResponse.json(
+      { error: "Document schema version is not supported" },
+      { status: 422 }
+    );
+  }
+
+  const { content, issues } = repairContent(envelope);
+  if (issues.length > 0) {
+    console.warn(`⚠️ Repaired ${issues.length} problem(s) in a new document`);
+  }
+
+  try {
+    const stored = await getDocumentStore().put(randomUUID(), {
+      name,
+      document: content.document,
+      nestedContent: content.nestedContent,
+    });
+    return NextResponse.json({ ...stored, issues }, { status: 201 });
+  } catch (error) {
+    console.error("❌ Failed to create document:", error);
+    return NextResponse.json({ error: "Failed to create document" }, { status: 500 });
+  }
+}
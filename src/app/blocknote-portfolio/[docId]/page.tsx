@@ -0,0 +1,14 @@
+"use client";
+
+import { useParams } from "next/navigation";
+import { PortfolioWorkspace } from "../components/PortfolioWorkspace";
+
+/**
+ * Opens a specific portfolio document by id, e.g. /blocknote-portfolio/abc123
+ */
+export default function BlockNotePortfolioDocumentPage() {
+  // Typed as nullable because the app also has Pages Router API routes;
+  // it is always set on this App Router page
+  const params = useParams<{ docId: string }>();
+  return <PortfolioWorkspace docId={decodeURIComponent(params?.docId ?? "")} />;
+}
@@ -8,6 +8,11 @@
 // 1. Schema extension with custom blocks
 // 2. Custom slash menu integration
 // 3. Suggestion menu controller setup
+// 4. Multi-column layouts (slash items and drag-to-create columns)
+// 5. Real-time collaboration, when a collaboration server is configured
+// 6. Comment threads on text and blocks
+// 7. Suggestion mode: edits proposed as tracked changes, then accepted or
+//    rejected
 // ============================================================================
 
 // BlockNote core styles and fonts
@@ -22,12 +27,35 @@ import {
   getDefaultReactSlashMenuItems,
   DefaultReactSuggestionItem,
 } from "@blocknote/react";
-import { filterSuggestionItems, insertOrUpdateBlock } from "@blocknote/core";
-import { useEffect, useState } from "react";
+import {
+  combineByGroup,
+  filterSuggestionItems,
+  insertOrUpdateBlock,
+} from "@blocknote/core";
+import { getMultiColumnSlashMenuItems } from "@blocknote/xl-multi-column";
+import { useEffect, useMemo, useRef, useState, useSyncExternalStore } from "react";
+
+// BlockNote schema with our custom blocks
+import {
+  multiColumnOptions,
+  schema,
+  type BlockOfType,
+  type PartialPortfolioBlock,
+  type PortfolioBlock,
+  type PortfolioEditor,
+} from "./schema";
+import { HistoryPanel } from "./HistoryPanel";
+import { ProjectGallery } from "./ProjectGallery";
+import { PdfExportDialog } from "./PdfExportDialog";
+import { CollaborationPresence } from "./CollaborationPresence";
+import { CommentsPanel } from "./CommentsPanel";
+import { CommentSideMenu } from "./CommentSideMenu";
+import { SuggestionsPanel } from "./SuggestionsPanel";
 
-// BlockNote schema and block specifications
-import { BlockNoteSchema, defaultBlockSpecs } from "@blocknote/core";
-import { ProjectCard } from "./blocks/ProjectCard";
+/**
+ * How often an automatic snapshot is taken while the document is being edited
+ */
+const AUTO_SNAPSHOT_INTERVAL_MS = 5 * 60 * 1000;
 
 // Storage utilities for persistence
 import {
@@ -35,6 +63,62 @@ import {
   loadEditorContent,
   clearEditorContent,
 } from "../utils/storage";
+import {
+  fetchDocument,
+  saveDocument,
+  createSnapshot,
+} from "../utils/documentApi";
+import {
+  attachNestedContentStore,
+  type NestedContentTable,
+} from "../utils/nestedContent";
+import {
+  attachCollaboration,
+  collaborationOptions,
+  createCollaborationSession,
+  isCollaborationEnabled,
+  joinSharedDocument,
+  type CollaborationSession,
+} from "../utils/collaboration";
+import { emptyCommentTable, type CommentTable } from "../utils/comments";
+import {
+  applyCommentRanges,
+  attachCommentThreads,
+  createCommentThreads,
+  getCommentRanges,
+  promptForBlockThread,
+  releaseCommentStore,
+} from "../utils/commentThreads";
+import {
+  emptySuggestionTable,
+  hasPendingSuggestions,
+  resolveSuggestedContent,
+  type SuggestionTable,
+} from "../utils/suggestions";
+import {
+  applySuggestionMarks,
+  attachReviewSuggestions,
+  collectSuggestionMarks,
+  createReviewSuggestions,
+  createSuggestionExtension,
+  trackSuggestedChanges,
+} from "../utils/suggestionMode";
+import { requestOpenCard } from "../utils/cardNavigation";
+import { listAssets, uploadFile } from "../utils/assetApi";
+import {
+  defaultExportOptions,
+  pdfFilename,
+  type ExportOptions,
+} from "../utils/exportOptions";
+import { documentToMarkdown, markdownToDocument } from "../utils/markdown";
+import { documentToHtmlBundle } from "../utils/htmlExport";
+import { readPortfolioFile, serializePortfolioFile } from "../utils/portfolioFile";
+import {
+  formatValidationIssues,
+  repairContent,
+} from "../utils/documentValidation";
+import { dateStamp, downloadBlob } from "../utils/download";
+import type { EditorContent } from "../utils/schemaMigrations";
 
 /**
  * BlockNoteEditor Component
@@ -42,80 +126,366 @@ import {
  * A rich text editor built with BlockNote that includes a custom ProjectCard block.
  * Users can insert project cards through the slash menu by typing '/project'.
  *
+ * @param {Object} props - Component props
+ * @param {string} props.docId - Id of the document to load and auto-save
  * @returns {JSX.Element} The BlockNote editor with custom block support
  */
-export default function BlockNoteEditor() {
-  // --------------------------------------------------------------------------
-  // Schema Configuration
-  // --------------------------------------------------------------------------
-  // Extend the default BlockNote schema to include our custom ProjectCard block.
-  // The schema defines all available block types and their behaviors.
-  const schema = BlockNoteSchema.create({
-    blockSpecs: {
-      ...defaultBlockSpecs, // Include all default blocks (paragraph, heading, etc.)
-      projectCard: ProjectCard, // Add our custom ProjectCard block
-    },
-  });
-
+export default function BlockNoteEditor({ docId }: { docId: string }) {
   // --------------------------------------------------------------------------
   // Editor Instance Creation with Persistence
   // --------------------------------------------------------------------------
   // Default content to use when no saved content exists or loading fails
-  const defaultContent = [
+  const defaultContent: PartialPortfolioBlock[] = [
     { type: "paragraph", content: "Press '/' and type: project" },
     { type: "paragraph", content: "" },
   ];
 
-  // Load saved content from localStorage if available, otherwise use default content.
-  let savedContent = loadEditorContent();
+  // Content the editor is created with. `undefined` while the document is
+  // still being fetched from the server.
+  const [loadedContent, setLoadedContent] = useState<{
+    document: PartialPortfolioBlock[];
+    nestedContent: NestedContentTable;
+    comments: CommentTable;
+    suggestions: SuggestionTable;
+  }>();
+  const initialContent = loadedContent?.document;
 
-  // Additional validation: ensure savedContent is a valid non-empty array
-  if (
-    savedContent &&
-    (!Array.isArray(savedContent) || savedContent.length === 0)
-  ) {
-    console.warn("⚠️ Invalid saved content detected, using default content");
-    savedContent = null;
-  }
+  /**
+   * Load the document from the server API. If the server is unreachable,
+   * fall back to the copy kept in localStorage so the editor still works
+   * offline. If the server doesn't have the document yet (portfolios saved
+   * before the server existed live only in localStorage), the localStorage
+   * copy is used and uploaded. The default content is only used when
+   * neither has the document.
+   */
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      const remote = await fetchDocument(docId);
+      const found = remote.ok && remote.exists;
+      const local = found ? null : loadEditorContent(docId);
+
+      if (remote.ok && !remote.exists && local) {
+        const uploaded = await saveDocument(
+          docId,
+          local.document,
+          local.nestedContent,
+          local.comments,
+          local.suggestions
+        );
+        if (uploaded) {
+          console.log("✅ Uploaded the localStorage copy of the document to the server");
+        }
+      }
+
+      // Malformed blocks are repaired rather than handed to BlockNote, which
+      // would fail to open the whole document. Only a stored server copy is
+      // checked here: the localStorage copy comes repaired from
+      // loadEditorContent, and a document nobody has saved has nothing to
+      // repair.
+      const repaired =
+        found && remote.document
+          ? repairContent({ document: remote.document, nestedContent: remote.nestedContent })
+          : null;
+      if (repaired && repaired.issues.length > 0) {
+        console.warn("⚠️ Repaired malformed saved content:", repaired.issues);
+        alert(
+          `⚠️ The saved document had ${repaired.issues.length} problem(s), which were repaired:\n\n${formatValidationIssues(repaired.issues)}`
+        );
+      }
+
+      const content = found
+        ? {
+            document: repaired?.content.document,
+            nestedContent: repaired?.content.nestedContent ?? {},
+            comments: remote.comments,
+            suggestions: remote.suggestions,
+          }
+        : local;
+
+      if (!cancelled) {
+        // A new (empty) document starts with the default content
+        const document = content?.document;
+        setLoadedContent({
+          document: document && document.length > 0 ? document : defaultContent,
+          nestedContent: content?.nestedContent ?? {},
+          comments: content?.comments ?? emptyCommentTable(),
+          suggestions: content?.suggestions ?? emptySuggestionTable(),
+        });
+      }
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // --------------------------------------------------------------------------
+  // Collaboration
+  // --------------------------------------------------------------------------
+  // When a collaboration server is configured, the document is shared with
+  // everyone who has it open (see utils/collaboration.ts)
+  const isCollaborative = isCollaborationEnabled();
+  const [collaboration, setCollaboration] = useState<CollaborationSession | null>(null);
+  const [isSynced, setIsSynced] = useState(false);
+
+  /**
+   * Connect to the document's room on the collaboration server
+   */
+  useEffect(() => {
+    if (!isCollaborative) return;
+
+    const session = createCollaborationSession(docId);
+    const handleSync = (synced: boolean) => {
+      if (synced) setIsSynced(true);
+    };
+    session.provider.on("sync", handleSync);
+    setCollaboration(session);
+
+    return () => {
+      session.provider.off("sync", handleSync);
+      session.destroy();
+      setCollaboration(null);
+      setIsSynced(false);
+    };
+  }, [isCollaborative, docId]);
+
+  // Editing starts once the document is loaded and, when collaborating, the
+  // shared state has arrived from the server
+  const isReady = Boolean(initialContent) && (!isCollaborative || isSynced);
+
+  // Comment threads of the document, shared by the main editor and the
+  // ProjectCard nested editors (see utils/commentThreads.ts)
+  const commentThreads = useMemo(
+    () => createCommentThreads(loadedContent?.comments),
+    [loadedContent]
+  );
+
+  // Pending suggestions and suggestion mode, likewise shared (see
+  // utils/suggestionMode.ts)
+  const reviewSuggestions = useMemo(
+    () => createReviewSuggestions(loadedContent?.suggestions),
+    [loadedContent]
+  );
 
   // Initialize the BlockNote editor with our custom schema and initial content.
-  // The editor instance is created once and remains stable across re-renders.
-  const editor = useCreateBlockNote({
-    schema, // Use our extended schema with custom blocks
-    initialContent: savedContent || defaultContent,
+  // The editor is recreated once the loaded content (or the collaboration
+  // session) arrives and then remains stable across re-renders. A shared
+  // editor starts empty and gets its content from the shared state instead.
+  const editor = useCreateBlockNote(
+    {
+      schema, // Use our extended schema with custom blocks
+      ...multiColumnOptions, // Column drop cursor and translations
+      uploadFile, // Store dropped/pasted images in the local asset store
+      // Every editor gets a store of its own, released when it is replaced
+      comments: { threadStore: commentThreads.createStore(null) },
+      resolveUsers: commentThreads.resolveUsers,
+      // Shows suggested changes
+      extensions: [createSuggestionExtension()],
+      ...(collaboration
+        ? { collaboration: collaborationOptions(collaboration, collaboration.fragment) }
+        : { initialContent: isCollaborative ? undefined : initialContent }),
+    },
+    [initialContent, collaboration, commentThreads]
+  );
+
+  // ProjectCard nested documents live in a store attached to the editor
+  // instance; seed it from the loaded side table whenever the editor is
+  // (re)created. This runs during render so cards can read it immediately.
+  const nestedContentStore = useMemo(() => {
+    attachCollaboration(editor, collaboration);
+    attachCommentThreads(editor, commentThreads);
+    attachReviewSuggestions(editor, reviewSuggestions);
+    // Before the editor is mounted, so edits by the user go through it
+    trackSuggestedChanges(editor, reviewSuggestions);
+    return attachNestedContentStore(editor, loadedContent?.nestedContent ?? {});
+  }, [editor, loadedContent, collaboration, commentThreads, reviewSuggestions]);
+
+  /**
+   * Mark the commented text and the suggested changes of the loaded
+   * document. A shared document gets its marks from the shared state instead.
+   */
+  useEffect(() => {
+    if (!isCollaborative) {
+      applyCommentRanges(editor, commentThreads, commentThreads.getRanges(null));
+      applySuggestionMarks(editor, reviewSuggestions.getMarks(null));
+    }
+    return () => releaseCommentStore(editor);
+  }, [editor, commentThreads, reviewSuggestions, isCollaborative]);
+
+  /**
+   * Join the shared document once it has synced: the first person to open
+   * it shares the loaded content, everyone else gets what's already shared.
+   * Runs after the editor has been mounted below.
+   */
+  useEffect(() => {
+    if (!collaboration || !isSynced || !loadedContent) return;
+    return joinSharedDocument(
+      editor,
+      collaboration,
+      nestedContentStore,
+      commentThreads,
+      reviewSuggestions,
+      loadedContent
+    );
+  }, [
+    editor,
+    collaboration,
+    isSynced,
+    loadedContent,
+    nestedContentStore,
+    commentThreads,
+    reviewSuggestions,
+  ]);
+
+  /**
+   * Returns the current main document and the nested documents of the
+   * ProjectCards it contains, ready to persist.
+   */
+  const snapshotContent = (): EditorContent => ({
+    document: editor.document,
+    nestedContent: nestedContentStore.toTable(editor.document),
   });
 
+  /**
+   * Returns the document's comment threads, with the commented text of the
+   * main document as it is now, ready to persist.
+   */
+  const snapshotComments = (): CommentTable => {
+    commentThreads.setRanges(null, getCommentRanges(editor));
+    return commentThreads.toTable();
+  };
+
+  /**
+   * Returns the document's pending suggestions, with those in the main
+   * document as it is now, ready to persist.
+   */
+  const snapshotSuggestions = (): SuggestionTable => {
+    reviewSuggestions.setMarks(null, collectSuggestionMarks(editor));
+    return reviewSuggestions.toTable();
+  };
+
+  /**
+   * Returns a plain, valid copy of the current content for the exporters;
+   * anything they couldn't handle is left out. Pending suggestions are
+   * rejected, or accepted if the user asks, so suggested deletions don't
+   * show up as text.
+   */
+  const exportContent = (): EditorContent => {
+    const suggestions = snapshotSuggestions();
+    const accept =
+      hasPendingSuggestions(suggestions) &&
+      confirm(
+        "This document has pending suggestions. Export it with them accepted?\n\n" +
+          "Cancel exports it without them."
+      );
+    const resolved = resolveSuggestedContent(snapshotContent(), suggestions, accept);
+    const { content, issues } = repairContent(resolved);
+    if (issues.length > 0) {
+      console.warn("⚠️ Skipped malformed content in export:", issues);
+    }
+    return content;
+  };
+
   // --------------------------------------------------------------------------
   // Auto-Save Functionality
   // --------------------------------------------------------------------------
   /**
-   * Auto-save editor content to localStorage whenever it changes.
-   * Debounced to avoid excessive saves during rapid typing.
+   * Auto-save editor content to the server whenever it (or a ProjectCard's
+   * nested document, a comment thread or a suggestion) changes, mirroring it to
+   * localStorage as an offline fallback. Debounced to avoid excessive saves
+   * during rapid typing.
    */
   useEffect(() => {
-    if (!editor) return;
+    if (!editor || !isReady) return;
 
     let timeoutId: NodeJS.Timeout;
 
     const handleChange = () => {
-      // Debounce saves by 1 second to avoid excessive localStorage writes
+      // Debounce saves by 1 second to avoid excessive writes
       clearTimeout(timeoutId);
       timeoutId = setTimeout(() => {
-        saveEditorContent(editor.document);
+        const document = editor.document;
+        const nestedContent = nestedContentStore.toTable(document);
+        const comments = commentThreads.toTable();
+        const suggestions = reviewSuggestions.toTable();
+        saveEditorContent(document, docId, nestedContent, comments, suggestions);
+        saveDocument(docId, document, nestedContent, comments, suggestions);
       }, 1000);
     };
 
-    // Subscribe to editor changes
-    const unsubscribe = editor.onChange(handleChange);
+    // Edits move, split and delete commented text and suggested changes;
+    // keep their ranges current
+    const handleEditorChange = () => {
+      commentThreads.setRanges(null, getCommentRanges(editor));
+      reviewSuggestions.setMarks(null, collectSuggestionMarks(editor));
+      handleChange();
+    };
+
+    // Switching suggestion mode changes nothing to save
+    const handleSuggestionsChange = (key: string | null) => {
+      if (key !== null) handleChange();
+    };
+
+    // Subscribe to editor, nested content, comment and suggestion changes
+    const unsubscribe = editor.onChange(handleEditorChange);
+    const unsubscribeNested = nestedContentStore.subscribe(handleChange);
+    const unsubscribeComments = commentThreads.subscribe(handleChange);
+    const unsubscribeSuggestions = reviewSuggestions.subscribe(handleSuggestionsChange);
 
     // Cleanup
     return () => {
       clearTimeout(timeoutId);
+      unsubscribeNested();
+      unsubscribeComments();
+      unsubscribeSuggestions();
       if (unsubscribe) {
         unsubscribe();
       }
     };
-  }, [editor]);
+  }, [editor, isReady, nestedContentStore, commentThreads, reviewSuggestions, docId]);
+
+  /**
+   * Periodically snapshot the document into its version history, skipping
+   * intervals in which nothing changed.
+   */
+  useEffect(() => {
+    if (!editor || !isReady) return;
+
+    let isDirty = false;
+    const markDirty = () => {
+      isDirty = true;
+    };
+
+    const unsubscribe = editor.onChange(markDirty);
+    const unsubscribeNested = nestedContentStore.subscribe(markDirty);
+
+    const intervalId = setInterval(() => {
+      if (!isDirty) return;
+      isDirty = false;
+      createSnapshot(
+        docId,
+        {
+          document: editor.document,
+          nestedContent: nestedContentStore.toTable(editor.document),
+        },
+        "Auto-save",
+        "auto"
+      );
+    }, AUTO_SNAPSHOT_INTERVAL_MS);
+
+    return () => {
+      clearInterval(intervalId);
+      unsubscribeNested();
+      if (unsubscribe) {
+        unsubscribe();
+      }
+    };
+  }, [editor, isReady, nestedContentStore, docId]);
 
   // --------------------------------------------------------------------------
   // Save/Load Control Functions
@@ -123,11 +493,29 @@ export default function BlockNoteEditor() {
   /**
    * Manually save current editor content
    */
-  const handleManualSave = () => {
+  const handleManualSave = async () => {
     if (editor) {
-      const success = saveEditorContent(editor.document);
-      if (success) {
+      const { document, nestedContent } = snapshotContent();
+      const comments = snapshotComments();
+      const suggestions = snapshotSuggestions();
+      const savedLocally = saveEditorContent(
+        document,
+        docId,
+        nestedContent,
+        comments,
+        suggestions
+      );
+      const savedRemotely = await saveDocument(
+        docId,
+        document,
+        nestedContent,
+        comments,
+        suggestions
+      );
+      if (savedRemotely) {
         alert("✅ Content saved successfully!");
+      } else if (savedLocally) {
+        alert("⚠️ Server unavailable, content saved locally only");
       } else {
         alert("❌ Failed to save content");
       }
@@ -137,126 +525,192 @@ export default function BlockNoteEditor() {
   /**
    * Clear all saved content and reset editor
    */
-  const handleClear = () => {
+  const handleClear = async () => {
     if (
       confirm(
-        "Are you sure you want to clear all content? This cannot be undone."
+        "Are you sure you want to clear all content? The current version will be kept in History."
       )
     ) {
-      clearEditorContent();
+      // Keep the current content restorable from the version history
+      await createSnapshot(docId, snapshotContent(), "Before Clear All", "auto");
+      clearEditorContent(docId);
+      // A shared document is cleared for everyone editing it; reloading
+      // would only bring the shared content back
+      if (collaboration) {
+        editor.replaceBlocks(editor.document, [{ type: "paragraph" }]);
+        return;
+      }
+      // Save an empty document rather than deleting it so the document keeps
+      // its name and place in the document switcher
+      await saveDocument(docId, []);
       // Reload the page to reset the editor
       window.location.reload();
     }
   };
 
+  // --------------------------------------------------------------------------
+  // Version History
+  // --------------------------------------------------------------------------
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+
+  /**
+   * Replace the whole document (e.g. a restore or an import), snapshotting
+   * the current version first so the replacement itself can be undone.
+   *
+   * @param {EditorContent} content - The new document and nested documents
+   * @param {string} snapshotName - Label for the safety snapshot
+   */
+  const replaceContent = async (
+    content: EditorContent,
+    snapshotName: string
+  ) => {
+    await createSnapshot(docId, snapshotContent(), snapshotName, "auto");
+
+    // Write nested documents first so restored cards find their content
+    Object.entries(content.nestedContent).forEach(([blockId, nested]) =>
+      nestedContentStore.set(blockId, nested)
+    );
+    editor.replaceBlocks(
+      editor.document,
+      content.document.length > 0 ? content.document : [{ type: "paragraph" }]
+    );
+  };
+
+  /**
+   * Restore a snapshot from the version history
+   */
+  const handleRestore = (content: EditorContent) =>
+    replaceContent(content, "Before restore");
+
+  /**
+   * Restore one ProjectCard's nested document. A card that no longer exists
+   * in the document is re-inserted at the end.
+   */
+  const handleRestoreCard = (
+    card: BlockOfType<"projectCard">,
+    nestedDocument: PortfolioBlock[]
+  ) => {
+    nestedContentStore.set(card.id, nestedDocument);
+    if (!editor.getBlock(card.id)) {
+      const lastBlock = editor.document[editor.document.length - 1];
+      editor.insertBlocks([card], lastBlock, "after");
+    }
+  };
+
+  // --------------------------------------------------------------------------
+  // Comments
+  // --------------------------------------------------------------------------
+  const [isCommentsOpen, setIsCommentsOpen] = useState(false);
+
+  // Open threads about the main document, shown on the toolbar button
+  const openCommentCount = useSyncExternalStore(
+    commentThreads.subscribe,
+    () => commentThreads.countOpen(null),
+    () => 0
+  );
+
+  /**
+   * Start a thread about a whole block, from its side menu
+   */
+  const handleCommentOnBlock = (block: { id: string }) => {
+    if (promptForBlockThread(commentThreads, block.id, null)) {
+      setIsCommentsOpen(true);
+    }
+  };
+
+  // --------------------------------------------------------------------------
+  // Suggested Changes
+  // --------------------------------------------------------------------------
+  const [isSuggestionsOpen, setIsSuggestionsOpen] = useState(false);
+
+  // Whether edits are suggested, for the toolbar toggle
+  const isSuggesting = useSyncExternalStore(
+    reviewSuggestions.subscribe,
+    reviewSuggestions.isSuggesting,
+    () => false
+  );
+
+  // Pending suggestions in the main document, shown on the toolbar button
+  const pendingSuggestionCount = useSyncExternalStore(
+    reviewSuggestions.subscribe,
+    () => reviewSuggestions.countPending(null),
+    () => 0
+  );
+
+  // --------------------------------------------------------------------------
+  // Project Gallery
+  // --------------------------------------------------------------------------
+  // Content shown in the gallery; null while the editor view is active
+  const [galleryContent, setGalleryContent] = useState<EditorContent | null>(
+    null
+  );
+
+  /**
+   * Switch between the editor and the gallery of all ProjectCards
+   */
+  const handleToggleGallery = () => {
+    setGalleryContent(galleryContent ? null : snapshotContent());
+  };
+
+  /**
+   * Return to the editor, then scroll to a card and open its modal
+   */
+  const handleOpenCardFromGallery = (blockId: string) => {
+    setGalleryContent(null);
+    // Wait for the editor to be shown again so the card can be scrolled to
+    requestAnimationFrame(() =>
+      requestOpenCard(editor, editor.domElement, blockId)
+    );
+  };
+
   // --------------------------------------------------------------------------
   // PDF Export Functionality
   // --------------------------------------------------------------------------
   const [isExporting, setIsExporting] = useState(false);
 
+  // Options of the last PDF export, offered again the next time
+  const [pdfOptions, setPdfOptions] = useState<ExportOptions>(defaultExportOptions);
+  const [isPdfDialogOpen, setIsPdfDialogOpen] = useState(false);
+
   /**
    * Export editor content to PDF
    * Uses @react-pdf/renderer to generate a PDF from the editor document
+   *
+   * @param {ExportOptions} options - Options chosen in the export dialog
    */
-  const handleExportPDF = async () => {
+  const handleExportPDF = async (options: ExportOptions) => {
     if (!editor) return;
 
+    setIsPdfDialogOpen(false);
+    setPdfOptions(options);
     setIsExporting(true);
     try {
       // Dynamically import PDF libraries (client-side only)
       const { pdf } = await import("@react-pdf/renderer");
       const { PDFDocument } = await import("../utils/pdfExport");
 
-      // Get current document and sanitize it
-      const rawDocument = editor.document;
-      
-      // Deep clone to create plain JSON objects (removes methods, symbols, etc.)
-      let document;
-      try {
-        document = JSON.parse(JSON.stringify(rawDocument, (key, value) => {
-          // Filter out undefined, functions, and symbols
-          if (value === undefined || typeof value === 'function' || typeof value === 'symbol') {
-            return undefined;
-          }
-          // Remove any keys that start with special characters or are internal
-          if (typeof key === 'string' && (key.startsWith('_') || key.startsWith('$$'))) {
-            return undefined;
-          }
-          return value;
-        }));
-      } catch (e) {
-        throw new Error(`Failed to serialize document: ${e}`);
-      }
-      
-      // Validate document is an array
-      if (!Array.isArray(document)) {
-        throw new Error("Invalid document format: expected array");
-      }
-
-      // Recursively sanitize blocks to ensure they only contain serializable data
-      const sanitizeBlock = (block: any): any => {
-        if (!block || typeof block !== 'object') return null;
-        
-        const sanitized: any = {
-          type: block.type,
-        };
-        
-        // Only include known safe properties
-        if (block.id) sanitized.id = block.id;
-        if (block.content) sanitized.content = Array.isArray(block.content) ? block.content : [];
-        if (block.children) sanitized.children = Array.isArray(block.children) 
-          ? block.children.map(sanitizeBlock).filter(Boolean)
-          : [];
-        if (block.props && typeof block.props === 'object') {
-          sanitized.props = {};
-          // Copy primitive values and strings (includes nestedContent which is stringified JSON)
-          for (const [key, value] of Object.entries(block.props)) {
-            if (value === null || ['string', 'number', 'boolean'].includes(typeof value)) {
-              sanitized.props[key] = value;
-            }
-          }
-        }
-        
-        return sanitized;
-      };
-
-      // Filter and sanitize all blocks
-      const validDocument = document
-        .filter((block) => block && typeof block === "object" && block.type)
-        .map(sanitizeBlock)
-        .filter(Boolean);
+      // Get current document (and ProjectCard nested documents)
+      const { document: validDocument, nestedContent } = exportContent();
 
       if (validDocument.length === 0) {
         alert("⚠️ No content to export. Please add some content first.");
         return;
       }
 
-      // Log ProjectCard blocks for debugging
-      const projectCards = validDocument.filter(b => b.type === 'projectCard');
-      if (projectCards.length > 0) {
-        console.log("ProjectCard blocks found:", projectCards.length);
-        console.log("ProjectCard data:", JSON.stringify(projectCards, null, 2));
-      }
-
       // Generate PDF document
-      const pdfDoc = <PDFDocument document={validDocument} title="My Portfolio" />;
+      const pdfDoc = (
+        <PDFDocument
+          document={validDocument}
+          nestedContent={nestedContent}
+          options={options}
+        />
+      );
 
       // Create blob
       const blob = await pdf(pdfDoc).toBlob();
 
-      // Create download link
-      const url = URL.createObjectURL(blob);
-      const link = window.document.createElement("a");
-      link.href = url;
-      link.download = `portfolio-${new Date().toISOString().split("T")[0]}.pdf`;
-
       // Trigger download
-      window.document.body.appendChild(link);
-      link.click();
-      window.document.body.removeChild(link);
-
-      // Cleanup
-      URL.revokeObjectURL(url);
+      downloadBlob(blob, pdfFilename(options.filename, `portfolio-${dateStamp()}.pdf`));
 
       alert("✅ PDF exported successfully!");
     } catch (error) {
@@ -267,6 +721,211 @@ export default function BlockNoteEditor() {
     }
   };
 
+  // --------------------------------------------------------------------------
+  // Publishing
+  // --------------------------------------------------------------------------
+
+  /**
+   * Save the latest content to the server and open the public share page
+   */
+  const handleShare = async () => {
+    const { document, nestedContent } = snapshotContent();
+    const savedRemotely = await saveDocument(
+      docId,
+      document,
+      nestedContent,
+      snapshotComments(),
+      snapshotSuggestions()
+    );
+    if (!savedRemotely) {
+      alert("❌ Could not save to the server, so the share page may be out of date");
+    }
+
+    const shareUrl = `${window.location.origin}/p/${docId}`;
+    try {
+      await navigator.clipboard.writeText(shareUrl);
+      console.log("✅ Share link copied:", shareUrl);
+    } catch {
+      console.warn("⚠️ Could not copy share link to clipboard");
+    }
+    window.open(shareUrl, "_blank", "noopener");
+  };
+
+  /**
+   * Download the document as a self-contained HTML page
+   */
+  const handleExportHtml = async () => {
+    setIsExporting(true);
+    try {
+      const html = await documentToHtmlBundle(exportContent(), "My Portfolio");
+      downloadBlob(
+        new Blob([html], { type: "text/html;charset=utf-8" }),
+        `portfolio-${dateStamp()}.html`
+      );
+    } catch (error) {
+      console.error("Failed to export HTML:", error);
+      alert(`❌ Failed to export HTML: ${error instanceof Error ? error.message : "Unknown error"}`);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  /**
+   * Download the document, with ProjectCards as titled sections, as a Word file
+   */
+  const handleExportDocx = async () => {
+    setIsExporting(true);
+    try {
+      // Loaded on demand, like the PDF renderer
+      const { documentToDocx } = await import("../utils/docxExport");
+      const blob = await documentToDocx(exportContent(), "My Portfolio");
+      downloadBlob(blob, `portfolio-${dateStamp()}.docx`);
+    } catch (error) {
+      console.error("Failed to export DOCX:", error);
+      alert(`❌ Failed to export Word document: ${error instanceof Error ? error.message : "Unknown error"}`);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  // --------------------------------------------------------------------------
+  // JSON Import/Export
+  // --------------------------------------------------------------------------
+  const jsonInputRef = useRef<HTMLInputElement>(null);
+
+  /**
+   * Export the document, nested card documents and a list of the assets
+   * they use as a portfolio JSON file
+   */
+  const handleExportJson = () => {
+    const json = serializePortfolioFile(exportContent(), "My Portfolio");
+    downloadBlob(
+      new Blob([json], { type: "application/json;charset=utf-8" }),
+      `portfolio-${dateStamp()}.json`
+    );
+  };
+
+  /**
+   * Replace the document with the contents of a chosen portfolio JSON file,
+   * after checking every block in it
+   */
+  const handleImportJson = async (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const file = event.target.files?.[0];
+    // Reset so choosing the same file again still fires a change event
+    event.target.value = "";
+    if (!file) return;
+
+    const text = await file.text();
+    let result = readPortfolioFile(text);
+
+    // Malformed blocks can be dropped or fixed instead of losing the file
+    if (!result.ok && result.issues.length > 0) {
+      console.warn("⚠️ JSON file has malformed blocks:", result.issues);
+      if (
+        !confirm(
+          `⚠️ ${result.error}:\n\n${formatValidationIssues(result.issues)}\n\nImport it anyway, dropping or fixing the malformed blocks?`
+        )
+      ) {
+        return;
+      }
+      result = readPortfolioFile(text, true);
+    }
+
+    if (!result.ok) {
+      console.error("❌ Failed to import JSON:", result.error, result.issues);
+      alert(
+        `❌ Failed to import JSON: ${result.error}${
+          result.issues.length > 0 ? `\n\n${formatValidationIssues(result.issues)}` : ""
+        }`
+      );
+      return;
+    }
+
+    if (
+      !confirm(
+        `Replace the current document with "${file.name}"? The current version will be kept in History.`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      await replaceContent(result.content, "Before JSON import");
+    } catch (error) {
+      console.error("Failed to import JSON:", error);
+      alert(`❌ Failed to import JSON: ${error instanceof Error ? error.message : "Unknown error"}`);
+      return;
+    }
+
+    // Uploaded files live on the server the file was exported from
+    const stored = await listAssets();
+    const storedNames = new Set((stored ?? []).map((asset) => asset.name));
+    const missing = stored
+      ? result.assets.filter((reference) => reference.asset && !storedNames.has(reference.asset))
+      : [];
+    if (missing.length > 0) {
+      alert(
+        `⚠️ JSON imported, but ${missing.length} uploaded file(s) it uses are not on this server:\n\n${missing
+          .map((reference) => `• ${reference.url}`)
+          .join("\n")}`
+      );
+    } else {
+      alert("✅ JSON imported successfully!");
+    }
+  };
+
+  // --------------------------------------------------------------------------
+  // Markdown Import/Export
+  // --------------------------------------------------------------------------
+  const markdownInputRef = useRef<HTMLInputElement>(null);
+
+  /**
+   * Export the document, including ProjectCard sections, as a Markdown file
+   */
+  const handleExportMarkdown = async () => {
+    try {
+      const markdown = await documentToMarkdown(editor, exportContent());
+      downloadBlob(
+        new Blob([markdown], { type: "text/markdown;charset=utf-8" }),
+        `portfolio-${dateStamp()}.md`
+      );
+    } catch (error) {
+      console.error("Failed to export Markdown:", error);
+      alert(`❌ Failed to export Markdown: ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+  };
+
+  /**
+   * Replace the document with the contents of a chosen Markdown file
+   */
+  const handleImportMarkdown = async (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const file = event.target.files?.[0];
+    // Reset so choosing the same file again still fires a change event
+    event.target.value = "";
+    if (!file) return;
+
+    if (
+      !confirm(
+        `Replace the current document with "${file.name}"? The current version will be kept in History.`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      const content = await markdownToDocument(editor, await file.text());
+      await replaceContent(content, "Before Markdown import");
+      alert("✅ Markdown imported successfully!");
+    } catch (error) {
+      console.error("Failed to import Markdown:", error);
+      alert(`❌ Failed to import Markdown: ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+  };
+
   // --------------------------------------------------------------------------
   // Custom Slash Menu Configuration
   // --------------------------------------------------------------------------
@@ -277,11 +936,11 @@ export default function BlockNoteEditor() {
    * This function returns a menu item configuration that appears in the slash menu
    * when users type '/' followed by 'project', 'projectcard', or 'card'.
    *
-   * @param {any} editorInstance - The BlockNote editor instance
+   * @param {PortfolioEditor} editorInstance - The BlockNote editor instance
    * @returns {DefaultReactSuggestionItem} The menu item configuration
    */
   const projectCardItem = (
-    editorInstance: any
+    editorInstance: PortfolioEditor
   ): DefaultReactSuggestionItem => ({
     title: "Project Card",
     subtext: "Create a project card (opens modal)",
@@ -295,31 +954,153 @@ export default function BlockNoteEditor() {
   });
 
   /**
-   * Combines default slash menu items with our custom ProjectCard item.
+   * Combines default slash menu items with the 2-/3-column layout items and
+   * our custom ProjectCard item.
    *
-   * @param {any} editorInstance - The BlockNote editor instance
+   * @param {PortfolioEditor} editorInstance - The BlockNote editor instance
    * @returns {DefaultReactSuggestionItem[]} Complete list of slash menu items
    */
-  const getCustomSlashMenuItems = (editorInstance: any) => [
-    ...getDefaultReactSlashMenuItems(editorInstance), // All default items (heading, bullet list, etc.)
+  const getCustomSlashMenuItems = (editorInstance: PortfolioEditor) => [
+    ...combineByGroup(
+      getDefaultReactSlashMenuItems(editorInstance), // All default items (heading, bullet list, etc.)
+      getMultiColumnSlashMenuItems(editorInstance) // "Two Columns" / "Three Columns"
+    ),
     projectCardItem(editorInstance), // Our custom ProjectCard item
   ];
 
   // --------------------------------------------------------------------------
   // Render
   // --------------------------------------------------------------------------
+  if (!isReady) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-gray-500">
+          {initialContent ? "Connecting to collaborators..." : "Loading document..."}
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="space-y-4">
+      {/* Who else is editing */}
+      {collaboration && <CollaborationPresence session={collaboration} />}
+
       {/* Control Buttons */}
-      <div className="flex gap-2 justify-end">
+      <div className="flex flex-wrap gap-2 justify-end">
         <button
-          onClick={handleExportPDF}
+          onClick={() => setIsPdfDialogOpen(true)}
           disabled={isExporting}
           className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 transition disabled:opacity-50 disabled:cursor-not-allowed"
-          title="Export content to PDF"
+          title="Export content to PDF (page size, theme, cover page, ...)"
         >
           {isExporting ? "📄 Exporting..." : "📄 Export PDF"}
         </button>
+        <button
+          onClick={handleExportMarkdown}
+          className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 transition"
+          title="Export content to Markdown"
+        >
+          📝 Export Markdown
+        </button>
+        <button
+          onClick={handleExportHtml}
+          disabled={isExporting}
+          className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 transition disabled:opacity-50 disabled:cursor-not-allowed"
+          title="Download a self-contained HTML page that can be hosted anywhere"
+        >
+          🌐 Download HTML
+        </button>
+        <button
+          onClick={handleExportDocx}
+          disabled={isExporting}
+          className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 transition disabled:opacity-50 disabled:cursor-not-allowed"
+          title="Download a Word document (.docx)"
+        >
+          📃 Export Word
+        </button>
+        <button
+          onClick={() => markdownInputRef.current?.click()}
+          className="px-4 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-700 transition"
+          title="Replace content with a Markdown file"
+        >
+          📥 Import Markdown
+        </button>
+        <input
+          ref={markdownInputRef}
+          type="file"
+          accept=".md,.markdown,text/markdown"
+          onChange={handleImportMarkdown}
+          className="hidden"
+        />
+        <button
+          onClick={handleExportJson}
+          className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 transition"
+          title="Export the full document, card contents and asset list as JSON"
+        >
+          🗂️ Export JSON
+        </button>
+        <button
+          onClick={() => jsonInputRef.current?.click()}
+          className="px-4 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-700 transition"
+          title="Replace content with a portfolio JSON file"
+        >
+          📥 Import JSON
+        </button>
+        <input
+          ref={jsonInputRef}
+          type="file"
+          accept=".json,application/json"
+          onChange={handleImportJson}
+          className="hidden"
+        />
+        <button
+          onClick={handleShare}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition"
+          title="Save and open the public read-only page (link is copied)"
+        >
+          🔗 Share
+        </button>
+        <button
+          onClick={handleToggleGallery}
+          className="px-4 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-700 transition"
+          title="Switch between the editor and a gallery of all project cards"
+        >
+          {galleryContent ? "📝 Editor" : "🗂️ Gallery"}
+        </button>
+        <button
+          onClick={() => setIsCommentsOpen(!isCommentsOpen)}
+          className="px-4 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-700 transition"
+          title="Show comment threads (select text and click 💬 to comment on it)"
+        >
+          💬 Comments{openCommentCount > 0 ? ` (${openCommentCount})` : ""}
+        </button>
+        <button
+          onClick={() => reviewSuggestions.setSuggesting(!isSuggesting)}
+          className={`px-4 py-2 rounded-md transition ${
+            isSuggesting
+              ? "bg-amber-500 text-white hover:bg-amber-600"
+              : "bg-gray-600 text-white hover:bg-gray-700"
+          }`}
+          title="Propose edits for the owner to accept or reject, instead of making them"
+          aria-pressed={isSuggesting}
+        >
+          ✍️ {isSuggesting ? "Suggesting" : "Suggest edits"}
+        </button>
+        <button
+          onClick={() => setIsSuggestionsOpen(!isSuggestionsOpen)}
+          className="px-4 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-700 transition"
+          title="Review suggested changes"
+        >
+          📝 Suggestions{pendingSuggestionCount > 0 ? ` (${pendingSuggestionCount})` : ""}
+        </button>
+        <button
+          onClick={() => setIsHistoryOpen(true)}
+          className="px-4 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-700 transition"
+          title="Browse and restore earlier versions"
+        >
+          🕘 History
+        </button>
         <button
           onClick={handleManualSave}
           className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition"
@@ -336,21 +1117,52 @@ export default function BlockNoteEditor() {
         </button>
       </div>
 
-      {/* Editor Container */}
-      <div className="min-h-[400px]">
+      {/* PDF Export Options Modal */}
+      {isPdfDialogOpen && (
+        <PdfExportDialog
+          initialOptions={pdfOptions}
+          defaultFilename={`portfolio-${dateStamp()}.pdf`}
+          onExport={handleExportPDF}
+          onClose={() => setIsPdfDialogOpen(false)}
+        />
+      )}
+
+      {/* Version History Modal */}
+      {isHistoryOpen && (
+        <HistoryPanel
+          docId={docId}
+          getCurrentContent={snapshotContent}
+          onRestore={handleRestore}
+          onRestoreCard={handleRestoreCard}
+          onClose={() => setIsHistoryOpen(false)}
+        />
+      )}
+
+      {/* Project Gallery */}
+      {galleryContent && (
+        <ProjectGallery
+          content={galleryContent}
+          onOpenCard={handleOpenCardFromGallery}
+        />
+      )}
+
+      {/* Editor Container (kept mounted while the gallery is shown) */}
+      <div className={galleryContent ? "hidden" : "min-h-[400px]"}>
         {/* 
           BlockNoteView renders the editor UI with the following configuration:
           - slashMenu={false}: Disables the default slash menu
+          - sideMenu={false}: Replaced by one with "Comment on block"
           - theme="light": Uses light theme styling
           - className="prose max-w-none": Applies Tailwind typography styles
           
-          Content is automatically saved to localStorage on change (with 1s debounce)
+          Content is automatically saved to the server and localStorage on change (with 1s debounce)
         */}
         <BlockNoteView
           editor={editor}
           theme="light"
           className="prose max-w-none"
           slashMenu={false} // Disable default menu to use our custom one
+          sideMenu={false}
         >
           {/* 
           SuggestionMenuController provides a custom slash menu implementation.
@@ -366,6 +1178,23 @@ export default function BlockNoteEditor() {
             }
             // Optional: minQueryLength={1} to require text after '/'
           />
+          <CommentSideMenu onComment={handleCommentOnBlock} />
+          {isCommentsOpen && (
+            <CommentsPanel
+              threads={commentThreads}
+              cardId={null}
+              title="Comments"
+              onClose={() => setIsCommentsOpen(false)}
+              className="fixed top-0 right-0 h-full w-96 z-40"
+            />
+          )}
+          {isSuggestionsOpen && (
+            <SuggestionsPanel
+              title="Suggested changes"
+              onClose={() => setIsSuggestionsOpen(false)}
+              className="fixed top-0 right-0 h-full w-96 z-40"
+            />
+          )}
         </BlockNoteView>
       </div>
     </div>
@@ -0,0 +1,111 @@
+"use client";
+
+// ============================================================================
+// Collaboration Presence Component
+// ============================================================================
+// Shows who is editing the document right now: the connection status and a
+// chip with the name and cursor colour of everyone connected, marking the
+// ProjectCard modal each of them has open.
+// ============================================================================
+
+import { useEffect, useState } from "react";
+
+import type {
+  CollaborationSession,
+  PresenceState,
+} from "../utils/collaboration";
+
+/**
+ * One connected client, as shown in the bar
+ */
+interface Collaborator {
+  clientId: number;
+  name: string;
+  color: string;
+  isSelf: boolean;
+  isInCard: boolean;
+}
+
+/**
+ * Reads the connected clients from the session's awareness, current user
+ * first.
+ */
+function readCollaborators(session: CollaborationSession): Collaborator[] {
+  const { awareness } = session.provider;
+  const collaborators: Collaborator[] = [];
+  awareness.getStates().forEach((state, clientId) => {
+    const { user, editingCard } = state as PresenceState;
+    if (!user) return;
+    collaborators.push({
+      clientId,
+      name: user.name,
+      color: user.color,
+      isSelf: clientId === awareness.clientID,
+      isInCard: Boolean(editingCard),
+    });
+  });
+  return collaborators.sort((a, b) => Number(b.isSelf) - Number(a.isSelf));
+}
+
+/**
+ * CollaborationPresence Component
+ *
+ * @param {Object} props - Component props
+ * @param {CollaborationSession} props.session - The document's session
+ * @returns {JSX.Element} The presence bar
+ */
+export function CollaborationPresence({
+  session,
+}: {
+  session: CollaborationSession;
+}) {
+  const [collaborators, setCollaborators] = useState<Collaborator[]>(() =>
+    readCollaborators(session)
+  );
+  const [isConnected, setIsConnected] = useState(session.provider.wsconnected);
+
+  useEffect(() => {
+    const { awareness } = session.provider;
+    const handleChange = () => setCollaborators(readCollaborators(session));
+    const handleStatus = ({ status }: { status: string }) =>
+      setIsConnected(status === "connected");
+
+    handleChange();
+    awareness.on("change", handleChange);
+    session.provider.on("status", handleStatus);
+    return () => {
+      awareness.off("change", handleChange);
+      session.provider.off("status", handleStatus);
+    };
+  }, [session]);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <span
+        className={isConnected ? "text-green-700" : "text-amber-700"}
+        title={
+          isConnected
+            ? "Changes are shared live"
+            : "Reconnecting; changes are shared once the connection is back"
+        }
+      >
+        {isConnected ? "🟢 Live" : "🟠 Reconnecting..."}
+      </span>
+      {collaborators.map((collaborator) => (
+        <span
+          key={collaborator.clientId}
+          className="flex items-center gap-1 rounded-full border px-2 py-0.5"
+          title={collaborator.isInCard ? "Editing a project card" : "Editing the document"}
+        >
+          <span
+            className="inline-block w-2.5 h-2.5 rounded-full"
+            style={{ backgroundColor: collaborator.color }}
+          />
+          {collaborator.name}
+          {collaborator.isSelf && <span className="text-gray-500">(you)</span>}
+          {collaborator.isInCard && <span aria-label="in a project card">🗂️</span>}
+        </span>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+"use client";
+
+// ============================================================================
+// Comment Side Menu
+// ============================================================================
+// BlockNote's side menu with a "Comment on block" item added to the drag
+// handle menu, next to the default items. Used by the main editor and the
+// ProjectCard nested editors (render it as a child of BlockNoteView with
+// `sideMenu={false}`).
+// ============================================================================
+
+import {
+  BlockColorsItem,
+  DragHandleMenu,
+  RemoveBlockItem,
+  SideMenu,
+  SideMenuController,
+  TableColumnHeaderItem,
+  TableRowHeaderItem,
+  useComponentsContext,
+  useDictionary,
+  type DragHandleMenuProps,
+} from "@blocknote/react";
+import type {
+  PortfolioBlock,
+  PortfolioBlockSchema,
+  PortfolioInlineContentSchema,
+  PortfolioStyleSchema,
+} from "./schema";
+
+type PortfolioDragHandleMenuProps = DragHandleMenuProps<
+  PortfolioBlockSchema,
+  PortfolioInlineContentSchema,
+  PortfolioStyleSchema
+>;
+
+/**
+ * The drag handle menu: BlockNote's default items plus "Comment on block"
+ */
+function CommentDragHandleMenu({
+  onComment,
+  ...props
+}: PortfolioDragHandleMenuProps & {
+  onComment: (block: PortfolioBlock) => void;
+}) {
+  const Components = useComponentsContext()!;
+  const dict = useDictionary();
+  // The header items are typed for a schema of tables only and read just the
+  // table's id and content, so they get the table without its child blocks
+  const table = props.block.type === "table" ? { ...props.block, children: [] } : null;
+
+  return (
+    <DragHandleMenu {...props}>
+      <RemoveBlockItem {...props}>{dict.drag_handle.delete_menuitem}</RemoveBlockItem>
+      <BlockColorsItem {...props}>{dict.drag_handle.colors_menuitem}</BlockColorsItem>
+      {table && (
+        <>
+          <TableRowHeaderItem block={table}>
+            {dict.drag_handle.header_row_menuitem}
+          </TableRowHeaderItem>
+          <TableColumnHeaderItem block={table}>
+            {dict.drag_handle.header_column_menuitem}
+          </TableColumnHeaderItem>
+        </>
+      )}
+      <Components.Generic.Menu.Item
+        className="bn-menu-item"
+        onClick={() => onComment(props.block)}
+      >
+        💬 Comment on block
+      </Components.Generic.Menu.Item>
+    </DragHandleMenu>
+  );
+}
+
+/**
+ * CommentSideMenu Component
+ *
+ * @param {Object} props - Component props
+ * @param {Function} props.onComment - Called with the block to comment on
+ * @returns {JSX.Element} The side menu controller
+ */
+export function CommentSideMenu({
+  onComment,
+}: {
+  onComment: (block: PortfolioBlock) => void;
+}) {
+  return (
+    <SideMenuController<PortfolioBlockSchema, PortfolioInlineContentSchema, PortfolioStyleSchema>
+      sideMenu={(props) => (
+        <SideMenu
+          {...props}
+          dragHandleMenu={(menuProps) => (
+            <CommentDragHandleMenu {...menuProps} onComment={onComment} />
+          )}
+        />
+      )}
+    />
+  );
+}
@@ -0,0 +1,200 @@
+"use client";
+
+// ============================================================================
+// Comments Panel
+// ============================================================================
+// Lists the comment threads of a document — the main document, or one
+// ProjectCard's nested document together with the card's own threads — with
+// what each is about, and lets them be answered, resolved and reopened.
+//
+// Threads are rendered with BlockNote's Thread component, which needs the
+// editor they belong to: render the panel as a child of that editor's
+// BlockNoteView.
+// ============================================================================
+
+import type { BlockNoteEditor } from "@blocknote/core";
+import type { ThreadData } from "@blocknote/core/comments";
+import { Thread, useBlockNoteEditor, useEditorChange } from "@blocknote/react";
+import { useEffect, useState } from "react";
+
+import type { PortfolioBlock } from "./schema";
+import { blockToText } from "../utils/blockTraversal";
+import { isOpenThread, type ThreadMetadata } from "../utils/comments";
+import { getCommentedText, type CommentThreads } from "../utils/commentThreads";
+
+/**
+ * Which threads the panel shows
+ */
+type ThreadFilter = "open" | "resolved" | "all";
+
+const FILTERS: { value: ThreadFilter; label: string }[] = [
+  { value: "open", label: "Open" },
+  { value: "resolved", label: "Resolved" },
+  { value: "all", label: "All" },
+];
+
+/**
+ * Shortens text for a thread's heading.
+ */
+function truncate(text: string, length = 50): string {
+  return text.length > length ? `${text.slice(0, length - 3)}...` : text;
+}
+
+/**
+ * Describes what a thread is about: the commented text, or the block it was
+ * started on.
+ *
+ * @param {BlockNoteEditor} editor - The editor of the thread's document
+ * @param {ThreadData} thread - The thread
+ * @param {string | null} cardId - The card whose panel this is, if any
+ * @returns {string} The thread's heading
+ */
+function describeThread(
+  editor: BlockNoteEditor<any, any, any>,
+  thread: ThreadData,
+  cardId: string | null
+): string {
+  const { blockId } = (thread.metadata ?? {}) as ThreadMetadata;
+
+  if (!blockId) {
+    const text = getCommentedText(editor, thread.id);
+    return text ? `“${text}”` : "The commented text was deleted";
+  }
+
+  if (blockId === cardId) return "🗂️ The whole project card";
+  const block = editor.getBlock(blockId);
+  if (!block) return "The commented block was deleted";
+  if (block.type === "projectCard") return `🗂️ Card: ${block.props.title}`;
+
+  const text = blockToText(block as PortfolioBlock);
+  return `¶ Block: ${text ? `“${truncate(text)}”` : block.type}`;
+}
+
+/**
+ * CommentsPanel Component
+ *
+ * @param {Object} props - Component props
+ * @param {CommentThreads} props.threads - The portfolio document's threads
+ * @param {string | null} props.cardId - Block id of the card whose nested
+ *   document the panel is for, or null for the main document
+ * @param {string} props.title - Panel heading
+ * @param {Function} props.onClose - Called when the panel is closed
+ * @param {Function} [props.onCommentOnCard] - Starts a thread about the whole
+ *   card (card panels only)
+ * @param {string} [props.className] - Positioning classes
+ * @returns {JSX.Element} The panel
+ */
+export function CommentsPanel({
+  threads,
+  cardId,
+  title,
+  onClose,
+  onCommentOnCard,
+  className = "",
+}: {
+  threads: CommentThreads;
+  cardId: string | null;
+  title: string;
+  onClose: () => void;
+  onCommentOnCard?: () => void;
+  className?: string;
+}) {
+  const editor = useBlockNoteEditor<any, any, any>();
+  const [filter, setFilter] = useState<ThreadFilter>("open");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  // Re-render when threads change, and when the document does so the
+  // headings quote the current text
+  const [, setVersion] = useState(0);
+  useEffect(() => threads.subscribe(() => setVersion((version) => version + 1)), [threads]);
+  useEditorChange(() => setVersion((version) => version + 1), editor);
+
+  const all = threads.listThreads(cardId);
+  const openCount = all.filter(isOpenThread).length;
+  const shown = all.filter((thread) => {
+    if (thread.deletedAt) return false;
+    if (filter === "open") return !thread.resolved;
+    if (filter === "resolved") return thread.resolved;
+    return true;
+  });
+
+  /**
+   * Select a thread, scrolling to its text if it has any
+   */
+  const handleSelect = (thread: ThreadData) => {
+    setSelectedId(thread.id);
+    if (!(thread.metadata as ThreadMetadata)?.blockId) {
+      editor.comments?.selectThread(thread.id, true);
+    }
+  };
+
+  return (
+    <aside
+      className={`bg-white border-l shadow-xl flex flex-col ${className}`}
+      aria-label={title}
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between border-b p-3">
+        <h2 className="font-semibold">
+          💬 {title}{" "}
+          <span className="text-sm font-normal text-gray-500">({openCount} open)</span>
+        </h2>
+        <button
+          onClick={onClose}
+          className="text-gray-500 hover:text-black"
+          aria-label="Close comments"
+        >
+          ✕
+        </button>
+      </div>
+
+      {/* Filter and card comment button */}
+      <div className="flex items-center gap-1 border-b p-2 text-sm">
+        {FILTERS.map(({ value, label }) => (
+          <button
+            key={value}
+            onClick={() => setFilter(value)}
+            className={`px-2 py-1 rounded ${
+              filter === value ? "bg-blue-100 text-blue-800" : "hover:bg-gray-100"
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+        {onCommentOnCard && (
+          <button
+            onClick={onCommentOnCard}
+            className="ml-auto px-2 py-1 bg-blue-500 text-white rounded hover:bg-blue-600"
+            title="Start a thread about the whole project card"
+          >
+            + Comment on card
+          </button>
+        )}
+      </div>
+
+      {/* Threads */}
+      <div className="flex-1 overflow-auto p-3">
+        {shown.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            {filter === "resolved"
+              ? "No resolved threads."
+              : "No comments yet. Select text and click 💬 in the toolbar, or choose “Comment on block” from a block's ⠿ menu."}
+          </p>
+        ) : (
+          <div className="bn-threads-sidebar">
+            {shown.map((thread) => (
+              <div key={thread.id} onClick={() => handleSelect(thread)}>
+                <Thread
+                  thread={thread}
+                  selected={thread.id === selectedId}
+                  referenceText={describeThread(editor, thread, cardId)}
+                  maxCommentsBeforeCollapse={3}
+                />
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </aside>
+  );
+}
@@ -0,0 +1,97 @@
+"use client";
+
+// ============================================================================
+// Compare Files Component
+// ============================================================================
+// Picks two portfolio JSON files (exports, or envelopes copied out of
+// storage) and shows the changes between them with DocumentDiffView. Files
+// with malformed blocks are repaired for the comparison, the way importing
+// would.
+// ============================================================================
+
+import { useState } from "react";
+
+import { DocumentDiffView } from "./DocumentDiffView";
+import { readPortfolioFile } from "../utils/portfolioFile";
+import type { EditorContent } from "../utils/schemaMigrations";
+
+/**
+ * A file read for comparison
+ */
+interface ComparedFile {
+  name: string;
+  content: EditorContent;
+}
+
+/**
+ * CompareFiles Component
+ *
+ * @returns {JSX.Element} File pickers and, once both are read, the diff
+ */
+export function CompareFiles() {
+  const [before, setBefore] = useState<ComparedFile | null>(null);
+  const [after, setAfter] = useState<ComparedFile | null>(null);
+
+  /**
+   * Read a chosen file into one side of the comparison
+   */
+  const handleChoose = async (
+    event: React.ChangeEvent<HTMLInputElement>,
+    setFile: (file: ComparedFile | null) => void
+  ) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const result = readPortfolioFile(await file.text(), true);
+    if (!result.ok) {
+      console.error("❌ Failed to read JSON file:", result.error);
+      alert(`❌ Failed to read "${file.name}": ${result.error}`);
+      event.target.value = "";
+      setFile(null);
+      return;
+    }
+    if (result.issues.length > 0) {
+      console.warn(`⚠️ Repaired malformed blocks in ${file.name}:`, result.issues);
+    }
+    setFile({ name: file.name, content: result.content });
+  };
+
+  return (
+    <div className="flex-1 min-w-0 flex flex-col">
+      {/* File Pickers */}
+      <div className="grid grid-cols-2 gap-2 border-b p-2 text-sm">
+        <label className="flex flex-col gap-1">
+          <span className="text-gray-600">Older version</span>
+          <input
+            type="file"
+            accept=".json,application/json"
+            onChange={(e) => handleChoose(e, setBefore)}
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-gray-600">Newer version</span>
+          <input
+            type="file"
+            accept=".json,application/json"
+            onChange={(e) => handleChoose(e, setAfter)}
+          />
+        </label>
+      </div>
+
+      {before && after ? (
+        <div className="flex-1 min-h-0">
+          <DocumentDiffView
+            before={before.content}
+            after={after.content}
+            beforeLabel={before.name}
+            afterLabel={after.name}
+          />
+        </div>
+      ) : (
+        <div className="flex-1 flex items-center justify-center text-gray-500">
+          Choose two portfolio JSON files to compare
+        </div>
+      )}
+    </div>
+  );
+}
@@ -8,6 +8,7 @@
 "use client";
 
 import { useEffect, useState } from "react";
+import { CURRENT_SCHEMA_VERSION } from "../utils/schemaMigrations";
 
 export function DebugHelper() {
   const [storageInfo, setStorageInfo] = useState<string>("");
@@ -20,11 +21,16 @@ export function DebugHelper() {
         setStorageInfo("No saved content found");
       } else {
         const parsed = JSON.parse(stored);
-        setStorageInfo(
-          `Type: ${typeof parsed}, IsArray: ${Array.isArray(parsed)}, Length: ${
-            Array.isArray(parsed) ? parsed.length : "N/A"
-          }`
-        );
+        if (Array.isArray(parsed)) {
+          // Legacy save from before the versioned envelope
+          setStorageInfo(`Legacy v1 array, Length: ${parsed.length}`);
+        } else {
+          setStorageInfo(
+            `Schema: v${parsed?.schemaVersion ?? "?"} (current v${CURRENT_SCHEMA_VERSION}), Blocks: ${
+              Array.isArray(parsed?.document) ? parsed.document.length : "N/A"
+            }, Saved: ${parsed?.savedAt ?? "unknown"}`
+          );
+        }
       }
     } catch (e) {
       setStorageInfo(`Error: ${e}`);
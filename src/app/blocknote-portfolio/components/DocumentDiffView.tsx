@@ -0,0 +1,246 @@
+"use client";
+
+// ============================================================================
+// Document Diff View Component
+// ============================================================================
+// Shows what changed between two versions of a document side by side: the
+// older version on the left, the newer on the right, one row per block.
+// Added blocks are green, removed ones red and modified ones amber, with
+// deleted and inserted words highlighted, changed props listed with their
+// old and new values, and the changes inside each ProjectCard's nested
+// document listed under the card. See utils/documentDiff.ts for how blocks
+// are paired.
+// ============================================================================
+
+import { Fragment, useMemo, useState } from "react";
+
+import type { PortfolioBlock } from "./schema";
+import {
+  diffDocuments,
+  type BlockDiff,
+  type DiffStatus,
+  type PropDiff,
+  type TextChange,
+} from "../utils/documentDiff";
+import type { EditorContent } from "../utils/schemaMigrations";
+
+/**
+ * Props for the DocumentDiffView component
+ * - before/after: the older and newer version
+ * - beforeLabel/afterLabel: column headings naming the versions
+ */
+interface DocumentDiffViewProps {
+  before: EditorContent;
+  after: EditorContent;
+  beforeLabel: string;
+  afterLabel: string;
+}
+
+/**
+ * Background of each side of a row, by status
+ */
+const ROW_STYLES: Record<DiffStatus, { before: string; after: string }> = {
+  added: { before: "", after: "bg-green-50" },
+  removed: { before: "bg-red-50", after: "" },
+  modified: { before: "bg-amber-50", after: "bg-amber-50" },
+  unchanged: { before: "", after: "" },
+};
+
+/**
+ * Formats a prop value for display.
+ */
+function formatValue(value: unknown): string {
+  if (value === "" || value === null || value === undefined) return "(empty)";
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+}
+
+/**
+ * Names a block for its row, e.g. "Heading 2" or "🗂️ Project card".
+ */
+function blockLabel(block: PortfolioBlock): string {
+  switch (block.type) {
+    case "projectCard":
+      return "🗂️ Project card";
+    case "heading":
+      return `Heading ${block.props.level}`;
+    case "image":
+      return "🖼️ Image";
+    default:
+      return block.type;
+  }
+}
+
+/**
+ * What a block without text shows instead: the file it displays, if any.
+ */
+function blockSubject(block: PortfolioBlock): string {
+  const props = block.props as Record<string, unknown>;
+  if (block.type === "projectCard") return formatValue(props.title);
+  return typeof props.url === "string" && props.url ? props.url : "";
+}
+
+/**
+ * One side of a block's row: its label, text with the changes on this side
+ * highlighted, and changed props.
+ */
+function DiffCell({
+  diff,
+  side,
+  depth,
+}: {
+  diff: BlockDiff;
+  side: "before" | "after";
+  depth: number;
+}) {
+  const block = diff[side];
+  if (!block) return <div className="border-r last:border-r-0" />;
+
+  const hidden: TextChange["type"] = side === "before" ? "insert" : "delete";
+  const runs = diff.text.filter((change) => change.type !== hidden);
+  const subject = runs.length === 0 ? blockSubject(block) : "";
+
+  return (
+    <div
+      className={`p-2 border-r last:border-r-0 min-w-0 ${ROW_STYLES[diff.status][side]}`}
+      style={{ paddingLeft: `${0.5 + depth * 1.25}rem` }}
+    >
+      <div className="flex items-center gap-2 text-xs text-gray-500">
+        <span>{blockLabel(block)}</span>
+        {side === "after" && diff.moved && <span title="Moved among its siblings">↕ moved</span>}
+        {side === "after" && diff.formattingChanged && <span>✎ formatting</span>}
+        {side === "after" && diff.matchedBy === "similarity" && (
+          <span title="Paired with the older block by its content">≈ matched</span>
+        )}
+      </div>
+      <p className="text-sm whitespace-pre-wrap break-words">
+        {runs.map((change, index) =>
+          change.type === "equal" ? (
+            <span key={index}>{change.text}</span>
+          ) : change.type === "delete" ? (
+            <del key={index} className="bg-red-100 text-red-800">
+              {change.text}
+            </del>
+          ) : (
+            <ins key={index} className="bg-green-100 text-green-800 no-underline">
+              {change.text}
+            </ins>
+          )
+        )}
+        {subject && <span className="text-gray-600">{subject}</span>}
+      </p>
+      {diff.props.length > 0 && (
+        <ul className="mt-1 text-xs space-y-0.5">
+          {diff.props.map((prop: PropDiff) => (
+            <li
+              key={prop.name}
+              className={`break-words ${side === "before" ? "text-red-800" : "text-green-800"}`}
+            >
+              <span className="font-medium">{prop.name}:</span> {formatValue(prop[side])}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Rows for a list of sibling blocks, their children and nested documents
+ */
+function DiffRows({
+  diffs,
+  depth,
+  showUnchanged,
+}: {
+  diffs: BlockDiff[];
+  depth: number;
+  showUnchanged: boolean;
+}) {
+  return (
+    <>
+      {diffs.map((diff, index) => {
+        // Unchanged blocks have nothing changed inside them either
+        if (diff.status === "unchanged" && !showUnchanged) return null;
+        const nestedShown =
+          diff.nested && diff.nested.some((child) => showUnchanged || child.status !== "unchanged");
+
+        return (
+          <Fragment key={diff.after?.id ?? diff.before?.id ?? index}>
+            <div className="grid grid-cols-2 border-b">
+              <DiffCell diff={diff} side="before" depth={depth} />
+              <DiffCell diff={diff} side="after" depth={depth} />
+            </div>
+            <DiffRows diffs={diff.children} depth={depth + 1} showUnchanged={showUnchanged} />
+            {nestedShown && (
+              <>
+                <div
+                  className="border-b bg-gray-50 text-xs font-semibold text-gray-500 py-1"
+                  style={{ paddingLeft: `${0.5 + (depth + 1) * 1.25}rem` }}
+                >
+                  Card content
+                </div>
+                <DiffRows
+                  diffs={diff.nested!}
+                  depth={depth + 1}
+                  showUnchanged={showUnchanged}
+                />
+              </>
+            )}
+          </Fragment>
+        );
+      })}
+    </>
+  );
+}
+
+/**
+ * DocumentDiffView Component
+ *
+ * @param {DocumentDiffViewProps} props - Component props
+ * @returns {JSX.Element} The side-by-side diff
+ */
+export function DocumentDiffView({
+  before,
+  after,
+  beforeLabel,
+  afterLabel,
+}: DocumentDiffViewProps) {
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const diff = useMemo(() => diffDocuments(before, after), [before, after]);
+  const { added, removed, modified } = diff.summary;
+
+  return (
+    <div className="flex flex-col min-h-0 h-full">
+      {/* Summary and Options */}
+      <div className="flex flex-wrap items-center gap-3 border-b p-2 text-sm">
+        <span className="text-green-700">+{added} added</span>
+        <span className="text-red-700">−{removed} removed</span>
+        <span className="text-amber-700">~{modified} modified</span>
+        <label className="ml-auto flex items-center gap-1 text-gray-600">
+          <input
+            type="checkbox"
+            checked={showUnchanged}
+            onChange={(e) => setShowUnchanged(e.target.checked)}
+          />
+          Show unchanged blocks
+        </label>
+      </div>
+
+      {/* Column Headings */}
+      <div className="grid grid-cols-2 border-b text-sm font-semibold text-gray-500">
+        <h3 className="p-2 border-r truncate">{beforeLabel}</h3>
+        <h3 className="p-2 truncate">{afterLabel}</h3>
+      </div>
+
+      {/* Block Rows */}
+      <div className="flex-1 overflow-auto">
+        {added + removed + modified === 0 && !showUnchanged ? (
+          <p className="p-4 text-sm text-gray-500">The two versions are the same.</p>
+        ) : (
+          <DiffRows diffs={diff.blocks} depth={0} showUnchanged={showUnchanged} />
+        )}
+      </div>
+    </div>
+  );
+}
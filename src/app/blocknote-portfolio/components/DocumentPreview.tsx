@@ -0,0 +1,45 @@
+"use client";
+
+// ============================================================================
+// Document Preview Component
+// ============================================================================
+// Read-only rendering of a portfolio document, e.g. a snapshot in the
+// version history. Uses the same schema as the main editor so ProjectCards
+// render as cards, and attaches the document's own nested content store so
+// their modals show the previewed (not the current) nested documents.
+// ============================================================================
+
+import { useMemo } from "react";
+import { BlockNoteView } from "@blocknote/mantine";
+import { useCreateBlockNote } from "@blocknote/react";
+import "@blocknote/mantine/style.css";
+
+import { schema } from "./schema";
+import { attachNestedContentStore } from "../utils/nestedContent";
+import type { EditorContent } from "../utils/schemaMigrations";
+
+/**
+ * DocumentPreview Component
+ *
+ * @param {Object} props - Component props
+ * @param {EditorContent} props.content - The document to display
+ * @returns {JSX.Element} A read-only BlockNote view of the document
+ */
+export function DocumentPreview({ content }: { content: EditorContent }) {
+  const editor = useCreateBlockNote(
+    {
+      schema,
+      // BlockNote requires at least one block of initial content
+      initialContent:
+        content.document.length > 0 ? content.document : [{ type: "paragraph" }],
+    },
+    [content]
+  );
+
+  useMemo(
+    () => attachNestedContentStore(editor, content.nestedContent),
+    [editor, content]
+  );
+
+  return <BlockNoteView editor={editor} editable={false} theme="light" />;
+}
@@ -0,0 +1,220 @@
+"use client";
+
+// ============================================================================
+// Document Switcher Component
+// ============================================================================
+// Sidebar listing every stored portfolio document. Lets users open, create,
+// rename, duplicate and delete named documents. Each document lives at its
+// own URL (/blocknote-portfolio/[docId]) so switching is plain navigation.
+// ============================================================================
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+
+import type { DocumentSummary } from "../utils/documentStore";
+import {
+  DEFAULT_DOCUMENT_ID,
+  listDocuments,
+  createDocument,
+  renameDocument,
+  duplicateDocument,
+  deleteDocument,
+} from "../utils/documentApi";
+import { clearEditorContent } from "../utils/storage";
+
+/**
+ * Returns the page URL for a document
+ */
+export function documentPath(docId: string): string {
+  return docId === DEFAULT_DOCUMENT_ID
+    ? "/blocknote-portfolio"
+    : `/blocknote-portfolio/${encodeURIComponent(docId)}`;
+}
+
+/**
+ * DocumentSwitcher Component
+ *
+ * @param {Object} props - Component props
+ * @param {string} props.activeDocId - Id of the document currently open
+ * @returns {JSX.Element} The document list with management actions
+ */
+export function DocumentSwitcher({ activeDocId }: { activeDocId: string }) {
+  const router = useRouter();
+  const [documents, setDocuments] = useState<DocumentSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadFailed, setLoadFailed] = useState(false);
+
+  /**
+   * Reload the document list from the server
+   */
+  const refresh = useCallback(async () => {
+    const summaries = await listDocuments();
+    setLoadFailed(summaries === null);
+    setDocuments(summaries ?? []);
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // --------------------------------------------------------------------------
+  // Document Actions
+  // --------------------------------------------------------------------------
+
+  /**
+   * Create a blank document and open it
+   */
+  const handleCreate = async () => {
+    const name = prompt("Name for the new portfolio:", "Untitled portfolio");
+    if (name === null) return;
+
+    const created = await createDocument(name.trim() || "Untitled portfolio");
+    if (!created) {
+      alert("❌ Failed to create document");
+      return;
+    }
+    router.push(documentPath(created.id));
+    refresh();
+  };
+
+  /**
+   * Rename a document
+   */
+  const handleRename = async (summary: DocumentSummary) => {
+    const name = prompt("Rename portfolio:", summary.name);
+    if (name === null || !name.trim() || name.trim() === summary.name) return;
+
+    const success = await renameDocument(summary.id, name.trim());
+    if (!success) {
+      alert("❌ Failed to rename document");
+      return;
+    }
+    refresh();
+  };
+
+  /**
+   * Duplicate a document and open the copy
+   */
+  const handleDuplicate = async (summary: DocumentSummary) => {
+    const copy = await duplicateDocument(summary.id, `${summary.name} (copy)`);
+    if (!copy) {
+      alert("❌ Failed to duplicate document");
+      return;
+    }
+    router.push(documentPath(copy.id));
+    refresh();
+  };
+
+  /**
+   * Delete a document, leaving the editor if it was the open one
+   */
+  const handleDelete = async (summary: DocumentSummary) => {
+    if (
+      !confirm(
+        `Are you sure you want to delete "${summary.name}"? This cannot be undone.`
+      )
+    ) {
+      return;
+    }
+
+    const success = await deleteDocument(summary.id);
+    if (!success) {
+      alert("❌ Failed to delete document");
+      return;
+    }
+    clearEditorContent(summary.id);
+
+    if (summary.id === activeDocId) {
+      router.push(documentPath(DEFAULT_DOCUMENT_ID));
+    }
+    refresh();
+  };
+
+  // --------------------------------------------------------------------------
+  // Render
+  // --------------------------------------------------------------------------
+  // The open document may not be on the server yet (e.g. a fresh default
+  // document before its first auto-save), so always list it.
+  const entries: DocumentSummary[] = documents.some((d) => d.id === activeDocId)
+    ? documents
+    : [
+        { id: activeDocId, name: "Untitled portfolio", updatedAt: "" },
+        ...documents,
+      ];
+
+  return (
+    <nav className="bg-white rounded-lg shadow-sm border p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h2 className="font-semibold text-gray-900">Portfolios</h2>
+        <button
+          onClick={handleCreate}
+          className="px-2 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition text-sm"
+          title="Create a new portfolio"
+        >
+          + New
+        </button>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading...</p>
+      ) : (
+        <ul className="space-y-1">
+          {entries.map((summary) => {
+            const isActive = summary.id === activeDocId;
+            return (
+              <li
+                key={summary.id}
+                className={`group rounded-md px-2 py-1 ${
+                  isActive ? "bg-blue-50" : "hover:bg-gray-50"
+                }`}
+              >
+                <Link
+                  href={documentPath(summary.id)}
+                  className={`block truncate text-sm ${
+                    isActive ? "font-semibold text-blue-700" : "text-gray-800"
+                  }`}
+                  title={summary.name}
+                >
+                  {summary.name}
+                </Link>
+                {summary.updatedAt && (
+                  <p className="text-xs text-gray-500">
+                    {new Date(summary.updatedAt).toLocaleString()}
+                  </p>
+                )}
+                <div className="flex gap-2 mt-1 text-xs text-gray-500">
+                  <button
+                    onClick={() => handleRename(summary)}
+                    className="hover:text-gray-800"
+                  >
+                    Rename
+                  </button>
+                  <button
+                    onClick={() => handleDuplicate(summary)}
+                    className="hover:text-gray-800"
+                  >
+                    Duplicate
+                  </button>
+                  <button
+                    onClick={() => handleDelete(summary)}
+                    className="hover:text-red-600"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {loadFailed && (
+        <p className="text-xs text-yellow-700">
+          Server unavailable — working from local copies.
+        </p>
+      )}
+    </nav>
+  );
+}
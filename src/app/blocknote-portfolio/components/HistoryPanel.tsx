@@ -0,0 +1,389 @@
+"use client";
+
+// ============================================================================
+// History Panel Component
+// ============================================================================
+// Modal listing a document's snapshots (newest first) with their timestamps
+// and block counts. Selecting a snapshot shows it side by side with the
+// current document and offers:
+// - Restore of the whole snapshot
+// - Restore of a single ProjectCard's nested content
+// - The changes between it and the current document or another snapshot
+//
+// Two portfolio JSON files can be compared the same way.
+// ============================================================================
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+
+import { CompareFiles } from "./CompareFiles";
+import { DocumentDiffView } from "./DocumentDiffView";
+import { DocumentPreview } from "./DocumentPreview";
+import {
+  listSnapshots,
+  fetchSnapshot,
+  createSnapshot,
+  deleteSnapshot,
+} from "../utils/documentApi";
+import type { BlockOfType, PortfolioBlock } from "./schema";
+import { findBlocksOfType } from "../utils/blockTraversal";
+import { getNestedDocument } from "../utils/nestedContent";
+import type { EditorContent } from "../utils/schemaMigrations";
+import type { Snapshot, SnapshotSummary } from "../utils/snapshotStore";
+
+/**
+ * Props for the HistoryPanel component
+ * - docId: the document whose history is shown
+ * - getCurrentContent: returns the editor's current content
+ * - onRestore: replaces the current document with a snapshot's content
+ * - onRestoreCard: restores one ProjectCard block and its nested document
+ * - onClose: closes the panel
+ */
+interface HistoryPanelProps {
+  docId: string;
+  getCurrentContent: () => EditorContent;
+  onRestore: (content: EditorContent) => Promise<void>;
+  onRestoreCard: (
+    card: BlockOfType<"projectCard">,
+    nestedDocument: PortfolioBlock[]
+  ) => void;
+  onClose: () => void;
+}
+
+/**
+ * HistoryPanel Component
+ *
+ * @param {HistoryPanelProps} props - Component props
+ * @returns {JSX.Element} The version history modal
+ */
+export function HistoryPanel({
+  docId,
+  getCurrentContent,
+  onRestore,
+  onRestoreCard,
+  onClose,
+}: HistoryPanelProps) {
+  const [snapshots, setSnapshots] = useState<SnapshotSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [selected, setSelected] = useState<Snapshot | null>(null);
+  const [current, setCurrent] = useState<EditorContent | null>(null);
+  // Whether the selected snapshot is shown as it is, or as changes
+  const [view, setView] = useState<"preview" | "changes">("preview");
+  // Snapshot the changes are against; null for the current document
+  const [compareWith, setCompareWith] = useState<Snapshot | null>(null);
+  const [isComparingFiles, setIsComparingFiles] = useState(false);
+
+  /**
+   * Reload the snapshot list from the server
+   */
+  const refresh = useCallback(async () => {
+    const summaries = await listSnapshots(docId);
+    if (summaries === null) {
+      alert("❌ Failed to load version history");
+    }
+    setSnapshots(summaries ?? []);
+    setIsLoading(false);
+  }, [docId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // --------------------------------------------------------------------------
+  // Snapshot Actions
+  // --------------------------------------------------------------------------
+
+  /**
+   * Take a named snapshot of the current document
+   */
+  const handleTakeSnapshot = async () => {
+    const name = prompt(
+      "Name for this snapshot:",
+      `Snapshot ${new Date().toLocaleString()}`
+    );
+    if (name === null) return;
+
+    const snapshot = await createSnapshot(
+      docId,
+      getCurrentContent(),
+      name.trim() || "Snapshot",
+      "manual"
+    );
+    if (!snapshot) {
+      alert("❌ Failed to save snapshot");
+      return;
+    }
+    refresh();
+  };
+
+  /**
+   * Load a snapshot for side-by-side preview
+   */
+  const handleSelect = async (summary: SnapshotSummary) => {
+    const snapshot = await fetchSnapshot(docId, summary.id);
+    if (!snapshot) {
+      alert("❌ Failed to load snapshot");
+      return;
+    }
+    setCurrent(getCurrentContent());
+    setSelected(snapshot);
+    setIsComparingFiles(false);
+    if (compareWith?.id === snapshot.id) setCompareWith(null);
+  };
+
+  /**
+   * Choose what the selected snapshot's changes are against: the current
+   * document ("") or another snapshot
+   */
+  const handleCompareWith = async (snapshotId: string) => {
+    if (!snapshotId) {
+      setCompareWith(null);
+      return;
+    }
+    const snapshot = await fetchSnapshot(docId, snapshotId);
+    if (!snapshot) {
+      alert("❌ Failed to load snapshot");
+      return;
+    }
+    setCompareWith(snapshot);
+  };
+
+  /**
+   * Replace the current document with the selected snapshot
+   */
+  const handleRestore = async () => {
+    if (!selected) return;
+    if (
+      !confirm(
+        `Restore "${selected.name}"? The current version will be kept in history.`
+      )
+    ) {
+      return;
+    }
+    await onRestore({
+      document: selected.document,
+      nestedContent: selected.nestedContent,
+    });
+    onClose();
+  };
+
+  /**
+   * Restore a single ProjectCard from the selected snapshot
+   */
+  const handleRestoreCard = (card: BlockOfType<"projectCard">) => {
+    if (!selected) return;
+    onRestoreCard(card, getNestedDocument(selected.nestedContent, card.id));
+    alert(`✅ Restored "${card.props?.title ?? "Project card"}"`);
+    setCurrent(getCurrentContent());
+  };
+
+  /**
+   * Delete the selected snapshot
+   */
+  const handleDelete = async () => {
+    if (!selected) return;
+    if (!confirm(`Delete snapshot "${selected.name}"?`)) return;
+
+    const success = await deleteSnapshot(docId, selected.id);
+    if (!success) {
+      alert("❌ Failed to delete snapshot");
+      return;
+    }
+    setSelected(null);
+    refresh();
+  };
+
+  // --------------------------------------------------------------------------
+  // Render
+  // --------------------------------------------------------------------------
+  const snapshotCards = selected ? findBlocksOfType(selected.document, "projectCard") : [];
+
+  // Stable content object so the preview editor is only rebuilt on selection
+  const selectedContent = useMemo<EditorContent | null>(
+    () =>
+      selected
+        ? { document: selected.document, nestedContent: selected.nestedContent }
+        : null,
+    [selected]
+  );
+
+  // The two sides of the changes view, older first
+  const comparison = useMemo(() => {
+    if (!selected || !selectedContent || !current) return null;
+    const selectedSide = {
+      content: selectedContent,
+      label: `${selected.name} · ${new Date(selected.createdAt).toLocaleString()}`,
+    };
+    if (!compareWith) {
+      return { before: selectedSide, after: { content: current, label: "Current" } };
+    }
+    const otherSide = {
+      content: { document: compareWith.document, nestedContent: compareWith.nestedContent },
+      label: `${compareWith.name} · ${new Date(compareWith.createdAt).toLocaleString()}`,
+    };
+    return compareWith.createdAt < selected.createdAt
+      ? { before: otherSide, after: selectedSide }
+      : { before: selectedSide, after: otherSide };
+  }, [selected, selectedContent, current, compareWith]);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-lg w-[95%] h-[90%] flex flex-col">
+        {/* Header */}
+        <div className="flex justify-between items-center border-b p-4">
+          <h2 className="text-xl font-semibold">Version History</h2>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setIsComparingFiles(!isComparingFiles)}
+              className={`px-3 py-1 rounded-md transition text-sm ${
+                isComparingFiles
+                  ? "bg-blue-100 text-blue-800"
+                  : "bg-gray-200 text-gray-800 hover:bg-gray-300"
+              }`}
+              title="Show the changes between two exported JSON files"
+            >
+              📂 Compare Files
+            </button>
+            <button
+              onClick={handleTakeSnapshot}
+              className="px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition text-sm"
+            >
+              📸 Take Snapshot
+            </button>
+            <button
+              onClick={onClose}
+              className="text-gray-500 hover:text-black ml-4"
+              aria-label="Close history"
+            >
+              ✕
+            </button>
+          </div>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          {/* Snapshot List */}
+          <ul className="w-64 shrink-0 border-r overflow-auto p-2 space-y-1">
+            {isLoading && <li className="text-sm text-gray-500 p-2">Loading...</li>}
+            {!isLoading && snapshots.length === 0 && (
+              <li className="text-sm text-gray-500 p-2">No snapshots yet</li>
+            )}
+            {snapshots.map((summary) => (
+              <li key={summary.id}>
+                <button
+                  onClick={() => handleSelect(summary)}
+                  className={`w-full text-left rounded-md px-2 py-1 ${
+                    selected?.id === summary.id ? "bg-blue-50" : "hover:bg-gray-50"
+                  }`}
+                >
+                  <span className="block text-sm font-medium truncate">
+                    {summary.kind === "auto" ? "🕘 " : "📸 "}
+                    {summary.name}
+                  </span>
+                  <span className="block text-xs text-gray-500">
+                    {new Date(summary.createdAt).toLocaleString()} ·{" "}
+                    {summary.blockCount} blocks
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          {/* Side-by-side Preview */}
+          {isComparingFiles ? (
+            <CompareFiles />
+          ) : selected && selectedContent && current && comparison ? (
+            <div className="flex-1 min-w-0 flex flex-col">
+              <div className="flex items-center gap-2 border-b p-2">
+                <button
+                  onClick={handleRestore}
+                  className="px-3 py-1 bg-green-600 text-white rounded-md hover:bg-green-700 transition text-sm"
+                >
+                  ↩️ Restore This Version
+                </button>
+                <button
+                  onClick={handleDelete}
+                  className="px-3 py-1 bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300 transition text-sm"
+                >
+                  🗑️ Delete Snapshot
+                </button>
+                <div className="ml-auto flex items-center gap-2 text-sm">
+                  <button
+                    onClick={() => setView(view === "preview" ? "changes" : "preview")}
+                    className="px-3 py-1 bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300 transition"
+                  >
+                    {view === "preview" ? "🔍 Show Changes" : "👁️ Show Preview"}
+                  </button>
+                  {view === "changes" && (
+                    <select
+                      value={compareWith?.id ?? ""}
+                      onChange={(e) => handleCompareWith(e.target.value)}
+                      className="border rounded-md px-2 py-1"
+                      aria-label="Compare with"
+                    >
+                      <option value="">Compared with the current document</option>
+                      {snapshots
+                        .filter((summary) => summary.id !== selected.id)
+                        .map((summary) => (
+                          <option key={summary.id} value={summary.id}>
+                            Compared with {summary.name} ·{" "}
+                            {new Date(summary.createdAt).toLocaleString()}
+                          </option>
+                        ))}
+                    </select>
+                  )}
+                </div>
+              </div>
+
+              {/* Per-card restore */}
+              {snapshotCards.length > 0 && (
+                <div className="flex flex-wrap gap-2 border-b p-2">
+                  <span className="text-sm text-gray-600">Restore card:</span>
+                  {snapshotCards.map((card) => (
+                    <button
+                      key={card.id}
+                      onClick={() => handleRestoreCard(card)}
+                      className="px-2 py-0.5 border rounded-md hover:bg-gray-50 text-sm"
+                      title="Restore this card's content from the snapshot"
+                    >
+                      {card.props?.title ?? "Project card"}
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              {view === "changes" ? (
+                <div className="flex-1 min-h-0">
+                  <DocumentDiffView
+                    before={comparison.before.content}
+                    after={comparison.after.content}
+                    beforeLabel={comparison.before.label}
+                    afterLabel={comparison.after.label}
+                  />
+                </div>
+              ) : (
+                <div className="flex flex-1 min-h-0">
+                  <div className="flex-1 min-w-0 overflow-auto p-4 border-r">
+                    <h3 className="text-sm font-semibold text-gray-500 mb-2">
+                      Current
+                    </h3>
+                    <DocumentPreview content={current} />
+                  </div>
+                  <div className="flex-1 min-w-0 overflow-auto p-4">
+                    <h3 className="text-sm font-semibold text-gray-500 mb-2">
+                      {selected.name} ·{" "}
+                      {new Date(selected.createdAt).toLocaleString()}
+                    </h3>
+                    <DocumentPreview content={selectedContent} />
+                  </div>
+                </div>
+              )}
+            </div>
+          ) : (
+            <div className="flex-1 flex items-center justify-center text-gray-500">
+              Select a snapshot to preview it
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+"use client";
+
+// ============================================================================
+// PDF Export Dialog
+// ============================================================================
+// Modal for choosing how a PDF export is laid out:
+// - Title and file name
+// - Page size, orientation and margins
+// - Theme and image quality
+// - Optional cover page, table of contents and page numbers
+// - Whether each ProjectCard starts on a new page
+// ============================================================================
+
+import { useState } from "react";
+
+import {
+  PAGE_MARGINS,
+  PAGE_SIZES,
+  PDF_THEME_LABELS,
+  type ExportOptions,
+} from "../utils/exportOptions";
+import { PRINT_QUALITIES } from "../utils/imageUrls";
+
+/**
+ * Props for the PdfExportDialog component
+ * - initialOptions: options the dialog opens with (the last ones used)
+ * - defaultFilename: shown when no file name is entered
+ * - onExport: called with the chosen options
+ * - onClose: closes the dialog without exporting
+ */
+interface PdfExportDialogProps {
+  initialOptions: ExportOptions;
+  defaultFilename: string;
+  onExport: (options: ExportOptions) => void;
+  onClose: () => void;
+}
+
+/**
+ * Checkbox options, in display order
+ */
+const TOGGLES: {
+  key: "coverPage" | "tableOfContents" | "pageNumbers" | "cardPageBreaks";
+  label: string;
+}[] = [
+  { key: "coverPage", label: "Cover page" },
+  { key: "tableOfContents", label: "Table of contents" },
+  { key: "pageNumbers", label: "Page numbers" },
+  { key: "cardPageBreaks", label: "Start each project card on a new page" },
+];
+
+/**
+ * PdfExportDialog Component
+ *
+ * @param {PdfExportDialogProps} props - Component props
+ * @returns {JSX.Element} The export options modal
+ */
+export function PdfExportDialog({
+  initialOptions,
+  defaultFilename,
+  onExport,
+  onClose,
+}: PdfExportDialogProps) {
+  const [options, setOptions] = useState<ExportOptions>(initialOptions);
+
+  /**
+   * Update a single option
+   */
+  const update = <K extends keyof ExportOptions>(key: K, value: ExportOptions[K]) =>
+    setOptions((current) => ({ ...current, [key]: value }));
+
+  /**
+   * Renders a labelled select for a record of choices
+   */
+  const renderSelect = <K extends keyof ExportOptions>(
+    key: K,
+    label: string,
+    choices: Record<string, string>
+  ) => (
+    <label className="flex flex-col gap-1 text-sm">
+      <span className="font-medium text-gray-700">{label}</span>
+      <select
+        value={String(options[key])}
+        onChange={(e) => update(key, e.target.value as ExportOptions[K])}
+        className="border rounded-md px-2 py-1"
+      >
+        {Object.keys(choices).map((value) => (
+          <option key={value} value={value}>
+            {choices[value]}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+
+  /**
+   * Maps labelled presets (page sizes, margins, ...) to select choices
+   */
+  const labels = (record: Record<string, { label: string }>) =>
+    Object.keys(record).reduce<Record<string, string>>((result, key) => {
+      result[key] = record[key].label;
+      return result;
+    }, {});
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-lg w-[90%] max-w-lg max-h-[90%] flex flex-col">
+        {/* Header */}
+        <div className="flex justify-between items-center border-b p-4">
+          <h2 className="text-xl font-semibold">Export PDF</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-black"
+            aria-label="Close export dialog"
+          >
+            ✕
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto p-4 space-y-4">
+          {/* Title and File Name */}
+          <div className="grid grid-cols-2 gap-3">
+            <label className="flex flex-col gap-1 text-sm">
+              <span className="font-medium text-gray-700">Title</span>
+              <input
+                type="text"
+                value={options.title}
+                onChange={(e) => update("title", e.target.value)}
+                className="border rounded-md px-2 py-1"
+              />
+            </label>
+            <label className="flex flex-col gap-1 text-sm">
+              <span className="font-medium text-gray-700">File name</span>
+              <input
+                type="text"
+                value={options.filename}
+                onChange={(e) => update("filename", e.target.value)}
+                placeholder={defaultFilename}
+                className="border rounded-md px-2 py-1"
+              />
+            </label>
+          </div>
+
+          {/* Page Setup */}
+          <div className="grid grid-cols-2 gap-3">
+            {renderSelect("pageSize", "Page size", labels(PAGE_SIZES))}
+            {renderSelect("orientation", "Orientation", {
+              portrait: "Portrait",
+              landscape: "Landscape",
+            })}
+            {renderSelect("margin", "Margins", labels(PAGE_MARGINS))}
+            {renderSelect("theme", "Theme", PDF_THEME_LABELS)}
+            {renderSelect("imageQuality", "Image quality", labels(PRINT_QUALITIES))}
+          </div>
+
+          {/* Sections */}
+          <div className="space-y-2">
+            {TOGGLES.map(({ key, label }) => (
+              <label key={key} className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={options[key]}
+                  onChange={(e) => update(key, e.target.checked)}
+                />
+                {label}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end gap-2 border-t p-4">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-300 text-gray-700 rounded-md hover:bg-gray-400 transition"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onExport(options)}
+            className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 transition"
+          >
+            📄 Export
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+"use client";
+
+// ============================================================================
+// Portfolio Workspace Component
+// ============================================================================
+// Page layout shared by /blocknote-portfolio and /blocknote-portfolio/[docId]:
+// the document switcher sidebar next to the editor for the open document.
+// ============================================================================
+
+import dynamic from "next/dynamic";
+import { DocumentSwitcher } from "./DocumentSwitcher";
+
+// Dynamic import to ensure BlockNote only loads on client-side
+const BlockNoteEditor = dynamic(() => import("./BlockNoteEditor"), {
+  ssr: false,
+  loading: () => (
+    <div className="flex items-center justify-center min-h-[400px]">
+      <div className="text-gray-500">Loading editor...</div>
+    </div>
+  ),
+});
+
+/**
+ * PortfolioWorkspace Component
+ *
+ * @param {Object} props - Component props
+ * @param {string} props.docId - Id of the document to open
+ * @returns {JSX.Element} The portfolio editor page
+ */
+export function PortfolioWorkspace({ docId }: { docId: string }) {
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-6xl mx-auto py-8 px-4">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">
+            BlockNote Portfolio Editor
+          </h1>
+          <p className="text-gray-600">
+            A simple BlockNote editor with basic blocks. Start building your portfolio!
+          </p>
+        </div>
+
+        <div className="flex flex-col md:flex-row gap-6">
+          <aside className="md:w-64 shrink-0">
+            <DocumentSwitcher activeDocId={docId} />
+          </aside>
+
+          <div className="flex-1 min-w-0 bg-white rounded-lg shadow-sm border p-6">
+            {/* Keyed by document so switching creates a fresh editor */}
+            <BlockNoteEditor key={docId} docId={docId} />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
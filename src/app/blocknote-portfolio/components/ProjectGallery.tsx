@@ -0,0 +1,150 @@
+"use client";
+
+// ============================================================================
+// Project Gallery Component
+// ============================================================================
+// Board view of every ProjectCard in the document as a responsive grid, with
+// search (title, subtext, tags and nested text), sorting and a tag filter.
+// Selecting a project hands its block id back to the editor, which scrolls
+// to the card and opens its modal.
+// ============================================================================
+
+import { useMemo, useState } from "react";
+
+import { ProjectMetadataChips } from "./blocks/ProjectMetadata";
+import {
+  GALLERY_SORT_LABELS,
+  collectGalleryItems,
+  collectGalleryTags,
+  filterGalleryItems,
+  type GallerySort,
+} from "../utils/projectGallery";
+import type { EditorContent } from "../utils/schemaMigrations";
+import { imageSrcSet, imageVariantUrl } from "../utils/imageUrls";
+
+/**
+ * Props for the ProjectGallery component
+ * - content: the current document and nested documents
+ * - onOpenCard: called with the block id of the selected card
+ */
+interface ProjectGalleryProps {
+  content: EditorContent;
+  onOpenCard: (blockId: string) => void;
+}
+
+/**
+ * ProjectGallery Component
+ *
+ * @param {ProjectGalleryProps} props - Component props
+ * @returns {JSX.Element} The filterable grid of project cards
+ */
+export function ProjectGallery({ content, onOpenCard }: ProjectGalleryProps) {
+  const [query, setQuery] = useState("");
+  const [tag, setTag] = useState("");
+  const [sort, setSort] = useState<GallerySort>("document");
+
+  const items = useMemo(
+    () => collectGalleryItems(content.document, content.nestedContent),
+    [content]
+  );
+  const tags = useMemo(() => collectGalleryTags(items), [items]);
+  const visibleItems = useMemo(
+    () => filterGalleryItems(items, { query, tag, sort }),
+    [items, query, tag, sort]
+  );
+
+  if (items.length === 0) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px] text-gray-500">
+        No project cards yet. Type &quot;/project&quot; in the editor to add one.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Search, Sort and Tag Filter */}
+      <div className="flex flex-wrap gap-2">
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search projects..."
+          className="flex-1 min-w-[200px] border rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <select
+          value={sort}
+          onChange={(e) => setSort(e.target.value as GallerySort)}
+          className="border rounded-md px-3 py-2"
+          aria-label="Sort projects"
+        >
+          {(Object.keys(GALLERY_SORT_LABELS) as GallerySort[]).map((option) => (
+            <option key={option} value={option}>
+              {GALLERY_SORT_LABELS[option]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {tags.length > 0 && (
+        <div className="flex flex-wrap gap-1 text-sm">
+          {["", ...tags].map((option) => (
+            <button
+              key={option || "all"}
+              onClick={() => setTag(option)}
+              className={`px-2 py-0.5 rounded-full border ${
+                tag === option
+                  ? "bg-blue-600 text-white border-blue-600"
+                  : "bg-white text-gray-700 hover:bg-gray-50"
+              }`}
+            >
+              {option || "All"}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <p className="text-sm text-gray-500">
+        Showing {visibleItems.length} of {items.length} projects
+      </p>
+
+      {/* Card Grid */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+        {visibleItems.map((item) => (
+          <div
+            key={item.block.id}
+            role="button"
+            tabIndex={0}
+            onClick={() => onOpenCard(item.block.id)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") onOpenCard(item.block.id);
+            }}
+            className="border rounded-lg shadow-sm p-3 cursor-pointer hover:shadow-md transition bg-white"
+          >
+            {item.coverImage ? (
+              // eslint-disable-next-line @next/next/no-img-element
+              <img
+                src={imageVariantUrl(item.coverImage, { width: 640 })}
+                srcSet={imageSrcSet(item.coverImage)}
+                sizes="(max-width: 640px) 100vw, (max-width: 1024px) 50vw, 33vw"
+                alt=""
+                className="w-full h-32 object-cover rounded-md mb-2"
+              />
+            ) : (
+              <div className="w-full h-32 bg-gray-200 rounded-md mb-2 flex items-center justify-center text-gray-500 text-sm">
+                No image
+              </div>
+            )}
+            <h3 className="font-semibold">{item.title}</h3>
+            {item.subtext && (
+              <p className="text-sm text-gray-600 mt-1 line-clamp-2">
+                {item.subtext}
+              </p>
+            )}
+            <ProjectMetadataChips cardProps={item.block.props} />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,499 @@
+// ============================================================================
+// Static Document Component
+// ============================================================================
+// Renders a saved portfolio document as plain HTML elements, without an
+// editor. Used by the public share pages (server-rendered) and by the HTML
+// bundle export (rendered to a string), so it must stay free of hooks,
+// browser APIs and "use client".
+//
+// ProjectCard blocks render as links; where they point is up to the caller
+// (a detail page for the share route, an in-page anchor for the bundle).
+// Class names are styled by STATIC_DOCUMENT_CSS in ../utils/staticStyles.
+// ============================================================================
+
+import type { CSSProperties, ReactNode } from "react";
+
+import type {
+  BlockOfType,
+  PortfolioBlock,
+  PortfolioInlineContent,
+  PortfolioStyledText,
+  ProjectCardProps,
+} from "./schema";
+import { backgroundColor, textColor } from "../utils/blockColors";
+import {
+  STATUS_LABELS,
+  formatDateRange,
+  getProjectMetadata,
+  hasProjectMetadata,
+} from "../utils/projectMetadata";
+import { imageSrcSet, imageVariantUrl } from "../utils/imageUrls";
+import { isSafeLinkUrl } from "../utils/linkUrls";
+
+/**
+ * Props for the StaticDocument component
+ * - blocks: the blocks to render
+ * - cardHref: link target for a ProjectCard, by block id
+ * - resolveImage: optional URL rewrite for images (e.g. to inline data URIs)
+ */
+export interface StaticDocumentProps {
+  blocks: PortfolioBlock[];
+  cardHref: (blockId: string) => string;
+  resolveImage?: (url: string) => string;
+}
+
+type RenderOptions = Omit<StaticDocumentProps, "blocks">;
+
+// ============================================================================
+// Inline Content
+// ============================================================================
+
+/**
+ * Applies BlockNote text styles (bold, italic, colors, ...) to a text run.
+ */
+function renderStyledText(item: PortfolioStyledText, key: number): ReactNode {
+  const styles = item.styles ?? {};
+  let node: ReactNode = item.text;
+
+  if (styles.code) node = <code>{node}</code>;
+  if (styles.bold) node = <strong>{node}</strong>;
+  if (styles.italic) node = <em>{node}</em>;
+  if (styles.underline) node = <u>{node}</u>;
+  if (styles.strike) node = <s>{node}</s>;
+
+  const color = textColor(styles.textColor);
+  const background = backgroundColor(styles.backgroundColor);
+  if (color || background) {
+    node = <span style={{ color, backgroundColor: background }}>{node}</span>;
+  }
+
+  return <span key={key}>{node}</span>;
+}
+
+/**
+ * Renders a block's inline content (text runs and links). Links with an
+ * unsafe target (see linkUrls.ts) are rendered as their text.
+ */
+function renderInline(content: string | PortfolioInlineContent[] | undefined): ReactNode {
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return null;
+
+  return content.map((item, index) => {
+    if (item?.type === "link") {
+      return isSafeLinkUrl(item.href) ? (
+        <a key={index} href={item.href}>
+          {renderInline(item.content)}
+        </a>
+      ) : (
+        <span key={index}>{renderInline(item.content)}</span>
+      );
+    }
+    if (item?.type === "text") return renderStyledText(item, index);
+    return null;
+  });
+}
+
+// ============================================================================
+// Blocks
+// ============================================================================
+
+/**
+ * Block-level colors and alignment as inline styles.
+ */
+function blockStyle(
+  props: Partial<Record<"textColor" | "backgroundColor" | "textAlignment", string>> = {}
+): CSSProperties | undefined {
+  const style: CSSProperties = {};
+  const color = textColor(props.textColor);
+  const background = backgroundColor(props.backgroundColor);
+
+  if (color) style.color = color;
+  if (background) style.backgroundColor = background;
+  if (props.textAlignment && props.textAlignment !== "left") {
+    style.textAlign = props.textAlignment as CSSProperties["textAlign"];
+  }
+
+  return Object.keys(style).length > 0 ? style : undefined;
+}
+
+/**
+ * Renders a table block; cells may be inline content or tableCell objects.
+ */
+function renderTable(block: BlockOfType<"table">): ReactNode {
+  const rows = block.content?.rows ?? [];
+  const headerRows = block.content?.headerRows ?? 0;
+
+  return (
+    <table className="bn-static-table">
+      <tbody>
+        {rows.map((row, rowIndex) => (
+          <tr key={rowIndex}>
+            {(row.cells ?? []).map((cell, cellIndex) => {
+              const cellObject = "type" in cell && cell.type === "tableCell" ? cell : null;
+              const content = cellObject ? cellObject.content : (cell as PortfolioInlineContent[]);
+              const Cell = rowIndex < headerRows ? "th" : "td";
+              return (
+                <Cell
+                  key={cellIndex}
+                  colSpan={cellObject?.props.colspan}
+                  rowSpan={cellObject?.props.rowspan}
+                  style={cellObject ? blockStyle(cellObject.props) : undefined}
+                >
+                  {renderInline(content)}
+                </Cell>
+              );
+            })}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+/**
+ * Renders a card's metadata as chips. Links are left out of the card
+ * preview, which is itself a link.
+ */
+function renderMetadata(cardProps: ProjectCardProps, withLinks: boolean): ReactNode {
+  const metadata = getProjectMetadata(cardProps);
+  if (!hasProjectMetadata(metadata)) return null;
+
+  const dateRange = formatDateRange(metadata);
+
+  return (
+    <span className="bn-static-meta">
+      {metadata.status && (
+        <span className={`bn-static-chip bn-static-status-${metadata.status}`}>
+          {STATUS_LABELS[metadata.status]}
+        </span>
+      )}
+      {metadata.role && <span className="bn-static-chip">{metadata.role}</span>}
+      {dateRange && <span className="bn-static-chip">{dateRange}</span>}
+      {metadata.tags.map((tag) => (
+        <span key={tag} className="bn-static-chip bn-static-tag">
+          {tag}
+        </span>
+      ))}
+      {withLinks &&
+        metadata.links.map((link) => (
+          <a key={link.label} className="bn-static-chip" href={link.url}>
+            🔗 {link.label}
+          </a>
+        ))}
+    </span>
+  );
+}
+
+/**
+ * Renders a ProjectCard block as a clickable card.
+ */
+function renderProjectCard(
+  block: BlockOfType<"projectCard">,
+  options: RenderOptions
+): ReactNode {
+  const { title, subtext, coverImage } = block.props;
+
+  return (
+    <a className="bn-static-card" href={options.cardHref(block.id)}>
+      {coverImage &&
+        (options.resolveImage ? (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img src={options.resolveImage(coverImage)} alt={title ?? ""} />
+        ) : (
+          // Served pages use resized variants of uploaded covers
+          // eslint-disable-next-line @next/next/no-img-element
+          <img
+            src={imageVariantUrl(coverImage, { width: 1280 })}
+            srcSet={imageSrcSet(coverImage)}
+            sizes="(max-width: 760px) 100vw, 760px"
+            alt={title ?? ""}
+          />
+        ))}
+      <span className="bn-static-card-body">
+        <strong>{title || "Untitled Project"}</strong>
+        {subtext && <span>{subtext}</span>}
+        {renderMetadata(block.props, false)}
+      </span>
+    </a>
+  );
+}
+
+/**
+ * Renders a single block (without its children).
+ */
+function renderBlockContent(block: PortfolioBlock, options: RenderOptions): ReactNode {
+  switch (block.type) {
+    case "heading": {
+      const level = Math.min(Math.max(Number(block.props.level) || 1, 1), 6);
+      const Heading = `h${level}` as "h1";
+      return <Heading style={blockStyle(block.props)}>{renderInline(block.content)}</Heading>;
+    }
+
+    case "quote":
+      return <blockquote style={blockStyle(block.props)}>{renderInline(block.content)}</blockquote>;
+
+    case "codeBlock":
+      return (
+        <pre>
+          <code data-language={block.props.language}>
+            {renderInline(block.content)}
+          </code>
+        </pre>
+      );
+
+    case "checkListItem":
+      return (
+        <label className="bn-static-check" style={blockStyle(block.props)}>
+          <input type="checkbox" checked={!!block.props.checked} readOnly disabled />
+          <span>{renderInline(block.content)}</span>
+        </label>
+      );
+
+    case "toggleListItem":
+      return <p style={blockStyle(block.props)}>▸ {renderInline(block.content)}</p>;
+
+    case "table":
+      return renderTable(block);
+
+    case "image": {
+      const { props } = block;
+      if (!props.url) return null;
+      const src = options.resolveImage ? options.resolveImage(props.url) : props.url;
+      return (
+        <figure style={blockStyle({ textAlignment: props.textAlignment })}>
+          {/* eslint-disable-next-line @next/next/no-img-element */}
+          <img
+            src={src}
+            alt={props.caption || props.name || ""}
+            width={props.previewWidth}
+          />
+          {props.caption && <figcaption>{props.caption}</figcaption>}
+        </figure>
+      );
+    }
+
+    case "video": {
+      const { props } = block;
+      return props.url ? (
+        <figure>
+          <video src={props.url} controls width={props.previewWidth} />
+          {props.caption && <figcaption>{props.caption}</figcaption>}
+        </figure>
+      ) : null;
+    }
+
+    case "audio": {
+      const { props } = block;
+      return props.url ? (
+        <figure>
+          <audio src={props.url} controls />
+          {props.caption && <figcaption>{props.caption}</figcaption>}
+        </figure>
+      ) : null;
+    }
+
+    case "file": {
+      const { props } = block;
+      if (!props.url) return null;
+      return (
+        <p>
+          {isSafeLinkUrl(props.url) ? (
+            <a href={props.url}>📎 {props.name || props.url}</a>
+          ) : (
+            <>📎 {props.name || props.url}</>
+          )}
+        </p>
+      );
+    }
+
+    case "projectCard":
+      return renderProjectCard(block, options);
+
+    case "paragraph":
+    case "bulletListItem":
+    case "numberedListItem":
+      // List items are wrapped in <li> by renderBlocks
+      return <p style={blockStyle(block.props)}>{renderInline(block.content)}</p>;
+
+    case "columnList":
+    case "column":
+      // Laid out by renderBlocks
+      return null;
+
+    default:
+      // Every block type of the schema is handled above; a new one fails
+      // to compile here until it is
+      block satisfies never;
+      return null;
+  }
+}
+
+/**
+ * Renders a block followed by its (indented) children.
+ */
+function renderBlock(block: PortfolioBlock, options: RenderOptions): ReactNode {
+  const children: PortfolioBlock[] = Array.isArray(block.children) ? block.children : [];
+
+  return (
+    <>
+      {renderBlockContent(block, options)}
+      {children.length > 0 && (
+        <div className="bn-static-children">{renderBlocks(children, options)}</div>
+      )}
+    </>
+  );
+}
+
+/**
+ * Renders a column list as side-by-side columns, sized by each column's
+ * relative width prop.
+ */
+function renderColumnList(block: BlockOfType<"columnList">, options: RenderOptions): ReactNode {
+  const columns = (block.children ?? []).filter(
+    (column): column is BlockOfType<"column"> => column?.type === "column"
+  );
+
+  return (
+    <div key={block.id} className="bn-static-columns">
+      {columns.map((column) => (
+        <div
+          key={column.id}
+          className="bn-static-column"
+          style={{ flex: Number(column.props?.width) || 1 }}
+        >
+          {renderBlocks(column.children ?? [], options)}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Renders a list of sibling blocks, grouping consecutive bullet and numbered
+ * list items into <ul>/<ol> elements.
+ */
+function renderBlocks(blocks: PortfolioBlock[], options: RenderOptions): ReactNode[] {
+  const nodes: ReactNode[] = [];
+  let index = 0;
+
+  while (index < blocks.length) {
+    const block = blocks[index];
+    const listType = block?.type;
+
+    if (listType === "bulletListItem" || listType === "numberedListItem") {
+      const items = [];
+      while (index < blocks.length && blocks[index]?.type === listType) {
+        items.push(blocks[index] as BlockOfType<"bulletListItem" | "numberedListItem">);
+        index++;
+      }
+
+      const listItems = items.map((item) => (
+        <li key={item.id} style={blockStyle(item.props)}>
+          {renderInline(item.content)}
+          {Array.isArray(item.children) && item.children.length > 0 && (
+            <div className="bn-static-children">
+              {renderBlocks(item.children, options)}
+            </div>
+          )}
+        </li>
+      ));
+
+      nodes.push(
+        listType === "bulletListItem" ? (
+          <ul key={items[0].id}>{listItems}</ul>
+        ) : (
+          <ol
+            key={items[0].id}
+            start={items[0].type === "numberedListItem" ? items[0].props.start : undefined}
+          >
+            {listItems}
+          </ol>
+        )
+      );
+      continue;
+    }
+
+    if (block.type === "columnList") {
+      nodes.push(renderColumnList(block, options));
+      index++;
+      continue;
+    }
+
+    nodes.push(
+      <div key={block?.id ?? index} className="bn-static-block">
+        {renderBlock(block, options)}
+      </div>
+    );
+    index++;
+  }
+
+  return nodes;
+}
+
+/**
+ * StaticDocument Component
+ *
+ * @param {StaticDocumentProps} props - Component props
+ * @returns {JSX.Element} The document as static HTML
+ *
+ * @example
+ * <StaticDocument
+ *   blocks={stored.document}
+ *   cardHref={(id) => `/p/${slug}/${id}`}
+ * />
+ */
+export function StaticDocument({ blocks, ...options }: StaticDocumentProps) {
+  return <div className="bn-static">{renderBlocks(blocks, options)}</div>;
+}
+
+/**
+ * Props for the StaticCardDetail component
+ * - card: the ProjectCard block
+ * - nested: the card's nested document
+ * - backHref: link back to the portfolio
+ */
+export interface StaticCardDetailProps extends RenderOptions {
+  card: BlockOfType<"projectCard">;
+  nested: PortfolioBlock[];
+  backHref: string;
+}
+
+/**
+ * StaticCardDetail Component
+ *
+ * Full page view of one ProjectCard: cover, title, subtext and its nested
+ * document.
+ *
+ * @param {StaticCardDetailProps} props - Component props
+ * @returns {JSX.Element} The card's detail view
+ */
+export function StaticCardDetail({
+  card,
+  nested,
+  backHref,
+  ...options
+}: StaticCardDetailProps) {
+  const { title, subtext, coverImage } = card.props;
+
+  return (
+    <article>
+      <a className="bn-static-back" href={backHref}>
+        ← Back to portfolio
+      </a>
+      {coverImage && (
+        // eslint-disable-next-line @next/next/no-img-element
+        <img
+          className="bn-static-cover"
+          src={options.resolveImage ? options.resolveImage(coverImage) : coverImage}
+          alt={title ?? ""}
+        />
+      )}
+      <header>
+        <h1>{title || "Untitled Project"}</h1>
+        {subtext && <p className="bn-static-subtext">{subtext}</p>}
+        {renderMetadata(card.props, true)}
+      </header>
+      <StaticDocument blocks={nested} {...options} />
+    </article>
+  );
+}
@@ -0,0 +1,197 @@
+"use client";
+
+// ============================================================================
+// Suggestions Panel
+// ============================================================================
+// Lists the pending suggested changes of a document — the main document, or
+// one ProjectCard's nested document — with what each adds, removes or
+// changes, and lets the owner accept or reject them one by one or all at
+// once.
+//
+// Render the panel as a child of the BlockNoteView of the editor the
+// suggestions are in.
+// ============================================================================
+
+import { useBlockNoteEditor, useEditorChange } from "@blocknote/react";
+import { useState } from "react";
+
+import {
+  acceptSuggestion,
+  listSuggestions,
+  rejectSuggestion,
+  resolveAllSuggestions,
+  selectSuggestedContent,
+  type PendingSuggestion,
+  type PropChange,
+} from "../utils/suggestionMode";
+
+/**
+ * Shortens text for a suggestion's description.
+ */
+function truncate(text: string, length = 80): string {
+  return text.length > length ? `${text.slice(0, length - 3)}...` : text;
+}
+
+/**
+ * Formats a suggested prop value for display.
+ *
+ * @param {unknown} value - A previous or new prop value
+ * @returns {string} The value as text
+ *
+ * @example
+ * formatSuggestedValue(""); // "(empty)"
+ */
+export function formatSuggestedValue(value: unknown): string {
+  if (value === "" || value === null || value === undefined) return "(empty)";
+  return truncate(typeof value === "string" ? value : JSON.stringify(value), 40);
+}
+
+/**
+ * Describes a prop change, e.g. `title: “Old” → “New”`.
+ *
+ * @param {PropChange} change - The change
+ * @returns {string} The description
+ */
+export function describePropChange(change: PropChange): string {
+  return `${change.attrName}: ${formatSuggestedValue(change.previousValue)} → ${formatSuggestedValue(change.newValue)}`;
+}
+
+/**
+ * Lines describing what a suggestion does
+ */
+function describeSuggestion(suggestion: PendingSuggestion): string[] {
+  const lines: string[] = [];
+  if (suggestion.insertedBlocks > 0) lines.push(`➕ ${suggestion.insertedBlocks} block(s) added`);
+  if (suggestion.deletedBlocks > 0) lines.push(`➖ ${suggestion.deletedBlocks} block(s) removed`);
+  if (suggestion.inserted.trim()) lines.push(`➕ “${truncate(suggestion.inserted)}”`);
+  if (suggestion.deleted.trim()) lines.push(`➖ “${truncate(suggestion.deleted)}”`);
+  suggestion.changes.forEach((change) =>
+    lines.push(`✏️ ${change.blockType === "projectCard" ? "Card " : ""}${describePropChange(change)}`)
+  );
+  return lines.length > 0 ? lines : ["Formatting or line breaks"];
+}
+
+/**
+ * SuggestionsPanel Component
+ *
+ * @param {Object} props - Component props
+ * @param {string} props.title - Panel heading
+ * @param {Function} props.onClose - Called when the panel is closed
+ * @param {string} [props.className] - Positioning classes
+ * @returns {JSX.Element} The panel
+ */
+export function SuggestionsPanel({
+  title,
+  onClose,
+  className = "",
+}: {
+  title: string;
+  onClose: () => void;
+  className?: string;
+}) {
+  const editor = useBlockNoteEditor<any, any, any>();
+
+  // Re-list whenever the document changes, which includes resolving
+  const [, setVersion] = useState(0);
+  useEditorChange(() => setVersion((version) => version + 1), editor);
+
+  const suggestions = listSuggestions(editor);
+
+  /**
+   * Accept or reject every pending suggestion, after confirmation
+   */
+  const handleResolveAll = (accept: boolean) => {
+    const action = accept ? "Accept" : "Reject";
+    if (confirm(`${action} all ${suggestions.length} suggested change(s)?`)) {
+      resolveAllSuggestions(editor, accept);
+    }
+  };
+
+  return (
+    <aside
+      className={`bg-white border-l shadow-xl flex flex-col ${className}`}
+      aria-label={title}
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between border-b p-3">
+        <h2 className="font-semibold">
+          📝 {title}{" "}
+          <span className="text-sm font-normal text-gray-500">
+            ({suggestions.length} pending)
+          </span>
+        </h2>
+        <button
+          onClick={onClose}
+          className="text-gray-500 hover:text-black"
+          aria-label="Close suggestions"
+        >
+          ✕
+        </button>
+      </div>
+
+      {/* Resolve all */}
+      <div className="flex items-center gap-1 border-b p-2 text-sm">
+        <button
+          onClick={() => handleResolveAll(true)}
+          disabled={suggestions.length === 0}
+          className="px-2 py-1 bg-green-600 text-white rounded hover:bg-green-700 disabled:opacity-50"
+        >
+          ✓ Accept all
+        </button>
+        <button
+          onClick={() => handleResolveAll(false)}
+          disabled={suggestions.length === 0}
+          className="px-2 py-1 bg-red-600 text-white rounded hover:bg-red-700 disabled:opacity-50"
+        >
+          ✕ Reject all
+        </button>
+      </div>
+
+      {/* Suggestions */}
+      <div className="flex-1 overflow-auto p-3">
+        {suggestions.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            No suggested changes. Turn on “✍️ Suggest edits” to propose changes
+            instead of making them.
+          </p>
+        ) : (
+          <ul className="space-y-2">
+            {suggestions.map((suggestion) => (
+              <li
+                key={suggestion.id}
+                onClick={() => selectSuggestedContent(editor, suggestion.id)}
+                className="border rounded p-2 text-sm cursor-pointer hover:bg-gray-50"
+              >
+                {describeSuggestion(suggestion).map((line, index) => (
+                  <p key={index} className="break-words">
+                    {line}
+                  </p>
+                ))}
+                <div className="flex gap-1 mt-2">
+                  <button
+                    onClick={(event) => {
+                      event.stopPropagation();
+                      acceptSuggestion(editor, suggestion.id);
+                    }}
+                    className="px-2 py-0.5 bg-green-100 text-green-800 rounded hover:bg-green-200"
+                  >
+                    ✓ Accept
+                  </button>
+                  <button
+                    onClick={(event) => {
+                      event.stopPropagation();
+                      rejectSuggestion(editor, suggestion.id);
+                    }}
+                    className="px-2 py-0.5 bg-red-100 text-red-800 rounded hover:bg-red-200"
+                  >
+                    ✕ Reject
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </aside>
+  );
+}
@@ -0,0 +1,170 @@
+// ============================================================================
+// Cover Picker Component
+// ============================================================================
+// Modal for explicitly choosing a ProjectCard's cover image from:
+// - Images in the card's nested document
+// - Previously uploaded assets
+// - A new upload
+// ============================================================================
+
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import { listAssets, uploadAsset } from "../../utils/assetApi";
+import type { AssetInfo } from "../../utils/assetStore";
+import { imageVariantUrl } from "../../utils/imageUrls";
+
+/**
+ * Props for the CoverPicker component
+ * - nestedImages: image URLs found in the card's nested document
+ * - currentCover: the card's current cover image URL ("" for none)
+ * - onSelect: called with the chosen URL ("" removes the cover)
+ * - onClose: closes the picker
+ */
+interface CoverPickerProps {
+  nestedImages: string[];
+  currentCover: string;
+  onSelect: (url: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * CoverPicker Component
+ *
+ * @param {CoverPickerProps} props - Component props
+ * @returns {JSX.Element} The cover picker modal
+ */
+export function CoverPicker({
+  nestedImages,
+  currentCover,
+  onSelect,
+  onClose,
+}: CoverPickerProps) {
+  const [assets, setAssets] = useState<AssetInfo[] | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    listAssets().then((result) => setAssets(result ?? []));
+  }, []);
+
+  /**
+   * Upload a new image and use it as the cover
+   */
+  const handleUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    setIsUploading(true);
+    const result = await uploadAsset(file);
+    setIsUploading(false);
+
+    if (!result.ok) {
+      alert(`❌ Failed to upload image: ${result.error}`);
+      return;
+    }
+    onSelect(result.asset.url);
+  };
+
+  // Uploaded assets that are already listed as nested images are not repeated
+  const uploadedImages = (assets ?? [])
+    .map((asset) => asset.url)
+    .filter((url) => nestedImages.indexOf(url) === -1);
+
+  const renderOption = (url: string) => (
+    <button
+      key={url}
+      onClick={() => onSelect(url)}
+      className={`rounded-md overflow-hidden border-2 ${
+        url === currentCover ? "border-blue-600" : "border-transparent hover:border-gray-300"
+      }`}
+      title={url}
+    >
+      {/* eslint-disable-next-line @next/next/no-img-element */}
+      <img
+        src={imageVariantUrl(url, { width: 320 })}
+        alt=""
+        className="w-full h-24 object-cover"
+      />
+    </button>
+  );
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-[60]"
+      // Keep clicks inside the picker from reaching the card underneath
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="bg-white rounded-lg shadow-lg w-[90%] max-w-2xl max-h-[90%] flex flex-col">
+        {/* Header */}
+        <div className="flex justify-between items-center border-b p-4">
+          <h2 className="text-xl font-semibold">Choose Cover</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-black"
+            aria-label="Close cover picker"
+          >
+            ✕
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto p-4 space-y-4">
+          {/* Actions */}
+          <div className="flex gap-2">
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isUploading}
+              className="px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 text-sm disabled:opacity-50"
+            >
+              {isUploading ? "Uploading..." : "⬆️ Upload Image"}
+            </button>
+            {currentCover && (
+              <button
+                onClick={() => onSelect("")}
+                className="px-3 py-1 bg-gray-300 text-gray-700 rounded hover:bg-gray-400 text-sm"
+              >
+                Remove Cover
+              </button>
+            )}
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/png,image/jpeg,image/gif,image/webp"
+              onChange={handleUpload}
+              className="hidden"
+            />
+          </div>
+
+          {/* Images from the nested document */}
+          <section>
+            <h3 className="text-sm font-semibold text-gray-600 mb-2">
+              In this project
+            </h3>
+            {nestedImages.length > 0 ? (
+              <div className="grid grid-cols-3 gap-2">
+                {nestedImages.map(renderOption)}
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">No images in this project yet</p>
+            )}
+          </section>
+
+          {/* Uploaded assets */}
+          <section>
+            <h3 className="text-sm font-semibold text-gray-600 mb-2">Uploaded</h3>
+            {assets === null ? (
+              <p className="text-sm text-gray-500">Loading...</p>
+            ) : uploadedImages.length > 0 ? (
+              <div className="grid grid-cols-3 gap-2">
+                {uploadedImages.map(renderOption)}
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">No uploaded images</p>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+}
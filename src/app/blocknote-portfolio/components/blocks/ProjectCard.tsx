@@ -3,7 +3,14 @@
 // ============================================================================
 // A custom BlockNote block that displays a project card with:
 // - Title and optional cover image in collapsed state
-// - Modal with nested BlockNote editor for detailed project information
+// - Cover picker (nested images, uploaded assets or a new upload)
+// - Structured metadata (tags, links, dates, role, status) shown as chips
+// - Modal with nested BlockNote editor for detailed project information,
+//   edited together when collaborators open the same card
+// - Comment threads on the card and its nested document, with the number of
+//   open ones shown on the card
+// - Suggested changes to the card's props and nested document, reviewed on
+//   the card and in the modal
 // - Click-to-expand interaction pattern
 //
 // This demonstrates BlockNote's custom block API and nested editor capabilities.
@@ -11,12 +18,70 @@
 
 "use client";
 
-import React, { useState, useMemo, useEffect, useRef } from "react";
+import React, { useState, useMemo, useEffect, useRef, useSyncExternalStore } from "react";
 import { createReactBlockSpec } from "@blocknote/react";
 import { BlockNoteView } from "@blocknote/mantine";
 import { useCreateBlockNote } from "@blocknote/react";
 import { defaultProps } from "@blocknote/core";
 import "@blocknote/mantine/style.css";
+import type {
+  PartialPortfolioBlock,
+  PortfolioBlock,
+  PortfolioEditor,
+  ProjectCardProps,
+} from "../schema";
+import {
+  getNestedContentStore,
+  shareNestedContentStore,
+} from "../../utils/nestedContent";
+import { collectImageUrls } from "../../utils/blockTraversal";
+import {
+  startCardEditSession,
+  type CardEditSession,
+} from "../../utils/cardEditSession";
+import {
+  attachCollaboration,
+  collaborationOptions,
+  getCollaboration,
+  joinCardDocument,
+} from "../../utils/collaboration";
+import {
+  applyCommentRanges,
+  attachCommentThreads,
+  getCommentRanges,
+  getCommentThreads,
+  promptForBlockThread,
+  releaseCommentStore,
+} from "../../utils/commentThreads";
+import {
+  acceptSuggestion,
+  applySuggestionMarks,
+  attachReviewSuggestions,
+  collectSuggestionMarks,
+  createSuggestionExtension,
+  getReviewSuggestions,
+  getSuggestedPropChanges,
+  rejectSuggestion,
+  trackSuggestedChanges,
+  type PropChange,
+} from "../../utils/suggestionMode";
+import { onOpenCardRequest } from "../../utils/cardNavigation";
+import { uploadFile } from "../../utils/assetApi";
+import { CoverPicker } from "./CoverPicker";
+import { CommentsPanel } from "../CommentsPanel";
+import { CommentSideMenu } from "../CommentSideMenu";
+import { SuggestionsPanel, describePropChange } from "../SuggestionsPanel";
+import { imageSrcSet, imageVariantUrl } from "../../utils/imageUrls";
+import {
+  METADATA_PROP_DEFAULTS,
+  PROJECT_STATUSES,
+  type MetadataProps,
+} from "../../utils/projectMetadata";
+import {
+  ProjectMetadataChips,
+  ProjectMetadataForm,
+  pickMetadataProps,
+} from "./ProjectMetadata";
 
 // ============================================================================
 // Block Configuration
@@ -27,7 +92,9 @@ import "@blocknote/mantine/style.css";
  *
  * Defines a custom block type for displaying project portfolio items.
  * Each card can have a title and cover image, and clicking it opens a modal
- * with a full BlockNote editor for detailed project content.
+ * with a full BlockNote editor for detailed project content. That nested
+ * document is not a prop: it lives in the editor's NestedContentStore, keyed
+ * by this block's id (see utils/nestedContent.ts).
  *
  * Block Structure:
  * - type: "projectCard" - Unique identifier for this block type
@@ -57,8 +124,36 @@ export const ProjectCard = createReactBlockSpec(
       coverImage: {
         default: "", // Default to no cover image
       },
-      nestedContent: {
-        default: "", // Stores serialized nested editor content as JSON string
+      // Version of the nested document, changed by every modal session so
+      // undo in the main editor restores the matching nested document
+      contentRevision: {
+        default: "",
+      },
+      // Structured metadata (see utils/projectMetadata.ts)
+      tags: {
+        default: METADATA_PROP_DEFAULTS.tags, // Comma-separated tech stack
+      },
+      role: {
+        default: METADATA_PROP_DEFAULTS.role,
+      },
+      status: {
+        default: METADATA_PROP_DEFAULTS.status,
+        values: PROJECT_STATUSES,
+      },
+      startDate: {
+        default: METADATA_PROP_DEFAULTS.startDate, // "YYYY-MM"
+      },
+      endDate: {
+        default: METADATA_PROP_DEFAULTS.endDate, // "YYYY-MM", empty = ongoing
+      },
+      liveUrl: {
+        default: METADATA_PROP_DEFAULTS.liveUrl,
+      },
+      demoUrl: {
+        default: METADATA_PROP_DEFAULTS.demoUrl,
+      },
+      repoUrl: {
+        default: METADATA_PROP_DEFAULTS.repoUrl,
       },
     },
   },
@@ -93,106 +188,233 @@ export const ProjectCard = createReactBlockSpec(
       const [editTitle, setEditTitle] = useState(block.props.title);
       const [editSubtext, setEditSubtext] = useState(block.props.subtext);
 
+      // Local state for editing metadata (card edit mode and modal details)
+      const [editMetadata, setEditMetadata] = useState<MetadataProps>(() =>
+        pickMetadataProps(block.props)
+      );
+
+      // Track whether the cover picker is open
+      const [isPickingCover, setIsPickingCover] = useState(false);
+
+      // Track whether the metadata details panel is open in the modal
+      const [isEditingDetails, setIsEditingDetails] = useState(false);
+
+      // Track whether the comments panel is open in the modal
+      const [isCommentsOpen, setIsCommentsOpen] = useState(false);
+
+      // Track whether the suggestions panel is open in the modal
+      const [isSuggestionsOpen, setIsSuggestionsOpen] = useState(false);
+
       // Local state for editing title in modal
       const [editModalTitle, setEditModalTitle] = useState(block.props.title);
 
-      // Use ref to track if we're currently updating to prevent recursive updates
-      const isUpdatingRef = useRef(false);
+      // Values the card preview and modal edit forms started from, so saving
+      // writes only the fields changed in that form (see changedProps)
+      const cardEditBaseRef = useRef<Partial<ProjectCardProps>>({});
+      const modalEditBaseRef = useRef<Partial<ProjectCardProps>>({});
+
+      // Edit session of the open modal (see utils/cardEditSession.ts)
+      const sessionRef = useRef<CardEditSession | null>(null);
+
+      /**
+       * Open the modal when this card is selected elsewhere (e.g. from the
+       * project gallery).
+       */
+      useEffect(
+        () =>
+          onOpenCardRequest(editor, (blockId) => {
+            if (blockId === block.id) setOpen(true);
+          }),
+        [editor, block.id]
+      );
 
       // ----------------------------------------------------------------------
       // Nested Editor Setup with Persistence
       // ----------------------------------------------------------------------
+      // Nested documents are stored per main editor, keyed by block id
+      const nestedContentStore = getNestedContentStore(editor);
+
+      // Shared state of the document, when editing with collaborators
+      const collaboration = getCollaboration(editor);
+
+      // Comment threads of the document; those about this card are its
+      // nested document's and the card's own
+      const commentThreads = getCommentThreads(editor);
+      const openCommentCount = useSyncExternalStore(
+        commentThreads.subscribe,
+        () => commentThreads.countOpen(block.id),
+        () => 0
+      );
+
+      // Suggested changes of the document: those in this card's nested
+      // document, and those to the card's props, which are in the main one
+      const reviewSuggestions = getReviewSuggestions(editor);
+      const isSuggesting = useSyncExternalStore(
+        reviewSuggestions.subscribe,
+        reviewSuggestions.isSuggesting,
+        () => false
+      );
+      const pendingNestedSuggestionCount = useSyncExternalStore(
+        reviewSuggestions.subscribe,
+        () => reviewSuggestions.countPending(block.id),
+        () => 0
+      );
+      const suggestedPropChanges = getSuggestedPropChanges(editor, block.id);
+      const propSuggestionIds = Array.from(
+        new Set(suggestedPropChanges.map((change) => change.suggestionId))
+      );
+      const pendingSuggestionCount = pendingNestedSuggestionCount + propSuggestionIds.length;
+
       /**
-       * Parse nested content from block props, or use default initial content.
-       * The content is stored as a JSON string in block.props.nestedContent.
-       *
-       * This function safely parses the content and validates it's an array.
+       * Read this card's nested document from the store, or use default
+       * initial content for a card that has never been opened.
        */
-      const getInitialNestedContent = () => {
-        if (
-          block.props.nestedContent &&
-          block.props.nestedContent.trim() !== ""
-        ) {
-          try {
-            const parsed = JSON.parse(block.props.nestedContent);
-
-            // Validate it's an array and not empty
-            if (Array.isArray(parsed) && parsed.length > 0) {
-              return parsed;
-            } else {
-              console.warn(
-                "⚠️ Nested content is not a valid array, using default"
-              );
-              return getDefaultNestedContent(block.props.title);
-            }
-          } catch (e) {
-            console.error("Failed to parse nested content:", e);
-            return getDefaultNestedContent(block.props.title);
-          }
+      const getInitialNestedContent = (): PartialPortfolioBlock[] => {
+        const stored = nestedContentStore.get(block.id);
+
+        // Validate it's an array and not empty
+        if (Array.isArray(stored) && stored.length > 0) {
+          return stored as PartialPortfolioBlock[];
         }
         return getDefaultNestedContent(block.props.title);
       };
 
       /**
        * Create a nested BlockNote editor for the modal.
-       * Only create the editor when modal is open to avoid stale state issues.
+       * A fresh editor is created every time the modal opens to avoid stale
+       * state issues. When collaborating, it edits the card's shared
+       * document, which is filled in once it is mounted (see below).
+       * Its comment threads are the ones filed under this card.
+       *
+       * It uses the schema of the editor holding the card (typed here with
+       * only the card's own block): imported nested documents can hold
+       * columns and cards of their own.
        */
       const nestedEditor = useCreateBlockNote(
         open
           ? {
-              initialContent: getInitialNestedContent(),
+              ...(collaboration
+                ? {
+                    collaboration: collaborationOptions(
+                      collaboration,
+                      collaboration.cardFragment(block.id)
+                    ),
+                  }
+                : { initialContent: getInitialNestedContent() }),
+              schema: (editor as unknown as PortfolioEditor).schema,
+              dictionary: editor.dictionary, // Includes the column translations
+              uploadFile, // Store dropped/pasted images in the asset store
+              comments: { threadStore: commentThreads.createStore(block.id) },
+              resolveUsers: commentThreads.resolveUsers,
+              // Shows suggested changes
+              extensions: [createSuggestionExtension()],
             }
-          : undefined
+          : undefined,
+        [open, collaboration, commentThreads, block.id]
       );
 
+      // Cards in the nested document are part of the same document, so the
+      // nested editor shares the main editor's stores. Edits in the modal are
+      // suggestions too while suggestion mode is on. Runs during render,
+      // before the nested editor is mounted.
+      useMemo(() => {
+        if (!nestedEditor) return;
+        shareNestedContentStore(nestedEditor, nestedContentStore);
+        attachCollaboration(nestedEditor, collaboration);
+        attachCommentThreads(nestedEditor, commentThreads);
+        attachReviewSuggestions(nestedEditor, reviewSuggestions);
+        trackSuggestedChanges(nestedEditor, reviewSuggestions);
+      }, [nestedEditor, nestedContentStore, collaboration, commentThreads, reviewSuggestions]);
+
       /**
-       * Sync nested editor changes back to parent editor's block props.
-       * This enables content persistence across page reloads.
-       * Uses a ref to prevent infinite update loops.
+       * Run an edit session while the modal is open: nested editor changes
+       * are written to the nested content store in batches, and everything
+       * done in the modal becomes one undo step in the main editor when it
+       * closes. Collaborators in the same modal edit the card's shared
+       * document together; each one's session only records their own
+       * changes.
        */
       useEffect(() => {
         if (!nestedEditor || !open) return;
 
-        const unsubscribe = nestedEditor.onChange(() => {
-          // Prevent recursive updates
-          if (isUpdatingRef.current) return;
-
-          isUpdatingRef.current = true;
-
-          try {
-            const document = nestedEditor.document;
-
-            // Find first image for cover (update cover image automatically)
-            const newCoverImage = findFirstImage(document);
-
-            // Serialize document to JSON string
-            const serializedContent = JSON.stringify(document);
-
-            // Update parent block props with new data
-            // Note: We keep the existing title and subtext as they are manually editable
-            // Only update the nested content and cover image automatically
-            editor.updateBlock(block, {
-              props: {
-                coverImage: newCoverImage || block.props.coverImage,
-                nestedContent: serializedContent,
-              },
-            });
-          } catch (e) {
-            console.error("Failed to sync nested editor content:", e);
-          } finally {
-            // Reset the flag after a short delay to allow the update to complete
-            setTimeout(() => {
-              isUpdatingRef.current = false;
-            }, 100);
+        const leaveCardDocument = collaboration
+          ? joinCardDocument(
+              nestedEditor,
+              collaboration,
+              block.id,
+              getInitialNestedContent(),
+              commentThreads,
+              reviewSuggestions
+            )
+          : null;
+        if (!collaboration) {
+          applyCommentRanges(nestedEditor, commentThreads, commentThreads.getRanges(block.id));
+          applySuggestionMarks(nestedEditor, reviewSuggestions.getMarks(block.id));
+        }
+
+        const session = startCardEditSession(
+          editor,
+          nestedContentStore,
+          block.id,
+          nestedEditor.document as PortfolioBlock[]
+        );
+        sessionRef.current = session;
+
+        const unsubscribe = nestedEditor.onChange((_, { getChanges }) => {
+          const changes = getChanges();
+          if (
+            changes.length > 0 &&
+            changes.every((change) => change.source.type === "yjs-remote")
+          ) {
+            return;
           }
+          commentThreads.setRanges(block.id, getCommentRanges(nestedEditor));
+          reviewSuggestions.setMarks(block.id, collectSuggestionMarks(nestedEditor));
+          session.setDocument(nestedEditor.document as PortfolioBlock[]);
         });
 
         return () => {
           if (unsubscribe) {
             unsubscribe();
           }
+          sessionRef.current = null;
+          session.end();
+          leaveCardDocument?.();
+          releaseCommentStore(nestedEditor);
         };
-      }, [nestedEditor, editor, block, open]);
+        // getInitialNestedContent only reads the store when the modal opens
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+      }, [
+        nestedEditor,
+        nestedContentStore,
+        collaboration,
+        commentThreads,
+        reviewSuggestions,
+        editor,
+        block.id,
+        open,
+      ]);
+
+      /**
+       * Bring back the nested document matching the card's content revision
+       * when undo/redo in the main editor changes it.
+       */
+      const { contentRevision } = block.props;
+      useEffect(() => {
+        nestedContentStore.restoreRevision(block.id, contentRevision);
+      }, [nestedContentStore, block.id, contentRevision]);
+
+      /**
+       * Apply prop changes to the card; while the modal is open they become
+       * part of its edit session.
+       */
+      const updateCard = (props: Partial<ProjectCardProps>) => {
+        if (sessionRef.current) {
+          sessionRef.current.updateProps(props);
+        } else {
+          editor.updateBlock(block, { props });
+        }
+      };
 
       // ----------------------------------------------------------------------
       // Handler Functions
@@ -211,12 +433,13 @@ export const ProjectCard = createReactBlockSpec(
        * Save edited title and subtext
        */
       const handleSaveEdit = () => {
-        editor.updateBlock(block, {
-          props: {
+        updateCard(
+          changedProps(cardEditBaseRef.current, {
             title: editTitle || "New Project",
             subtext: editSubtext || "Project description",
-          },
-        });
+            ...editMetadata,
+          })
+        );
         setIsEditing(false);
       };
 
@@ -226,6 +449,7 @@ export const ProjectCard = createReactBlockSpec(
       const handleCancelEdit = () => {
         setEditTitle(block.props.title);
         setEditSubtext(block.props.subtext);
+        setEditMetadata(pickMetadataProps(block.props));
         setIsEditing(false);
       };
 
@@ -234,6 +458,15 @@ export const ProjectCard = createReactBlockSpec(
        */
       const handleEditClick = (e: React.MouseEvent) => {
         e.stopPropagation(); // Prevent card click
+        const metadata = pickMetadataProps(block.props);
+        cardEditBaseRef.current = {
+          title: block.props.title,
+          subtext: block.props.subtext,
+          ...metadata,
+        };
+        setEditTitle(block.props.title);
+        setEditSubtext(block.props.subtext);
+        setEditMetadata(metadata);
         setIsEditing(true);
       };
 
@@ -241,6 +474,7 @@ export const ProjectCard = createReactBlockSpec(
        * Enter edit mode for modal title
        */
       const handleEditModalTitle = () => {
+        modalEditBaseRef.current = { ...modalEditBaseRef.current, title: block.props.title };
         setEditModalTitle(block.props.title);
         setIsEditingModalTitle(true);
       };
@@ -249,11 +483,9 @@ export const ProjectCard = createReactBlockSpec(
        * Save edited modal title
        */
       const handleSaveModalTitle = () => {
-        editor.updateBlock(block, {
-          props: {
-            title: editModalTitle || "New Project",
-          },
-        });
+        updateCard(
+          changedProps(modalEditBaseRef.current, { title: editModalTitle || "New Project" })
+        );
         setIsEditingModalTitle(false);
       };
 
@@ -265,6 +497,89 @@ export const ProjectCard = createReactBlockSpec(
         setIsEditingModalTitle(false);
       };
 
+      /**
+       * Open the cover picker
+       */
+      const handleChooseCover = (e: React.MouseEvent) => {
+        e.stopPropagation(); // Prevent card click
+        setIsPickingCover(true);
+      };
+
+      /**
+       * Set (or remove, for "") the cover image chosen in the picker
+       */
+      const handleSelectCover = (url: string) => {
+        updateCard({ coverImage: url });
+        setIsPickingCover(false);
+      };
+
+      /**
+       * Toggle the metadata details panel in the modal
+       */
+      const handleToggleDetails = () => {
+        const metadata = pickMetadataProps(block.props);
+        modalEditBaseRef.current = { ...modalEditBaseRef.current, ...metadata };
+        setEditMetadata(metadata);
+        setIsEditingDetails(!isEditingDetails);
+      };
+
+      /**
+       * Save metadata edited in the modal details panel
+       */
+      const handleSaveDetails = () => {
+        updateCard(changedProps(modalEditBaseRef.current, editMetadata));
+        setIsEditingDetails(false);
+      };
+
+      /**
+       * Open the modal with its comments panel, from the card's comment count
+       */
+      const handleShowComments = (e: React.MouseEvent) => {
+        e.stopPropagation(); // Prevent card click
+        setIsCommentsOpen(true);
+        setOpen(true);
+      };
+
+      /**
+       * Open the modal with its suggestions panel, from the card's suggestion
+       * count
+       */
+      const handleShowSuggestions = (e: React.MouseEvent) => {
+        e.stopPropagation(); // Prevent card click
+        setIsSuggestionsOpen(true);
+        setOpen(true);
+      };
+
+      /**
+       * Accept or reject a suggested change to the card's props
+       */
+      const handleResolvePropSuggestion = (
+        e: React.MouseEvent,
+        suggestionId: PropChange["suggestionId"],
+        accept: boolean
+      ) => {
+        e.stopPropagation(); // Prevent card click
+        if (accept) acceptSuggestion(editor, suggestionId);
+        else rejectSuggestion(editor, suggestionId);
+      };
+
+      /**
+       * Start a thread about a block of the nested document
+       */
+      const handleCommentOnBlock = (nestedBlock: { id: string }) => {
+        if (promptForBlockThread(commentThreads, nestedBlock.id, block.id)) {
+          setIsCommentsOpen(true);
+        }
+      };
+
+      /**
+       * Start a thread about the whole card. It belongs to the main document,
+       * where the card is.
+       */
+      const handleCommentOnCard = () => {
+        promptForBlockThread(commentThreads, block.id, null, "this project card");
+      };
+
       /**
        * Handle Enter key to save modal title
        */
@@ -303,10 +618,51 @@ export const ProjectCard = createReactBlockSpec(
               </button>
             )}
 
+            {/* Choose Cover Button - next to the edit button */}
+            {!isEditing && (
+              <button
+                onClick={handleChooseCover}
+                className="absolute top-2 right-14 bg-white rounded-full p-2 shadow-md hover:bg-gray-100 transition z-10"
+                aria-label="Choose cover image"
+                title="Choose cover image"
+              >
+                🖼️
+              </button>
+            )}
+
+            {/* Open Comments - Top Left Corner */}
+            {openCommentCount > 0 && (
+              <button
+                onClick={handleShowComments}
+                className="absolute top-2 left-2 bg-white rounded-full px-3 py-1 shadow-md hover:bg-gray-100 transition z-10 text-sm"
+                aria-label={`${openCommentCount} open comment threads`}
+                title="Show comments"
+              >
+                💬 {openCommentCount}
+              </button>
+            )}
+
+            {/* Pending Suggestions - Top Left Corner, after the comments */}
+            {pendingSuggestionCount > 0 && (
+              <button
+                onClick={handleShowSuggestions}
+                className={`absolute top-2 ${
+                  openCommentCount > 0 ? "left-20" : "left-2"
+                } bg-amber-50 rounded-full px-3 py-1 shadow-md hover:bg-amber-100 transition z-10 text-sm`}
+                aria-label={`${pendingSuggestionCount} pending suggested changes`}
+                title="Review suggested changes"
+              >
+                📝 {pendingSuggestionCount}
+              </button>
+            )}
+
             {/* Cover Image or Placeholder */}
             {block.props.coverImage ? (
               <img
-                src={block.props.coverImage}
+                // Resized thumbnails for uploaded images; others as-is
+                src={imageVariantUrl(block.props.coverImage, { width: 640 })}
+                srcSet={imageSrcSet(block.props.coverImage)}
+                sizes="(max-width: 640px) 100vw, 640px"
                 alt="cover"
                 className="w-full h-40 object-cover rounded-md mb-2"
               />
@@ -335,6 +691,10 @@ export const ProjectCard = createReactBlockSpec(
                   className="w-full text-sm text-gray-600 border rounded px-2 py-1 focus:outline-none focus:ring-2 focus:ring-blue-500"
                   placeholder="Project description"
                 />
+                <ProjectMetadataForm
+                  value={editMetadata}
+                  onChange={setEditMetadata}
+                />
                 <div className="flex gap-2 mt-2">
                   <button
                     onClick={handleSaveEdit}
@@ -358,18 +718,68 @@ export const ProjectCard = createReactBlockSpec(
                 <p className="text-sm text-gray-600 mt-1">
                   {block.props.subtext}
                 </p>
+                {/* Metadata Chips */}
+                <ProjectMetadataChips cardProps={block.props} />
               </>
             )}
+
+            {/* Suggested Prop Changes */}
+            {propSuggestionIds.length > 0 && (
+              <div className="mt-3 border border-amber-300 bg-amber-50 rounded-md p-2 text-sm space-y-2">
+                <p className="font-medium">✍️ Suggested changes</p>
+                {propSuggestionIds.map((suggestionId) => (
+                  <div key={suggestionId} className="flex items-start gap-2">
+                    <ul className="flex-1 min-w-0">
+                      {suggestedPropChanges
+                        .filter((change) => change.suggestionId === suggestionId)
+                        .map((change) => (
+                          <li key={change.attrName} className="break-words">
+                            {describePropChange(change)}
+                          </li>
+                        ))}
+                    </ul>
+                    <button
+                      onClick={(e) => handleResolvePropSuggestion(e, suggestionId, true)}
+                      className="px-2 py-0.5 bg-green-100 text-green-800 rounded hover:bg-green-200"
+                      aria-label="Accept suggested change"
+                      title="Accept"
+                    >
+                      ✓
+                    </button>
+                    <button
+                      onClick={(e) => handleResolvePropSuggestion(e, suggestionId, false)}
+                      className="px-2 py-0.5 bg-red-100 text-red-800 rounded hover:bg-red-200"
+                      aria-label="Reject suggested change"
+                      title="Reject"
+                    >
+                      ✕
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
           </div>
 
+          {/* Cover Picker */}
+          {isPickingCover && (
+            <CoverPicker
+              nestedImages={collectImageUrls(
+                (open && (nestedEditor?.document as PortfolioBlock[])) ||
+                  nestedContentStore.get(block.id) ||
+                  []
+              )}
+              currentCover={block.props.coverImage}
+              onSelect={handleSelectCover}
+              onClose={() => setIsPickingCover(false)}
+            />
+          )}
+
           {/* ==============================================================
                Modal (Expanded State)
                ============================================================== 
                Full-screen modal containing a nested BlockNote editor.
-               Users can write detailed project information here.
-               
-               Future Enhancement: Consider saving nested editor content
-               back to block.props for persistence.
+               Users can write detailed project information here; it is
+               persisted through the editor's nested content store.
           */}
           {open && (
             // Modal Overlay - clicking outside could close modal
@@ -418,6 +828,51 @@ export const ProjectCard = createReactBlockSpec(
                       >
                         ✏️
                       </button>
+                      <button
+                        onClick={handleToggleDetails}
+                        className="text-gray-500 hover:text-gray-700 p-1"
+                        aria-label="Edit project details"
+                        title="Edit tags, links, dates, role and status"
+                      >
+                        🏷️
+                      </button>
+                      <button
+                        onClick={handleChooseCover}
+                        className="text-gray-500 hover:text-gray-700 p-1"
+                        aria-label="Choose cover image"
+                        title="Choose cover image"
+                      >
+                        🖼️
+                      </button>
+                      <button
+                        onClick={() => setIsCommentsOpen(!isCommentsOpen)}
+                        className="text-gray-500 hover:text-gray-700 p-1"
+                        aria-label="Show comments"
+                        title="Show comments on this project"
+                      >
+                        💬{openCommentCount > 0 && <span className="text-sm ml-1">{openCommentCount}</span>}
+                      </button>
+                      <button
+                        onClick={() => reviewSuggestions.setSuggesting(!isSuggesting)}
+                        className={`p-1 rounded ${
+                          isSuggesting
+                            ? "bg-amber-100 text-amber-800"
+                            : "text-gray-500 hover:text-gray-700"
+                        }`}
+                        aria-label="Suggest edits"
+                        aria-pressed={isSuggesting}
+                        title={isSuggesting ? "Suggesting edits (click to edit directly)" : "Suggest edits instead of making them"}
+                      >
+                        ✍️
+                      </button>
+                      <button
+                        onClick={() => setIsSuggestionsOpen(!isSuggestionsOpen)}
+                        className="text-gray-500 hover:text-gray-700 p-1"
+                        aria-label="Show suggested changes"
+                        title="Review suggested changes to this project"
+                      >
+                        📝{pendingNestedSuggestionCount > 0 && <span className="text-sm ml-1">{pendingNestedSuggestionCount}</span>}
+                      </button>
                     </div>
                   )}
                   {/* Close Button */}
@@ -430,11 +885,58 @@ export const ProjectCard = createReactBlockSpec(
                   </button>
                 </div>
 
+                {/* Metadata: chips, or the details form while editing */}
+                {isEditingDetails ? (
+                  <div className="border-b p-4 space-y-2">
+                    <ProjectMetadataForm
+                      value={editMetadata}
+                      onChange={setEditMetadata}
+                    />
+                    <div className="flex gap-2">
+                      <button
+                        onClick={handleSaveDetails}
+                        className="px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 text-sm"
+                      >
+                        Save
+                      </button>
+                      <button
+                        onClick={() => setIsEditingDetails(false)}
+                        className="px-3 py-1 bg-gray-300 text-gray-700 rounded hover:bg-gray-400 text-sm"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="px-4 pb-2 empty:hidden">
+                    <ProjectMetadataChips cardProps={block.props} />
+                  </div>
+                )}
+
                 {/* Modal Body - Nested Editor */}
                 <div className="flex-1 overflow-auto p-4">
                   {/* Nested BlockNote editor with full functionality */}
                   {nestedEditor ? (
-                    <BlockNoteView editor={nestedEditor} theme="light" />
+                    <BlockNoteView editor={nestedEditor} theme="light" sideMenu={false}>
+                      <CommentSideMenu onComment={handleCommentOnBlock} />
+                      {isCommentsOpen && (
+                        <CommentsPanel
+                          threads={commentThreads}
+                          cardId={block.id}
+                          title="Project comments"
+                          onClose={() => setIsCommentsOpen(false)}
+                          onCommentOnCard={handleCommentOnCard}
+                          className="fixed top-[5%] right-[5%] h-[90%] w-96 z-[60] rounded-r-lg"
+                        />
+                      )}
+                      {isSuggestionsOpen && (
+                        <SuggestionsPanel
+                          title="Suggested changes"
+                          onClose={() => setIsSuggestionsOpen(false)}
+                          className="fixed top-[5%] right-[5%] h-[90%] w-96 z-[60] rounded-r-lg"
+                        />
+                      )}
+                    </BlockNoteView>
                   ) : (
                     <div className="flex items-center justify-center h-full">
                       <p className="text-gray-500">Loading editor...</p>
@@ -458,9 +960,9 @@ export const ProjectCard = createReactBlockSpec(
  * Returns default nested editor content structure.
  *
  * @param {string} title - The project title to use in the heading
- * @returns {any[]} Array of BlockNote blocks for initial content
+ * @returns {PartialPortfolioBlock[]} Array of BlockNote blocks for initial content
  */
-function getDefaultNestedContent(title: string): any[] {
+function getDefaultNestedContent(title: string): PartialPortfolioBlock[] {
   return [
     {
       type: "heading",
@@ -474,64 +976,22 @@ function getDefaultNestedContent(title: string): any[] {
 }
 
 /**
- * Extracts plain text content from BlockNote inline content.
- *
- * BlockNote stores text as inline content objects. This function
- * recursively extracts the text strings.
- *
- * @param {any} content - BlockNote inline content (string or array)
- * @returns {string} Extracted text content
- */
-function extractTextContent(content: any): string {
-  if (typeof content === "string") {
-    return content;
-  }
-  if (Array.isArray(content)) {
-    return content
-      .map((item) => {
-        if (typeof item === "string") return item;
-        if (item.type === "text" && item.text) return item.text;
-        if (item.content) return extractTextContent(item.content);
-        return "";
-      })
-      .join("");
-  }
-  return "";
-}
-
-/**
- * Recursively searches through a BlockNote document structure to find the
- * first image block and extract its URL.
+ * Returns the props an edit form changed from the values it started with.
+ * Saving only those means a form left open doesn't overwrite changes made
+ * meanwhile elsewhere (the card preview and the modal can both be editing
+ * the same card).
  *
- * This utility function traverses the document tree depth-first, checking each
- * node for image blocks. It handles nested content structures (like lists
- * containing images) by recursively searching child nodes.
- *
- * @param {any[]} doc - Array of BlockNote block objects to search through
- * @returns {string} The URL of the first image found, or empty string if none found
- *
- * @example
- * const doc = [
- *   { type: "paragraph", content: "Hello" },
- *   { type: "image", props: { url: "cover.jpg" } }
- * ];
- * findFirstImage(doc); // Returns "cover.jpg"
+ * @param {Partial<ProjectCardProps>} base - Values when the form opened
+ * @param {Partial<ProjectCardProps>} edited - Values in the form
+ * @returns {Partial<ProjectCardProps>} The changed props
  */
-function findFirstImage(doc: any[]): string {
-  // Iterate through each block in the document
-  for (const node of doc) {
-    // Check if current node is an image block with a URL
-    if (node.type === "image" && node.props?.url) {
-      return node.props.url;
-    }
-
-    // If node has nested content (e.g., list items), search recursively
-    if (node.content && Array.isArray(node.content)) {
-      const nested = findFirstImage(node.content);
-      if (nested) return nested; // Return first image found in nested content
-    }
-  }
-
-  // No image found in this document branch
-  return "";
+function changedProps(
+  base: Partial<ProjectCardProps>,
+  edited: Partial<ProjectCardProps>
+): Partial<ProjectCardProps> {
+  return Object.fromEntries(
+    Object.entries(edited).filter(
+      ([key, value]) => base[key as keyof ProjectCardProps] !== value
+    )
+  ) as Partial<ProjectCardProps>;
 }
@@ -0,0 +1,213 @@
+// ============================================================================
+// ProjectCard Metadata Components
+// ============================================================================
+// UI for a ProjectCard's structured metadata (see utils/projectMetadata.ts):
+// - ProjectMetadataChips: read-only chips/badges for the card preview and
+//   the modal header
+// - ProjectMetadataForm: inputs used by the card's edit mode and the modal's
+//   details panel
+// ============================================================================
+
+"use client";
+
+import React from "react";
+import {
+  PROJECT_LINKS,
+  PROJECT_STATUSES,
+  STATUS_LABELS,
+  formatDateRange,
+  getProjectMetadata,
+  hasProjectMetadata,
+  type MetadataProps,
+  type ProjectStatus,
+} from "../../utils/projectMetadata";
+import type { ProjectCardProps } from "../schema";
+
+/**
+ * Badge colors per status
+ */
+const STATUS_CLASSES: Record<ProjectStatus, string> = {
+  "": "bg-gray-100 text-gray-700",
+  planned: "bg-purple-100 text-purple-800",
+  "in-progress": "bg-yellow-100 text-yellow-800",
+  completed: "bg-green-100 text-green-800",
+  maintained: "bg-blue-100 text-blue-800",
+  archived: "bg-gray-200 text-gray-600",
+};
+
+/**
+ * Picks the metadata props out of a card's props.
+ *
+ * @param {ProjectCardProps} props - The card's props
+ * @returns {MetadataProps} Just the metadata props
+ */
+export function pickMetadataProps(props: ProjectCardProps): MetadataProps {
+  return {
+    tags: props.tags,
+    role: props.role,
+    status: props.status,
+    startDate: props.startDate,
+    endDate: props.endDate,
+    liveUrl: props.liveUrl,
+    demoUrl: props.demoUrl,
+    repoUrl: props.repoUrl,
+  };
+}
+
+// ============================================================================
+// Chips
+// ============================================================================
+
+/**
+ * ProjectMetadataChips Component
+ *
+ * @param {Object} props - Component props
+ * @param {Partial<MetadataProps>} props.cardProps - The ProjectCard's props
+ * @returns {JSX.Element | null} Status/role/date badges, tag chips and links
+ */
+export function ProjectMetadataChips({ cardProps }: { cardProps: Partial<MetadataProps> }) {
+  const metadata = getProjectMetadata(cardProps);
+  if (!hasProjectMetadata(metadata)) return null;
+
+  const dateRange = formatDateRange(metadata);
+
+  return (
+    <div className="flex flex-wrap items-center gap-1 mt-2 text-xs">
+      {metadata.status && (
+        <span
+          className={`px-2 py-0.5 rounded-full font-medium ${STATUS_CLASSES[metadata.status]}`}
+        >
+          {STATUS_LABELS[metadata.status]}
+        </span>
+      )}
+      {metadata.role && (
+        <span className="px-2 py-0.5 rounded-full bg-gray-100 text-gray-700">
+          👤 {metadata.role}
+        </span>
+      )}
+      {dateRange && (
+        <span className="px-2 py-0.5 rounded-full bg-gray-100 text-gray-700">
+          📅 {dateRange}
+        </span>
+      )}
+      {metadata.tags.map((tag) => (
+        <span
+          key={tag}
+          className="px-2 py-0.5 rounded-full bg-blue-50 text-blue-700 border border-blue-200"
+        >
+          {tag}
+        </span>
+      ))}
+      {metadata.links.map((link) => (
+        <a
+          key={link.label}
+          href={link.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          // Don't open the card modal when following a link
+          onClick={(e) => e.stopPropagation()}
+          className="px-2 py-0.5 rounded-full border text-gray-700 hover:bg-gray-50"
+        >
+          🔗 {link.label}
+        </a>
+      ))}
+    </div>
+  );
+}
+
+// ============================================================================
+// Form
+// ============================================================================
+
+/**
+ * Props for the ProjectMetadataForm component
+ * - value: the metadata props being edited
+ * - onChange: called with the updated metadata props
+ */
+interface ProjectMetadataFormProps {
+  value: MetadataProps;
+  onChange: (value: MetadataProps) => void;
+}
+
+const inputClassName =
+  "w-full text-sm border rounded px-2 py-1 focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+/**
+ * ProjectMetadataForm Component
+ *
+ * @param {ProjectMetadataFormProps} props - Component props
+ * @returns {JSX.Element} Inputs for every metadata field
+ */
+export function ProjectMetadataForm({ value, onChange }: ProjectMetadataFormProps) {
+  const update = (key: keyof MetadataProps, fieldValue: string) =>
+    onChange({ ...value, [key]: fieldValue });
+
+  return (
+    <div className="grid grid-cols-2 gap-2 text-sm">
+      <label className="col-span-2">
+        <span className="text-gray-600">Tech stack (comma-separated)</span>
+        <input
+          type="text"
+          value={value.tags}
+          onChange={(e) => update("tags", e.target.value)}
+          className={inputClassName}
+          placeholder="React, TypeScript, PostgreSQL"
+        />
+      </label>
+      <label>
+        <span className="text-gray-600">Role</span>
+        <input
+          type="text"
+          value={value.role}
+          onChange={(e) => update("role", e.target.value)}
+          className={inputClassName}
+          placeholder="Lead developer"
+        />
+      </label>
+      <label>
+        <span className="text-gray-600">Status</span>
+        <select
+          value={value.status}
+          onChange={(e) => update("status", e.target.value)}
+          className={inputClassName}
+        >
+          {PROJECT_STATUSES.map((status) => (
+            <option key={status} value={status}>
+              {STATUS_LABELS[status]}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label>
+        <span className="text-gray-600">Start</span>
+        <input
+          type="month"
+          value={value.startDate}
+          onChange={(e) => update("startDate", e.target.value)}
+          className={inputClassName}
+        />
+      </label>
+      <label>
+        <span className="text-gray-600">End (empty = ongoing)</span>
+        <input
+          type="month"
+          value={value.endDate}
+          onChange={(e) => update("endDate", e.target.value)}
+          className={inputClassName}
+        />
+      </label>
+      {PROJECT_LINKS.map(({ prop, label }) => (
+        <label key={prop} className="col-span-2">
+          <span className="text-gray-600">{label} URL</span>
+          <input
+            type="url"
+            value={value[prop]}
+            onChange={(e) => update(prop, e.target.value)}
+            className={inputClassName}
+            placeholder="https://"
+          />
+        </label>
+      ))}
+    </div>
+  );
+}
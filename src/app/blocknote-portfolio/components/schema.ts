@@ -0,0 +1,121 @@
+// ============================================================================
+// Editor Schema
+// ============================================================================
+// The BlockNote schema shared by every view of a portfolio document: the main
+// editor and read-only previews. Extends the default BlockNote schema with our
+// custom ProjectCard block and with multi-column layouts (columnList/column
+// blocks from @blocknote/xl-multi-column).
+//
+// The block, editor and inline content types below are derived from the
+// schema, so code that handles blocks by type (renderers, exporters,
+// validation) fails to compile when a block type is added but not handled.
+// Modules that run on the server must import them with `import type` only.
+// ============================================================================
+
+import {
+  BlockNoteSchema,
+  defaultBlockSpecs,
+  type InlineContent,
+  type StyledText,
+  type TableContent,
+} from "@blocknote/core";
+import { en } from "@blocknote/core/locales";
+import {
+  locales as multiColumnLocales,
+  multiColumnDropCursor,
+  withMultiColumn,
+} from "@blocknote/xl-multi-column";
+import { ProjectCard } from "./blocks/ProjectCard";
+
+/**
+ * Portfolio editor schema.
+ * The schema defines all available block types and their behaviors.
+ */
+export const schema = withMultiColumn(
+  BlockNoteSchema.create({
+    blockSpecs: {
+      ...defaultBlockSpecs, // Include all default blocks (paragraph, heading, etc.)
+      projectCard: ProjectCard, // Add our custom ProjectCard block
+    },
+  })
+);
+
+// ============================================================================
+// Derived Types
+// ============================================================================
+
+/**
+ * An editor for portfolio documents
+ */
+export type PortfolioEditor = typeof schema.BlockNoteEditor;
+
+/**
+ * The block, inline content and style schemas, for BlockNote's generic
+ * components and hooks, e.g. `DragHandleMenuProps<PortfolioBlockSchema, ...>`
+ */
+export type PortfolioBlockSchema = typeof schema.blockSchema;
+export type PortfolioInlineContentSchema = typeof schema.inlineContentSchema;
+export type PortfolioStyleSchema = typeof schema.styleSchema;
+
+/**
+ * A block of a portfolio document, as returned by `editor.document`
+ */
+export type PortfolioBlock = typeof schema.Block;
+
+/**
+ * A block as accepted by the editor's insert/replace methods: props,
+ * content and children are optional, and inline content may be a string
+ */
+export type PartialPortfolioBlock = typeof schema.PartialBlock;
+
+/**
+ * Type names of all blocks, e.g. "paragraph" or "projectCard"
+ */
+export type PortfolioBlockType = PortfolioBlock["type"];
+
+/**
+ * The block of one type, e.g. `BlockOfType<"projectCard">`
+ */
+export type BlockOfType<T extends PortfolioBlockType> = Extract<PortfolioBlock, { type: T }>;
+
+/**
+ * Props of a ProjectCard block
+ */
+export type ProjectCardProps = BlockOfType<"projectCard">["props"];
+
+/**
+ * An inline content item (styled text or link) of a block or table cell
+ */
+export type PortfolioInlineContent = InlineContent<
+  typeof schema.inlineContentSchema,
+  typeof schema.styleSchema
+>;
+
+/**
+ * A run of styled text
+ */
+export type PortfolioStyledText = StyledText<typeof schema.styleSchema>;
+
+/**
+ * The content of a table block
+ */
+export type PortfolioTableContent = TableContent<
+  typeof schema.inlineContentSchema,
+  typeof schema.styleSchema
+>;
+
+/**
+ * Editor options required by the multi-column blocks: a drop cursor that
+ * creates columns when blocks are dragged beside each other, and the
+ * translations used by the column slash menu items.
+ *
+ * @example
+ * const editor = useCreateBlockNote({ schema, ...multiColumnOptions });
+ */
+export const multiColumnOptions = {
+  dropCursor: multiColumnDropCursor,
+  dictionary: {
+    ...en,
+    multi_column: multiColumnLocales.en,
+  },
+};
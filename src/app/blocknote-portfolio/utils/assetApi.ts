@@ -0,0 +1,85 @@
+// ============================================================================
+// Asset API Client
+// ============================================================================
+// Client-side helpers for the /api/assets route handlers. Like the document
+// API client these never throw, except `uploadFile`, which implements
+// BlockNote's upload hook and must reject so the editor can show the error.
+// ============================================================================
+
+import type { AssetInfo } from "./assetStore";
+
+/**
+ * Base URL of the asset collection
+ */
+const ASSETS_URL = "/api/assets";
+
+/**
+ * Result of an upload; `error` is the server's reason for rejecting it
+ */
+export type UploadResult =
+  | { ok: true; asset: AssetInfo }
+  | { ok: false; error: string };
+
+/**
+ * Uploads a file to the local asset store.
+ *
+ * @param {File} file - The file to upload
+ * @returns {Promise<UploadResult>} The stored asset, or an error message
+ */
+export async function uploadAsset(file: File): Promise<UploadResult> {
+  try {
+    const body = new FormData();
+    body.append("file", file);
+
+    const response = await fetch(ASSETS_URL, { method: "POST", body });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      const error = data?.error || `HTTP ${response.status}`;
+      console.error(`❌ Failed to upload ${file.name}: ${error}`);
+      return { ok: false, error };
+    }
+
+    console.log(`✅ Uploaded ${file.name} as ${data.name}`);
+    return { ok: true, asset: data as AssetInfo };
+  } catch (error) {
+    console.error(`❌ Failed to upload ${file.name}:`, error);
+    return { ok: false, error: "Server unavailable" };
+  }
+}
+
+/**
+ * BlockNote `uploadFile` handler: uploads the file and resolves to its URL.
+ *
+ * @param {File} file - File dropped, pasted or chosen in an image block
+ * @returns {Promise<string>} URL of the stored asset
+ *
+ * @example
+ * const editor = useCreateBlockNote({ schema, uploadFile });
+ */
+export async function uploadFile(file: File): Promise<string> {
+  const result = await uploadAsset(file);
+  if (!result.ok) {
+    throw new Error(result.error);
+  }
+  return result.asset.url;
+}
+
+/**
+ * Lists the assets stored on the server.
+ *
+ * @returns {Promise<AssetInfo[] | null>} Assets (newest first), or null on failure
+ */
+export async function listAssets(): Promise<AssetInfo[] | null> {
+  try {
+    const response = await fetch(ASSETS_URL, { cache: "no-store" });
+    if (!response.ok) {
+      console.error(`❌ Failed to list assets: HTTP ${response.status}`);
+      return null;
+    }
+    const data = await response.json();
+    return Array.isArray(data.assets) ? data.assets : [];
+  } catch (error) {
+    console.error("❌ Failed to list assets:", error);
+    return null;
+  }
+}
@@ -0,0 +1,211 @@
+// ============================================================================
+// Asset Store (Server)
+// ============================================================================
+// Stores uploaded files (images for covers and image blocks) in a local
+// assets directory, served back through /api/assets/:name.
+//
+// Files are content-addressed: the name is the SHA-256 of the bytes plus an
+// extension derived from the validated type, so uploading the same image
+// twice stores it once and asset URLs can be cached forever.
+//
+// This module is server-only; it must never be imported from client code.
+// ============================================================================
+
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+
+import { writeFileAtomic } from "./atomicWrite";
+
+/**
+ * Largest accepted upload, in bytes
+ */
+export const ASSET_MAX_BYTES = 10 * 1024 * 1024;
+
+/**
+ * Accepted upload types and the extension stored for each. SVG is left out
+ * on purpose: it can carry scripts and is served from our own origin.
+ */
+export const ASSET_TYPES: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/gif": "gif",
+  "image/webp": "webp",
+};
+
+/**
+ * A stored asset
+ */
+export interface AssetInfo {
+  name: string; // "<sha256>.<ext>"
+  url: string; // URL the asset is served from
+  type: string;
+  size: number;
+  createdAt: string;
+}
+
+/**
+ * Result of saving an upload; `error` explains a rejected file
+ */
+export type SaveAssetResult =
+  | { ok: true; asset: AssetInfo }
+  | { ok: false; error: string; status: number };
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Checks that an asset name is one this store could have produced, so it is
+ * safe to use as a file name.
+ *
+ * @param {string} name - Asset name from a URL
+ * @returns {boolean} Whether the name is valid
+ */
+export function isValidAssetName(name: string): boolean {
+  return /^[a-f0-9]{64}\.(png|jpg|gif|webp)$/.test(name);
+}
+
+/**
+ * Detects the image type from the file's leading bytes, so a file can't
+ * claim to be an image it isn't.
+ */
+function sniffImageType(bytes: Buffer): string | null {
+  const startsWith = (signature: number[], offset = 0) =>
+    signature.every((byte, index) => bytes[offset + index] === byte);
+
+  if (startsWith([0x89, 0x50, 0x4e, 0x47])) return "image/png";
+  if (startsWith([0xff, 0xd8, 0xff])) return "image/jpeg";
+  if (startsWith([0x47, 0x49, 0x46, 0x38])) return "image/gif";
+  if (startsWith([0x52, 0x49, 0x46, 0x46]) && startsWith([0x57, 0x45, 0x42, 0x50], 8)) {
+    return "image/webp";
+  }
+  return null;
+}
+
+/**
+ * Content type for a stored asset name.
+ *
+ * @param {string} name - A valid asset name
+ * @returns {string} The MIME type
+ */
+export function assetContentType(name: string): string {
+  const extension = name.slice(name.lastIndexOf(".") + 1);
+  const entry = Object.entries(ASSET_TYPES).find(([, ext]) => ext === extension);
+  return entry ? entry[0] : "application/octet-stream";
+}
+
+// ============================================================================
+// Storage
+// ============================================================================
+
+/**
+ * Default assets directory, relative to the project root
+ */
+const DEFAULT_ASSET_DIR = path.join(process.cwd(), ".data", "assets");
+
+/**
+ * Returns the configured assets directory (ASSET_DIR env variable).
+ */
+export function getAssetDirectory(): string {
+  return process.env.ASSET_DIR || DEFAULT_ASSET_DIR;
+}
+
+/**
+ * Validates and stores an uploaded file.
+ *
+ * @param {Buffer} bytes - The file content
+ * @param {string} declaredType - The MIME type sent by the client
+ * @returns {Promise<SaveAssetResult>} The stored asset, or why it was rejected
+ */
+export async function saveAsset(
+  bytes: Buffer,
+  declaredType: string
+): Promise<SaveAssetResult> {
+  if (bytes.length === 0) {
+    return { ok: false, error: "File is empty", status: 400 };
+  }
+  if (bytes.length > ASSET_MAX_BYTES) {
+    return {
+      ok: false,
+      error: `File is larger than ${ASSET_MAX_BYTES / 1024 / 1024} MB`,
+      status: 413,
+    };
+  }
+
+  const type = sniffImageType(bytes);
+  if (!type || !ASSET_TYPES[type] || (declaredType && declaredType !== type)) {
+    return {
+      ok: false,
+      error: `Unsupported file type; allowed: ${Object.keys(ASSET_TYPES).join(", ")}`,
+      status: 415,
+    };
+  }
+
+  const hash = createHash("sha256").update(bytes).digest("hex");
+  const name = `${hash}.${ASSET_TYPES[type]}`;
+  const directory = getAssetDirectory();
+  const filePath = path.join(directory, name);
+
+  await fs.mkdir(directory, { recursive: true });
+  try {
+    // Same content, same name: an existing file is already correct
+    await fs.access(filePath);
+  } catch {
+    await writeFileAtomic(filePath, bytes);
+  }
+
+  const stats = await fs.stat(filePath);
+  return { ok: true, asset: toAssetInfo(name, stats) };
+}
+
+/**
+ * Reads a stored asset.
+ *
+ * @param {string} name - A valid asset name
+ * @returns {Promise<Buffer | null>} The file content, or null if missing
+ */
+export async function readAsset(name: string): Promise<Buffer | null> {
+  try {
+    return await fs.readFile(path.join(getAssetDirectory(), name));
+  } catch (error: any) {
+    if (error?.code === "ENOENT") return null;
+    throw error;
+  }
+}
+
+/**
+ * Lists stored assets, newest first.
+ *
+ * @returns {Promise<AssetInfo[]>} The stored assets
+ */
+export async function listAssets(): Promise<AssetInfo[]> {
+  let entries: string[];
+  try {
+    entries = await fs.readdir(getAssetDirectory());
+  } catch (error: any) {
+    if (error?.code === "ENOENT") return [];
+    throw error;
+  }
+
+  const assets = await Promise.all(
+    entries.filter(isValidAssetName).map(async (name) => {
+      const stats = await fs.stat(path.join(getAssetDirectory(), name));
+      return toAssetInfo(name, stats);
+    })
+  );
+  return assets.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Builds the public description of a stored file.
+ */
+function toAssetInfo(name: string, stats: { size: number; mtime: Date }): AssetInfo {
+  return {
+    name,
+    url: `/api/assets/${name}`,
+    type: assetContentType(name),
+    size: stats.size,
+    createdAt: stats.mtime.toISOString(),
+  };
+}
@@ -0,0 +1,46 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { writeFileAtomic } from "./atomicWrite";
+
+let directory: string;
+
+beforeEach(async () => {
+  directory = await fs.mkdtemp(path.join(os.tmpdir(), "atomic-write-"));
+});
+
+afterEach(async () => {
+  await fs.rm(directory, { recursive: true, force: true });
+});
+
+describe("writeFileAtomic", () => {
+  it("writes and replaces a file, leaving no temp files", async () => {
+    const file = path.join(directory, "doc.json");
+    await writeFileAtomic(file, "first");
+    await writeFileAtomic(file, Buffer.from("second"));
+
+    expect(await fs.readFile(file, "utf8")).toBe("second");
+    expect(await fs.readdir(directory)).toEqual(["doc.json"]);
+  });
+
+  it("keeps one complete version when writes overlap", async () => {
+    const file = path.join(directory, "doc.json");
+    const versions = ["a", "b", "c", "d"].map((letter) => letter.repeat(100_000));
+    await Promise.all(versions.map((version) => writeFileAtomic(file, version)));
+
+    expect(versions).toContain(await fs.readFile(file, "utf8"));
+    expect(await fs.readdir(directory)).toEqual(["doc.json"]);
+  });
+
+  it("removes its temp file when the write fails", async () => {
+    // A directory can't be replaced by a file
+    const target = path.join(directory, "taken");
+    await fs.mkdir(target);
+    await fs.writeFile(path.join(target, "inside"), "");
+
+    await expect(writeFileAtomic(target, "data")).rejects.toThrow();
+    expect(await fs.readdir(directory)).toEqual(["taken"]);
+  });
+});
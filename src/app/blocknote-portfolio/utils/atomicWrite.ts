@@ -0,0 +1,38 @@
+// ============================================================================
+// Atomic File Writes (Server)
+// ============================================================================
+// The file stores never write a stored file in place: the content goes to a
+// temp file next to it, which is then renamed over it. A rename within a
+// directory is atomic, so readers see either the old file or the new one,
+// never a truncated mix, even when the process dies mid-write.
+//
+// This module is server-only; it must never be imported from client code.
+// ============================================================================
+
+import { randomUUID } from "crypto";
+import { promises as fs } from "fs";
+
+/**
+ * Writes a file by writing a temp file next to it and renaming it into
+ * place. Every write gets its own temp file, so concurrent writes of the
+ * same file can't interleave; the last rename wins.
+ *
+ * Temp files end in ".tmp", so listings that filter by extension skip them.
+ *
+ * @param {string} filePath - The file to write; its directory must exist
+ * @param {string | Buffer} data - The content (strings are written as UTF-8)
+ *
+ * @example
+ * await fs.mkdir(directory, { recursive: true });
+ * await writeFileAtomic(path.join(directory, "doc.json"), JSON.stringify(doc));
+ */
+export async function writeFileAtomic(filePath: string, data: string | Buffer): Promise<void> {
+  const tempPath = `${filePath}.${randomUUID()}.tmp`;
+  try {
+    await fs.writeFile(tempPath, data);
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+}
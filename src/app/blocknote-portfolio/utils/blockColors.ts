@@ -0,0 +1,45 @@
+// ============================================================================
+// Block Colors
+// ============================================================================
+// BlockNote stores text and background colors as names ("red", "blue", ...).
+// This maps them to the hex values of BlockNote's default light palette so
+// renderers outside the editor (static HTML, exports) match the editor.
+//
+// Kept free of @blocknote/core imports so it is safe in server components.
+// ============================================================================
+
+/**
+ * BlockNote's default light palette, by color name
+ */
+export const BLOCK_COLORS: Record<string, { text: string; background: string }> =
+  {
+    gray: { text: "#9b9a97", background: "#ebeced" },
+    brown: { text: "#64473a", background: "#e9e5e3" },
+    red: { text: "#e03e3e", background: "#fbe4e4" },
+    orange: { text: "#d9730d", background: "#f6e9d9" },
+    yellow: { text: "#dfab01", background: "#fbf3db" },
+    green: { text: "#4d6461", background: "#ddedea" },
+    blue: { text: "#0b6e99", background: "#ddebf1" },
+    purple: { text: "#6940a5", background: "#eae4f2" },
+    pink: { text: "#ad1a72", background: "#f4dfeb" },
+  };
+
+/**
+ * Resolves a BlockNote text color name to a CSS color.
+ *
+ * @param {unknown} name - Color name from a block prop or text style
+ * @returns {string | undefined} Hex color, or undefined for "default"/unknown
+ */
+export function textColor(name: unknown): string | undefined {
+  return typeof name === "string" ? BLOCK_COLORS[name]?.text : undefined;
+}
+
+/**
+ * Resolves a BlockNote background color name to a CSS color.
+ *
+ * @param {unknown} name - Color name from a block prop or text style
+ * @returns {string | undefined} Hex color, or undefined for "default"/unknown
+ */
+export function backgroundColor(name: unknown): string | undefined {
+  return typeof name === "string" ? BLOCK_COLORS[name]?.background : undefined;
+}
@@ -0,0 +1,280 @@
+import { describe, expect, it } from "vitest";
+
+import type { PortfolioBlock } from "../components/schema";
+import {
+  blockToText,
+  collectImageUrls,
+  countWords,
+  documentToText,
+  findBlock,
+  findBlocksOfType,
+  inlineContentToText,
+  walkBlocks,
+} from "./blockTraversal";
+import type { NestedContentTable } from "./nestedContent";
+
+// ============================================================================
+// Fixture
+// ============================================================================
+
+const text = (value: string) => ({ type: "text", text: value, styles: {} });
+
+const block = (id: string, type: string, extra: Record<string, unknown> = {}) =>
+  ({ id, type, props: {}, children: [], ...extra }) as unknown as PortfolioBlock;
+
+const paragraph = (id: string, value: string, children: PortfolioBlock[] = []) =>
+  block(id, "paragraph", { content: [text(value)], children });
+
+const image = (id: string, url: string) => block(id, "image", { props: { url } });
+
+/**
+ * A document with list children, a two-column layout and ProjectCards: one
+ * at the top level, one inside a column and one inside the first card's
+ * nested document
+ */
+const DOCUMENT: PortfolioBlock[] = [
+  block("title", "heading", { props: { level: 1 }, content: [text("My portfolio")] }),
+  block("list", "bulletListItem", {
+    content: [text("Skills")],
+    children: [paragraph("list-child", "TypeScript and React")],
+  }),
+  image("hero", "https://example.com/hero.png"),
+  block("columns", "columnList", {
+    children: [
+      block("left", "column", {
+        children: [
+          paragraph("left-text", "Left side"),
+          image("left-image", "https://example.com/left.png"),
+        ],
+      }),
+      block("right", "column", { children: [block("card-2", "projectCard")] }),
+    ],
+  }),
+  block("card-1", "projectCard"),
+  paragraph("outro", "Thanks for reading"),
+];
+
+const NESTED_CONTENT = {
+  "card-1": [
+    paragraph("card-1-text", "Built a website"),
+    image("card-1-image", "https://example.com/site.png"),
+    block("card-3", "projectCard"),
+  ],
+  "card-2": [
+    block("card-2-table", "table", {
+      content: {
+        type: "tableContent",
+        rows: [
+          { cells: [[text("Year")], { type: "tableCell", props: {}, content: [text("Award")] }] },
+          { cells: [[text("2024")], [text("Best portfolio")]] },
+        ],
+      },
+    }),
+  ],
+  "card-3": [
+    paragraph("card-3-text", "Deeply nested"),
+    image("card-3-image", "https://example.com/hero.png"),
+  ],
+} as unknown as NestedContentTable;
+
+/**
+ * Ids of the blocks a walk visits, in order
+ */
+function visitedIds(nestedContent?: NestedContentTable): string[] {
+  const ids: string[] = [];
+  walkBlocks(DOCUMENT, (visited) => void ids.push(visited.id), nestedContent);
+  return ids;
+}
+
+// ============================================================================
+// Walking
+// ============================================================================
+
+describe("walkBlocks", () => {
+  it("visits blocks depth-first, children after their parent", () => {
+    expect(visitedIds()).toEqual([
+      "title",
+      "list",
+      "list-child",
+      "hero",
+      "columns",
+      "left",
+      "left-text",
+      "left-image",
+      "right",
+      "card-2",
+      "card-1",
+      "outro",
+    ]);
+  });
+
+  it("visits a card's nested document right after the card, at any depth", () => {
+    expect(visitedIds(NESTED_CONTENT)).toEqual([
+      "title",
+      "list",
+      "list-child",
+      "hero",
+      "columns",
+      "left",
+      "left-text",
+      "left-image",
+      "right",
+      "card-2",
+      "card-2-table",
+      "card-1",
+      "card-1-text",
+      "card-1-image",
+      "card-3",
+      "card-3-text",
+      "card-3-image",
+      "outro",
+    ]);
+  });
+
+  it("visits a card's nested document only once", () => {
+    const card = block("card-3", "projectCard");
+    const ids: string[] = [];
+    walkBlocks([card, card], (visited) => void ids.push(visited.id), NESTED_CONTENT);
+
+    expect(ids).toEqual(["card-3", "card-3-text", "card-3-image", "card-3"]);
+  });
+
+  it("stops when the visitor returns false", () => {
+    const ids: string[] = [];
+    const completed = walkBlocks(
+      DOCUMENT,
+      (visited) => {
+        ids.push(visited.id);
+        if (visited.id === "card-1-text") return false;
+      },
+      NESTED_CONTENT
+    );
+
+    expect(completed).toBe(false);
+    expect(ids[ids.length - 1]).toBe("card-1-text");
+    expect(ids).not.toContain("outro");
+  });
+
+  it("skips entries that are not blocks", () => {
+    const ids: string[] = [];
+    const completed = walkBlocks(
+      [null, paragraph("p", "Text"), "junk"] as unknown as PortfolioBlock[],
+      (visited) => void ids.push(visited.id)
+    );
+
+    expect(completed).toBe(true);
+    expect(ids).toEqual(["p"]);
+  });
+});
+
+describe("findBlock", () => {
+  it("returns the first matching block, searching columns and nested documents", () => {
+    expect(findBlock(DOCUMENT, (candidate) => candidate.type === "projectCard")?.id).toBe(
+      "card-2"
+    );
+    expect(findBlock(DOCUMENT, (candidate) => candidate.id === "left-image")?.id).toBe(
+      "left-image"
+    );
+    expect(
+      findBlock(DOCUMENT, (candidate) => candidate.id === "card-3-text", NESTED_CONTENT)?.id
+    ).toBe("card-3-text");
+  });
+
+  it("returns null when nothing matches", () => {
+    expect(findBlock(DOCUMENT, (candidate) => candidate.id === "card-3-text")).toBeNull();
+    expect(findBlock([], () => true)).toBeNull();
+  });
+});
+
+describe("findBlocksOfType", () => {
+  it("returns blocks of a type in document order", () => {
+    expect(findBlocksOfType(DOCUMENT, "projectCard").map((found) => found.id)).toEqual([
+      "card-2",
+      "card-1",
+    ]);
+    expect(
+      findBlocksOfType(DOCUMENT, "projectCard", NESTED_CONTENT).map((found) => found.id)
+    ).toEqual(["card-2", "card-1", "card-3"]);
+  });
+
+  it("accepts several types", () => {
+    expect(
+      findBlocksOfType(DOCUMENT, ["column", "image"]).map((found) => found.id)
+    ).toEqual(["hero", "left", "left-image", "right"]);
+  });
+});
+
+// ============================================================================
+// Text
+// ============================================================================
+
+describe("text", () => {
+  it("extracts the text of inline content, including links", () => {
+    expect(inlineContentToText("plain")).toBe("plain");
+    expect(inlineContentToText(undefined)).toBe("");
+    expect(
+      inlineContentToText([
+        text("Visit "),
+        { type: "link", href: "https://example.com", content: [text("my site")] },
+      ] as any)
+    ).toBe("Visit my site");
+  });
+
+  it("extracts table text with tabs between cells and line breaks between rows", () => {
+    expect(blockToText(NESTED_CONTENT["card-2"][0])).toBe("Year\tAward\n2024\tBest portfolio");
+    expect(blockToText(image("i", "https://example.com/a.png"))).toBe("");
+  });
+
+  it("joins the text of a document one block per line", () => {
+    expect(documentToText(DOCUMENT)).toBe(
+      [
+        "My portfolio",
+        "Skills",
+        "TypeScript and React",
+        "Left side",
+        "Thanks for reading",
+      ].join("\n")
+    );
+  });
+});
+
+describe("countWords", () => {
+  it("counts the words of the document, its columns and list children", () => {
+    expect(countWords(DOCUMENT)).toBe(11);
+  });
+
+  it("counts the words of nested documents when given them", () => {
+    // + "Year Award 2024 Best portfolio", "Built a website", "Deeply nested"
+    expect(countWords(DOCUMENT, NESTED_CONTENT)).toBe(11 + 5 + 3 + 2);
+  });
+
+  it("counts nothing in an empty document", () => {
+    expect(countWords([])).toBe(0);
+    expect(countWords([paragraph("p", "   ")])).toBe(0);
+  });
+});
+
+// ============================================================================
+// Images
+// ============================================================================
+
+describe("collectImageUrls", () => {
+  it("collects image URLs in document order, including columns", () => {
+    expect(collectImageUrls(DOCUMENT)).toEqual([
+      "https://example.com/hero.png",
+      "https://example.com/left.png",
+    ]);
+  });
+
+  it("includes nested documents without repeating URLs", () => {
+    expect(collectImageUrls(DOCUMENT, NESTED_CONTENT)).toEqual([
+      "https://example.com/hero.png",
+      "https://example.com/left.png",
+      "https://example.com/site.png",
+    ]);
+  });
+
+  it("skips images without a URL", () => {
+    expect(collectImageUrls([image("empty", "")])).toEqual([]);
+  });
+});
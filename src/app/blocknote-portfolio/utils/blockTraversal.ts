@@ -0,0 +1,258 @@
+// ============================================================================
+// Block Traversal
+// ============================================================================
+// Walks portfolio documents the same way everywhere: depth-first in document
+// order, into every block's children (list items, columns) and — when given
+// the nested content table — into the nested document of each ProjectCard,
+// right after the card itself.
+//
+// Built on the walk:
+// - findBlock / findBlocksOfType: search by predicate or block type
+// - inlineContentToText / blockToText / documentToText: plain text
+// - countWords: word count of a document
+// - collectImageUrls: URLs of image blocks, without duplicates
+//
+// Free of runtime imports so it can be used on the server.
+// ============================================================================
+
+import type {
+  BlockOfType,
+  PortfolioBlock,
+  PortfolioBlockType,
+  PortfolioInlineContent,
+} from "../components/schema";
+import type { NestedContentTable } from "./nestedContent";
+
+/**
+ * Called for each block; returning false stops the walk
+ */
+export type BlockVisitor = (block: PortfolioBlock) => void | false;
+
+// ============================================================================
+// Walking
+// ============================================================================
+
+/**
+ * Visits every block of a document, depth-first in document order. Children
+ * are visited after their parent, and a ProjectCard's nested document right
+ * after the card (only once per card, even if a card appears twice).
+ *
+ * @param {PortfolioBlock[]} blocks - Blocks to walk
+ * @param {BlockVisitor} visit - Called for each block; return false to stop
+ * @param {NestedContentTable} nestedContent - Nested documents to descend
+ *   into (without it, nested documents are skipped)
+ * @returns {boolean} False if the visitor stopped the walk
+ *
+ * @example
+ * walkBlocks(document, (block) => {
+ *   if (block.type === "image") console.log(block.props.url);
+ * }, nestedContent);
+ */
+export function walkBlocks(
+  blocks: PortfolioBlock[],
+  visit: BlockVisitor,
+  nestedContent?: NestedContentTable
+): boolean {
+  const seenCards = new Set<string>();
+
+  const walk = (list: PortfolioBlock[]): boolean => {
+    for (const block of list) {
+      if (!block || typeof block !== "object") continue;
+      if (visit(block) === false) return false;
+
+      if (Array.isArray(block.children) && !walk(block.children)) return false;
+
+      if (
+        nestedContent &&
+        block.type === "projectCard" &&
+        block.id &&
+        !seenCards.has(block.id)
+      ) {
+        seenCards.add(block.id);
+        const nested = nestedContent[block.id];
+        if (Array.isArray(nested) && !walk(nested)) return false;
+      }
+    }
+    return true;
+  };
+
+  return walk(blocks);
+}
+
+/**
+ * Returns the first block matching a predicate.
+ *
+ * @param {PortfolioBlock[]} blocks - Blocks to search
+ * @param {(block: PortfolioBlock) => boolean} predicate - Match condition
+ * @param {NestedContentTable} nestedContent - Nested documents to search too
+ * @returns {PortfolioBlock | null} The block, or null if none matches
+ */
+export function findBlock<T extends PortfolioBlock = PortfolioBlock>(
+  blocks: PortfolioBlock[],
+  predicate: ((block: PortfolioBlock) => block is T) | ((block: PortfolioBlock) => boolean),
+  nestedContent?: NestedContentTable
+): T | null {
+  let found: T | null = null;
+  walkBlocks(
+    blocks,
+    (block) => {
+      if (!predicate(block)) return;
+      found = block as T;
+      return false;
+    },
+    nestedContent
+  );
+  return found;
+}
+
+/**
+ * Returns every block of a type (or of one of several types), in document
+ * order.
+ *
+ * @param {PortfolioBlock[]} blocks - Blocks to search
+ * @param {PortfolioBlockType | PortfolioBlockType[]} type - Block type(s)
+ * @param {NestedContentTable} nestedContent - Nested documents to search too
+ * @returns {BlockOfType[]} The matching blocks
+ *
+ * @example
+ * const cards = findBlocksOfType(snapshot.document, "projectCard");
+ */
+export function findBlocksOfType<T extends PortfolioBlockType>(
+  blocks: PortfolioBlock[],
+  type: T | T[],
+  nestedContent?: NestedContentTable
+): BlockOfType<T>[] {
+  const types: PortfolioBlockType[] = Array.isArray(type) ? type : [type];
+  const matches: BlockOfType<T>[] = [];
+  walkBlocks(
+    blocks,
+    (block) => {
+      if (types.indexOf(block.type) !== -1) matches.push(block as BlockOfType<T>);
+    },
+    nestedContent
+  );
+  return matches;
+}
+
+// ============================================================================
+// Text
+// ============================================================================
+
+/**
+ * Extracts the plain text of inline content (styled text and links).
+ *
+ * @param {string | PortfolioInlineContent[]} content - BlockNote inline content
+ * @returns {string} The text
+ */
+export function inlineContentToText(
+  content: string | PortfolioInlineContent[] | undefined
+): string {
+  if (!content) return "";
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return "";
+  return content
+    .map((item) => {
+      if (item?.type === "text") return item.text || "";
+      if (item?.type === "link") return inlineContentToText(item.content);
+      return "";
+    })
+    .join("");
+}
+
+/**
+ * Extracts the plain text of one block's own content (not its children).
+ * Table cells are separated by tabs and rows by line breaks.
+ *
+ * @param {PortfolioBlock} block - The block
+ * @returns {string} The text ("" for blocks without text, like images)
+ */
+export function blockToText(block: PortfolioBlock): string {
+  const content = block.content;
+  if (content && !Array.isArray(content) && typeof content === "object") {
+    return (content.rows ?? [])
+      .map((row) =>
+        (row.cells ?? [])
+          .map((cell) =>
+            inlineContentToText(
+              "type" in cell && cell.type === "tableCell"
+                ? cell.content
+                : (cell as PortfolioInlineContent[])
+            )
+          )
+          .join("\t")
+      )
+      .join("\n");
+  }
+  return inlineContentToText(content as string | PortfolioInlineContent[] | undefined);
+}
+
+/**
+ * Extracts the plain text of a document, one line per block with text.
+ *
+ * @param {PortfolioBlock[]} blocks - The document
+ * @param {NestedContentTable} nestedContent - Include the text of nested
+ *   documents too
+ * @returns {string} The text
+ */
+export function documentToText(
+  blocks: PortfolioBlock[],
+  nestedContent?: NestedContentTable
+): string {
+  const lines: string[] = [];
+  walkBlocks(
+    blocks,
+    (block) => {
+      const text = blockToText(block);
+      if (text.trim()) lines.push(text);
+    },
+    nestedContent
+  );
+  return lines.join("\n");
+}
+
+/**
+ * Counts the words of a document.
+ *
+ * @param {PortfolioBlock[]} blocks - The document
+ * @param {NestedContentTable} nestedContent - Count nested documents too
+ * @returns {number} Number of whitespace-separated words
+ */
+export function countWords(
+  blocks: PortfolioBlock[],
+  nestedContent?: NestedContentTable
+): number {
+  return documentToText(blocks, nestedContent).split(/\s+/).filter(Boolean).length;
+}
+
+// ============================================================================
+// Images
+// ============================================================================
+
+/**
+ * Collects the URLs of all image blocks, in document order and without
+ * duplicates.
+ *
+ * @param {PortfolioBlock[]} blocks - The document
+ * @param {NestedContentTable} nestedContent - Include images of nested
+ *   documents too
+ * @returns {string[]} Image URLs
+ *
+ * @example
+ * const cover = collectImageUrls(nestedEditor.document)[0] ?? "";
+ */
+export function collectImageUrls(
+  blocks: PortfolioBlock[],
+  nestedContent?: NestedContentTable
+): string[] {
+  const urls: string[] = [];
+  walkBlocks(
+    blocks,
+    (block) => {
+      if (block.type === "image" && block.props.url && urls.indexOf(block.props.url) === -1) {
+        urls.push(block.props.url);
+      }
+    },
+    nestedContent
+  );
+  return urls;
+}
@@ -0,0 +1,137 @@
+// @vitest-environment jsdom
+import { BlockNoteEditor } from "@blocknote/core";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import {
+  schema,
+  type PartialPortfolioBlock,
+  type PortfolioBlock,
+  type PortfolioEditor,
+} from "../components/schema";
+import { startCardEditSession } from "./cardEditSession";
+import { createNestedContentStore } from "./nestedContent";
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const paragraph = (id: string, text: string) =>
+  ({
+    id,
+    type: "paragraph",
+    props: {},
+    content: [{ type: "text", text, styles: {} }],
+    children: [],
+  }) as unknown as PortfolioBlock;
+
+/**
+ * Creates a main editor with a paragraph and a card. It's mounted, as the
+ * undo history only records changes once the editor has a view.
+ */
+function createEditor(): PortfolioEditor {
+  const editor = BlockNoteEditor.create({
+    schema,
+    initialContent: [
+      { id: "intro", type: "paragraph", content: "Intro" },
+      {
+        id: "card",
+        type: "projectCard",
+        props: { title: "Weather app", subtext: "Forecasts for hikers" },
+      },
+    ] as PartialPortfolioBlock[],
+  }) as unknown as PortfolioEditor;
+  editor.mount(document.createElement("div"));
+  return editor;
+}
+
+const cardProps = (editor: PortfolioEditor) => {
+  const card = editor.getBlock("card");
+  return card?.type === "projectCard" ? card.props : undefined;
+};
+
+const introText = (editor: PortfolioEditor) =>
+  (editor.getBlock("intro")?.content as { text: string }[]).map(({ text }) => text).join("");
+
+/**
+ * Lets time pass, so the next change starts a new undo step rather than
+ * joining the last one, and queued nested documents are written
+ */
+const pause = () => vi.advanceTimersByTime(1000);
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe("startCardEditSession", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("records a session's edits as exactly one undo step", () => {
+    const editor = createEditor();
+    const store = createNestedContentStore({ card: [paragraph("n1", "Built with React")] });
+
+    // An earlier change, which undoing the session must leave alone
+    editor.updateBlock("intro", { content: "Intro, edited" });
+    pause();
+
+    const session = startCardEditSession(editor, store, "card", store.get("card")!);
+    session.updateProps({ title: "Forecast app" });
+    pause();
+    session.setDocument([paragraph("n1", "Built with React and Rust")]);
+    pause();
+    session.updateProps({ subtext: "Forecasts for climbers" });
+    pause();
+    session.setDocument([paragraph("n1", "Built with React, Rust and Go")]);
+    session.end();
+
+    const revision = cardProps(editor)?.contentRevision;
+    expect(revision).not.toBe("");
+    expect(cardProps(editor)).toMatchObject({
+      title: "Forecast app",
+      subtext: "Forecasts for climbers",
+    });
+    expect(store.get("card")).toEqual([paragraph("n1", "Built with React, Rust and Go")]);
+
+    // One undo takes back the whole session...
+    editor.undo();
+    expect(cardProps(editor)).toMatchObject({
+      title: "Weather app",
+      subtext: "Forecasts for hikers",
+      contentRevision: "",
+    });
+    expect(introText(editor)).toBe("Intro, edited");
+    expect(store.restoreRevision("card", "")).toBe(true);
+    expect(store.get("card")).toEqual([paragraph("n1", "Built with React")]);
+
+    // ...and the next one the change made before it
+    editor.undo();
+    expect(introText(editor)).toBe("Intro");
+
+    editor.redo();
+    editor.redo();
+    expect(cardProps(editor)).toMatchObject({
+      title: "Forecast app",
+      contentRevision: revision,
+    });
+  });
+
+  it("adds no undo step for a session without changes", () => {
+    const editor = createEditor();
+    const store = createNestedContentStore();
+
+    editor.updateBlock("intro", { content: "Intro, edited" });
+    pause();
+
+    const session = startCardEditSession(editor, store, "card", []);
+    session.end();
+
+    editor.undo();
+    expect(introText(editor)).toBe("Intro");
+    expect(cardProps(editor)).toMatchObject({ title: "Weather app", contentRevision: "" });
+  });
+});
@@ -0,0 +1,163 @@
+// ============================================================================
+// ProjectCard Edit Sessions
+// ============================================================================
+// Syncs a ProjectCard's modal with the main editor. Everything done while
+// the modal is open — nested document edits, cover, title and metadata
+// changes — becomes a single undo step in the main editor:
+//
+// - Nested editor changes are written to the NestedContentStore in batches,
+//   once typing pauses, rather than on every keystroke.
+// - Prop changes are applied to the card right away, so the card and the
+//   rest of the app show them, but are kept out of the undo history.
+// - When the session ends, the props changed during it are set back to
+//   where they were and applied again in one transaction, together with a
+//   new `contentRevision` naming the nested document as it is now. Undo in
+//   the main editor restores the old props and revision, and the card then
+//   restores the matching nested document from the store.
+// ============================================================================
+
+import type { PortfolioBlock, ProjectCardProps } from "../components/schema";
+import { collectImageUrls } from "./blockTraversal";
+import {
+  createContentRevision,
+  type NestedContentStore,
+} from "./nestedContent";
+
+/**
+ * How long the nested editor must be idle before its document is written to
+ * the store, in milliseconds
+ */
+const NESTED_SYNC_DELAY = 300;
+
+/**
+ * The parts of the main editor a session uses. The card renderer's editor
+ * is typed with the card's own schema only, so the session doesn't require
+ * the full portfolio editor type.
+ */
+export interface SessionEditor {
+  getBlock(id: string): { props: Record<string, any> } | undefined;
+  updateBlock(id: string, update: { props: Record<string, any> }): unknown;
+  transact<T>(callback: (tr: { setMeta(key: string, value: unknown): unknown }) => T): T;
+}
+
+/**
+ * One opening of a card's modal
+ */
+export interface CardEditSession {
+  /** Queues the nested editor's document to be written once typing pauses */
+  setDocument(document: PortfolioBlock[]): void;
+  /** Changes card props without adding an undo step of their own */
+  updateProps(props: Partial<ProjectCardProps>): void;
+  /** Writes a queued nested document right away */
+  flush(): void;
+  /** Flushes and records the session as one undo step; later calls do nothing */
+  end(): void;
+}
+
+/**
+ * Runs editor changes without recording them in the undo history.
+ */
+function withoutHistory(editor: SessionEditor, change: () => void): void {
+  editor.transact((tr) => {
+    tr.setMeta("addToHistory", false);
+    change();
+  });
+}
+
+/**
+ * Starts an edit session for a card whose modal was just opened.
+ *
+ * @param {SessionEditor} editor - The main editor
+ * @param {NestedContentStore} store - The main editor's nested documents
+ * @param {string} blockId - Id of the card
+ * @param {PortfolioBlock[]} initialDocument - The document the nested editor
+ *   starts with
+ * @returns {CardEditSession} The session
+ *
+ * @example
+ * const session = startCardEditSession(editor, store, block.id, nested.document);
+ * nested.onChange(() => session.setDocument(nested.document));
+ * // ...when the modal closes
+ * session.end();
+ */
+export function startCardEditSession(
+  editor: SessionEditor,
+  store: NestedContentStore,
+  blockId: string,
+  initialDocument: PortfolioBlock[]
+): CardEditSession {
+  const initialProps = { ...(editor.getBlock(blockId)?.props ?? {}) };
+  const initialRevision = String(initialProps.contentRevision ?? "");
+
+  // Undo of this session goes back to the document the modal opened with
+  store.saveRevision(blockId, initialRevision, store.get(blockId) ?? initialDocument);
+
+  let pending: PortfolioBlock[] | null = null;
+  let timeoutId: ReturnType<typeof setTimeout> | null = null;
+  let documentChanged = false;
+  let ended = false;
+
+  const updateProps = (props: Partial<ProjectCardProps>) => {
+    if (!editor.getBlock(blockId)) return;
+    withoutHistory(editor, () => editor.updateBlock(blockId, { props }));
+  };
+
+  const flush = () => {
+    if (timeoutId) clearTimeout(timeoutId);
+    timeoutId = null;
+    if (!pending) return;
+
+    const document = pending;
+    pending = null;
+    store.set(blockId, document);
+    documentChanged = true;
+
+    // Use the first image as cover until one is set (a chosen cover is
+    // never replaced automatically)
+    const coverImage = collectImageUrls(document)[0];
+    if (coverImage && !editor.getBlock(blockId)?.props.coverImage) {
+      updateProps({ coverImage });
+    }
+  };
+
+  return {
+    setDocument(document) {
+      if (ended) return;
+      pending = document;
+      if (timeoutId) clearTimeout(timeoutId);
+      timeoutId = setTimeout(flush, NESTED_SYNC_DELAY);
+    },
+    updateProps,
+    flush,
+    end() {
+      if (ended) return;
+      flush();
+      ended = true;
+
+      // The card may have been deleted while the modal was open
+      const card = editor.getBlock(blockId);
+      if (!card) return;
+
+      const changedKeys = Object.keys(card.props).filter(
+        (key) => card.props[key] !== initialProps[key]
+      );
+      if (!documentChanged && changedKeys.length === 0) return;
+
+      const revision = documentChanged ? createContentRevision() : initialRevision;
+      if (documentChanged) {
+        store.saveRevision(blockId, revision, store.get(blockId) ?? initialDocument);
+      }
+
+      const before: Record<string, any> = {};
+      const after: Record<string, any> = { contentRevision: revision };
+      changedKeys.forEach((key) => {
+        before[key] = initialProps[key];
+        after[key] = card.props[key];
+      });
+
+      // Replay the session's changes as a single undo step
+      withoutHistory(editor, () => editor.updateBlock(blockId, { props: before }));
+      editor.updateBlock(blockId, { props: after });
+    },
+  };
+}
@@ -0,0 +1,61 @@
+// ============================================================================
+// ProjectCard Navigation
+// ============================================================================
+// Lets UI outside the editor (e.g. the project gallery) ask a ProjectCard to
+// scroll into view and open its modal. A card's modal state is local to its
+// renderer, so cards subscribe to open requests for their own editor;
+// requests are scoped per editor instance so read-only previews of the same
+// document (which share block ids) are not affected.
+// ============================================================================
+
+type OpenCardListener = (blockId: string) => void;
+
+const listenersByEditor = new WeakMap<object, Set<OpenCardListener>>();
+
+/**
+ * Registers a listener for open requests on an editor's cards.
+ *
+ * @param {object} editor - The main BlockNote editor
+ * @param {OpenCardListener} listener - Called with the requested block id
+ * @returns {() => void} Unsubscribe function
+ */
+export function onOpenCardRequest(
+  editor: object,
+  listener: OpenCardListener
+): () => void {
+  let listeners = listenersByEditor.get(editor);
+  if (!listeners) {
+    listeners = new Set();
+    listenersByEditor.set(editor, listeners);
+  }
+  listeners.add(listener);
+
+  return () => {
+    listeners?.delete(listener);
+  };
+}
+
+/**
+ * Scrolls a ProjectCard of the editor into view and opens its modal.
+ *
+ * @param {object} editor - The main BlockNote editor
+ * @param {HTMLElement | undefined} root - The editor's DOM element
+ * @param {string} blockId - Id of the card to open
+ *
+ * @example
+ * requestOpenCard(editor, editor.domElement, card.id);
+ */
+export function requestOpenCard(
+  editor: object,
+  root: HTMLElement | undefined,
+  blockId: string
+): void {
+  const element = root?.querySelector(`[data-id="${CSS.escape(blockId)}"]`);
+  if (element) {
+    element.scrollIntoView({ behavior: "smooth", block: "center" });
+  } else {
+    console.warn(`⚠️ Project card ${blockId} is not in the editor`);
+  }
+
+  listenersByEditor.get(editor)?.forEach((listener) => listener(blockId));
+}
@@ -0,0 +1,455 @@
+// ============================================================================
+// Real-time Collaboration
+// ============================================================================
+// Multi-user editing through Yjs and the local collaboration server
+// (scripts/collab-server.mjs). It is off unless NEXT_PUBLIC_COLLAB_URL is
+// set, e.g. to ws://localhost:1234; without it every editor works alone as
+// before.
+//
+// One Y.Doc per portfolio document (the server's room is the document id)
+// holds everything people edit together:
+// - "document": the main editor's content, bound through BlockNote's
+//   `collaboration` option, which also shows the others' cursors
+// - "card:<blockId>": the nested document of a ProjectCard while its modal
+//   is open, so two people in the same card's modal edit it together
+// - "nestedContent": a mirror of the NestedContentStore, so every client
+//   auto-saves, exports and previews the same nested documents
+// - "comments": a mirror of the comment threads, so everyone sees the same
+//   discussions
+// - "suggestions": a mirror of the suggestion marks of every document, so
+//   cards' badges and previews show everyone's pending suggestions
+// - "init": the client chosen by the server to fill a new main document
+//
+// Presence (names, colours, cursors and which card's modal is open) is
+// shared through the provider's awareness.
+// ============================================================================
+
+import { WebsocketProvider } from "y-websocket";
+import * as Y from "yjs";
+
+import type {
+  PartialPortfolioBlock,
+  PortfolioBlock,
+  PortfolioEditor,
+} from "../components/schema";
+import { applyCommentRanges, type CommentThreads } from "./commentThreads";
+import type { NestedContentStore, NestedContentTable } from "./nestedContent";
+import { applySuggestionMarks, type ReviewSuggestions } from "./suggestionMode";
+import { getCurrentUser } from "./userIdentity";
+
+/**
+ * Address of the collaboration server; collaboration is off when empty
+ */
+const COLLAB_URL = process.env.NEXT_PUBLIC_COLLAB_URL || "";
+
+/**
+ * How a user appears to the others
+ */
+export interface CollaborationUser {
+  name: string;
+  color: string;
+}
+
+/**
+ * What each client shares through awareness
+ */
+export interface PresenceState {
+  user?: CollaborationUser;
+  /** Block id of the ProjectCard whose modal the client has open */
+  editingCard?: string | null;
+}
+
+/**
+ * The shared state of one portfolio document
+ */
+export interface CollaborationSession {
+  doc: Y.Doc;
+  provider: WebsocketProvider;
+  user: CollaborationUser;
+  /** The main document */
+  fragment: Y.XmlFragment;
+  /** Mirror of the nested content store */
+  nestedContent: Y.Map<PortfolioBlock[]>;
+  /** Mirror of the comment threads' entries */
+  comments: Y.Map<unknown>;
+  /** Mirror of the suggestions' entries */
+  suggestions: Y.Map<unknown>;
+  /** Returns the shared document of a ProjectCard's modal */
+  cardFragment(blockId: string): Y.XmlFragment;
+  /** Disconnects from the server */
+  destroy(): void;
+}
+
+/**
+ * Whether collaboration is configured for this build.
+ *
+ * @returns {boolean} True if NEXT_PUBLIC_COLLAB_URL is set
+ */
+export function isCollaborationEnabled(): boolean {
+  return COLLAB_URL !== "";
+}
+
+/**
+ * Connects to the collaboration server's room for a document.
+ *
+ * @param {string} docId - The document id (the room name)
+ * @returns {CollaborationSession} The session; destroy it when done
+ *
+ * @example
+ * const session = createCollaborationSession(docId);
+ * session.provider.once("sync", () => console.log("synced"));
+ */
+export function createCollaborationSession(docId: string): CollaborationSession {
+  const doc = new Y.Doc();
+  const provider = new WebsocketProvider(COLLAB_URL, docId, doc);
+  const { name, color } = getCurrentUser();
+  const user: CollaborationUser = { name, color };
+  provider.awareness.setLocalStateField("user", user);
+
+  return {
+    doc,
+    provider,
+    user,
+    fragment: doc.getXmlFragment("document"),
+    nestedContent: doc.getMap<PortfolioBlock[]>("nestedContent"),
+    comments: doc.getMap("comments"),
+    suggestions: doc.getMap("suggestions"),
+    cardFragment: (blockId) => doc.getXmlFragment(`card:${blockId}`),
+    destroy() {
+      provider.destroy();
+      doc.destroy();
+    },
+  };
+}
+
+// Sessions are keyed by the main editor instance, like the nested content
+// stores, so card renderers can find the session of their editor.
+const sessionsByEditor = new WeakMap<object, CollaborationSession>();
+
+/**
+ * Records the session an editor was created with.
+ *
+ * @param {object} editor - The main BlockNote editor
+ * @param {CollaborationSession | null} session - Its session, or null when
+ *   it edits alone
+ */
+export function attachCollaboration(
+  editor: object,
+  session: CollaborationSession | null
+): void {
+  if (session) {
+    sessionsByEditor.set(editor, session);
+  } else {
+    sessionsByEditor.delete(editor);
+  }
+}
+
+/**
+ * Returns the session an editor was created with.
+ *
+ * @param {object} editor - The main BlockNote editor
+ * @returns {CollaborationSession | null} The session, or null when the
+ *   editor edits alone
+ */
+export function getCollaboration(editor: object): CollaborationSession | null {
+  return sessionsByEditor.get(editor) ?? null;
+}
+
+/**
+ * Returns BlockNote's `collaboration` option for a shared fragment.
+ *
+ * @param {CollaborationSession} session - The session
+ * @param {Y.XmlFragment} fragment - The fragment the editor edits
+ * @returns {object} The option
+ */
+export function collaborationOptions(
+  session: CollaborationSession,
+  fragment: Y.XmlFragment
+) {
+  return {
+    fragment,
+    user: session.user,
+    provider: session.provider,
+    showCursorLabels: "activity" as const,
+  };
+}
+
+// ============================================================================
+// Main Document
+// ============================================================================
+
+/**
+ * Joins the shared main document once the provider has synced. A document
+ * nobody has shared yet is filled with the content one client loaded from
+ * the server; everyone else takes the shared state as it is.
+ *
+ * The collaboration server picks that client and names it in the "init"
+ * map, so clients opening a new document together never both fill it (and
+ * duplicate its content). Until the chosen client's content arrives, the
+ * others see an empty document.
+ *
+ * The editor must already be mounted, so its content reaches the fragment.
+ *
+ * @param {PortfolioEditor} editor - The main editor, created with the
+ *   session's `collaboration` option
+ * @param {CollaborationSession} session - The session
+ * @param {NestedContentStore} store - The editor's nested documents
+ * @param {CommentThreads} threads - The document's comment threads
+ * @param {ReviewSuggestions} suggestions - The document's suggestions
+ * @param {Object} loaded - Content loaded from the server
+ * @returns {() => void} Stops mirroring nested documents, threads and
+ *   suggestions
+ */
+export function joinSharedDocument(
+  editor: PortfolioEditor,
+  session: CollaborationSession,
+  store: NestedContentStore,
+  threads: CommentThreads,
+  suggestions: ReviewSuggestions,
+  loaded: { document: PartialPortfolioBlock[]; nestedContent: NestedContentTable }
+): () => void {
+  const init = session.doc.getMap<number>("init");
+  const isChosen = () =>
+    session.fragment.length === 0 && init.get("seededBy") === session.doc.clientID;
+
+  const fill = () => {
+    // Not an undo step: the document just looks like it did when loaded
+    editor.transact((tr) => {
+      tr.setMeta("addToHistory", false);
+      editor.replaceBlocks(editor.document, loaded.document);
+    });
+    // Comment and suggestion marks are shared with the text they are on
+    applyCommentRanges(editor, threads, threads.getRanges(null));
+    applySuggestionMarks(editor, suggestions.getMarks(null));
+    session.doc.transact(() => {
+      Object.entries(loaded.nestedContent).forEach(([blockId, document]) =>
+        session.nestedContent.set(blockId, document)
+      );
+      threads.entries().forEach(([key, value]) => session.comments.set(key, value));
+      suggestions.entries().forEach(([key, value]) => session.suggestions.set(key, value));
+    });
+  };
+
+  // Waits to be chosen, e.g. when the chosen client leaves before filling it
+  let waiting = false;
+  const observer = () => {
+    if (!isChosen()) return;
+    stopWaiting();
+    fill();
+  };
+  const stopWaiting = () => {
+    if (waiting) init.unobserve(observer);
+    waiting = false;
+  };
+
+  if (isChosen()) {
+    fill();
+  } else if (session.fragment.length === 0) {
+    init.observe(observer);
+    waiting = true;
+  } else {
+    session.nestedContent.forEach((document, blockId) => store.set(blockId, document));
+    // The shared threads replace the loaded ones
+    threads.entries().forEach(([key]) => {
+      if (!session.comments.has(key)) threads.applyEntry(key, undefined);
+    });
+    session.comments.forEach((value, key) => threads.applyEntry(key, value));
+    // Likewise the shared suggestions
+    suggestions.entries().forEach(([key]) => {
+      if (!session.suggestions.has(key)) suggestions.applyEntry(key, undefined);
+    });
+    session.suggestions.forEach((value, key) => suggestions.applyEntry(key, value));
+  }
+
+  const stopNested = mirrorNestedContent(store, session.nestedContent);
+  const stopComments = mirrorCommentThreads(threads, session.comments);
+  const stopSuggestions = mirrorReviewSuggestions(suggestions, session.suggestions);
+  return () => {
+    stopWaiting();
+    stopNested();
+    stopComments();
+    stopSuggestions();
+  };
+}
+
+/**
+ * Keeps a nested content store and its shared mirror in step: local writes
+ * (modal sessions, restores, imports) are shared, and writes by others
+ * update the store.
+ *
+ * @param {NestedContentStore} store - The editor's nested documents
+ * @param {Y.Map} shared - The shared mirror
+ * @returns {() => void} Stops mirroring
+ */
+function mirrorNestedContent(
+  store: NestedContentStore,
+  shared: Y.Map<PortfolioBlock[]>
+): () => void {
+  let applyingRemote = false;
+
+  const unsubscribe = store.subscribe((blockId) => {
+    if (applyingRemote) return;
+    const document = store.get(blockId);
+    if (document) shared.set(blockId, document);
+  });
+
+  const observer = (event: Y.YMapEvent<PortfolioBlock[]>) => {
+    if (event.transaction.local) return;
+    applyingRemote = true;
+    try {
+      event.keysChanged.forEach((blockId) => {
+        const document = shared.get(blockId);
+        if (document) store.set(blockId, document);
+      });
+    } finally {
+      applyingRemote = false;
+    }
+  };
+  shared.observe(observer);
+
+  return () => {
+    unsubscribe();
+    shared.unobserve(observer);
+  };
+}
+
+/**
+ * Keeps comment threads and their shared mirror in step, like
+ * mirrorNestedContent.
+ *
+ * @param {CommentThreads} threads - The document's comment threads
+ * @param {Y.Map} shared - The shared mirror
+ * @returns {() => void} Stops mirroring
+ */
+function mirrorCommentThreads(threads: CommentThreads, shared: Y.Map<unknown>): () => void {
+  let applyingRemote = false;
+
+  const unsubscribe = threads.subscribe((key) => {
+    if (applyingRemote) return;
+    const value = threads.getEntry(key);
+    if (value === undefined) shared.delete(key);
+    else shared.set(key, value);
+  });
+
+  const observer = (event: Y.YMapEvent<unknown>) => {
+    if (event.transaction.local) return;
+    applyingRemote = true;
+    try {
+      event.keysChanged.forEach((key) => threads.applyEntry(key, shared.get(key)));
+    } finally {
+      applyingRemote = false;
+    }
+  };
+  shared.observe(observer);
+
+  return () => {
+    unsubscribe();
+    shared.unobserve(observer);
+  };
+}
+
+/**
+ * Keeps suggestions and their shared mirror in step, like
+ * mirrorCommentThreads. Suggestion mode is each user's own and isn't shared.
+ *
+ * @param {ReviewSuggestions} suggestions - The document's suggestions
+ * @param {Y.Map} shared - The shared mirror
+ * @returns {() => void} Stops mirroring
+ */
+function mirrorReviewSuggestions(
+  suggestions: ReviewSuggestions,
+  shared: Y.Map<unknown>
+): () => void {
+  let applyingRemote = false;
+
+  const unsubscribe = suggestions.subscribe((key) => {
+    if (applyingRemote || key === null) return;
+    const value = suggestions.getEntry(key);
+    if (value === undefined) shared.delete(key);
+    else shared.set(key, value);
+  });
+
+  const observer = (event: Y.YMapEvent<unknown>) => {
+    if (event.transaction.local) return;
+    applyingRemote = true;
+    try {
+      event.keysChanged.forEach((key) => suggestions.applyEntry(key, shared.get(key)));
+    } finally {
+      applyingRemote = false;
+    }
+  };
+  shared.observe(observer);
+
+  return () => {
+    unsubscribe();
+    shared.unobserve(observer);
+  };
+}
+
+// ============================================================================
+// ProjectCard Modals
+// ============================================================================
+
+/**
+ * Returns whether another client has a card's modal open.
+ *
+ * @param {CollaborationSession} session - The session
+ * @param {string} blockId - The card's block id
+ * @returns {boolean} True if someone else is editing the card
+ */
+function isEditedByOthers(session: CollaborationSession, blockId: string): boolean {
+  const { awareness } = session.provider;
+  return Array.from(awareness.getStates().entries()).some(
+    ([clientId, state]) =>
+      clientId !== awareness.clientID &&
+      (state as PresenceState).editingCard === blockId
+  );
+}
+
+/**
+ * Joins the shared document of a card whose modal was just opened. If nobody
+ * else has it open, it is first brought up to date with the nested document
+ * in the store, which may have changed since it was last edited (undo,
+ * restore from history, import). Otherwise it is joined as it is, with the
+ * others' unsaved typing.
+ *
+ * Comment and suggestion marks are part of the shared document; when it is
+ * brought up to date they are put back from the card's comment threads and
+ * suggestions.
+ *
+ * The nested editor must already be mounted.
+ *
+ * @param {PortfolioEditor} nestedEditor - The modal's editor, created with
+ *   the card fragment's `collaboration` option
+ * @param {CollaborationSession} session - The session
+ * @param {string} blockId - The card's block id
+ * @param {PartialPortfolioBlock[]} document - The card's nested document
+ * @param {CommentThreads} threads - The document's comment threads
+ * @param {ReviewSuggestions} suggestions - The document's suggestions
+ * @returns {() => void} Call when the modal closes
+ */
+export function joinCardDocument(
+  nestedEditor: PortfolioEditor,
+  session: CollaborationSession,
+  blockId: string,
+  document: PartialPortfolioBlock[],
+  threads: CommentThreads,
+  suggestions: ReviewSuggestions
+): () => void {
+  if (
+    !isEditedByOthers(session, blockId) &&
+    JSON.stringify(nestedEditor.document) !== JSON.stringify(document)
+  ) {
+    nestedEditor.transact((tr) => {
+      tr.setMeta("addToHistory", false);
+      nestedEditor.replaceBlocks(nestedEditor.document, document);
+    });
+    applyCommentRanges(nestedEditor, threads, threads.getRanges(blockId));
+    applySuggestionMarks(nestedEditor, suggestions.getMarks(blockId));
+  }
+
+  session.provider.awareness.setLocalStateField("editingCard", blockId);
+  return () => {
+    session.provider.awareness.setLocalStateField("editingCard", null);
+  };
+}
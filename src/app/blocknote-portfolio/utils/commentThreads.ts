@@ -0,0 +1,803 @@
+// ============================================================================
+// Comment Threads
+// ============================================================================
+// Runtime side of the comment threads saved in the envelope's `comments`
+// table (see comments.ts for the persisted form and how threads are
+// anchored).
+//
+// One CommentThreads object holds every thread of a portfolio document. The
+// main editor and each ProjectCard's nested editor get their own BlockNote
+// ThreadStore from it, which shows that editor only the threads about its
+// own document; creating a thread in a nested editor files it under the
+// card. BlockNote's comment UI (the toolbar's comment button, the floating
+// composer and threads) works on top of these stores unchanged.
+//
+// Comment marks aren't part of the document JSON, so editors report the
+// ranges they hold with getCommentRanges() as they change, and the ranges
+// are put back with applyCommentRanges() when a document is opened.
+// ============================================================================
+
+import type { BlockNoteEditor } from "@blocknote/core";
+import {
+  DefaultThreadStoreAuth,
+  ThreadStore,
+  type CommentBody,
+  type CommentData,
+  type ThreadData,
+  type User,
+} from "@blocknote/core/comments";
+
+import {
+  emptyCommentTable,
+  isOpenThread,
+  type CommentAuthor,
+  type CommentRange,
+  type CommentTable,
+  type StoredComment,
+  type StoredThread,
+  type ThreadMetadata,
+} from "./comments";
+import { getCurrentUser, getUserId } from "./userIdentity";
+
+/**
+ * Ranges of range threads in one document, by thread id
+ */
+export type CommentRangeTable = Record<string, CommentRange[]>;
+
+/**
+ * The comment threads of one portfolio document
+ */
+export interface CommentThreads {
+  /** Id of the current user */
+  readonly userId: string;
+  /**
+   * Creates the ThreadStore of an editor: the main editor's (null) or a
+   * card's nested editor's (the card's block id)
+   */
+  createStore(cardId: string | null): ThreadStore;
+  /** BlockNote's `resolveUsers` option: names and avatars of comment authors */
+  resolveUsers(userIds: string[]): Promise<User[]>;
+  /** Returns a thread by id */
+  getThread(threadId: string): ThreadData | undefined;
+  /**
+   * Returns the threads shown in a document's comments panel, oldest first:
+   * those about the document and, for a card, the card's own block threads
+   */
+  listThreads(cardId: string | null): ThreadData[];
+  /** Returns the number of open threads in a document's comments panel */
+  countOpen(cardId: string | null): number;
+  /** Starts a thread about a whole block; returns null if the text is empty */
+  createBlockThread(blockId: string, cardId: string | null, text: string): ThreadData | null;
+  /** Replaces the ranges of the range threads of a document */
+  setRanges(cardId: string | null, ranges: CommentRangeTable): void;
+  /** Returns the ranges of the range threads of a document */
+  getRanges(cardId: string | null): CommentRangeTable;
+  /** Returns a plain table of all threads, to persist */
+  toTable(): CommentTable;
+  /**
+   * Returns every thread, range list and author as a key/value entry, for
+   * sharing with collaborators. Keys are `thread:<id>`, `anchors:<id>` and
+   * `author:<userId>`.
+   */
+  entries(): Array<[string, unknown]>;
+  /** Returns one entry's value, or undefined if there is none */
+  getEntry(key: string): unknown;
+  /** Applies an entry received from a collaborator; undefined removes it */
+  applyEntry(key: string, value: unknown): void;
+  /**
+   * Registers a listener called with the key of every changed entry;
+   * returns an unsubscribe
+   */
+  subscribe(listener: (key: string) => void): () => void;
+}
+
+// ============================================================================
+// Conversion
+// ============================================================================
+
+function toStoredComment(comment: CommentData): StoredComment {
+  const stored: StoredComment = {
+    id: comment.id,
+    userId: comment.userId,
+    createdAt: comment.createdAt.toISOString(),
+    updatedAt: comment.updatedAt.toISOString(),
+    reactions: comment.reactions.map((reaction) => ({
+      ...reaction,
+      createdAt: reaction.createdAt.toISOString(),
+    })),
+    metadata: comment.metadata ?? {},
+  };
+  if (comment.deletedAt) stored.deletedAt = comment.deletedAt.toISOString();
+  else stored.body = comment.body;
+  return stored;
+}
+
+function toStoredThread(thread: ThreadData): StoredThread {
+  const stored: StoredThread = {
+    id: thread.id,
+    createdAt: thread.createdAt.toISOString(),
+    updatedAt: thread.updatedAt.toISOString(),
+    comments: thread.comments.map(toStoredComment),
+    resolved: thread.resolved,
+    metadata: thread.metadata ?? {},
+  };
+  if (thread.resolvedUpdatedAt) stored.resolvedUpdatedAt = thread.resolvedUpdatedAt.toISOString();
+  if (thread.resolvedBy) stored.resolvedBy = thread.resolvedBy;
+  if (thread.deletedAt) stored.deletedAt = thread.deletedAt.toISOString();
+  return stored;
+}
+
+function fromStoredComment(comment: StoredComment): CommentData {
+  const base = {
+    type: "comment" as const,
+    id: comment.id,
+    userId: comment.userId,
+    createdAt: new Date(comment.createdAt),
+    updatedAt: new Date(comment.updatedAt),
+    reactions: comment.reactions.map((reaction) => ({
+      ...reaction,
+      createdAt: new Date(reaction.createdAt),
+    })),
+    metadata: comment.metadata,
+  };
+  return comment.deletedAt
+    ? { ...base, deletedAt: new Date(comment.deletedAt), body: undefined }
+    : { ...base, body: comment.body };
+}
+
+function fromStoredThread(thread: StoredThread): ThreadData {
+  return {
+    type: "thread",
+    id: thread.id,
+    createdAt: new Date(thread.createdAt),
+    updatedAt: new Date(thread.updatedAt),
+    comments: thread.comments.map(fromStoredComment),
+    resolved: thread.resolved,
+    resolvedUpdatedAt: thread.resolvedUpdatedAt
+      ? new Date(thread.resolvedUpdatedAt)
+      : undefined,
+    resolvedBy: thread.resolvedBy,
+    metadata: thread.metadata,
+    deletedAt: thread.deletedAt ? new Date(thread.deletedAt) : undefined,
+  };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function createId(prefix: string): string {
+  return `${prefix}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * Returns the document a thread is about: its card's block id, or null for
+ * the main document.
+ */
+function documentOf(thread: ThreadData): string | null {
+  return (thread.metadata as ThreadMetadata)?.cardId ?? null;
+}
+
+/**
+ * Returns whether a thread belongs in a document's comments panel: threads
+ * about the document itself and, for a card, the card's own block threads.
+ */
+function isThreadAbout(thread: ThreadData, cardId: string | null): boolean {
+  if (documentOf(thread) === cardId) return true;
+  return (
+    cardId !== null &&
+    documentOf(thread) === null &&
+    (thread.metadata as ThreadMetadata)?.blockId === cardId
+  );
+}
+
+/**
+ * Returns a round avatar with the author's initial, as an SVG data URL.
+ */
+function avatarUrl(author: CommentAuthor): string {
+  const initial = (author.name.trim()[0] ?? "?").toUpperCase();
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" width="32" height="32">` +
+    `<circle cx="16" cy="16" r="16" fill="${author.color}"/>` +
+    `<text x="16" y="21" font-family="sans-serif" font-size="15" fill="#fff" text-anchor="middle">${initial
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")}</text></svg>`;
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+}
+
+/**
+ * Splits an entry key like `thread:<id>` into its kind and id.
+ */
+function splitEntryKey(key: string): [string, string] {
+  const separator = key.indexOf(":");
+  return [key.slice(0, separator), key.slice(separator + 1)];
+}
+
+const UNKNOWN_AUTHOR: CommentAuthor = { name: "Unknown", color: "#868e96" };
+
+// ============================================================================
+// Thread Stores
+// ============================================================================
+
+/**
+ * What a thread store needs from the CommentThreads it belongs to
+ */
+interface ThreadStoreHost {
+  readonly userId: string;
+  threads: Map<string, ThreadData>;
+  /** Records a new or changed thread; undefined removes it */
+  putThread(threadId: string, thread: ThreadData | undefined): void;
+  /** Records the current user as a comment author */
+  registerAuthor(): void;
+  subscribe(listener: (key: string) => void): () => void;
+}
+
+/**
+ * The ThreadStore of one editor. Reads are limited to the threads about the
+ * editor's document; writes go to the shared threads by id, so the threads
+ * of one document can also be answered and resolved from another's panel.
+ */
+class DocumentThreadStore extends ThreadStore {
+  // Unset, so BlockNote marks new threads in the document itself
+  public addThreadToDocument = undefined;
+
+  private readonly unsubscribes = new Set<() => void>();
+
+  constructor(
+    private readonly host: ThreadStoreHost,
+    private readonly cardId: string | null
+  ) {
+    super(new DefaultThreadStoreAuth(host.userId, "editor"));
+  }
+
+  private update(threadId: string, change: (thread: ThreadData) => ThreadData): void {
+    const thread = this.host.threads.get(threadId);
+    if (!thread) throw new Error(`Comment thread ${threadId} not found`);
+    this.host.putThread(threadId, { ...change(thread), updatedAt: new Date() });
+  }
+
+  private changeComment(
+    threadId: string,
+    commentId: string,
+    change: (comment: CommentData) => CommentData
+  ): void {
+    this.update(threadId, (thread) => ({
+      ...thread,
+      comments: thread.comments.map((comment) =>
+        comment.id === commentId ? change(comment) : comment
+      ),
+    }));
+  }
+
+  private newComment(body: CommentBody, metadata: any): CommentData {
+    const now = new Date();
+    return {
+      type: "comment",
+      id: createId("comment"),
+      userId: this.host.userId,
+      createdAt: now,
+      updatedAt: now,
+      reactions: [],
+      metadata: metadata ?? {},
+      body,
+    };
+  }
+
+  async createThread(options: {
+    initialComment: { body: CommentBody; metadata?: any };
+    metadata?: any;
+  }): Promise<ThreadData> {
+    this.host.registerAuthor();
+    const now = new Date();
+    const metadata: ThreadMetadata = { ...options.metadata };
+    if (this.cardId) metadata.cardId = this.cardId;
+
+    const thread: ThreadData = {
+      type: "thread",
+      id: createId("thread"),
+      createdAt: now,
+      updatedAt: now,
+      comments: [this.newComment(options.initialComment.body, options.initialComment.metadata)],
+      resolved: false,
+      metadata,
+    };
+    this.host.putThread(thread.id, thread);
+    return thread;
+  }
+
+  async addComment(options: {
+    comment: { body: CommentBody; metadata?: any };
+    threadId: string;
+  }): Promise<CommentData> {
+    this.host.registerAuthor();
+    const comment = this.newComment(options.comment.body, options.comment.metadata);
+    this.update(options.threadId, (thread) => ({
+      ...thread,
+      comments: [...thread.comments, comment],
+    }));
+    return comment;
+  }
+
+  async updateComment(options: {
+    comment: { body: CommentBody; metadata?: any };
+    threadId: string;
+    commentId: string;
+  }): Promise<void> {
+    this.changeComment(options.threadId, options.commentId, (comment) => ({
+      ...comment,
+      body: options.comment.body,
+      metadata: options.comment.metadata ?? comment.metadata,
+      updatedAt: new Date(),
+    }));
+  }
+
+  async deleteComment(options: { threadId: string; commentId: string }): Promise<void> {
+    this.changeComment(options.threadId, options.commentId, (comment) => ({
+      ...comment,
+      deletedAt: new Date(),
+      body: undefined,
+    }));
+  }
+
+  async deleteThread(options: { threadId: string }): Promise<void> {
+    this.host.putThread(options.threadId, undefined);
+  }
+
+  async resolveThread(options: { threadId: string }): Promise<void> {
+    this.update(options.threadId, (thread) => ({
+      ...thread,
+      resolved: true,
+      resolvedUpdatedAt: new Date(),
+      resolvedBy: this.host.userId,
+    }));
+  }
+
+  async unresolveThread(options: { threadId: string }): Promise<void> {
+    this.update(options.threadId, (thread) => ({
+      ...thread,
+      resolved: false,
+      resolvedUpdatedAt: new Date(),
+      resolvedBy: undefined,
+    }));
+  }
+
+  async addReaction(options: {
+    threadId: string;
+    commentId: string;
+    emoji: string;
+  }): Promise<void> {
+    const { userId } = this.host;
+    this.changeComment(options.threadId, options.commentId, (comment) => {
+      const existing = comment.reactions.find((reaction) => reaction.emoji === options.emoji);
+      const reactions = existing
+        ? comment.reactions.map((reaction) =>
+            reaction === existing && !reaction.userIds.includes(userId)
+              ? { ...reaction, userIds: [...reaction.userIds, userId] }
+              : reaction
+          )
+        : [...comment.reactions, { emoji: options.emoji, createdAt: new Date(), userIds: [userId] }];
+      return { ...comment, reactions };
+    });
+  }
+
+  async deleteReaction(options: {
+    threadId: string;
+    commentId: string;
+    emoji: string;
+  }): Promise<void> {
+    const { userId } = this.host;
+    this.changeComment(options.threadId, options.commentId, (comment) => ({
+      ...comment,
+      reactions: comment.reactions
+        .map((reaction) =>
+          reaction.emoji === options.emoji
+            ? { ...reaction, userIds: reaction.userIds.filter((id) => id !== userId) }
+            : reaction
+        )
+        .filter((reaction) => reaction.userIds.length > 0),
+    }));
+  }
+
+  getThread(threadId: string): ThreadData {
+    const thread = this.host.threads.get(threadId);
+    if (!thread) throw new Error(`Comment thread ${threadId} not found`);
+    return thread;
+  }
+
+  getThreads(): Map<string, ThreadData> {
+    const threads = new Map<string, ThreadData>();
+    this.host.threads.forEach((thread, id) => {
+      if (documentOf(thread) === this.cardId) threads.set(id, thread);
+    });
+    return threads;
+  }
+
+  subscribe(cb: (threads: Map<string, ThreadData>) => void): () => void {
+    const unsubscribe = this.host.subscribe((key) => {
+      if (key.startsWith("thread:")) cb(this.getThreads());
+    });
+    this.unsubscribes.add(unsubscribe);
+    return () => {
+      unsubscribe();
+      this.unsubscribes.delete(unsubscribe);
+    };
+  }
+
+  /**
+   * Drops every subscription, including the one BlockNote's comments plugin
+   * never removes. Call once the store's editor is gone.
+   */
+  detach(): void {
+    this.unsubscribes.forEach((unsubscribe) => unsubscribe());
+    this.unsubscribes.clear();
+  }
+}
+
+/**
+ * Asks for the first comment of a thread about a whole block and starts it.
+ *
+ * @param {CommentThreads} threads - The document's threads
+ * @param {string} blockId - The block
+ * @param {string | null} cardId - The card whose nested document holds the
+ *   block, or null for the main document
+ * @param {string} subject - What is commented on, for the prompt
+ * @returns {boolean} True if a thread was started
+ */
+export function promptForBlockThread(
+  threads: CommentThreads,
+  blockId: string,
+  cardId: string | null,
+  subject = "this block"
+): boolean {
+  const text = prompt(`Comment on ${subject}:`, "");
+  if (text === null) return false;
+  return threads.createBlockThread(blockId, cardId, text) !== null;
+}
+
+/**
+ * Detaches the thread store of an editor that is no longer used, so thread
+ * changes stop reaching it.
+ *
+ * @param {BlockNoteEditor} editor - A main or nested editor created with a
+ *   store from createStore()
+ */
+export function releaseCommentStore(editor: BlockNoteEditor<any, any, any>): void {
+  const store = editor.comments?.threadStore;
+  if (store instanceof DocumentThreadStore) store.detach();
+}
+
+// ============================================================================
+// Comment Threads
+// ============================================================================
+
+/**
+ * Creates the comment threads of a document from its persisted table.
+ *
+ * @param {CommentTable} table - The envelope's `comments` table
+ * @returns {CommentThreads} The threads
+ *
+ * @example
+ * const threads = createCommentThreads(loaded.comments);
+ * const editor = useCreateBlockNote({
+ *   comments: { threadStore: threads.createStore(null) },
+ *   resolveUsers: threads.resolveUsers,
+ * });
+ */
+export function createCommentThreads(table: CommentTable = emptyCommentTable()): CommentThreads {
+  const threads = new Map<string, ThreadData>(
+    Object.values(table.threads).map((thread) => [thread.id, fromStoredThread(thread)])
+  );
+  const anchors = new Map<string, CommentRange[]>(Object.entries(table.anchors));
+  const authors = new Map<string, CommentAuthor>(Object.entries(table.authors));
+  const listeners = new Set<(key: string) => void>();
+  const notify = (key: string) => listeners.forEach((listener) => listener(key));
+
+  const host: ThreadStoreHost = {
+    userId: getUserId(),
+    threads,
+    putThread(threadId, thread) {
+      if (thread) {
+        threads.set(threadId, thread);
+      } else {
+        threads.delete(threadId);
+        if (anchors.delete(threadId)) notify(`anchors:${threadId}`);
+      }
+      notify(`thread:${threadId}`);
+    },
+    registerAuthor() {
+      const { id, name, color } = getCurrentUser();
+      const author = authors.get(id);
+      if (author?.name === name && author.color === color) return;
+      authors.set(id, { name, color });
+      notify(`author:${id}`);
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+
+  const getEntry = (key: string): unknown => {
+    const [kind, id] = splitEntryKey(key);
+    if (kind === "thread") {
+      const thread = threads.get(id);
+      return thread && toStoredThread(thread);
+    }
+    if (kind === "anchors") return anchors.get(id);
+    if (kind === "author") return authors.get(id);
+    return undefined;
+  };
+
+  const rangeThreadsOf = (cardId: string | null) =>
+    Array.from(threads.values()).filter(
+      (thread) =>
+        documentOf(thread) === cardId && !(thread.metadata as ThreadMetadata)?.blockId
+    );
+
+  return {
+    userId: host.userId,
+    createStore: (cardId) => new DocumentThreadStore(host, cardId),
+    async resolveUsers(userIds) {
+      return userIds.map((id) => {
+        const author = authors.get(id) ?? UNKNOWN_AUTHOR;
+        return { id, username: author.name, avatarUrl: avatarUrl(author) };
+      });
+    },
+    getThread: (threadId) => threads.get(threadId),
+    listThreads(cardId) {
+      return Array.from(threads.values())
+        .filter((thread) => isThreadAbout(thread, cardId))
+        .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    },
+    countOpen(cardId) {
+      return Array.from(threads.values()).filter(
+        (thread) => isThreadAbout(thread, cardId) && isOpenThread(thread)
+      ).length;
+    },
+    createBlockThread(blockId, cardId, text) {
+      const body = text.trim();
+      if (!body) return null;
+
+      host.registerAuthor();
+      const now = new Date();
+      const metadata: ThreadMetadata = { blockId };
+      if (cardId) metadata.cardId = cardId;
+      const thread: ThreadData = {
+        type: "thread",
+        id: createId("thread"),
+        createdAt: now,
+        updatedAt: now,
+        comments: [
+          {
+            type: "comment",
+            id: createId("comment"),
+            userId: host.userId,
+            createdAt: now,
+            updatedAt: now,
+            reactions: [],
+            metadata: {},
+            body: [{ type: "paragraph", content: body }],
+          },
+        ],
+        resolved: false,
+        metadata,
+      };
+      host.putThread(thread.id, thread);
+      return thread;
+    },
+    setRanges(cardId, ranges) {
+      rangeThreadsOf(cardId).forEach(({ id }) => {
+        const next = ranges[id];
+        if (JSON.stringify(next) === JSON.stringify(anchors.get(id))) return;
+        if (next) anchors.set(id, next);
+        else anchors.delete(id);
+        notify(`anchors:${id}`);
+      });
+    },
+    getRanges(cardId) {
+      const ranges: CommentRangeTable = {};
+      rangeThreadsOf(cardId).forEach(({ id }) => {
+        const threadRanges = anchors.get(id);
+        if (threadRanges) ranges[id] = threadRanges;
+      });
+      return ranges;
+    },
+    toTable() {
+      const result = emptyCommentTable();
+      threads.forEach((thread, id) => {
+        result.threads[id] = toStoredThread(thread);
+        const threadRanges = anchors.get(id);
+        if (threadRanges) result.anchors[id] = threadRanges;
+      });
+      authors.forEach((author, id) => {
+        result.authors[id] = author;
+      });
+      return result;
+    },
+    entries() {
+      const keys = [
+        ...Array.from(threads.keys(), (id) => `thread:${id}`),
+        ...Array.from(anchors.keys(), (id) => `anchors:${id}`),
+        ...Array.from(authors.keys(), (id) => `author:${id}`),
+      ];
+      return keys.map((key) => [key, getEntry(key)]);
+    },
+    getEntry,
+    applyEntry(key, value) {
+      const [kind, id] = splitEntryKey(key);
+
+      if (kind === "thread") {
+        if (value) threads.set(id, fromStoredThread(value as StoredThread));
+        else threads.delete(id);
+      } else if (kind === "anchors") {
+        if (value) anchors.set(id, value as CommentRange[]);
+        else anchors.delete(id);
+      } else if (kind === "author") {
+        if (value) authors.set(id, value as CommentAuthor);
+        else authors.delete(id);
+      } else {
+        console.warn(`⚠️ Ignoring unknown comment entry ${key}`);
+        return;
+      }
+      notify(key);
+    },
+    subscribe: host.subscribe,
+  };
+}
+
+// Threads are keyed by the main editor instance, like the nested content
+// stores, so card renderers can find the threads of their document.
+const threadsByEditor = new WeakMap<object, CommentThreads>();
+
+/**
+ * Records the comment threads an editor was created with.
+ *
+ * @param {object} editor - The main BlockNote editor
+ * @param {CommentThreads} threads - Its document's threads
+ */
+export function attachCommentThreads(editor: object, threads: CommentThreads): void {
+  threadsByEditor.set(editor, threads);
+}
+
+/**
+ * Returns the comment threads attached to an editor, attaching empty ones if
+ * the editor has none (e.g. read-only previews).
+ *
+ * @param {object} editor - The main BlockNote editor
+ * @returns {CommentThreads} The threads
+ */
+export function getCommentThreads(editor: object): CommentThreads {
+  let threads = threadsByEditor.get(editor);
+  if (!threads) {
+    threads = createCommentThreads();
+    threadsByEditor.set(editor, threads);
+  }
+  return threads;
+}
+
+// ============================================================================
+// Comment Marks
+// ============================================================================
+
+const COMMENT_MARK = "comment";
+
+/**
+ * Calls back with every block of an editor's document that holds inline
+ * content: its id, the position its content starts at and the content node.
+ */
+function forEachBlockContent(
+  doc: any,
+  callback: (blockId: string, contentStart: number, content: any) => void
+): void {
+  doc.descendants((node: any, pos: number) => {
+    if (node.type.name === "blockContainer" && node.firstChild) {
+      // +1 into the blockContainer, +1 into its blockContent
+      callback(node.attrs.id, pos + 2, node.firstChild);
+    }
+    return true;
+  });
+}
+
+/**
+ * Returns the text each comment thread is anchored to in an editor, as
+ * offsets into the content of each block.
+ *
+ * @param {BlockNoteEditor} editor - A main or nested editor
+ * @returns {CommentRangeTable} Ranges by thread id
+ */
+export function getCommentRanges(editor: BlockNoteEditor<any, any, any>): CommentRangeTable {
+  const ranges: CommentRangeTable = {};
+
+  forEachBlockContent(editor.prosemirrorState.doc, (blockId, _start, content) => {
+    content.descendants((node: any, offset: number) => {
+      node.marks.forEach((mark: any) => {
+        const threadId = mark.type.name === COMMENT_MARK ? mark.attrs.threadId : null;
+        if (!threadId) return;
+
+        const threadRanges = (ranges[threadId] ??= []);
+        const last = threadRanges[threadRanges.length - 1];
+        const to = offset + node.nodeSize;
+        // Text split by other marks continues the same range
+        if (last && last.blockId === blockId && last.to === offset) {
+          last.to = to;
+        } else {
+          threadRanges.push({ blockId, from: offset, to });
+        }
+      });
+      return true;
+    });
+  });
+
+  return ranges;
+}
+
+/**
+ * Marks the text of comment threads in an editor whose document was just
+ * opened. Ranges that no longer fit their block are skipped. Not an undo
+ * step.
+ *
+ * @param {BlockNoteEditor} editor - A main or nested editor with comments
+ * @param {CommentThreads} threads - The document's threads
+ * @param {CommentRangeTable} ranges - Ranges by thread id, from getRanges()
+ */
+export function applyCommentRanges(
+  editor: BlockNoteEditor<any, any, any>,
+  threads: CommentThreads,
+  ranges: CommentRangeTable
+): void {
+  if (Object.keys(ranges).length === 0) return;
+
+  editor.transact((tr) => {
+    tr.setMeta("addToHistory", false);
+    const markType = tr.doc.type.schema.marks[COMMENT_MARK];
+    if (!markType) return;
+
+    const blocks = new Map<string, { start: number; size: number }>();
+    forEachBlockContent(tr.doc, (blockId, start, content) =>
+      blocks.set(blockId, { start, size: content.content.size })
+    );
+
+    Object.entries(ranges).forEach(([threadId, threadRanges]) => {
+      const thread = threads.getThread(threadId);
+      if (!thread) return;
+      threadRanges.forEach(({ blockId, from, to }) => {
+        const block = blocks.get(blockId);
+        if (!block || to > block.size) return;
+        tr.addMark(
+          block.start + from,
+          block.start + to,
+          markType.create({ threadId, orphan: !isOpenThread(thread) })
+        );
+      });
+    });
+  });
+}
+
+/**
+ * Returns the text a range thread is anchored to in an editor, shortened
+ * for display.
+ *
+ * @param {BlockNoteEditor} editor - A main or nested editor
+ * @param {string} threadId - The thread
+ * @returns {string} The quoted text, or "" if it is no longer in the document
+ */
+export function getCommentedText(
+  editor: BlockNoteEditor<any, any, any>,
+  threadId: string
+): string {
+  let text = "";
+  editor.prosemirrorState.doc.descendants((node) => {
+    if (
+      node.isText &&
+      node.marks.some(
+        (mark) => mark.type.name === COMMENT_MARK && mark.attrs.threadId === threadId
+      )
+    ) {
+      text += node.text;
+    }
+    return true;
+  });
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+}
@@ -0,0 +1,239 @@
+// ============================================================================
+// Comment Threads (persisted form)
+// ============================================================================
+// Review threads are saved next to the document, in the envelope's
+// `comments` table, rather than inside it: they outlive edits, restores and
+// snapshots of the content they are about.
+//
+// A thread is anchored either to a text range or to a whole block:
+// - Range threads are marked in the text with BlockNote's comment mark,
+//   which isn't part of the document JSON. Their ranges are kept in
+//   `anchors`, per block, and put back as marks when a document is opened.
+// - Block threads name their block in `metadata.blockId`. A ProjectCard's
+//   block thread is about the card as a whole.
+//
+// Threads about a ProjectCard's nested document carry the card's block id in
+// `metadata.cardId`; threads about the main document have none.
+//
+// Kept free of @blocknote/core imports so it can run on the server; the
+// client side lives in commentThreads.ts.
+// ============================================================================
+
+/**
+ * A reaction to a comment
+ */
+export interface StoredReaction {
+  emoji: string;
+  createdAt: string;
+  userIds: string[];
+}
+
+/**
+ * One comment of a thread. Deleted comments keep their place in the thread
+ * but lose their body.
+ */
+export interface StoredComment {
+  id: string;
+  userId: string;
+  createdAt: string;
+  updatedAt: string;
+  reactions: StoredReaction[];
+  metadata: Record<string, any>;
+  /** BlockNote document of the comment's text */
+  body?: any[];
+  deletedAt?: string;
+}
+
+/**
+ * Where a thread belongs
+ * - cardId: block id of the ProjectCard whose nested document it is about
+ * - blockId: block id of the block it is about, for block threads
+ */
+export interface ThreadMetadata {
+  cardId?: string;
+  blockId?: string;
+}
+
+/**
+ * A comment thread
+ */
+export interface StoredThread {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  comments: StoredComment[];
+  resolved: boolean;
+  resolvedUpdatedAt?: string;
+  resolvedBy?: string;
+  metadata: ThreadMetadata;
+  deletedAt?: string;
+}
+
+/**
+ * Commented text in one block: offsets into the block's inline content
+ */
+export interface CommentRange {
+  blockId: string;
+  from: number;
+  to: number;
+}
+
+/**
+ * How a comment author is shown
+ */
+export interface CommentAuthor {
+  name: string;
+  color: string;
+}
+
+/**
+ * Persisted form: threads by id, the text each range thread is anchored to,
+ * and the authors of their comments by user id
+ */
+export interface CommentTable {
+  threads: Record<string, StoredThread>;
+  anchors: Record<string, CommentRange[]>;
+  authors: Record<string, CommentAuthor>;
+}
+
+/**
+ * Returns a table without threads.
+ *
+ * @returns {CommentTable} An empty table
+ */
+export function emptyCommentTable(): CommentTable {
+  return { threads: {}, anchors: {}, authors: {} };
+}
+
+// ============================================================================
+// Reading
+// ============================================================================
+
+function isObject(value: unknown): value is Record<string, any> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+const isString = (value: unknown): value is string => typeof value === "string";
+
+function readComment(raw: unknown): StoredComment | null {
+  if (!isObject(raw) || !isString(raw.id) || !isString(raw.userId)) return null;
+  if (!isString(raw.createdAt)) return null;
+
+  const comment: StoredComment = {
+    id: raw.id,
+    userId: raw.userId,
+    createdAt: raw.createdAt,
+    updatedAt: isString(raw.updatedAt) ? raw.updatedAt : raw.createdAt,
+    reactions: Array.isArray(raw.reactions)
+      ? raw.reactions.filter(
+          (reaction: any) =>
+            isObject(reaction) &&
+            isString(reaction.emoji) &&
+            Array.isArray(reaction.userIds)
+        )
+      : [],
+    metadata: isObject(raw.metadata) ? raw.metadata : {},
+  };
+  if (isString(raw.deletedAt)) {
+    comment.deletedAt = raw.deletedAt;
+  } else if (Array.isArray(raw.body)) {
+    comment.body = raw.body;
+  } else {
+    return null;
+  }
+  return comment;
+}
+
+function readThread(id: string, raw: unknown): StoredThread | null {
+  if (!isObject(raw) || raw.id !== id || !isString(raw.createdAt)) return null;
+
+  const comments = Array.isArray(raw.comments)
+    ? raw.comments.map(readComment).filter((comment): comment is StoredComment => comment !== null)
+    : [];
+  if (comments.length === 0) return null;
+
+  const metadata: ThreadMetadata = {};
+  if (isObject(raw.metadata)) {
+    if (isString(raw.metadata.cardId)) metadata.cardId = raw.metadata.cardId;
+    if (isString(raw.metadata.blockId)) metadata.blockId = raw.metadata.blockId;
+  }
+
+  const thread: StoredThread = {
+    id,
+    createdAt: raw.createdAt,
+    updatedAt: isString(raw.updatedAt) ? raw.updatedAt : raw.createdAt,
+    comments,
+    resolved: raw.resolved === true,
+    metadata,
+  };
+  if (isString(raw.resolvedUpdatedAt)) thread.resolvedUpdatedAt = raw.resolvedUpdatedAt;
+  if (isString(raw.resolvedBy)) thread.resolvedBy = raw.resolvedBy;
+  if (isString(raw.deletedAt)) thread.deletedAt = raw.deletedAt;
+  return thread;
+}
+
+function readRanges(raw: unknown): CommentRange[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.filter(
+    (range): range is CommentRange =>
+      isObject(range) &&
+      isString(range.blockId) &&
+      Number.isInteger(range.from) &&
+      Number.isInteger(range.to) &&
+      range.from >= 0 &&
+      range.from < range.to
+  );
+}
+
+/**
+ * Reads a persisted comment table, dropping threads, anchors and authors
+ * that are malformed. Anything that isn't a table reads as an empty one, so
+ * documents saved before comments existed open without threads.
+ *
+ * @param {unknown} raw - The `comments` field of a saved envelope
+ * @returns {CommentTable} The table
+ *
+ * @example
+ * const comments = readCommentTable(envelope.comments);
+ * Object.keys(comments.threads).length; // number of threads
+ */
+export function readCommentTable(raw: unknown): CommentTable {
+  const table = emptyCommentTable();
+  if (!isObject(raw)) return table;
+
+  if (isObject(raw.threads)) {
+    for (const [id, value] of Object.entries(raw.threads)) {
+      const thread = readThread(id, value);
+      if (thread) table.threads[id] = thread;
+      else console.warn(`⚠️ Dropping malformed comment thread ${id}`);
+    }
+  }
+
+  if (isObject(raw.anchors)) {
+    for (const [threadId, value] of Object.entries(raw.anchors)) {
+      const ranges = readRanges(value);
+      if (table.threads[threadId] && ranges.length > 0) table.anchors[threadId] = ranges;
+    }
+  }
+
+  if (isObject(raw.authors)) {
+    for (const [userId, value] of Object.entries(raw.authors)) {
+      if (isObject(value) && isString(value.name) && isString(value.color)) {
+        table.authors[userId] = { name: value.name, color: value.color };
+      }
+    }
+  }
+
+  return table;
+}
+
+/**
+ * Returns whether a thread still needs attention: neither resolved nor
+ * deleted.
+ *
+ * @param {Object} thread - A stored or runtime thread
+ * @returns {boolean} True for open threads
+ */
+export function isOpenThread(thread: { resolved: boolean; deletedAt?: unknown }): boolean {
+  return !thread.resolved && !thread.deletedAt;
+}
@@ -0,0 +1,411 @@
+// ============================================================================
+// Document API Client
+// ============================================================================
+// Client-side helpers for the /api/documents route handlers. These functions
+// never throw; network or server failures are reported through their return
+// values so callers can fall back to localStorage.
+// ============================================================================
+
+import type { PortfolioBlock } from "../components/schema";
+import {
+  emptyCommentTable,
+  readCommentTable,
+  type CommentTable,
+} from "./comments";
+import type { DocumentSummary, StoredDocument } from "./documentStore";
+import { formatValidationIssues } from "./documentValidation";
+import type { NestedContentTable } from "./nestedContent";
+import {
+  CURRENT_SCHEMA_VERSION,
+  type EditorContent,
+} from "./schemaMigrations";
+import type { Snapshot, SnapshotKind, SnapshotSummary } from "./snapshotStore";
+import {
+  emptySuggestionTable,
+  readSuggestionTable,
+  type SuggestionTable,
+} from "./suggestions";
+
+/**
+ * Id of the document the editor opens by default
+ */
+export const DEFAULT_DOCUMENT_ID = "default";
+
+/**
+ * Result of loading a document from the server
+ * - document: the stored document, or null if none exists yet
+ * - nestedContent: the document's ProjectCard nested documents
+ * - comments: the document's comment threads
+ * - suggestions: the document's pending suggested changes
+ * - ok: false when the server could not be reached or returned an error
+ * - exists: false when the server has no document with that id (yet)
+ */
+export interface FetchDocumentResult {
+  ok: boolean;
+  exists: boolean;
+  document: PortfolioBlock[] | null;
+  nestedContent: NestedContentTable;
+  comments: CommentTable;
+  suggestions: SuggestionTable;
+}
+
+/**
+ * Base URL of the document collection
+ */
+const DOCUMENTS_URL = "/api/documents";
+
+/**
+ * Builds the API URL for a document id
+ */
+function documentUrl(id: string): string {
+  return `${DOCUMENTS_URL}/${encodeURIComponent(id)}`;
+}
+
+/**
+ * Fields of a fetch result without a document
+ */
+function emptyDocumentResult(): Omit<FetchDocumentResult, "ok" | "exists"> {
+  return {
+    document: null,
+    nestedContent: {},
+    comments: emptyCommentTable(),
+    suggestions: emptySuggestionTable(),
+  };
+}
+
+/**
+ * Logs the problems the server repaired in content it was sent.
+ *
+ * @param {unknown} issues - The `issues` of the server's response
+ * @param {string} what - What was sent, e.g. "the saved document"
+ */
+function reportRepairs(issues: unknown, what: string): void {
+  if (Array.isArray(issues) && issues.length > 0) {
+    console.warn(
+      `⚠️ The server repaired ${issues.length} problem(s) in ${what}:\n${formatValidationIssues(issues)}`
+    );
+  }
+}
+
+/**
+ * Lists all documents stored on the server.
+ *
+ * @returns {Promise<DocumentSummary[] | null>} Summaries, or null on failure
+ */
+export async function listDocuments(): Promise<DocumentSummary[] | null> {
+  try {
+    const response = await fetch(DOCUMENTS_URL, { cache: "no-store" });
+    if (!response.ok) {
+      console.error(`❌ Failed to list documents: HTTP ${response.status}`);
+      return null;
+    }
+    const data = await response.json();
+    return Array.isArray(data.documents) ? data.documents : [];
+  } catch (error) {
+    console.error("❌ Failed to list documents:", error);
+    return null;
+  }
+}
+
+/**
+ * Creates a new document on the server with a generated id.
+ *
+ * @param {string} name - Display name for the document
+ * @param {PortfolioBlock[]} document - Initial content (empty for a blank document)
+ * @param {NestedContentTable} nestedContent - ProjectCard nested documents
+ * @returns {Promise<StoredDocument | null>} The created document, or null on
+ *   failure. The server repairs malformed blocks; the problems it fixed are
+ *   logged.
+ */
+export async function createDocument(
+  name: string,
+  document: PortfolioBlock[] = [],
+  nestedContent: NestedContentTable = {}
+): Promise<StoredDocument | null> {
+  try {
+    const response = await fetch(DOCUMENTS_URL, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        name,
+        schemaVersion: CURRENT_SCHEMA_VERSION,
+        document,
+        nestedContent,
+      }),
+    });
+    if (!response.ok) {
+      console.error(`❌ Failed to create document: HTTP ${response.status}`);
+      return null;
+    }
+    const { issues, ...created } = await response.json();
+    reportRepairs(issues, "the new document");
+    return created;
+  } catch (error) {
+    console.error("❌ Failed to create document:", error);
+    return null;
+  }
+}
+
+/**
+ * Creates a copy of an existing document under a new name.
+ *
+ * @param {string} id - Id of the document to copy
+ * @param {string} name - Display name for the copy
+ * @returns {Promise<StoredDocument | null>} The copy, or null on failure
+ */
+export async function duplicateDocument(
+  id: string,
+  name: string
+): Promise<StoredDocument | null> {
+  const { ok, document, nestedContent } = await fetchDocument(id);
+  if (!ok) return null;
+  return createDocument(name, document ?? [], nestedContent);
+}
+
+/**
+ * Renames a document on the server.
+ *
+ * @param {string} id - The document id
+ * @param {string} name - The new display name
+ * @returns {Promise<boolean>} True if the rename succeeded
+ */
+export async function renameDocument(
+  id: string,
+  name: string
+): Promise<boolean> {
+  try {
+    const response = await fetch(documentUrl(id), {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name }),
+    });
+    return response.ok;
+  } catch (error) {
+    console.error("❌ Failed to rename document:", error);
+    return false;
+  }
+}
+
+/**
+ * Loads a document from the server.
+ *
+ * @param {string} id - The document id
+ * @returns {Promise<FetchDocumentResult>} The load result
+ *
+ * @example
+ * const { ok, exists, document } = await fetchDocument("default");
+ * if (!ok || !exists) {
+ *   // Server unavailable or document not uploaded yet, use localStorage
+ * }
+ */
+export async function fetchDocument(id: string): Promise<FetchDocumentResult> {
+  try {
+    const response = await fetch(documentUrl(id), { cache: "no-store" });
+    if (response.status === 404) {
+      return { ok: true, exists: false, ...emptyDocumentResult() };
+    }
+    if (!response.ok) {
+      console.error(`❌ Failed to fetch document: HTTP ${response.status}`);
+      return { ok: false, exists: false, ...emptyDocumentResult() };
+    }
+    const data = await response.json();
+    return {
+      ok: true,
+      exists: true,
+      document: Array.isArray(data.document) ? data.document : null,
+      nestedContent: data.nestedContent ?? {},
+      comments: readCommentTable(data.comments),
+      suggestions: readSuggestionTable(data.suggestions),
+    };
+  } catch (error) {
+    console.error("❌ Failed to fetch document:", error);
+    return { ok: false, exists: false, ...emptyDocumentResult() };
+  }
+}
+
+/**
+ * Saves a document to the server.
+ *
+ * @param {string} id - The document id
+ * @param {PortfolioBlock[]} document - The BlockNote document array to save
+ * @param {NestedContentTable} nestedContent - ProjectCard nested documents
+ * @param {CommentTable} comments - Comment threads; the saved ones are kept
+ *   if omitted
+ * @param {SuggestionTable} suggestions - Pending suggested changes; likewise
+ * @returns {Promise<boolean>} True if the server accepted the document. The
+ *   server repairs malformed blocks before saving; the problems it fixed are
+ *   logged.
+ */
+export async function saveDocument(
+  id: string,
+  document: PortfolioBlock[],
+  nestedContent: NestedContentTable = {},
+  comments?: CommentTable,
+  suggestions?: SuggestionTable
+): Promise<boolean> {
+  try {
+    const response = await fetch(documentUrl(id), {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        schemaVersion: CURRENT_SCHEMA_VERSION,
+        document,
+        nestedContent,
+        comments,
+        suggestions,
+      }),
+    });
+    if (!response.ok) {
+      console.error(`❌ Failed to save document: HTTP ${response.status}`);
+      return false;
+    }
+    const { issues } = await response.json().catch(() => ({}));
+    reportRepairs(issues, "the saved document");
+    console.log("✅ Document saved to server");
+    return true;
+  } catch (error) {
+    console.error("❌ Failed to save document:", error);
+    return false;
+  }
+}
+
+/**
+ * Deletes a document from the server.
+ *
+ * @param {string} id - The document id
+ * @returns {Promise<boolean>} True if the request succeeded
+ */
+export async function deleteDocument(id: string): Promise<boolean> {
+  try {
+    const response = await fetch(documentUrl(id), { method: "DELETE" });
+    return response.ok;
+  } catch (error) {
+    console.error("❌ Failed to delete document:", error);
+    return false;
+  }
+}
+
+// ============================================================================
+// Snapshots (Version History)
+// ============================================================================
+
+/**
+ * Builds the API URL for a document's snapshots, or one snapshot
+ */
+function snapshotsUrl(docId: string, snapshotId?: string): string {
+  const base = `${documentUrl(docId)}/snapshots`;
+  return snapshotId ? `${base}/${encodeURIComponent(snapshotId)}` : base;
+}
+
+/**
+ * Lists a document's snapshots, newest first.
+ *
+ * @param {string} docId - The document id
+ * @returns {Promise<SnapshotSummary[] | null>} Summaries, or null on failure
+ */
+export async function listSnapshots(
+  docId: string
+): Promise<SnapshotSummary[] | null> {
+  try {
+    const response = await fetch(snapshotsUrl(docId), { cache: "no-store" });
+    if (!response.ok) {
+      console.error(`❌ Failed to list snapshots: HTTP ${response.status}`);
+      return null;
+    }
+    const data = await response.json();
+    return Array.isArray(data.snapshots) ? data.snapshots : [];
+  } catch (error) {
+    console.error("❌ Failed to list snapshots:", error);
+    return null;
+  }
+}
+
+/**
+ * Loads a snapshot with its content.
+ *
+ * @param {string} docId - The document id
+ * @param {string} snapshotId - The snapshot id
+ * @returns {Promise<Snapshot | null>} The snapshot, or null on failure
+ */
+export async function fetchSnapshot(
+  docId: string,
+  snapshotId: string
+): Promise<Snapshot | null> {
+  try {
+    const response = await fetch(snapshotsUrl(docId, snapshotId), {
+      cache: "no-store",
+    });
+    if (!response.ok) {
+      console.error(`❌ Failed to fetch snapshot: HTTP ${response.status}`);
+      return null;
+    }
+    return await response.json();
+  } catch (error) {
+    console.error("❌ Failed to fetch snapshot:", error);
+    return null;
+  }
+}
+
+/**
+ * Takes a snapshot of the given content.
+ *
+ * @param {string} docId - The document id
+ * @param {EditorContent} content - Document and ProjectCard nested documents
+ * @param {string} name - Label for the snapshot
+ * @param {SnapshotKind} kind - "manual" for user snapshots, "auto" otherwise
+ * @returns {Promise<SnapshotSummary | null>} The snapshot, or null on failure.
+ *   Malformed blocks are repaired as when saving.
+ */
+export async function createSnapshot(
+  docId: string,
+  content: EditorContent,
+  name: string,
+  kind: SnapshotKind = "manual"
+): Promise<SnapshotSummary | null> {
+  try {
+    const response = await fetch(snapshotsUrl(docId), {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        name,
+        kind,
+        schemaVersion: CURRENT_SCHEMA_VERSION,
+        document: content.document,
+        nestedContent: content.nestedContent,
+      }),
+    });
+    if (!response.ok) {
+      console.error(`❌ Failed to create snapshot: HTTP ${response.status}`);
+      return null;
+    }
+    const { issues, ...snapshot } = await response.json();
+    reportRepairs(issues, "the snapshot");
+    console.log(`📸 Snapshot "${name}" saved`);
+    return snapshot;
+  } catch (error) {
+    console.error("❌ Failed to create snapshot:", error);
+    return null;
+  }
+}
+
+/**
+ * Deletes a snapshot.
+ *
+ * @param {string} docId - The document id
+ * @param {string} snapshotId - The snapshot id
+ * @returns {Promise<boolean>} True if the request succeeded
+ */
+export async function deleteSnapshot(
+  docId: string,
+  snapshotId: string
+): Promise<boolean> {
+  try {
+    const response = await fetch(snapshotsUrl(docId, snapshotId), {
+      method: "DELETE",
+    });
+    return response.ok;
+  } catch (error) {
+    console.error("❌ Failed to delete snapshot:", error);
+    return false;
+  }
+}
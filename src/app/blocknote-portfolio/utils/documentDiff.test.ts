@@ -0,0 +1,222 @@
+import { describe, expect, it } from "vitest";
+
+import type { PortfolioBlock } from "../components/schema";
+import { diffDocuments, diffText } from "./documentDiff";
+import type { NestedContentTable } from "./nestedContent";
+
+const paragraph = (id: string, text: string) =>
+  ({
+    id,
+    type: "paragraph",
+    props: {},
+    content: [{ type: "text", text, styles: {} }],
+    children: [],
+  }) as unknown as PortfolioBlock;
+
+const card = (id: string, props: Record<string, unknown> = {}) =>
+  ({
+    id,
+    type: "projectCard",
+    props: {
+      title: "Weather app",
+      subtext: "Forecasts for hikers",
+      repoUrl: "https://github.com/example/weather",
+      contentRevision: 0,
+      ...props,
+    },
+    children: [],
+  }) as unknown as PortfolioBlock;
+
+const diff = (
+  before: PortfolioBlock[],
+  after: PortfolioBlock[],
+  nested: { before?: NestedContentTable; after?: NestedContentTable } = {}
+) =>
+  diffDocuments(
+    { document: before, nestedContent: nested.before ?? {} },
+    { document: after, nestedContent: nested.after ?? {} }
+  );
+
+/**
+ * Each diffed block's id (from the newer version where there is one),
+ * status and whether it moved
+ */
+const outline = (blocks: ReturnType<typeof diff>["blocks"]) =>
+  blocks.map(({ before, after, status, moved }) => ({
+    id: (after ?? before)?.id,
+    status,
+    moved,
+  }));
+
+describe("diffDocuments: top-level blocks", () => {
+  const a = paragraph("a", "Alpha comes first");
+  const b = paragraph("b", "Bravo comes second");
+  const c = paragraph("c", "Charlie comes third");
+
+  it("marks an inserted block as added, in its new place", () => {
+    const added = paragraph("new", "A new paragraph");
+    const result = diff([a, b], [a, added, b]);
+
+    expect(outline(result.blocks)).toEqual([
+      { id: "a", status: "unchanged", moved: false },
+      { id: "new", status: "added", moved: false },
+      { id: "b", status: "unchanged", moved: false },
+    ]);
+    expect(result.blocks[1].text).toEqual([{ type: "insert", text: "A new paragraph" }]);
+    expect(result.summary).toEqual({ added: 1, removed: 0, modified: 0, unchanged: 2 });
+  });
+
+  it("marks a deleted block as removed, where it used to be", () => {
+    const result = diff([a, b, c], [a, c]);
+
+    expect(outline(result.blocks)).toEqual([
+      { id: "a", status: "unchanged", moved: false },
+      { id: "b", status: "removed", moved: false },
+      { id: "c", status: "unchanged", moved: false },
+    ]);
+    expect(result.blocks[1].text).toEqual([{ type: "delete", text: "Bravo comes second" }]);
+    expect(result.summary).toEqual({ added: 0, removed: 1, modified: 0, unchanged: 2 });
+  });
+
+  it("marks only the block that changed place as moved", () => {
+    const result = diff([a, b, c], [c, a, b]);
+
+    expect(outline(result.blocks)).toEqual([
+      { id: "c", status: "modified", moved: true },
+      { id: "a", status: "unchanged", moved: false },
+      { id: "b", status: "unchanged", moved: false },
+    ]);
+    expect(result.blocks[0].text).toEqual([{ type: "equal", text: "Charlie comes third" }]);
+  });
+});
+
+describe("diffDocuments: pairing by similarity", () => {
+  it("pairs a block whose id changed with its similar text", () => {
+    const result = diff(
+      [paragraph("old-id", "The quick brown fox jumps")],
+      [paragraph("new-id", "The quick brown fox leaps")]
+    );
+
+    expect(result.blocks).toHaveLength(1);
+    expect(result.blocks[0]).toMatchObject({ status: "modified", matchedBy: "similarity" });
+    expect(result.blocks[0].text).toEqual([
+      { type: "equal", text: "The quick brown fox " },
+      { type: "delete", text: "jumps" },
+      { type: "insert", text: "leaps" },
+    ]);
+  });
+
+  it("treats a block with a new id and the same text as unchanged", () => {
+    const result = diff(
+      [paragraph("old-id", "Rebuilt from Markdown")],
+      [paragraph("new-id", "Rebuilt from Markdown")]
+    );
+
+    expect(result.blocks[0]).toMatchObject({ status: "unchanged", matchedBy: "similarity" });
+  });
+
+  it("doesn't pair blocks whose texts have little in common", () => {
+    const result = diff(
+      [paragraph("old-id", "About me")],
+      [paragraph("new-id", "Contact details and links")]
+    );
+
+    expect(outline(result.blocks)).toEqual([
+      { id: "new-id", status: "added", moved: false },
+      { id: "old-id", status: "removed", moved: false },
+    ]);
+  });
+});
+
+describe("diffDocuments: text changes", () => {
+  it("diffs a changed word inside a paragraph", () => {
+    const expected = [
+      { type: "equal", text: "a " },
+      { type: "delete", text: "small" },
+      { type: "insert", text: "big" },
+      { type: "equal", text: " cat" },
+    ];
+
+    expect(diffText("a small cat", "a big cat")).toEqual(expected);
+
+    const result = diff([paragraph("p", "a small cat")], [paragraph("p", "a big cat")]);
+    expect(result.blocks[0]).toMatchObject({
+      status: "modified",
+      matchedBy: "id",
+      props: [],
+      text: expected,
+      formattingChanged: false,
+    });
+  });
+
+  it("reports a style change with the same text as formatting only", () => {
+    const bold = {
+      ...paragraph("p", "Hire me"),
+      content: [{ type: "text", text: "Hire me", styles: { bold: true } }],
+    } as unknown as PortfolioBlock;
+    const result = diff([paragraph("p", "Hire me")], [bold]);
+
+    expect(result.blocks[0]).toMatchObject({
+      status: "modified",
+      text: [{ type: "equal", text: "Hire me" }],
+      formattingChanged: true,
+    });
+  });
+});
+
+describe("diffDocuments: ProjectCards", () => {
+  it("reports a prop-only change on a card", () => {
+    const result = diff(
+      [card("card")],
+      [card("card", { repoUrl: "https://github.com/example/forecast" })]
+    );
+
+    expect(result.blocks[0]).toMatchObject({ status: "modified", text: [] });
+    expect(result.blocks[0].props).toEqual([
+      {
+        name: "repoUrl",
+        before: "https://github.com/example/weather",
+        after: "https://github.com/example/forecast",
+      },
+    ]);
+  });
+
+  it("ignores a card's content revision", () => {
+    const result = diff([card("card")], [card("card", { contentRevision: 3 })]);
+
+    expect(result.blocks[0]).toMatchObject({ status: "unchanged", props: [] });
+  });
+
+  it("diffs the card's nested document", () => {
+    const result = diff([card("card")], [card("card")], {
+      before: { card: [paragraph("n1", "Built with React")] },
+      after: {
+        card: [paragraph("n1", "Built with React and Rust"), paragraph("n2", "Deployed on Fly")],
+      },
+    });
+
+    const [cardDiff] = result.blocks;
+    expect(cardDiff).toMatchObject({ status: "modified", props: [] });
+    expect(outline(cardDiff.nested!)).toEqual([
+      { id: "n1", status: "modified", moved: false },
+      { id: "n2", status: "added", moved: false },
+    ]);
+    expect(cardDiff.nested![0].text).toEqual([
+      { type: "equal", text: "Built with React" },
+      { type: "insert", text: " and Rust" },
+    ]);
+    expect(result.summary).toEqual({ added: 1, removed: 0, modified: 2, unchanged: 0 });
+  });
+
+  it("counts the nested document of a removed card as removed", () => {
+    const result = diff([card("card")], [], {
+      before: { card: [paragraph("n1", "Built with React")] },
+    });
+
+    expect(result.blocks[0].status).toBe("removed");
+    expect(outline(result.blocks[0].nested!)).toEqual([
+      { id: "n1", status: "removed", moved: false },
+    ]);
+    expect(result.summary).toEqual({ added: 0, removed: 2, modified: 0, unchanged: 0 });
+  });
+});
@@ -0,0 +1,512 @@
+// ============================================================================
+// Document Diff
+// ============================================================================
+// Compares two versions of a portfolio document (snapshots, saves or
+// imported JSON files) block by block:
+//
+// - Blocks are paired level by level: the top-level blocks with each other,
+//   the children of a pair of blocks with each other, and the nested
+//   documents of a pair of ProjectCards with each other. Blocks with the
+//   same id are the same block; blocks left over are paired by content
+//   similarity, so documents whose ids differ (e.g. rebuilt from Markdown)
+//   still compare sensibly.
+// - A pair is diffed by type, props (a ProjectCard's title, cover,
+//   metadata, ...) and text, word by word. Blocks that keep their content
+//   but change place among their siblings are marked as moved.
+// - Blocks without a pair are added or removed, along with their children
+//   and nested documents.
+//
+// Free of editor imports so it can be used on the server.
+// ============================================================================
+
+import type { PortfolioBlock } from "../components/schema";
+import { blockToText } from "./blockTraversal";
+import { getNestedDocument, type NestedContentTable } from "./nestedContent";
+import type { EditorContent } from "./schemaMigrations";
+
+/**
+ * How a block differs between the two versions
+ */
+export type DiffStatus = "added" | "removed" | "modified" | "unchanged";
+
+/**
+ * A run of text that is in both versions, or only in the newer (insert) or
+ * the older one (delete)
+ */
+export interface TextChange {
+  type: "equal" | "insert" | "delete";
+  text: string;
+}
+
+/**
+ * A block prop with different values in the two versions
+ */
+export interface PropDiff {
+  name: string;
+  before: unknown;
+  after: unknown;
+}
+
+/**
+ * One block in the diff
+ * - before/after: the block in the older and newer version; null when it
+ *   was added or removed
+ * - matchedBy: how the two were paired (null when added or removed)
+ * - moved: it changed place among its siblings
+ * - props: changed props, including `type` when the block type changed
+ * - text: its text as a sequence of changes (all inserted when added, all
+ *   deleted when removed)
+ * - formattingChanged: same text, different styles or links
+ * - children: its children, diffed
+ * - nested: a ProjectCard's nested document, diffed (null for other blocks)
+ */
+export interface BlockDiff {
+  status: DiffStatus;
+  before: PortfolioBlock | null;
+  after: PortfolioBlock | null;
+  matchedBy: "id" | "similarity" | null;
+  moved: boolean;
+  props: PropDiff[];
+  text: TextChange[];
+  formattingChanged: boolean;
+  children: BlockDiff[];
+  nested: BlockDiff[] | null;
+}
+
+/**
+ * Number of blocks with each status, nested documents included
+ */
+export type DiffSummary = Record<DiffStatus, number>;
+
+/**
+ * The diff of two document versions
+ */
+export interface DocumentDiff {
+  blocks: BlockDiff[];
+  summary: DiffSummary;
+}
+
+/**
+ * Props that are bookkeeping rather than content: a card's content
+ * revision changes with every modal session.
+ */
+const IGNORED_PROPS = new Set(["contentRevision"]);
+
+/**
+ * Lowest similarity (0 to 1) at which two blocks without the same id are
+ * taken for two versions of one block
+ */
+const SIMILARITY_THRESHOLD = 0.5;
+
+/**
+ * Largest word-by-word comparison of two texts (words × words); longer texts
+ * are shown as replaced outright
+ */
+const MAX_TEXT_DIFF_CELLS = 1_000_000;
+
+// ============================================================================
+// Text
+// ============================================================================
+
+/**
+ * Splits text into words and the whitespace between them.
+ */
+function tokenize(text: string): string[] {
+  return text.split(/(\s+)/).filter(Boolean);
+}
+
+/**
+ * Appends a run to a list of changes, merging it into the last run of the
+ * same type.
+ */
+function pushChange(changes: TextChange[], type: TextChange["type"], text: string): void {
+  if (!text) return;
+  const last = changes[changes.length - 1];
+  if (last?.type === type) last.text += text;
+  else changes.push({ type, text });
+}
+
+/**
+ * Diffs two texts word by word.
+ *
+ * @param {string} before - The older text
+ * @param {string} after - The newer text
+ * @returns {TextChange[]} Runs of equal, inserted and deleted text; joining
+ *   the equal and deleted runs gives `before`, the equal and inserted ones
+ *   `after`
+ *
+ * @example
+ * diffText("a small cat", "a big cat");
+ * // [{ type: "equal", text: "a " }, { type: "delete", text: "small" },
+ * //  { type: "insert", text: "big" }, { type: "equal", text: " cat" }]
+ */
+export function diffText(before: string, after: string): TextChange[] {
+  const changes: TextChange[] = [];
+  if (before === after) {
+    pushChange(changes, "equal", before);
+    return changes;
+  }
+
+  const a = tokenize(before);
+  const b = tokenize(after);
+  if (a.length * b.length > MAX_TEXT_DIFF_CELLS) {
+    pushChange(changes, "delete", before);
+    pushChange(changes, "insert", after);
+    return changes;
+  }
+
+  // Longest common subsequence lengths of every pair of suffixes
+  const width = b.length + 1;
+  const lengths = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * width + j] =
+        a[i] === b[j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pushChange(changes, "equal", a[i]);
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      pushChange(changes, "delete", a[i++]);
+    } else {
+      pushChange(changes, "insert", b[j++]);
+    }
+  }
+  pushChange(changes, "delete", a.slice(i).join(""));
+  pushChange(changes, "insert", b.slice(j).join(""));
+  return changes;
+}
+
+// ============================================================================
+// Pairing
+// ============================================================================
+
+/**
+ * Text a block is recognised by: its own text, or a ProjectCard's title and
+ * subtext.
+ */
+function comparableText(block: PortfolioBlock): string {
+  if (block.type === "projectCard") {
+    return `${block.props.title ?? ""} ${block.props.subtext ?? ""}`.trim();
+  }
+  return blockToText(block).trim();
+}
+
+/**
+ * Returns the names of the props of either block whose values differ.
+ */
+function changedPropNames(before: PortfolioBlock, after: PortfolioBlock): string[] {
+  const beforeProps = (before.props ?? {}) as Record<string, unknown>;
+  const afterProps = (after.props ?? {}) as Record<string, unknown>;
+  const names = new Set([...Object.keys(beforeProps), ...Object.keys(afterProps)]);
+  return Array.from(names).filter(
+    (name) =>
+      !IGNORED_PROPS.has(name) &&
+      JSON.stringify(beforeProps[name]) !== JSON.stringify(afterProps[name])
+  );
+}
+
+/**
+ * Scores how alike two blocks are, from 0 to 1: how many words their texts
+ * share, or for blocks without text (images, ...) how many props.
+ */
+function similarity(before: PortfolioBlock, after: PortfolioBlock): number {
+  if (before.type !== after.type) return 0;
+
+  const a = comparableText(before);
+  const b = comparableText(after);
+  if (!a && !b) {
+    const propCount = new Set([
+      ...Object.keys(before.props ?? {}),
+      ...Object.keys(after.props ?? {}),
+    ]).size;
+    return propCount === 0 ? 1 : 1 - changedPropNames(before, after).length / propCount;
+  }
+
+  // Dice coefficient of the two texts' words
+  const wordsA = a.toLowerCase().split(/\s+/).filter(Boolean);
+  const wordsB = b.toLowerCase().split(/\s+/).filter(Boolean);
+  const counts = new Map<string, number>();
+  wordsA.forEach((word) => counts.set(word, (counts.get(word) ?? 0) + 1));
+  let shared = 0;
+  wordsB.forEach((word) => {
+    const count = counts.get(word) ?? 0;
+    if (count > 0) {
+      shared++;
+      counts.set(word, count - 1);
+    }
+  });
+  return (2 * shared) / (wordsA.length + wordsB.length);
+}
+
+/**
+ * Pairs two lists of sibling blocks: by id first, then the remaining
+ * blocks by similarity, most similar first.
+ *
+ * @returns {Map<number, { index: number; matchedBy: "id" | "similarity" }>}
+ *   For each paired index into `after`, the index into `before`
+ */
+function pairBlocks(
+  before: PortfolioBlock[],
+  after: PortfolioBlock[]
+): Map<number, { index: number; matchedBy: "id" | "similarity" }> {
+  const pairs = new Map<number, { index: number; matchedBy: "id" | "similarity" }>();
+  const pairedBefore = new Set<number>();
+
+  const beforeById = new Map<string, number>();
+  before.forEach((block, index) => {
+    if (block.id && !beforeById.has(block.id)) beforeById.set(block.id, index);
+  });
+  after.forEach((block, index) => {
+    const match = block.id ? beforeById.get(block.id) : undefined;
+    if (match === undefined || pairedBefore.has(match)) return;
+    pairs.set(index, { index: match, matchedBy: "id" });
+    pairedBefore.add(match);
+  });
+
+  const candidates: { afterIndex: number; beforeIndex: number; score: number }[] = [];
+  after.forEach((afterBlock, afterIndex) => {
+    if (pairs.has(afterIndex)) return;
+    before.forEach((beforeBlock, beforeIndex) => {
+      if (pairedBefore.has(beforeIndex)) return;
+      const score = similarity(beforeBlock, afterBlock);
+      if (score >= SIMILARITY_THRESHOLD) candidates.push({ afterIndex, beforeIndex, score });
+    });
+  });
+  // Ties go to the blocks closest together in their documents
+  candidates.sort(
+    (x, y) =>
+      y.score - x.score ||
+      Math.abs(x.afterIndex - x.beforeIndex) - Math.abs(y.afterIndex - y.beforeIndex)
+  );
+  candidates.forEach(({ afterIndex, beforeIndex }) => {
+    if (pairs.has(afterIndex) || pairedBefore.has(beforeIndex)) return;
+    pairs.set(afterIndex, { index: beforeIndex, matchedBy: "similarity" });
+    pairedBefore.add(beforeIndex);
+  });
+
+  return pairs;
+}
+
+/**
+ * Returns which of a sequence of numbers are in its longest increasing
+ * subsequence: the paired blocks that kept their order, the others having
+ * moved.
+ */
+function longestIncreasing(values: number[]): Set<number> {
+  const lengths = values.map(() => 1);
+  const previous = values.map(() => -1);
+  let best = -1;
+  values.forEach((value, i) => {
+    for (let j = 0; j < i; j++) {
+      if (values[j] < value && lengths[j] + 1 > lengths[i]) {
+        lengths[i] = lengths[j] + 1;
+        previous[i] = j;
+      }
+    }
+    if (best < 0 || lengths[i] > lengths[best]) best = i;
+  });
+
+  const kept = new Set<number>();
+  for (let i = best; i >= 0; i = previous[i]) kept.add(values[i]);
+  return kept;
+}
+
+// ============================================================================
+// Diffing
+// ============================================================================
+
+/**
+ * The two versions' nested documents, and the cards already descended into
+ * (so a card placed in its own nested document can't loop)
+ */
+interface DiffContext {
+  before: NestedContentTable;
+  after: NestedContentTable;
+  seenCards: Set<string>;
+}
+
+/**
+ * Returns the nested document of a card on one side, or null for other
+ * blocks and cards already descended into.
+ */
+function nestedDocument(
+  block: PortfolioBlock,
+  table: NestedContentTable,
+  context: DiffContext,
+  side: "before" | "after"
+): PortfolioBlock[] | null {
+  if (block.type !== "projectCard") return null;
+  const key = `${side}:${block.id}`;
+  if (context.seenCards.has(key)) return [];
+  context.seenCards.add(key);
+  return getNestedDocument(table, block.id);
+}
+
+/**
+ * Diffs a block that is only in one version, with everything in it.
+ */
+function diffUnpaired(
+  block: PortfolioBlock,
+  status: "added" | "removed",
+  context: DiffContext
+): BlockDiff {
+  const side = status === "added" ? "after" : "before";
+  const visit = (child: PortfolioBlock) => diffUnpaired(child, status, context);
+  const nested = nestedDocument(block, context[side], context, side);
+  const text = comparableText(block);
+
+  return {
+    status,
+    before: status === "removed" ? block : null,
+    after: status === "added" ? block : null,
+    matchedBy: null,
+    moved: false,
+    props: [],
+    text: text ? [{ type: status === "added" ? "insert" : "delete", text }] : [],
+    formattingChanged: false,
+    children: (block.children ?? []).map(visit),
+    nested: nested ? nested.map(visit) : null,
+  };
+}
+
+/**
+ * Diffs two versions of a block.
+ */
+function diffPair(
+  before: PortfolioBlock,
+  after: PortfolioBlock,
+  matchedBy: "id" | "similarity",
+  moved: boolean,
+  context: DiffContext
+): BlockDiff {
+  const props: PropDiff[] = changedPropNames(before, after).map((name) => ({
+    name,
+    before: (before.props as Record<string, unknown>)[name],
+    after: (after.props as Record<string, unknown>)[name],
+  }));
+  if (before.type !== after.type) {
+    props.unshift({ name: "type", before: before.type, after: after.type });
+  }
+
+  // A card's title and subtext are props, and diffed as such
+  const beforeText = before.type === "projectCard" ? "" : blockToText(before);
+  const afterText = after.type === "projectCard" ? "" : blockToText(after);
+  const text = beforeText || afterText ? diffText(beforeText, afterText) : [];
+  const formattingChanged =
+    beforeText === afterText &&
+    JSON.stringify(before.content ?? null) !== JSON.stringify(after.content ?? null);
+
+  const children = diffLists(before.children ?? [], after.children ?? [], context);
+  const nestedBefore = nestedDocument(before, context.before, context, "before");
+  const nestedAfter = nestedDocument(after, context.after, context, "after");
+  const nested =
+    nestedBefore || nestedAfter
+      ? diffLists(nestedBefore ?? [], nestedAfter ?? [], context)
+      : null;
+
+  const changed =
+    moved ||
+    props.length > 0 ||
+    text.some((change) => change.type !== "equal") ||
+    formattingChanged ||
+    [...children, ...(nested ?? [])].some((diff) => diff.status !== "unchanged");
+
+  return {
+    status: changed ? "modified" : "unchanged",
+    before,
+    after,
+    matchedBy,
+    moved,
+    props,
+    text,
+    formattingChanged,
+    children,
+    nested,
+  };
+}
+
+/**
+ * Diffs two lists of sibling blocks. The result follows the newer order,
+ * with removed blocks where they used to be.
+ */
+function diffLists(
+  before: PortfolioBlock[],
+  after: PortfolioBlock[],
+  context: DiffContext
+): BlockDiff[] {
+  const pairs = pairBlocks(before, after);
+  const inOrder = longestIncreasing(
+    after.flatMap((_, index) => (pairs.has(index) ? [pairs.get(index)!.index] : []))
+  );
+  const pairedBefore = new Set(Array.from(pairs.values(), ({ index }) => index));
+
+  const result: BlockDiff[] = [];
+  let nextBefore = 0;
+  const flushRemoved = (until: number) => {
+    for (; nextBefore < until; nextBefore++) {
+      if (!pairedBefore.has(nextBefore)) {
+        result.push(diffUnpaired(before[nextBefore], "removed", context));
+      }
+    }
+  };
+
+  after.forEach((block, index) => {
+    const pair = pairs.get(index);
+    if (!pair) {
+      result.push(diffUnpaired(block, "added", context));
+      return;
+    }
+    const moved = !inOrder.has(pair.index);
+    // Moved blocks don't say where removed blocks were
+    if (!moved) flushRemoved(pair.index + 1);
+    result.push(diffPair(before[pair.index], block, pair.matchedBy, moved, context));
+  });
+  flushRemoved(before.length);
+
+  return result;
+}
+
+/**
+ * Counts the blocks of a diff by status.
+ */
+function summarize(blocks: BlockDiff[], summary: DiffSummary): DiffSummary {
+  blocks.forEach((diff) => {
+    summary[diff.status]++;
+    summarize(diff.children, summary);
+    if (diff.nested) summarize(diff.nested, summary);
+  });
+  return summary;
+}
+
+/**
+ * Diffs two versions of a portfolio document, including the nested
+ * documents of its ProjectCards.
+ *
+ * @param {EditorContent} before - The older version
+ * @param {EditorContent} after - The newer version
+ * @returns {DocumentDiff} The diff, in the newer version's block order
+ *
+ * @example
+ * const diff = diffDocuments(snapshot, getCurrentContent());
+ * console.log(`${diff.summary.modified} block(s) changed`);
+ */
+export function diffDocuments(before: EditorContent, after: EditorContent): DocumentDiff {
+  const blocks = diffLists(before.document, after.document, {
+    before: before.nestedContent,
+    after: after.nestedContent,
+    seenCards: new Set(),
+  });
+  return {
+    blocks,
+    summary: summarize(blocks, { added: 0, removed: 0, modified: 0, unchanged: 0 }),
+  };
+}
@@ -0,0 +1,271 @@
+// ============================================================================
+// Document Store (Server)
+// ============================================================================
+// Pluggable server-side persistence for BlockNote documents. The API route
+// handlers talk to a DocumentStore without knowing where the data lives, so
+// the backing implementation can be swapped through configuration:
+// - "file"   → JSON files on disk (default, survives server restarts)
+// - "memory" → in-process Map (useful for demos and ephemeral deployments)
+//
+// This module is server-only; it must never be imported from client code.
+// ============================================================================
+
+import { promises as fs } from "fs";
+import path from "path";
+import type { PortfolioBlock } from "../components/schema";
+import { writeFileAtomic } from "./atomicWrite";
+import { emptyCommentTable, type CommentTable } from "./comments";
+import type { NestedContentTable } from "./nestedContent";
+import { CURRENT_SCHEMA_VERSION, readEnvelope } from "./schemaMigrations";
+import { emptySuggestionTable, type SuggestionTable } from "./suggestions";
+
+/**
+ * Lightweight description of a document, used for listings
+ */
+export interface DocumentSummary {
+  id: string;
+  name: string;
+  updatedAt: string;
+}
+
+/**
+ * A persisted document as returned by the store.
+ * `schemaVersion` is absent on documents saved before versioning existed.
+ */
+export interface StoredDocument extends DocumentSummary {
+  schemaVersion?: number;
+  document: PortfolioBlock[];
+  nestedContent: NestedContentTable;
+  comments: CommentTable;
+  suggestions: SuggestionTable;
+}
+
+/**
+ * Data written to the store for a document. The document must already be at
+ * the current schema version.
+ */
+export interface DocumentInput {
+  name: string;
+  document: PortfolioBlock[];
+  nestedContent: NestedContentTable;
+  comments?: CommentTable; // None for new documents
+  suggestions?: SuggestionTable; // Likewise
+}
+
+/**
+ * Minimal contract every storage backend implements
+ */
+export interface DocumentStore {
+  list(): Promise<DocumentSummary[]>;
+  get(id: string): Promise<StoredDocument | null>;
+  put(id: string, input: DocumentInput): Promise<StoredDocument>;
+  delete(id: string): Promise<boolean>;
+}
+
+/**
+ * Name given to documents that are saved without one
+ */
+export const DEFAULT_DOCUMENT_NAME = "Untitled portfolio";
+
+/**
+ * Document ids are used as file names by the file store, so they are
+ * restricted to a safe character set to prevent path traversal.
+ */
+const DOCUMENT_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+/**
+ * Checks whether a document id is acceptable for storage.
+ *
+ * @param {string} id - The document id to check
+ * @returns {boolean} True if the id only contains safe characters
+ */
+export function isValidDocumentId(id: string): boolean {
+  return DOCUMENT_ID_PATTERN.test(id);
+}
+
+/**
+ * Strips the document body from a stored document.
+ */
+function toSummary({ id, name, updatedAt }: StoredDocument): DocumentSummary {
+  return { id, name, updatedAt };
+}
+
+/**
+ * Sorts summaries so the most recently updated document comes first.
+ */
+function byMostRecent(a: DocumentSummary, b: DocumentSummary): number {
+  return b.updatedAt.localeCompare(a.updatedAt);
+}
+
+// ============================================================================
+// In-Memory Store
+// ============================================================================
+
+/**
+ * Creates a store that keeps documents in a Map for the lifetime of the
+ * server process.
+ *
+ * @returns {DocumentStore} The in-memory store
+ */
+export function createMemoryStore(): DocumentStore {
+  const documents = new Map<string, StoredDocument>();
+
+  return {
+    async list() {
+      return Array.from(documents.values()).map(toSummary).sort(byMostRecent);
+    },
+    async get(id) {
+      return documents.get(id) ?? null;
+    },
+    async put(id, { name, document, nestedContent, comments, suggestions }) {
+      const stored: StoredDocument = {
+        id,
+        name,
+        schemaVersion: CURRENT_SCHEMA_VERSION,
+        document,
+        nestedContent,
+        comments: comments ?? emptyCommentTable(),
+        suggestions: suggestions ?? emptySuggestionTable(),
+        updatedAt: new Date().toISOString(),
+      };
+      documents.set(id, stored);
+      return stored;
+    },
+    async delete(id) {
+      return documents.delete(id);
+    },
+  };
+}
+
+// ============================================================================
+// JSON File Store
+// ============================================================================
+
+/**
+ * Creates a store that writes one JSON file per document into a directory.
+ *
+ * Writes go to a temporary file first and are then renamed into place, so a
+ * crash mid-write never leaves a truncated document behind.
+ *
+ * @param {string} directory - Directory the JSON files are written to
+ * @returns {DocumentStore} The file-backed store
+ */
+export function createFileStore(directory: string): DocumentStore {
+  const filePath = (id: string) => path.join(directory, `${id}.json`);
+
+  const read = async (id: string): Promise<StoredDocument | null> => {
+    try {
+      const raw = await fs.readFile(filePath(id), "utf8");
+      const stored = JSON.parse(raw) as StoredDocument;
+
+      // Upgrade documents written by older app versions on read
+      const envelope = readEnvelope({
+        schemaVersion: stored.schemaVersion ?? 1,
+        savedAt: stored.updatedAt ?? null,
+        document: stored.document,
+        nestedContent: stored.nestedContent ?? {},
+        comments: stored.comments,
+        suggestions: stored.suggestions,
+      });
+      if (!envelope) {
+        throw new Error(`Document ${id} could not be upgraded to the current schema`);
+      }
+
+      return {
+        ...stored,
+        // Documents written before names existed fall back to the default name
+        name: stored.name || DEFAULT_DOCUMENT_NAME,
+        schemaVersion: envelope.schemaVersion,
+        document: envelope.document,
+        nestedContent: envelope.nestedContent,
+        comments: envelope.comments,
+        suggestions: envelope.suggestions,
+      };
+    } catch (error: any) {
+      if (error?.code === "ENOENT") return null;
+      throw error;
+    }
+  };
+
+  return {
+    async list() {
+      let entries: string[];
+      try {
+        entries = await fs.readdir(directory);
+      } catch (error: any) {
+        if (error?.code === "ENOENT") return [];
+        throw error;
+      }
+
+      const ids = entries
+        .filter((entry) => entry.endsWith(".json"))
+        .map((entry) => entry.slice(0, -".json".length))
+        .filter(isValidDocumentId);
+
+      const documents = await Promise.all(ids.map(read));
+      return documents
+        .filter((stored): stored is StoredDocument => stored !== null)
+        .map(toSummary)
+        .sort(byMostRecent);
+    },
+    get: read,
+    async put(id, { name, document, nestedContent, comments, suggestions }) {
+      const stored: StoredDocument = {
+        id,
+        name,
+        schemaVersion: CURRENT_SCHEMA_VERSION,
+        document,
+        nestedContent,
+        comments: comments ?? emptyCommentTable(),
+        suggestions: suggestions ?? emptySuggestionTable(),
+        updatedAt: new Date().toISOString(),
+      };
+      await fs.mkdir(directory, { recursive: true });
+      await writeFileAtomic(filePath(id), JSON.stringify(stored));
+      return stored;
+    },
+    async delete(id) {
+      try {
+        await fs.unlink(filePath(id));
+        return true;
+      } catch (error: any) {
+        if (error?.code === "ENOENT") return false;
+        throw error;
+      }
+    },
+  };
+}
+
+// ============================================================================
+// Store Selection
+// ============================================================================
+
+/**
+ * Default directory for the file store, relative to the project root
+ */
+const DEFAULT_STORE_DIR = path.join(process.cwd(), ".data", "documents");
+
+// Cache the store on globalThis so dev-mode hot reloads don't drop the
+// in-memory store's contents on every edit.
+const globalForStore = globalThis as unknown as {
+  documentStore?: DocumentStore;
+};
+
+/**
+ * Returns the configured document store, creating it on first use.
+ *
+ * Configuration is read from the environment:
+ * - DOCUMENT_STORE: "file" (default) or "memory"
+ * - DOCUMENT_STORE_DIR: directory for the file store
+ *
+ * @returns {DocumentStore} The shared store instance
+ */
+export function getDocumentStore(): DocumentStore {
+  if (!globalForStore.documentStore) {
+    globalForStore.documentStore =
+      process.env.DOCUMENT_STORE === "memory"
+        ? createMemoryStore()
+        : createFileStore(process.env.DOCUMENT_STORE_DIR || DEFAULT_STORE_DIR);
+  }
+  return globalForStore.documentStore;
+}
@@ -0,0 +1,161 @@
+import { describe, expect, it } from "vitest";
+
+import { formatValidationIssues, repairContent, validateContent } from "./documentValidation";
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+const text = (value: string) => ({ type: "text", text: value, styles: {} });
+
+const paragraph = (id: string, value: string, extra: Record<string, unknown> = {}) => ({
+  id,
+  type: "paragraph",
+  props: {},
+  content: [text(value)],
+  children: [],
+  ...extra,
+});
+
+const card = (id: string, props: Record<string, unknown> = {}) => ({
+  id,
+  type: "projectCard",
+  props: { title: "Site", ...props },
+  children: [],
+});
+
+/**
+ * A document with one problem of each kind, and where it is
+ */
+const MALFORMED = {
+  document: [
+    paragraph("p1", "Kept"),
+    { id: "bad", type: "callout", props: {} },
+    paragraph("p2", "Aligned", { props: { textAlignment: "sideways" } }),
+    {
+      id: "p3",
+      type: "paragraph",
+      props: {},
+      content: [text("Visit "), { type: "link", content: [text("my site")] }],
+    },
+    card("card-1", { status: "finished", colour: "red" }),
+    { id: "col", type: "column", children: [paragraph("in-column", "Unwrapped")] },
+  ],
+  nestedContent: {
+    "card-1": [paragraph("nested", "Inside"), "junk"],
+    "card-2": "not a document",
+  },
+};
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+describe("validateContent", () => {
+  it("finds no problems in a well-formed document", () => {
+    expect(
+      validateContent({
+        document: [
+          paragraph("p1", "Hello"),
+          card("card-1", { status: "completed" }),
+          {
+            id: "cols",
+            type: "columnList",
+            props: {},
+            children: [{ id: "c1", type: "column", props: {}, children: [paragraph("p2", "Left")] }],
+          },
+        ],
+        nestedContent: { "card-1": [paragraph("p3", "Inside"), card("card-2")] },
+      })
+    ).toEqual([]);
+  });
+
+  it("reports each problem with its path, block id and code", () => {
+    const issues = validateContent(MALFORMED);
+
+    expect(issues.map(({ path, blockId, code }) => ({ path, blockId, code }))).toEqual([
+      { path: "document[1]", blockId: "bad", code: "invalid-block" },
+      { path: "document[2]", blockId: "p2", code: "invalid-prop" },
+      { path: "document[3]", blockId: "p3", code: "invalid-content" },
+      { path: "document[4]", blockId: "card-1", code: "invalid-prop" },
+      { path: "document[4]", blockId: "card-1", code: "invalid-prop" },
+      { path: "document[5]", blockId: "col", code: "misplaced-block" },
+      { path: 'nestedContent["card-1"][1]', blockId: undefined, code: "invalid-block" },
+      { path: 'nestedContent["card-2"]', blockId: "card-2", code: "invalid-structure" },
+    ]);
+    expect(issues.every((issue) => issue.fix === undefined)).toBe(true);
+  });
+
+  it("reports a document that is not an array", () => {
+    expect(validateContent({ document: { hello: "world" } })).toEqual([
+      { path: "document", code: "invalid-structure", message: "must be an array of blocks" },
+    ]);
+  });
+});
+
+// ============================================================================
+// Repair
+// ============================================================================
+
+describe("repairContent", () => {
+  it("drops unusable blocks and fixes bad values, keeping the rest", () => {
+    const { content } = repairContent(MALFORMED);
+
+    expect(content.document.map((block) => block.id)).toEqual([
+      "p1",
+      "p2",
+      "p3",
+      "card-1",
+      "in-column",
+    ]);
+    expect(content.document[1].props).toEqual({ textAlignment: "left" });
+    // The link without an href becomes its text
+    expect((content.document[2] as any).content).toEqual([text("Visit "), text("my site")]);
+    expect(content.document[3].props).toEqual({ title: "Site", status: "" });
+    expect(content.nestedContent).toEqual({ "card-1": [paragraph("nested", "Inside")] });
+  });
+
+  it("finds nothing left to repair in its own output", () => {
+    const { content } = repairContent(MALFORMED);
+
+    expect(validateContent(content)).toEqual([]);
+    expect(repairContent(content)).toEqual({ content, issues: [] });
+  });
+
+  it("says what it did about each problem", () => {
+    const { issues } = repairContent(MALFORMED);
+
+    expect(issues).toHaveLength(validateContent(MALFORMED).length);
+    expect(issues.map((issue) => issue.fix)).toEqual([
+      "dropped the block",
+      'reset prop "textAlignment" to "left"',
+      "replaced the link with its text",
+      'reset prop "status" to ""',
+      'removed prop "colour"',
+      "replaced the column with its blocks",
+      "dropped the block",
+      "dropped the card's nested document",
+    ]);
+  });
+
+  it("doesn't change the content it is given", () => {
+    const original = JSON.parse(JSON.stringify(MALFORMED));
+    repairContent(MALFORMED);
+
+    expect(MALFORMED).toEqual(original);
+  });
+});
+
+describe("formatValidationIssues", () => {
+  it("lists issues with their fixes, up to a limit", () => {
+    const { issues } = repairContent(MALFORMED);
+
+    expect(formatValidationIssues(issues, 2)).toBe(
+      [
+        '• document[1] (id "bad"): unknown block type "callout" → dropped the block',
+        '• document[2] (id "p2"): prop "textAlignment" must be one of "left", "center", "right", "justify" → reset prop "textAlignment" to "left"',
+        "…and 6 more",
+      ].join("\n")
+    );
+  });
+});
@@ -0,0 +1,677 @@
+// ============================================================================
+// Document Validation
+// ============================================================================
+// The one description of what a well-formed portfolio document looks like:
+// every block type of the editor schema with its props and content, where
+// blocks may appear, and the nested documents of ProjectCards. Documents are
+// checked against it wherever they enter the app from outside the editor —
+// loading from storage, importing files, API routes — and before exporting.
+//
+// - validateContent() reports every problem with the path of the offending
+//   block and a machine-readable code:
+//
+//     document[2].children[0] (id "a1b2"): unknown block type "callout"
+//     nestedContent["card-1"][3]: content [0] is a link without an href
+//
+// - repairContent() returns a copy with unusable blocks dropped and bad
+//   values removed or reset to their defaults, and says what it did about
+//   each problem, so one bad block doesn't cost the whole document.
+//
+// Kept free of @blocknote/core imports so it can run on the server; the
+// block types come from the schema as types only.
+// ============================================================================
+
+import type { PortfolioBlockType } from "../components/schema";
+import { METADATA_PROP_DEFAULTS, PROJECT_STATUSES } from "./projectMetadata";
+import type { NestedContentTable } from "./nestedContent";
+import type { EditorContent } from "./schemaMigrations";
+
+/**
+ * Kinds of problems
+ * - invalid-structure: a document, children list or nested content table
+ *   has the wrong shape
+ * - invalid-block: not a block object, or of an unknown type
+ * - misplaced-block: a column outside a column list, or anything else
+ *   inside one
+ * - invalid-id, invalid-prop, invalid-content: a bad part of a block
+ */
+export type ValidationIssueCode =
+  | "invalid-structure"
+  | "invalid-block"
+  | "misplaced-block"
+  | "invalid-id"
+  | "invalid-prop"
+  | "invalid-content";
+
+/**
+ * A problem found in a document
+ * - path: where it is, e.g. `document[2].children[0]`
+ * - blockId: id of the offending block, when it has one
+ * - fix: what repairContent() did about it (only set when repairing)
+ */
+export interface ValidationIssue {
+  path: string;
+  blockId?: string;
+  code: ValidationIssueCode;
+  message: string;
+  fix?: string;
+}
+
+// ============================================================================
+// Schema
+// ============================================================================
+
+type PropValue = string | number | boolean;
+
+/**
+ * A block prop: its type, default and (optionally) allowed values. Props
+ * without a default are optional.
+ */
+interface PropSpec {
+  type: "string" | "number" | "boolean";
+  default?: PropValue;
+  values?: readonly PropValue[];
+}
+
+/**
+ * A block type: the content it holds (inline content, a table, or none) and
+ * its props
+ */
+interface BlockSpec {
+  content: "inline" | "table" | "none";
+  props: Record<string, PropSpec>;
+}
+
+const COLOR_PROPS: Record<string, PropSpec> = {
+  backgroundColor: { type: "string", default: "default" },
+  textColor: { type: "string", default: "default" },
+};
+
+const ALIGNMENT_PROPS: Record<string, PropSpec> = {
+  textAlignment: {
+    type: "string",
+    default: "left",
+    values: ["left", "center", "right", "justify"],
+  },
+};
+
+const DEFAULT_PROPS: Record<string, PropSpec> = { ...COLOR_PROPS, ...ALIGNMENT_PROPS };
+
+const FILE_PROPS: Record<string, PropSpec> = {
+  backgroundColor: COLOR_PROPS.backgroundColor,
+  name: { type: "string", default: "" },
+  url: { type: "string", default: "" },
+  caption: { type: "string", default: "" },
+};
+
+const PREVIEW_PROPS: Record<string, PropSpec> = {
+  showPreview: { type: "boolean", default: true },
+  previewWidth: { type: "number" },
+};
+
+/**
+ * Same as the propSchema in blocks/ProjectCard.tsx
+ */
+const PROJECT_CARD_PROPS: Record<string, PropSpec> = {
+  title: { type: "string", default: "New Project" },
+  subtext: { type: "string", default: "Project description" },
+  coverImage: { type: "string", default: "" },
+  contentRevision: { type: "string", default: "" },
+  tags: { type: "string", default: METADATA_PROP_DEFAULTS.tags },
+  role: { type: "string", default: METADATA_PROP_DEFAULTS.role },
+  status: { type: "string", default: METADATA_PROP_DEFAULTS.status, values: PROJECT_STATUSES },
+  startDate: { type: "string", default: METADATA_PROP_DEFAULTS.startDate },
+  endDate: { type: "string", default: METADATA_PROP_DEFAULTS.endDate },
+  liveUrl: { type: "string", default: METADATA_PROP_DEFAULTS.liveUrl },
+  demoUrl: { type: "string", default: METADATA_PROP_DEFAULTS.demoUrl },
+  repoUrl: { type: "string", default: METADATA_PROP_DEFAULTS.repoUrl },
+};
+
+/**
+ * Every block type of the editor schema (see components/schema.ts): the
+ * BlockNote defaults, multi-column layouts and ProjectCards
+ */
+const BLOCK_SCHEMAS: Record<PortfolioBlockType, BlockSpec> = {
+  paragraph: { content: "inline", props: DEFAULT_PROPS },
+  heading: {
+    content: "inline",
+    props: {
+      ...DEFAULT_PROPS,
+      level: { type: "number", default: 1, values: [1, 2, 3, 4, 5, 6] },
+      isToggleable: { type: "boolean", default: false },
+    },
+  },
+  quote: { content: "inline", props: DEFAULT_PROPS },
+  codeBlock: { content: "inline", props: { language: { type: "string", default: "text" } } },
+  toggleListItem: { content: "inline", props: DEFAULT_PROPS },
+  bulletListItem: { content: "inline", props: DEFAULT_PROPS },
+  numberedListItem: {
+    content: "inline",
+    props: { ...DEFAULT_PROPS, start: { type: "number" } },
+  },
+  checkListItem: {
+    content: "inline",
+    props: { ...DEFAULT_PROPS, checked: { type: "boolean", default: false } },
+  },
+  table: { content: "table", props: { textColor: COLOR_PROPS.textColor } },
+  file: { content: "none", props: FILE_PROPS },
+  image: { content: "none", props: { ...ALIGNMENT_PROPS, ...FILE_PROPS, ...PREVIEW_PROPS } },
+  video: { content: "none", props: { ...ALIGNMENT_PROPS, ...FILE_PROPS, ...PREVIEW_PROPS } },
+  audio: {
+    content: "none",
+    props: { ...FILE_PROPS, showPreview: PREVIEW_PROPS.showPreview },
+  },
+  columnList: { content: "none", props: {} },
+  column: { content: "none", props: { width: { type: "number", default: 1 } } },
+  projectCard: { content: "none", props: PROJECT_CARD_PROPS },
+};
+
+/**
+ * Props of table cells
+ */
+const TABLE_CELL_PROPS: Record<string, PropSpec> = {
+  ...DEFAULT_PROPS,
+  colspan: { type: "number", default: 1 },
+  rowspan: { type: "number", default: 1 },
+};
+
+/**
+ * Text styles BlockNote supports, and whether each is on/off or a value
+ */
+const STYLE_TYPES: Record<string, "boolean" | "string"> = {
+  bold: "boolean",
+  italic: "boolean",
+  underline: "boolean",
+  strike: "boolean",
+  code: "boolean",
+  textColor: "string",
+  backgroundColor: "string",
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Where a problem is: path and id of the block
+ */
+type IssueLocation = Pick<ValidationIssue, "path" | "blockId">;
+
+/**
+ * State of a validation run: the problems found so far, and whether a fix
+ * is recorded for each (repair mode)
+ */
+interface Check {
+  issues: ValidationIssue[];
+  repair: boolean;
+}
+
+/**
+ * Returns whether a value is a plain object (not an array or null).
+ */
+function isObject(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * Looks up a key in a table, ignoring inherited keys such as "constructor".
+ */
+function lookup<T>(table: Record<string, T>, key: unknown): T | undefined {
+  return typeof key === "string" && Object.prototype.hasOwnProperty.call(table, key)
+    ? table[key]
+    : undefined;
+}
+
+/**
+ * Records a problem, keeping its fix only when repairing.
+ */
+function report(check: Check, { fix, ...issue }: ValidationIssue): void {
+  check.issues.push(check.repair ? { ...issue, fix } : issue);
+}
+
+// ============================================================================
+// Props & Content
+// ============================================================================
+
+/**
+ * Checks props against the props a block type (or table cell) allows.
+ *
+ * @param {unknown} props - The props
+ * @param {Record<string, PropSpec>} specs - The allowed props
+ * @param {IssueLocation} at - Where the props are
+ * @param {Check} check - The validation run
+ * @returns {Record<string, PropValue>} The valid props, with bad values
+ *   reset to their defaults or left out
+ */
+function checkProps(
+  props: unknown,
+  specs: Record<string, PropSpec>,
+  at: IssueLocation,
+  check: Check
+): Record<string, PropValue> {
+  const valid: Record<string, PropValue> = {};
+  if (props === undefined) return valid;
+  if (!isObject(props)) {
+    report(check, {
+      ...at,
+      code: "invalid-prop",
+      message: "props must be an object",
+      fix: "reset all props to their defaults",
+    });
+    return valid;
+  }
+
+  for (const key of Object.keys(props)) {
+    const value = props[key];
+    // Unset optional props (e.g. a list's `start`)
+    if (value === undefined || value === null) continue;
+
+    const spec = lookup(specs, key);
+    if (!spec) {
+      report(check, {
+        ...at,
+        code: "invalid-prop",
+        message: `unknown prop "${key}"`,
+        fix: `removed prop "${key}"`,
+      });
+      continue;
+    }
+
+    const problem =
+      typeof value !== spec.type
+        ? `prop "${key}" must be a ${spec.type}`
+        : spec.values && !spec.values.includes(value)
+          ? `prop "${key}" must be one of ${spec.values.map((v) => JSON.stringify(v)).join(", ")}`
+          : null;
+    if (problem) {
+      report(check, {
+        ...at,
+        code: "invalid-prop",
+        message: problem,
+        fix:
+          spec.default === undefined
+            ? `removed prop "${key}"`
+            : `reset prop "${key}" to ${JSON.stringify(spec.default)}`,
+      });
+      if (spec.default !== undefined) valid[key] = spec.default;
+      continue;
+    }
+
+    valid[key] = value;
+  }
+  return valid;
+}
+
+/**
+ * Checks inline content: a string, or an array of strings, styled text and
+ * links.
+ *
+ * @param {unknown} content - Inline content of a block, table cell or link
+ * @param {IssueLocation} at - Where the content is
+ * @param {Check} check - The validation run
+ * @param {string} label - Name of the content in messages
+ * @returns {string | any[]} The valid inline content
+ */
+function checkInlineContent(
+  content: unknown,
+  at: IssueLocation,
+  check: Check,
+  label: string = "content"
+): string | any[] {
+  if (content === undefined) return [];
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) {
+    report(check, {
+      ...at,
+      code: "invalid-content",
+      message: `${label} must be text or an array of inline content`,
+      fix: `removed the ${label}`,
+    });
+    return [];
+  }
+
+  const valid: any[] = [];
+  content.forEach((item, index) => {
+    const itemLabel = `${label} [${index}]`;
+    const problem = (message: string, fix: string) =>
+      report(check, { ...at, code: "invalid-content", message: `${itemLabel} ${message}`, fix });
+
+    if (typeof item === "string") {
+      valid.push(item);
+    } else if (!isObject(item)) {
+      problem("must be an object", "removed it");
+    } else if (item.type === "text") {
+      if (typeof item.text !== "string") {
+        problem("has no text", "removed it");
+        return;
+      }
+      if (item.styles !== undefined && !isObject(item.styles)) {
+        problem("styles must be an object", "removed its styles");
+        valid.push({ type: "text", text: item.text, styles: {} });
+        return;
+      }
+
+      const styles: Record<string, string | boolean> = {};
+      for (const style of Object.keys(item.styles ?? {})) {
+        const styleType = lookup(STYLE_TYPES, style);
+        if (!styleType) {
+          problem(`has unknown style "${style}"`, `removed style "${style}"`);
+        } else if (typeof item.styles[style] !== styleType) {
+          problem(`style "${style}" must be a ${styleType}`, `removed style "${style}"`);
+        } else {
+          styles[style] = item.styles[style];
+        }
+      }
+      valid.push({ type: "text", text: item.text, styles });
+    } else if (item.type === "link") {
+      const linkContent = checkInlineContent(item.content, at, check, `${itemLabel} link text`);
+      if (typeof item.href !== "string") {
+        problem("is a link without an href", "replaced the link with its text");
+        valid.push(...(typeof linkContent === "string" ? [linkContent] : linkContent));
+        return;
+      }
+      valid.push({ type: "link", href: item.href, content: linkContent });
+    } else {
+      problem(`has unknown type "${item.type}"`, "removed it");
+    }
+  });
+  return valid;
+}
+
+/**
+ * Checks the content of a table block.
+ *
+ * @param {unknown} content - The table content
+ * @param {IssueLocation} at - Where the table is
+ * @param {Check} check - The validation run
+ * @returns {any | null} The valid table content, or null if it has no
+ *   usable rows at all
+ */
+function checkTableContent(content: unknown, at: IssueLocation, check: Check): any | null {
+  if (!isObject(content) || content.type !== "tableContent" || !Array.isArray(content.rows)) {
+    report(check, {
+      ...at,
+      code: "invalid-content",
+      message: 'table content must be a "tableContent" object with rows',
+      fix: "dropped the block",
+    });
+    return null;
+  }
+
+  const rows: any[] = [];
+  content.rows.forEach((row: unknown, rowIndex: number) => {
+    const rowAt = { ...at, path: `${at.path}.content.rows[${rowIndex}]` };
+    if (!isObject(row) || !Array.isArray(row.cells)) {
+      report(check, {
+        ...rowAt,
+        code: "invalid-content",
+        message: "table row has no cells",
+        fix: "dropped the row",
+      });
+      return;
+    }
+
+    const cells = row.cells.map((cell: unknown, cellIndex: number) => {
+      const cellAt = { ...at, path: `${rowAt.path}.cells[${cellIndex}]` };
+      if (isObject(cell) && cell.type === "tableCell") {
+        return {
+          type: "tableCell",
+          props: checkProps(cell.props, TABLE_CELL_PROPS, cellAt, check),
+          content: checkInlineContent(cell.content, cellAt, check),
+        };
+      }
+      return checkInlineContent(cell, cellAt, check);
+    });
+    rows.push({ cells });
+  });
+
+  return {
+    type: "tableContent",
+    ...(Array.isArray(content.columnWidths) && { columnWidths: content.columnWidths }),
+    ...(typeof content.headerRows === "number" && { headerRows: content.headerRows }),
+    ...(typeof content.headerCols === "number" && { headerCols: content.headerCols }),
+    rows,
+  };
+}
+
+// ============================================================================
+// Blocks
+// ============================================================================
+
+/**
+ * Checks a list of blocks and their descendants.
+ *
+ * @param {unknown} blocks - The blocks
+ * @param {string} path - Path of the list
+ * @param {string} parentType - Type of the block the list belongs to, if any
+ * @param {Check} check - The validation run
+ * @returns {any[]} The valid blocks
+ */
+function checkBlocks(
+  blocks: unknown,
+  path: string,
+  parentType: string | undefined,
+  check: Check
+): any[] {
+  if (!Array.isArray(blocks)) {
+    report(check, {
+      path,
+      code: "invalid-structure",
+      message: "must be an array of blocks",
+      fix: "replaced it with an empty list",
+    });
+    return [];
+  }
+
+  return blocks.flatMap((block, index) =>
+    checkBlock(block, `${path}[${index}]`, parentType, check)
+  );
+}
+
+/**
+ * Checks a block and its descendants.
+ *
+ * @param {unknown} block - The block
+ * @param {string} path - Path of the block
+ * @param {string} parentType - Type of the parent block, if any
+ * @param {Check} check - The validation run
+ * @returns {any[]} The valid block; nothing if it is dropped, or its
+ *   children if it is a column that has to be unwrapped
+ */
+function checkBlock(
+  block: unknown,
+  path: string,
+  parentType: string | undefined,
+  check: Check
+): any[] {
+  if (!isObject(block)) {
+    report(check, {
+      path,
+      code: "invalid-block",
+      message: "block must be an object",
+      fix: "dropped the block",
+    });
+    return [];
+  }
+
+  const blockId = typeof block.id === "string" && block.id !== "" ? block.id : undefined;
+  const at: IssueLocation = { path, blockId };
+
+  const spec = lookup(BLOCK_SCHEMAS, block.type);
+  if (!spec) {
+    report(check, {
+      ...at,
+      code: "invalid-block",
+      message:
+        typeof block.type === "string" ? `unknown block type "${block.type}"` : "block has no type",
+      fix: "dropped the block",
+    });
+    return [];
+  }
+
+  // Columns only exist directly inside column lists, and vice versa
+  if (block.type === "column" && parentType !== "columnList") {
+    report(check, {
+      ...at,
+      code: "misplaced-block",
+      message: "column must be inside a columnList",
+      fix: "replaced the column with its blocks",
+    });
+    return checkBlocks(block.children ?? [], `${path}.children`, parentType, check);
+  }
+  if (block.type !== "column" && parentType === "columnList") {
+    report(check, {
+      ...at,
+      code: "misplaced-block",
+      message: "columnList may only contain columns",
+      fix: "wrapped the block in a column",
+    });
+    return [{ type: "column", props: {}, children: checkBlock(block, path, "column", check) }];
+  }
+
+  if (block.id !== undefined && blockId === undefined) {
+    report(check, {
+      ...at,
+      code: "invalid-id",
+      message: "id must be a non-empty string",
+      fix: "removed the id, so a new one is generated",
+    });
+  }
+
+  const valid: Record<string, any> = {
+    ...(blockId !== undefined && { id: blockId }),
+    type: block.type,
+    props: checkProps(block.props, spec.props, at, check),
+  };
+
+  if (spec.content === "inline") {
+    valid.content = checkInlineContent(block.content, at, check);
+  } else if (spec.content === "table") {
+    if (block.content !== undefined) {
+      const table = checkTableContent(block.content, at, check);
+      if (!table) return [];
+      valid.content = table;
+    }
+  } else if (
+    block.content !== undefined &&
+    !(Array.isArray(block.content) && block.content.length === 0)
+  ) {
+    report(check, {
+      ...at,
+      code: "invalid-content",
+      message: `${block.type} blocks have no content`,
+      fix: "removed the content",
+    });
+  }
+
+  if (block.children !== undefined) {
+    valid.children = checkBlocks(block.children, `${path}.children`, block.type, check);
+  }
+
+  return [valid];
+}
+
+/**
+ * Checks a document and the nested documents of its ProjectCards.
+ */
+function checkContent(
+  { document, nestedContent }: { document: unknown; nestedContent?: unknown },
+  check: Check
+): EditorContent {
+  const valid: EditorContent = {
+    document: checkBlocks(document, "document", undefined, check),
+    nestedContent: {} as NestedContentTable,
+  };
+
+  if (nestedContent === undefined) return valid;
+  if (!isObject(nestedContent)) {
+    report(check, {
+      path: "nestedContent",
+      code: "invalid-structure",
+      message: "must be an object",
+      fix: "replaced it with an empty table",
+    });
+    return valid;
+  }
+
+  for (const cardId of Object.keys(nestedContent)) {
+    const path = `nestedContent[${JSON.stringify(cardId)}]`;
+    if (!Array.isArray(nestedContent[cardId])) {
+      report(check, {
+        path,
+        blockId: cardId,
+        code: "invalid-structure",
+        message: "must be an array of blocks",
+        fix: "dropped the card's nested document",
+      });
+      continue;
+    }
+    valid.nestedContent[cardId] = checkBlocks(nestedContent[cardId], path, undefined, check);
+  }
+  return valid;
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Validates a document and the nested documents of its ProjectCards.
+ *
+ * @param {unknown} content - Object with `document` and `nestedContent`
+ * @returns {ValidationIssue[]} Problems found (empty if the content is valid)
+ *
+ * @example
+ * const issues = validateContent(envelope);
+ * if (issues.length > 0) alert(formatValidationIssues(issues));
+ */
+export function validateContent(content: {
+  document: unknown;
+  nestedContent?: unknown;
+}): ValidationIssue[] {
+  const check: Check = { issues: [], repair: false };
+  checkContent(content, check);
+  return check.issues;
+}
+
+/**
+ * Returns a valid copy of a document and the nested documents of its
+ * ProjectCards. Unusable blocks are dropped; bad props, styles, inline
+ * content and ids are removed or reset to their defaults. The copy holds
+ * only plain JSON data, so it is also safe to hand to exporters.
+ *
+ * @param {unknown} content - Object with `document` and `nestedContent`
+ * @returns The repaired content, and the problems found with their fixes
+ *
+ * @example
+ * const { content, issues } = repairContent(envelope);
+ * if (issues.length > 0) console.warn(formatValidationIssues(issues));
+ */
+export function repairContent(content: {
+  document: unknown;
+  nestedContent?: unknown;
+}): { content: EditorContent; issues: ValidationIssue[] } {
+  const check: Check = { issues: [], repair: true };
+  return { content: checkContent(content, check), issues: check.issues };
+}
+
+/**
+ * Formats issues as a readable list, one per line, for alerts and logs.
+ *
+ * @param {ValidationIssue[]} issues - Problems found by a validator
+ * @param {number} limit - Maximum number of issues to list
+ * @returns {string} The list, noting how many were left out
+ */
+export function formatValidationIssues(
+  issues: ValidationIssue[],
+  limit: number = 10
+): string {
+  const lines = issues.slice(0, limit).map(
+    ({ path, blockId, message, fix }) =>
+      `• ${path}${blockId ? ` (id "${blockId}")` : ""}: ${message}${fix ? ` → ${fix}` : ""}`
+  );
+  if (issues.length > limit) {
+    lines.push(`…and ${issues.length - limit} more`);
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,38 @@
+// ============================================================================
+// Download Utility
+// ============================================================================
+// Triggers a browser download for content generated on the client
+// (PDF, Markdown, ...).
+// ============================================================================
+
+/**
+ * Downloads a Blob as a file.
+ *
+ * @param {Blob} blob - The file content
+ * @param {string} filename - Name of the downloaded file
+ *
+ * @example
+ * downloadBlob(new Blob(["# Hi"], { type: "text/markdown" }), "hi.md");
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
+  // Create download link
+  const url = URL.createObjectURL(blob);
+  const link = window.document.createElement("a");
+  link.href = url;
+  link.download = filename;
+
+  // Trigger download
+  window.document.body.appendChild(link);
+  link.click();
+  window.document.body.removeChild(link);
+
+  // Cleanup
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Returns today's date as YYYY-MM-DD, for use in exported file names.
+ */
+export function dateStamp(): string {
+  return new Date().toISOString().split("T")[0];
+}
@@ -0,0 +1,171 @@
+// ============================================================================
+// PDF Export Options
+// ============================================================================
+// Options chosen in the PDF export dialog and applied by PDFDocument. Kept
+// apart from pdfExport.tsx so the dialog can use them without loading
+// @react-pdf/renderer, which is imported on demand when exporting.
+// ============================================================================
+
+import { PRINT_QUALITIES, type PrintQuality } from "./imageUrls";
+
+export type PdfPageSize = "A4" | "LETTER" | "LEGAL" | "A5";
+export type PdfOrientation = "portrait" | "landscape";
+export type PdfMargin = "narrow" | "normal" | "wide";
+export type PdfTheme = "light" | "print";
+
+/**
+ * Portrait page dimensions in points (1pt = 1/72in)
+ */
+export const PAGE_SIZES: Record<
+  PdfPageSize,
+  { label: string; width: number; height: number }
+> = {
+  A4: { label: "A4", width: 595.28, height: 841.89 },
+  LETTER: { label: "US Letter", width: 612, height: 792 },
+  LEGAL: { label: "US Legal", width: 612, height: 1008 },
+  A5: { label: "A5", width: 419.53, height: 595.28 },
+};
+
+/**
+ * Page margins in points
+ */
+export const PAGE_MARGINS: Record<PdfMargin, { label: string; size: number }> = {
+  narrow: { label: "Narrow", size: 24 },
+  normal: { label: "Normal", size: 40 },
+  wide: { label: "Wide", size: 72 },
+};
+
+export const PDF_THEME_LABELS: Record<PdfTheme, string> = {
+  light: "Light",
+  print: "Print (black & white)",
+};
+
+/**
+ * Export Options Interface
+ * - filename: download name ("" for a dated default)
+ * - title: shown on the cover page / first page and in the PDF metadata
+ * - imageQuality: resolution of embedded images
+ * - coverPage: start with a title page
+ * - tableOfContents: list headings and project cards with links
+ * - pageNumbers: show "Page n of m" in the footer
+ * - cardPageBreaks: start each top-level ProjectCard on a new page
+ */
+export interface ExportOptions {
+  filename: string;
+  title: string;
+  pageSize: PdfPageSize;
+  orientation: PdfOrientation;
+  margin: PdfMargin;
+  theme: PdfTheme;
+  imageQuality: PrintQuality;
+  coverPage: boolean;
+  tableOfContents: boolean;
+  pageNumbers: boolean;
+  cardPageBreaks: boolean;
+}
+
+/**
+ * Default export options
+ */
+export const defaultExportOptions: ExportOptions = {
+  filename: "",
+  title: "My Portfolio",
+  pageSize: "A4",
+  orientation: "portrait",
+  margin: "normal",
+  theme: "light",
+  imageQuality: "standard",
+  coverPage: false,
+  tableOfContents: false,
+  pageNumbers: true,
+  cardPageBreaks: false,
+};
+
+/**
+ * Returns the width of a page's content area in points.
+ *
+ * @param {ExportOptions} options - Page size, orientation and margin
+ * @returns {number} Page width minus both side margins
+ */
+export function contentWidth({
+  pageSize,
+  orientation,
+  margin,
+}: Pick<ExportOptions, "pageSize" | "orientation" | "margin">): number {
+  const { width, height } = PAGE_SIZES[pageSize];
+  const pageWidth = orientation === "landscape" ? height : width;
+  return pageWidth - 2 * PAGE_MARGINS[margin].size;
+}
+
+/**
+ * Returns the download name for an export, adding the .pdf extension and
+ * falling back to a dated name.
+ *
+ * @param {string} filename - Name entered in the dialog
+ * @param {string} fallback - Name used when none was entered
+ * @returns {string} The file name
+ *
+ * @example
+ * pdfFilename("resume", "portfolio-2024-05-01.pdf"); // "resume.pdf"
+ */
+export function pdfFilename(filename: string, fallback: string): string {
+  const name = filename.trim();
+  if (!name) return fallback;
+  return name.toLowerCase().endsWith(".pdf") ? name : `${name}.pdf`;
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Allowed values of the choice options
+ */
+const CHOICES: Partial<Record<keyof ExportOptions, string[]>> = {
+  pageSize: Object.keys(PAGE_SIZES),
+  orientation: ["portrait", "landscape"],
+  margin: Object.keys(PAGE_MARGINS),
+  theme: Object.keys(PDF_THEME_LABELS),
+  imageQuality: Object.keys(PRINT_QUALITIES),
+};
+
+/**
+ * Reads export options from untrusted input: a JSON object, or query
+ * parameters (where booleans are "true"/"false" or "1"/"0"). Unknown keys
+ * are ignored; options that are left out keep their defaults.
+ *
+ * @param {Record<string, unknown>} raw - Option values by name
+ * @returns The options, or an error naming the first invalid one
+ *
+ * @example
+ * parseExportOptions({ pageSize: "LETTER", coverPage: "1" });
+ * // { options: { pageSize: "LETTER", coverPage: true } }
+ */
+export function parseExportOptions(
+  raw: Record<string, unknown>
+): { options: Partial<ExportOptions> } | { error: string } {
+  const options: Record<string, string | boolean> = {};
+
+  for (const key of Object.keys(defaultExportOptions) as (keyof ExportOptions)[]) {
+    const value = raw[key];
+    if (value === undefined) continue;
+
+    if (typeof defaultExportOptions[key] === "boolean") {
+      if (value === true || value === "true" || value === "1") options[key] = true;
+      else if (value === false || value === "false" || value === "0") options[key] = false;
+      else return { error: `${key} must be true or false` };
+      continue;
+    }
+
+    if (typeof value !== "string") {
+      return { error: `${key} must be a string` };
+    }
+    const choices = CHOICES[key];
+    if (choices && choices.indexOf(value) === -1) {
+      return { error: `${key} must be one of: ${choices.join(", ")}` };
+    }
+    options[key] = value;
+  }
+
+  return { options: options as Partial<ExportOptions> };
+}
@@ -0,0 +1,177 @@
+// ============================================================================
+// Image Variant URLs
+// ============================================================================
+// Uploaded images (served from /api/assets/:name) can be requested as resized
+// variants by adding query parameters:
+//
+//   /api/assets/<hash>.png?w=640&q=75&f=webp
+//
+// Variants are generated on the server (see imageVariants.ts). Only the
+// widths, qualities and formats listed here are accepted so the variant
+// cache stays bounded. External image URLs are returned unchanged.
+// ============================================================================
+
+/**
+ * Widths variants can be generated at, in pixels
+ */
+export const IMAGE_WIDTHS = [320, 640, 960, 1280, 1920, 2560] as const;
+
+/**
+ * Encoder qualities variants can be generated at
+ */
+export const IMAGE_QUALITIES = [60, 75, 90] as const;
+
+/**
+ * Formats variants can be generated in. WebP for the browser; JPEG/PNG for
+ * the PDF renderer, which cannot decode WebP.
+ */
+export const IMAGE_FORMATS = ["webp", "jpg", "png"] as const;
+
+export type ImageFormat = (typeof IMAGE_FORMATS)[number];
+
+/**
+ * A requested image variant
+ */
+export interface ImageVariant {
+  width: number;
+  quality?: number;
+  format?: ImageFormat;
+}
+
+/**
+ * Widths used for on-screen srcsets (generated eagerly on upload)
+ */
+export const SCREEN_WIDTHS = [320, 640, 1280];
+
+/**
+ * Matches URLs of uploaded assets, capturing the asset name
+ */
+const ASSET_URL_PATTERN = /^(?:https?:\/\/[^/]+)?\/api\/assets\/([a-f0-9]{64}\.(?:png|jpg|gif|webp))(?:\?.*)?$/;
+
+/**
+ * Returns the asset name of an uploaded image URL, or null for other URLs.
+ *
+ * @param {string} url - An image URL
+ * @returns {string | null} The asset name
+ */
+export function getAssetName(url: string): string | null {
+  const match = typeof url === "string" ? url.match(ASSET_URL_PATTERN) : null;
+  return match ? match[1] : null;
+}
+
+/**
+ * Rounds a width up to the nearest supported width.
+ */
+function supportedWidth(width: number): number {
+  return IMAGE_WIDTHS.find((candidate) => candidate >= width) ??
+    IMAGE_WIDTHS[IMAGE_WIDTHS.length - 1];
+}
+
+/**
+ * Builds the URL of a resized variant of an uploaded image. Widths are
+ * rounded up to a supported width; non-asset URLs are returned unchanged.
+ *
+ * @param {string} url - The original image URL
+ * @param {ImageVariant} variant - Desired width, quality and format
+ * @returns {string} The variant URL
+ *
+ * @example
+ * imageVariantUrl("/api/assets/ab12….png", { width: 600 });
+ * // "/api/assets/ab12….png?w=640&q=75&f=webp"
+ */
+export function imageVariantUrl(
+  url: string,
+  { width, quality = 75, format = "webp" }: ImageVariant
+): string {
+  const name = getAssetName(url);
+  if (!name) return url;
+
+  const base = url.split("?")[0];
+  return `${base}?w=${supportedWidth(width)}&q=${quality}&f=${format}`;
+}
+
+/**
+ * Builds a `srcset` of WebP variants for an uploaded image.
+ *
+ * @param {string} url - The original image URL
+ * @param {number[]} widths - Widths to include
+ * @returns {string | undefined} The srcset, or undefined for non-asset URLs
+ */
+export function imageSrcSet(
+  url: string,
+  widths: number[] = SCREEN_WIDTHS
+): string | undefined {
+  if (!getAssetName(url)) return undefined;
+  return widths
+    .map((width) => `${imageVariantUrl(url, { width })} ${width}w`)
+    .join(", ");
+}
+
+// ============================================================================
+// Print Variants
+// ============================================================================
+
+export type PrintQuality = "draft" | "standard" | "high";
+
+/**
+ * PDF image quality presets: target resolution and JPEG quality
+ */
+export const PRINT_QUALITIES: Record<
+  PrintQuality,
+  { label: string; dpi: number; quality: number }
+> = {
+  draft: { label: "Draft (72 DPI)", dpi: 72, quality: 60 },
+  standard: { label: "Standard (150 DPI)", dpi: 150, quality: 75 },
+  high: { label: "High (300 DPI)", dpi: 300, quality: 90 },
+};
+
+/**
+ * Returns the print variant of an uploaded image, sized for the width it
+ * occupies on the page at the preset's DPI. The PDF renderer can't decode
+ * WebP, so PNGs stay PNG (keeping transparency) and everything else becomes
+ * JPEG.
+ *
+ * @param {string} name - The asset name
+ * @param {PrintQuality} printQuality - Quality preset
+ * @param {number} widthInPoints - Rendered width on the page (1pt = 1/72in)
+ * @returns {Required<ImageVariant>} A supported width, quality and format
+ *
+ * @example
+ * printImageVariant("ab12….jpg", "standard", 515);
+ * // { width: 1280, quality: 75, format: "jpg" }
+ */
+export function printImageVariant(
+  name: string,
+  printQuality: PrintQuality,
+  widthInPoints: number
+): Required<ImageVariant> {
+  const { dpi, quality } = PRINT_QUALITIES[printQuality];
+  return {
+    width: supportedWidth(Math.ceil((widthInPoints / 72) * dpi)),
+    quality,
+    format: name.endsWith(".png") ? "png" : "jpg",
+  };
+}
+
+/**
+ * Builds the URL of a print variant of an uploaded image (see
+ * printImageVariant). Non-asset URLs are returned unchanged.
+ *
+ * @param {string} url - The original image URL
+ * @param {PrintQuality} printQuality - Quality preset
+ * @param {number} widthInPoints - Rendered width on the page (1pt = 1/72in)
+ * @returns {string} The variant URL
+ *
+ * @example
+ * printImageUrl(coverImage, "standard", 515); // ~1073px → w=1280 JPEG
+ */
+export function printImageUrl(
+  url: string,
+  printQuality: PrintQuality,
+  widthInPoints: number
+): string {
+  const name = getAssetName(url);
+  if (!name) return url;
+
+  return imageVariantUrl(url, printImageVariant(name, printQuality, widthInPoints));
+}
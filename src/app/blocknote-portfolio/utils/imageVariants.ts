@@ -0,0 +1,131 @@
+// ============================================================================
+// Image Variants (Server)
+// ============================================================================
+// Generates resized/re-encoded variants of uploaded images and caches them
+// next to the originals in `<asset dir>/variants`. Variants are keyed by the
+// original's content hash, so they never go stale.
+//
+// Resizing and encoding use sharp.
+//
+// This module is server-only; it must never be imported from client code.
+// ============================================================================
+
+import { promises as fs } from "fs";
+import path from "path";
+import sharp from "sharp";
+
+import { getAssetDirectory, readAsset } from "./assetStore";
+import { writeFileAtomic } from "./atomicWrite";
+import {
+  IMAGE_FORMATS,
+  IMAGE_QUALITIES,
+  IMAGE_WIDTHS,
+  SCREEN_WIDTHS,
+  type ImageFormat,
+} from "./imageUrls";
+
+/**
+ * A fully specified variant
+ */
+export interface VariantSpec {
+  width: number;
+  quality: number;
+  format: ImageFormat;
+}
+
+/**
+ * MIME type per variant format
+ */
+export const VARIANT_CONTENT_TYPES: Record<ImageFormat, string> = {
+  webp: "image/webp",
+  jpg: "image/jpeg",
+  png: "image/png",
+};
+
+/**
+ * Encodes a resized image in a variant format
+ */
+const ENCODERS: Record<ImageFormat, (image: sharp.Sharp, quality: number) => sharp.Sharp> = {
+  webp: (image, quality) => image.webp({ quality }),
+  jpg: (image, quality) => image.jpeg({ quality, mozjpeg: true }),
+  png: (image, quality) => image.png({ quality }),
+};
+
+/**
+ * Parses and validates variant query parameters (`w`, `q`, `f`).
+ *
+ * @param {URLSearchParams} params - The request's query parameters
+ * @returns {VariantSpec | null | "invalid"} The variant, null when no variant
+ *   was requested, or "invalid" for unsupported values
+ */
+export function parseVariantParams(
+  params: URLSearchParams
+): VariantSpec | null | "invalid" {
+  if (!params.has("w")) return null;
+
+  const width = Number(params.get("w"));
+  const quality = Number(params.get("q") ?? 75);
+  const format = (params.get("f") ?? "webp") as ImageFormat;
+
+  if (
+    (IMAGE_WIDTHS as readonly number[]).indexOf(width) === -1 ||
+    (IMAGE_QUALITIES as readonly number[]).indexOf(quality) === -1 ||
+    IMAGE_FORMATS.indexOf(format) === -1
+  ) {
+    return "invalid";
+  }
+  return { width, quality, format };
+}
+
+/**
+ * Returns a variant of a stored asset, generating and caching it on first
+ * use. Images narrower than the requested width are re-encoded but never
+ * enlarged.
+ *
+ * @param {string} name - A valid asset name
+ * @param {VariantSpec} spec - Width, quality and format
+ * @returns {Promise<Buffer | null>} The variant, or null if the asset is missing
+ */
+export async function getImageVariant(
+  name: string,
+  { width, quality, format }: VariantSpec
+): Promise<Buffer | null> {
+  const hash = name.slice(0, name.indexOf("."));
+  const directory = path.join(getAssetDirectory(), "variants");
+  const variantPath = path.join(directory, `${hash}-w${width}-q${quality}.${format}`);
+
+  try {
+    return await fs.readFile(variantPath);
+  } catch (error: any) {
+    if (error?.code !== "ENOENT") throw error;
+  }
+
+  const original = await readAsset(name);
+  if (!original) return null;
+
+  // Upright per EXIF orientation, as browsers show it
+  const resized = sharp(original).rotate().resize({ width, withoutEnlargement: true });
+  const variant = await ENCODERS[format](resized, quality).toBuffer();
+
+  await fs.mkdir(directory, { recursive: true });
+  await writeFileAtomic(variantPath, variant);
+
+  return variant;
+}
+
+/**
+ * Generates the on-screen WebP variants of a newly uploaded image so the
+ * first page views don't have to wait for them. Failures are logged, not
+ * thrown: variants are generated on demand anyway.
+ *
+ * @param {string} name - A valid asset name
+ */
+export async function generateScreenVariants(name: string): Promise<void> {
+  try {
+    for (const width of SCREEN_WIDTHS) {
+      await getImageVariant(name, { width, quality: 75, format: "webp" });
+    }
+  } catch (error) {
+    console.warn(`⚠️ Could not pre-generate variants of ${name}:`, error);
+  }
+}
@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+
+import { isSafeLinkUrl } from "./linkUrls";
+
+describe("isSafeLinkUrl", () => {
+  it("accepts web, mail and relative URLs", () => {
+    expect(isSafeLinkUrl("https://example.com/page")).toBe(true);
+    expect(isSafeLinkUrl("HTTP://example.com")).toBe(true);
+    expect(isSafeLinkUrl("mailto:me@example.com")).toBe(true);
+    expect(isSafeLinkUrl("/p/doc")).toBe(true);
+    expect(isSafeLinkUrl("#card-1")).toBe(true);
+    expect(isSafeLinkUrl("example.com/page")).toBe(true);
+  });
+
+  it("rejects other schemes, however they are disguised", () => {
+    expect(isSafeLinkUrl("javascript:alert(1)")).toBe(false);
+    expect(isSafeLinkUrl("JavaScript:alert(1)")).toBe(false);
+    expect(isSafeLinkUrl(" java\tscript:alert(1)")).toBe(false);
+    expect(isSafeLinkUrl("\u0001javascript:alert(1)")).toBe(false);
+    expect(isSafeLinkUrl("data:text/html,<script>alert(1)</script>")).toBe(false);
+    expect(isSafeLinkUrl("vbscript:msgbox")).toBe(false);
+  });
+});
@@ -0,0 +1,34 @@
+// ============================================================================
+// Link URLs
+// ============================================================================
+// Link targets come from documents anyone with edit access can change, and
+// are rendered on public share pages and in exported files. Only web, mail
+// and relative links are followed; anything else (javascript:, data:, …)
+// is shown as plain text instead.
+// ============================================================================
+
+/**
+ * URL schemes links may use
+ */
+const SAFE_SCHEMES = ["http", "https", "mailto"];
+
+/**
+ * Checks that a link target is a web, mail or relative URL.
+ *
+ * Browsers ignore tabs, line breaks and leading control characters in a
+ * URL's scheme, so they are removed before it is read.
+ *
+ * @param {string} url - The link target
+ * @returns {boolean} True if the URL can be used as an `href`
+ *
+ * @example
+ * isSafeLinkUrl("https://example.com"); // true
+ * isSafeLinkUrl("javascript:alert(1)"); // false
+ */
+export function isSafeLinkUrl(url: string): boolean {
+  const normalized = url.replace(/[\u0000- ]/g, "");
+  const scheme = normalized.match(/^([a-z][a-z0-9+.-]*):/i);
+  // No scheme: a relative URL, e.g. "/p/doc" or "#section"
+  if (!scheme) return true;
+  return SAFE_SCHEMES.indexOf(scheme[1].toLowerCase()) !== -1;
+}
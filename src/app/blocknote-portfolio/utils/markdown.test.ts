@@ -0,0 +1,247 @@
+// @vitest-environment jsdom
+import { BlockNoteEditor } from "@blocknote/core";
+import { beforeAll, describe, expect, it } from "vitest";
+
+import { schema, type PortfolioBlock, type PortfolioEditor } from "../components/schema";
+import { documentToMarkdown, markdownToDocument } from "./markdown";
+import type { EditorContent } from "./schemaMigrations";
+
+let editor: PortfolioEditor;
+
+beforeAll(() => {
+  editor = BlockNoteEditor.create({ schema }) as unknown as PortfolioEditor;
+});
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+const text = (value: string, styles: Record<string, boolean> = {}) => ({
+  type: "text",
+  text: value,
+  styles,
+});
+
+const paragraph = (value: string, styles?: Record<string, boolean>) => ({
+  type: "paragraph",
+  content: [text(value, styles)],
+});
+
+const card = (id: string, props: Record<string, string>) => ({
+  id,
+  type: "projectCard",
+  props,
+});
+
+/**
+ * The plain text of a block's inline content
+ */
+function plainText(block: PortfolioBlock): string {
+  const content = (block as any).content;
+  return Array.isArray(content) ? content.map((item: any) => item.text ?? "").join("") : "";
+}
+
+/**
+ * Exports content to Markdown and imports it again.
+ */
+async function roundTrip(content: EditorContent): Promise<{
+  markdown: string;
+  result: EditorContent;
+}> {
+  const markdown = await documentToMarkdown(editor, content);
+  return { markdown, result: await markdownToDocument(editor, markdown) };
+}
+
+const cards = (blocks: PortfolioBlock[]) =>
+  blocks.filter((block) => block.type === "projectCard") as any[];
+
+// ============================================================================
+// Round Trips
+// ============================================================================
+
+describe("Markdown round trip", () => {
+  it("keeps regular blocks", async () => {
+    const { result } = await roundTrip({
+      document: [
+        { type: "heading", props: { level: 1 }, content: [text("About me")] },
+        paragraph("Hello there"),
+        { type: "bulletListItem", content: [text("First")] },
+        { type: "bulletListItem", content: [text("Second")] },
+      ] as any[],
+      nestedContent: {},
+    });
+
+    expect(result.document.map((block) => [block.type, plainText(block)])).toEqual([
+      ["heading", "About me"],
+      ["paragraph", "Hello there"],
+      ["bulletListItem", "First"],
+      ["bulletListItem", "Second"],
+    ]);
+  });
+
+  it("keeps a card's props, metadata and nested document", async () => {
+    const { result } = await roundTrip({
+      document: [
+        card("site", {
+          title: "Portfolio site",
+          subtext: "A personal website",
+          coverImage: "https://example.com/cover.png",
+          status: "completed",
+          role: "Lead developer",
+          startDate: "2023-01",
+          endDate: "",
+          tags: "React, TypeScript",
+          liveUrl: "https://example.com",
+          repoUrl: "https://github.com/example/site",
+        }),
+      ] as any[],
+      nestedContent: {
+        site: [
+          { type: "heading", props: { level: 2 }, content: [text("Overview")] },
+          paragraph("Built with Next.js"),
+        ] as any[],
+      },
+    });
+
+    const [imported] = cards(result.document);
+    expect(imported.props).toEqual({
+      title: "Portfolio site",
+      subtext: "A personal website",
+      coverImage: "https://example.com/cover.png",
+      status: "completed",
+      role: "Lead developer",
+      startDate: "2023-01",
+      endDate: "",
+      tags: "React, TypeScript",
+      liveUrl: "https://example.com",
+      repoUrl: "https://github.com/example/site",
+    });
+    expect(result.nestedContent[imported.id].map(plainText)).toEqual([
+      "Overview",
+      "Built with Next.js",
+    ]);
+  });
+
+  it("doesn't read a nested italic paragraph as the subtext of a card without one", async () => {
+    const { result } = await roundTrip({
+      document: [card("site", { title: "Site", subtext: "" })] as any[],
+      nestedContent: { site: [paragraph("Work in progress", { italic: true })] as any[] },
+    });
+
+    const [imported] = cards(result.document);
+    expect(imported.props.subtext).toBe("");
+    expect(result.nestedContent[imported.id]).toHaveLength(1);
+    expect(plainText(result.nestedContent[imported.id][0])).toBe("Work in progress");
+    expect((result.nestedContent[imported.id][0] as any).content[0].styles).toEqual({
+      italic: true,
+    });
+  });
+
+  it("keeps an empty subtext empty", async () => {
+    const { result } = await roundTrip({
+      document: [card("site", { title: "Site", subtext: "" })] as any[],
+      nestedContent: {},
+    });
+
+    const [imported] = cards(result.document);
+    expect(imported.props.subtext).toBe("");
+    expect(result.nestedContent).toEqual({});
+  });
+
+  it("keeps cards nested under list items, after the item", async () => {
+    const { markdown, result } = await roundTrip({
+      document: [
+        {
+          type: "bulletListItem",
+          content: [text("Projects")],
+          children: [
+            card("site", { title: "Site", subtext: "A website" }),
+            { type: "bulletListItem", content: [text("More to come")] },
+          ],
+        },
+      ] as any[],
+      nestedContent: { site: [paragraph("Inside the site")] as any[] },
+    });
+
+    expect(markdown).toContain("<!-- projectCard -->");
+    expect(result.document.map((block) => block.type)).toEqual([
+      "bulletListItem",
+      "projectCard",
+    ]);
+    expect(result.document[0].children.map(plainText)).toEqual(["More to come"]);
+    const [imported] = cards(result.document);
+    expect(imported.props).toMatchObject({ title: "Site", subtext: "A website" });
+    expect(result.nestedContent[imported.id].map(plainText)).toEqual(["Inside the site"]);
+  });
+
+  it("keeps cards inside other cards' nested documents", async () => {
+    const { result } = await roundTrip({
+      document: [card("outer", { title: "Outer", subtext: "" }), paragraph("After")] as any[],
+      nestedContent: {
+        outer: [paragraph("Before inner"), card("inner", { title: "Inner", subtext: "Deep" })] as any[],
+        inner: [paragraph("Innermost")] as any[],
+      },
+    });
+
+    expect(result.document.map((block) => block.type)).toEqual(["projectCard", "paragraph"]);
+    const [outer] = cards(result.document);
+    const outerNested = result.nestedContent[outer.id];
+    expect(outerNested.map((block) => block.type)).toEqual(["paragraph", "projectCard"]);
+
+    const [inner] = cards(outerNested);
+    expect(inner.props).toMatchObject({ title: "Inner", subtext: "Deep" });
+    expect(result.nestedContent[inner.id].map(plainText)).toEqual(["Innermost"]);
+  });
+
+  it("keeps cards in column layouts, one after another", async () => {
+    const { result } = await roundTrip({
+      document: [
+        {
+          type: "columnList",
+          children: [
+            { type: "column", children: [card("a", { title: "A", subtext: "" })] },
+            { type: "column", children: [card("b", { title: "B", subtext: "" })] },
+          ],
+        },
+      ] as any[],
+      nestedContent: {},
+    });
+
+    expect(cards(result.document).map((block) => block.props.title)).toEqual(["A", "B"]);
+  });
+});
+
+// ============================================================================
+// Import
+// ============================================================================
+
+describe("markdownToDocument", () => {
+  it("reads sections without a content marker", async () => {
+    const { document, nestedContent } = await markdownToDocument(
+      editor,
+      [
+        "<!-- projectCard -->",
+        "## Site",
+        "",
+        "_A website_",
+        "",
+        "**Status:** In progress",
+        "",
+        "Some details",
+        "",
+        "<!-- /projectCard -->",
+      ].join("\n")
+    );
+
+    const [imported] = cards(document);
+    expect(imported.props).toEqual({ title: "Site", subtext: "A website", status: "in-progress" });
+    expect(nestedContent[imported.id].map(plainText)).toEqual(["Some details"]);
+  });
+
+  it("leaves an unclosed section as text", async () => {
+    const { document } = await markdownToDocument(editor, "<!-- projectCard -->\n\n## Site\n");
+
+    expect(cards(document)).toEqual([]);
+    expect(document.some((block) => plainText(block) === "Site")).toBe(true);
+  });
+});
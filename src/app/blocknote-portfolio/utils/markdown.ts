@@ -0,0 +1,420 @@
+// ============================================================================
+// Markdown Import/Export
+// ============================================================================
+// Converts portfolio documents to and from Markdown for READMEs and static
+// site generators. Regular blocks go through BlockNote's own (lossy) Markdown
+// conversion; ProjectCard blocks, which BlockNote cannot serialize, become
+// sections delimited by HTML comments so they survive a round trip while
+// staying invisible when the Markdown is rendered:
+//
+//   <!-- projectCard -->
+//   ## Project title
+//
+//   _Project subtext_
+//
+//   **Status:** Completed
+//   **Role:** Lead developer
+//   **Dates:** 2023-01 – present
+//   **Tech:** React, TypeScript
+//   **Links:** [Live](https://example.com) · [Repo](https://github.com/...)
+//
+//   ![Project title](https://example.com/cover.png)
+//
+//   <!-- projectCard:content -->
+//
+//   ...nested document as Markdown...
+//
+//   <!-- /projectCard -->
+//
+// The content marker keeps the nested document apart from the card's own
+// lines, so a document starting with an italic paragraph isn't read back as
+// the subtext; it is left out when the card has no nested document. Cards
+// inside nested documents become sections inside the section. Markdown
+// sections can't sit inside list items, so cards nested under other blocks
+// are written right after the block instead.
+// ============================================================================
+
+import type {
+  BlockOfType,
+  PortfolioBlock,
+  PortfolioEditor,
+  ProjectCardProps,
+} from "../components/schema";
+import { getNestedDocument, type NestedContentTable } from "./nestedContent";
+import type { EditorContent } from "./schemaMigrations";
+import {
+  PROJECT_LINKS,
+  PROJECT_STATUSES,
+  STATUS_LABELS,
+  formatTags,
+  getProjectMetadata,
+} from "./projectMetadata";
+
+const CARD_START = "<!-- projectCard -->";
+const CARD_CONTENT = "<!-- projectCard:content -->";
+const CARD_END = "<!-- /projectCard -->";
+
+/**
+ * Matches the start, content and end markers of ProjectCard sections,
+ * capturing "/" for an end marker and "content" for a content marker
+ */
+const CARD_MARKER_PATTERN = /<!--\s*(\/?)projectCard(?::(content))?\s*-->/g;
+
+/**
+ * The portfolio editor, whose converters handle every block but ProjectCards
+ */
+type MarkdownEditor = PortfolioEditor;
+
+// ============================================================================
+// Export
+// ============================================================================
+
+/**
+ * Collapses a prop value onto a single line so it can't break the section
+ * structure.
+ */
+function singleLine(value: unknown): string {
+  return String(value ?? "").replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Serializes a card's metadata as "**Label:** value" lines (one paragraph,
+ * joined with hard line breaks), or "" if the card has none.
+ */
+function metadataToMarkdown(props: ProjectCardProps): string {
+  const metadata = getProjectMetadata(props);
+  const lines: string[] = [];
+
+  if (metadata.status) lines.push(`**Status:** ${STATUS_LABELS[metadata.status]}`);
+  if (metadata.role) lines.push(`**Role:** ${singleLine(metadata.role)}`);
+  if (metadata.startDate || metadata.endDate) {
+    lines.push(
+      `**Dates:** ${metadata.startDate || "?"} – ${metadata.endDate || "present"}`
+    );
+  }
+  if (metadata.tags.length > 0) {
+    lines.push(`**Tech:** ${singleLine(formatTags(metadata.tags))}`);
+  }
+  if (metadata.links.length > 0) {
+    const links = metadata.links.map((link) => `[${link.label}](${link.url})`);
+    lines.push(`**Links:** ${links.join(" · ")}`);
+  }
+
+  return lines.join("  \n");
+}
+
+/**
+ * Serializes one ProjectCard block, and the cards in its nested document,
+ * as a Markdown section.
+ */
+async function projectCardToMarkdown(
+  editor: MarkdownEditor,
+  block: BlockOfType<"projectCard">,
+  nestedContent: NestedContentTable
+): Promise<string> {
+  const title = singleLine(block.props.title) || "Untitled Project";
+  const subtext = singleLine(block.props.subtext);
+  const coverImage = singleLine(block.props.coverImage);
+  const nested = getNestedDocument(nestedContent, block.id);
+
+  const parts = [CARD_START, `## ${title}`];
+  if (subtext) parts.push(`_${subtext}_`);
+  const metadata = metadataToMarkdown(block.props);
+  if (metadata) parts.push(metadata);
+  if (coverImage) parts.push(`![${title}](${coverImage})`);
+  if (nested.length > 0) {
+    parts.push(CARD_CONTENT, await blocksToMarkdown(editor, nested, nestedContent));
+  }
+  parts.push(CARD_END);
+
+  return parts.filter(Boolean).join("\n\n");
+}
+
+/**
+ * Splits the ProjectCards out of a block's children, at any depth.
+ *
+ * @returns The block without them, and the cards in document order
+ */
+function liftProjectCards(block: PortfolioBlock): {
+  block: PortfolioBlock;
+  cards: BlockOfType<"projectCard">[];
+} {
+  if (!Array.isArray(block.children) || block.children.length === 0) {
+    return { block, cards: [] };
+  }
+
+  const children: PortfolioBlock[] = [];
+  const cards: BlockOfType<"projectCard">[] = [];
+  for (const child of block.children) {
+    if (child?.type === "projectCard") {
+      cards.push(child);
+      continue;
+    }
+    const lifted = liftProjectCards(child);
+    children.push(lifted.block);
+    cards.push(...lifted.cards);
+  }
+  return { block: { ...block, children } as PortfolioBlock, cards };
+}
+
+/**
+ * Converts a list of blocks into Markdown, writing ProjectCards as sections.
+ */
+async function blocksToMarkdown(
+  editor: MarkdownEditor,
+  blocks: PortfolioBlock[],
+  nestedContent: NestedContentTable
+): Promise<string> {
+  const sections: string[] = [];
+  let pending: PortfolioBlock[] = [];
+
+  // Convert runs of regular blocks in one go so lists stay contiguous
+  const flush = async () => {
+    if (pending.length === 0) return;
+    sections.push((await editor.blocksToMarkdownLossy(pending)).trim());
+    pending = [];
+  };
+
+  const writeCard = async (card: BlockOfType<"projectCard">) => {
+    await flush();
+    sections.push(await projectCardToMarkdown(editor, card, nestedContent));
+  };
+
+  const visit = async (blocks: PortfolioBlock[]) => {
+    for (const block of blocks) {
+      if (block?.type === "projectCard") {
+        await writeCard(block);
+      } else if (block?.type === "columnList" || block?.type === "column") {
+        // Markdown has no columns; their content is written one after another
+        await visit(Array.isArray(block.children) ? block.children : []);
+      } else if (block) {
+        const lifted = liftProjectCards(block);
+        pending.push(lifted.block);
+        for (const card of lifted.cards) await writeCard(card);
+      }
+    }
+  };
+  await visit(blocks);
+  await flush();
+
+  return sections.filter(Boolean).join("\n\n");
+}
+
+/**
+ * Converts a portfolio document, including ProjectCard nested documents,
+ * into Markdown.
+ *
+ * @param {MarkdownEditor} editor - Editor used for BlockNote's converters
+ * @param {EditorContent} content - The document and its nested documents
+ * @returns {Promise<string>} The Markdown text
+ *
+ * @example
+ * const markdown = await documentToMarkdown(editor, {
+ *   document: editor.document,
+ *   nestedContent: store.toTable(editor.document),
+ * });
+ */
+export async function documentToMarkdown(
+  editor: MarkdownEditor,
+  { document, nestedContent }: EditorContent
+): Promise<string> {
+  return (await blocksToMarkdown(editor, document, nestedContent)) + "\n";
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+
+/**
+ * Parses one "**Label:** value" metadata line back into card props.
+ */
+function parseMetadataField(label: string, value: string): Record<string, string> {
+  switch (label.toLowerCase()) {
+    case "status": {
+      const status = PROJECT_STATUSES.find(
+        (candidate) =>
+          candidate === value.toLowerCase() ||
+          STATUS_LABELS[candidate].toLowerCase() === value.toLowerCase()
+      );
+      return status ? { status } : {};
+    }
+    case "role":
+      return { role: value };
+    case "dates": {
+      const [start = "", end = ""] = value.split(/\s+[–-]\s+/);
+      return {
+        startDate: start === "?" ? "" : start,
+        endDate: end.toLowerCase() === "present" ? "" : end,
+      };
+    }
+    case "tech":
+      return { tags: value };
+    case "links": {
+      const props: Record<string, string> = {};
+      const pattern = /\[([^\]]*)\]\(([^)\s]+)\)/g;
+      let match: RegExpExecArray | null;
+      while ((match = pattern.exec(value)) !== null) {
+        const linkLabel = match[1].toLowerCase();
+        const link = PROJECT_LINKS.find((l) => l.label.toLowerCase() === linkLabel);
+        if (link) props[link.prop] = match[2];
+      }
+      return props;
+    }
+    default:
+      return {};
+  }
+}
+
+/**
+ * A top-level ProjectCard section found in Markdown
+ * - start/end: offsets of the section, markers included
+ * - header: the card's own lines (title, subtext, metadata, cover)
+ * - nested: its nested document, or null for sections without a content
+ *   marker, where it follows the card's lines
+ */
+interface CardSection {
+  start: number;
+  end: number;
+  header: string;
+  nested: string | null;
+}
+
+/**
+ * Finds the top-level ProjectCard sections in Markdown, skipping over the
+ * sections of cards nested inside them. An unclosed section is left as text.
+ */
+function findCardSections(markdown: string): CardSection[] {
+  const sections: CardSection[] = [];
+  const pattern = new RegExp(CARD_MARKER_PATTERN.source, "g");
+  let depth = 0;
+  let start = 0;
+  let headerStart = 0;
+  let content: { start: number; end: number } | null = null;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(markdown)) !== null) {
+    const [marker, slash, isContent] = match;
+    if (isContent) {
+      if (depth === 1) content = { start: match.index, end: match.index + marker.length };
+    } else if (!slash) {
+      if (depth === 0) {
+        start = match.index;
+        headerStart = match.index + marker.length;
+        content = null;
+      }
+      depth++;
+    } else if (depth > 0) {
+      depth--;
+      if (depth === 0) {
+        sections.push({
+          start,
+          end: match.index + marker.length,
+          header: markdown.slice(headerStart, content ? content.start : match.index),
+          nested: content ? markdown.slice(content.end, match.index) : null,
+        });
+      }
+    }
+  }
+  return sections;
+}
+
+/**
+ * Parses a ProjectCard section back into a card block, and its nested
+ * document into the table.
+ */
+async function markdownToProjectCard(
+  editor: MarkdownEditor,
+  section: CardSection,
+  nestedContent: NestedContentTable
+): Promise<BlockOfType<"projectCard">> {
+  const lines = section.header.split("\n");
+  // Cards without a subtext line have none, rather than the default one
+  const props: Record<string, string> = { subtext: "" };
+
+  // Consumes the next non-blank line if it matches the pattern
+  const take = (pattern: RegExp): RegExpMatchArray | null => {
+    const index = lines.findIndex((line) => line.trim() !== "");
+    if (index === -1) return null;
+    const match = lines[index].trim().match(pattern);
+    if (match) lines.splice(0, index + 1);
+    return match;
+  };
+
+  const title = take(/^#{1,6}\s+(.*)$/);
+  if (title) props.title = title[1].trim();
+
+  // Italic line, but not a bold "**Label:**" metadata line
+  const subtext = take(/^[_*](?![*])(.*)[_*]$/);
+  if (subtext) props.subtext = subtext[1].trim();
+
+  let field: RegExpMatchArray | null;
+  while ((field = take(/^\*\*(\w+):\*\*\s*(.*?)\s*$/)) !== null) {
+    Object.assign(props, parseMetadataField(field[1], field[2]));
+  }
+
+  const cover = take(/^!\[[^\]]*\]\(([^)\s]+)\)$/);
+  if (cover) props.coverImage = cover[1];
+
+  const block = {
+    id: `card-${Math.random().toString(36).slice(2, 10)}`,
+    type: "projectCard",
+    // Props missing from the section get their defaults when the editor
+    // loads the document
+    props,
+  } as unknown as BlockOfType<"projectCard">;
+
+  // Whatever else precedes the content marker belongs to the nested document
+  const nested = await markdownToBlocks(
+    editor,
+    [lines.join("\n"), section.nested ?? ""].join("\n\n"),
+    nestedContent
+  );
+  if (nested.length > 0) nestedContent[block.id] = nested;
+
+  return block;
+}
+
+/**
+ * Parses Markdown into blocks, reconstructing ProjectCards from their
+ * sections and adding their nested documents to the table.
+ */
+async function markdownToBlocks(
+  editor: MarkdownEditor,
+  markdown: string,
+  nestedContent: NestedContentTable
+): Promise<PortfolioBlock[]> {
+  const blocks: PortfolioBlock[] = [];
+
+  const parseText = async (text: string) => {
+    if (text.trim()) {
+      blocks.push(...(await editor.tryParseMarkdownToBlocks(text)));
+    }
+  };
+
+  let lastIndex = 0;
+  for (const section of findCardSections(markdown)) {
+    await parseText(markdown.slice(lastIndex, section.start));
+    blocks.push(await markdownToProjectCard(editor, section, nestedContent));
+    lastIndex = section.end;
+  }
+  await parseText(markdown.slice(lastIndex));
+
+  return blocks;
+}
+
+/**
+ * Parses Markdown into a portfolio document, reconstructing ProjectCard
+ * blocks (and their nested documents) from `<!-- projectCard -->` sections.
+ *
+ * @param {MarkdownEditor} editor - Editor used for BlockNote's converters
+ * @param {string} markdown - The Markdown text
+ * @returns {Promise<EditorContent>} The document and its nested documents
+ */
+export async function markdownToDocument(
+  editor: MarkdownEditor,
+  markdown: string
+): Promise<EditorContent> {
+  const nestedContent: NestedContentTable = {};
+  const document = await markdownToBlocks(editor, markdown, nestedContent);
+  return { document, nestedContent };
+}
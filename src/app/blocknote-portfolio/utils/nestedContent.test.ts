@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+
+import type { PortfolioBlock } from "../components/schema";
+import { collectProjectCardIds, createNestedContentStore } from "./nestedContent";
+
+const card = (id: string) =>
+  ({ id, type: "projectCard", props: {}, children: [] }) as unknown as PortfolioBlock;
+
+const paragraph = (id: string, text: string) =>
+  ({
+    id,
+    type: "paragraph",
+    props: {},
+    content: [{ type: "text", text, styles: {} }],
+    children: [],
+  }) as unknown as PortfolioBlock;
+
+describe("collectProjectCardIds", () => {
+  it("finds cards inside nested documents when given them", () => {
+    const table = { outer: [card("inner")], inner: [paragraph("p", "Inside")] };
+
+    expect(collectProjectCardIds([card("outer")])).toEqual(new Set(["outer"]));
+    expect(collectProjectCardIds([card("outer")], table)).toEqual(
+      new Set(["outer", "inner"])
+    );
+  });
+});
+
+describe("NestedContentStore.toTable", () => {
+  it("keeps the documents of cards inside other cards", () => {
+    const store = createNestedContentStore({
+      outer: [card("inner")],
+      inner: [paragraph("p", "Inside")],
+    });
+
+    expect(store.toTable([card("outer")])).toEqual({
+      outer: [card("inner")],
+      inner: [paragraph("p", "Inside")],
+    });
+  });
+
+  it("drops the documents of cards no longer in the document", () => {
+    const store = createNestedContentStore({
+      kept: [paragraph("p1", "Kept")],
+      removed: [card("inner")],
+      inner: [paragraph("p2", "Inside a removed card")],
+    });
+
+    expect(Object.keys(store.toTable([card("kept")]))).toEqual(["kept"]);
+  });
+});
@@ -0,0 +1,218 @@
+// ============================================================================
+// ProjectCard Nested Content
+// ============================================================================
+// Each ProjectCard owns a full BlockNote document that is edited in its modal.
+// Block props can only hold primitives, so rather than stringifying that
+// document into a prop, nested documents live in a side table keyed by the
+// card's block id:
+//
+// - At runtime, a NestedContentStore is attached to each main editor instance
+//   and shared by the card renderer and the editor's auto-save.
+// - When persisted, the store is flattened into a plain NestedContentTable
+//   stored next to the main document in the envelope (see schemaMigrations.ts)
+//   and read directly by the exporters.
+// - Each ProjectCard's `contentRevision` prop names the version of its nested
+//   document. The store remembers the document of every revision it has seen,
+//   so undo/redo in the main editor, which changes the prop, brings back the
+//   matching nested document (see cardEditSession.ts).
+// ============================================================================
+
+import type { BlockOfType, PortfolioBlock } from "../components/schema";
+import { findBlock, findBlocksOfType } from "./blockTraversal";
+
+/**
+ * Persisted form: nested BlockNote documents keyed by ProjectCard block id
+ */
+export type NestedContentTable = Record<string, PortfolioBlock[]>;
+
+/**
+ * Runtime accessor for the nested documents of one main editor
+ */
+export interface NestedContentStore {
+  /** Returns a card's nested document, if one has been written */
+  get(blockId: string): PortfolioBlock[] | undefined;
+  /** Replaces a card's nested document and notifies subscribers */
+  set(blockId: string, document: PortfolioBlock[]): void;
+  /** Returns a plain table of the nested documents of cards in `document` */
+  toTable(document: PortfolioBlock[]): NestedContentTable;
+  /** Remembers a card's nested document as of a content revision */
+  saveRevision(blockId: string, revision: string, document: PortfolioBlock[]): void;
+  /**
+   * Makes a remembered revision the card's nested document, notifying
+   * subscribers if that changes it; returns false for unknown revisions
+   */
+  restoreRevision(blockId: string, revision: string): boolean;
+  /**
+   * Registers a listener called with the card's block id after every change;
+   * returns an unsubscribe
+   */
+  subscribe(listener: (blockId: string) => void): () => void;
+}
+
+/**
+ * Creates a nested content store, optionally seeded from a persisted table.
+ *
+ * Entries and revisions are never removed at runtime, so undoing the deletion
+ * of a card in the main editor brings its nested content back too. Entries
+ * for cards no longer in the document are dropped when the store is
+ * flattened by toTable, and revisions aren't persisted at all.
+ *
+ * @param {NestedContentTable} initial - Persisted table to start from
+ * @returns {NestedContentStore} The store
+ */
+export function createNestedContentStore(
+  initial: NestedContentTable = {}
+): NestedContentStore {
+  const documents = new Map<string, PortfolioBlock[]>(Object.entries(initial));
+  const revisions = new Map<string, PortfolioBlock[]>();
+  const listeners = new Set<(blockId: string) => void>();
+  const revisionKey = (blockId: string, revision: string) => `${blockId}@${revision}`;
+
+  return {
+    get(blockId) {
+      return documents.get(blockId);
+    },
+    set(blockId, document) {
+      documents.set(blockId, document);
+      listeners.forEach((listener) => listener(blockId));
+    },
+    toTable(document) {
+      const table: NestedContentTable = {};
+      // Cards inside nested documents keep their documents too
+      collectProjectCardIds(document, Object.fromEntries(documents)).forEach((id) => {
+        const nested = documents.get(id);
+        if (nested) table[id] = nested;
+      });
+      return table;
+    },
+    saveRevision(blockId, revision, document) {
+      revisions.set(revisionKey(blockId, revision), document);
+    },
+    restoreRevision(blockId, revision) {
+      const document = revisions.get(revisionKey(blockId, revision));
+      if (!document) return false;
+      if (documents.get(blockId) !== document) {
+        documents.set(blockId, document);
+        listeners.forEach((listener) => listener(blockId));
+      }
+      return true;
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+// Stores are keyed by the main editor instance so the card renderer, which
+// only receives the editor, can find the store its editor was created with.
+const storesByEditor = new WeakMap<object, NestedContentStore>();
+
+/**
+ * Attaches a store seeded from a persisted table to an editor instance,
+ * replacing any store previously attached to it.
+ *
+ * @param {object} editor - The main BlockNote editor
+ * @param {NestedContentTable} table - Persisted nested documents
+ * @returns {NestedContentStore} The attached store
+ */
+export function attachNestedContentStore(
+  editor: object,
+  table: NestedContentTable
+): NestedContentStore {
+  const store = createNestedContentStore(table);
+  storesByEditor.set(editor, store);
+  return store;
+}
+
+/**
+ * Attaches an existing store to another editor instance, e.g. a card's
+ * nested editor, so cards inside the nested document find their documents
+ * in the main editor's store.
+ *
+ * @param {object} editor - The BlockNote editor
+ * @param {NestedContentStore} store - The store to share
+ */
+export function shareNestedContentStore(editor: object, store: NestedContentStore): void {
+  storesByEditor.set(editor, store);
+}
+
+/**
+ * Returns the store attached to an editor, attaching an empty one if the
+ * editor has none yet.
+ *
+ * @param {object} editor - The main BlockNote editor
+ * @returns {NestedContentStore} The editor's store
+ */
+export function getNestedContentStore(editor: object): NestedContentStore {
+  return storesByEditor.get(editor) ?? attachNestedContentStore(editor, {});
+}
+
+/**
+ * Returns a new, unique value for a card's `contentRevision` prop.
+ */
+export function createContentRevision(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Reads a card's nested document from a persisted table.
+ *
+ * @param {NestedContentTable} table - Persisted nested documents
+ * @param {string} blockId - The ProjectCard block id
+ * @returns {PortfolioBlock[]} The nested blocks, or an empty array if there
+ *   are none
+ */
+export function getNestedDocument(
+  table: NestedContentTable | undefined,
+  blockId: string | undefined
+): PortfolioBlock[] {
+  if (!table || !blockId) return [];
+  const nested = table[blockId];
+  return Array.isArray(nested) ? nested : [];
+}
+
+/**
+ * Collects the block ids of every ProjectCard in a document, including cards
+ * nested in other blocks' children and, when given the nested documents,
+ * cards inside them.
+ *
+ * @param {PortfolioBlock[]} document - BlockNote document array
+ * @param {NestedContentTable} table - Nested documents to search too
+ * @returns {Set<string>} ProjectCard block ids
+ */
+export function collectProjectCardIds(
+  document: PortfolioBlock[],
+  table?: NestedContentTable
+): Set<string> {
+  const ids = new Set<string>();
+  findBlocksOfType(document, "projectCard", table).forEach((card) => {
+    if (card.id) ids.add(card.id);
+  });
+  return ids;
+}
+
+/**
+ * Finds a ProjectCard block by id, searching the document's block tree and
+ * the nested documents of its cards (cards can contain cards).
+ *
+ * @param {PortfolioBlock[]} document - Top-level blocks
+ * @param {NestedContentTable} table - Nested documents keyed by card id
+ * @param {string} blockId - Id of the card to find
+ * @returns {BlockOfType<"projectCard"> | null} The card block, or null if
+ *   not found
+ */
+export function findProjectCard(
+  document: PortfolioBlock[],
+  table: NestedContentTable,
+  blockId: string
+): BlockOfType<"projectCard"> | null {
+  return findBlock(
+    document,
+    (block): block is BlockOfType<"projectCard"> =>
+      block.type === "projectCard" && block.id === blockId,
+    table
+  );
+}
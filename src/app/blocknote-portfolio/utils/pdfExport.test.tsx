@@ -0,0 +1,584 @@
+import React from "react";
+import { describe, expect, it, vi } from "vitest";
+
+import type { PortfolioBlock, PortfolioBlockType } from "../components/schema";
+import { BLOCK_COLORS } from "./blockColors";
+import type { ExportOptions } from "./exportOptions";
+import type { NestedContentTable } from "./nestedContent";
+import { PDFDocument } from "./pdfExport";
+
+// ============================================================================
+// Element Tree
+// ============================================================================
+
+/**
+ * A @react-pdf primitive ("VIEW", "TEXT", "LINK", "IMAGE", ...) of the tree
+ * PDFDocument builds, with its props, child primitives and text
+ */
+interface PdfNode {
+  type: string;
+  props: Record<string, any>;
+  style: Record<string, any>;
+  children: PdfNode[];
+  text: string;
+}
+
+/**
+ * Merges a style prop (an object or a list of them) into one object.
+ */
+function flattenStyle(style: unknown): Record<string, any> {
+  if (Array.isArray(style)) return Object.assign({}, ...style.map(flattenStyle));
+  return style && typeof style === "object" ? { ...style } : {};
+}
+
+/**
+ * Turns React children into primitives, unwrapping fragments.
+ */
+function toNodes(children: React.ReactNode): PdfNode[] {
+  const nodes: PdfNode[] = [];
+  React.Children.forEach(children, (child) => {
+    if (typeof child === "string" || typeof child === "number") {
+      nodes.push({ type: "#text", props: {}, style: {}, children: [], text: String(child) });
+      return;
+    }
+    if (!React.isValidElement(child)) return;
+
+    const props = child.props as Record<string, any>;
+    if (child.type === React.Fragment) {
+      nodes.push(...toNodes(props.children));
+      return;
+    }
+
+    const nested = toNodes(props.children);
+    nodes.push({
+      type: String(child.type),
+      props,
+      style: flattenStyle(props.style),
+      children: nested,
+      text: nested.map((node) => node.text).join(""),
+    });
+  });
+  return nodes;
+}
+
+/**
+ * Builds the element tree for a document.
+ */
+function render(
+  document: unknown[],
+  nestedContent: NestedContentTable = {},
+  options: Partial<ExportOptions> = {}
+): PdfNode {
+  const element = PDFDocument({
+    document: document as PortfolioBlock[],
+    nestedContent,
+    options,
+    baseUrl: "https://portfolio.example",
+  });
+  return toNodes(element)[0];
+}
+
+/**
+ * Every primitive of a tree, depth first.
+ */
+function allNodes(root: PdfNode): PdfNode[] {
+  return [root, ...root.children.flatMap(allNodes)];
+}
+
+/**
+ * The block-level text containing the given text (not one of its runs).
+ */
+function findText(root: PdfNode, text: string): PdfNode {
+  const visit = (node: PdfNode): PdfNode | undefined =>
+    node.type === "TEXT" && node.text.includes(text)
+      ? node
+      : node.children.map(visit).find(Boolean);
+  const found = visit(root);
+  if (!found) throw new Error(`No text containing "${text}"`);
+  return found;
+}
+
+/**
+ * The innermost view containing the given text.
+ */
+function findView(root: PdfNode, text: string): PdfNode {
+  const visit = (node: PdfNode): PdfNode | undefined => {
+    if (!node.text.includes(text)) return undefined;
+    const inner = node.children.map(visit).find(Boolean);
+    return inner ?? (node.type === "VIEW" ? node : undefined);
+  };
+  const found = visit(root);
+  if (!found) throw new Error(`No view containing "${text}"`);
+  return found;
+}
+
+/**
+ * The primitive a primitive sits in.
+ */
+function parentOf(root: PdfNode, child: PdfNode): PdfNode {
+  const parent = allNodes(root).find((node) => node.children.includes(child));
+  if (!parent) throw new Error(`No parent of ${child.type}`);
+  return parent;
+}
+
+/**
+ * Writes a tree out one primitive per line, indented by depth, with its
+ * props and style, for snapshots.
+ */
+function printTree(node: PdfNode, indent = ""): string {
+  if (node.type === "#text") return `${indent}${JSON.stringify(node.text)}`;
+
+  const attributes = Object.entries(node.props)
+    .filter(([name]) => name !== "children" && name !== "style")
+    .map(([name, value]) =>
+      typeof value === "function" ? `${name}=[Function]` : `${name}=${JSON.stringify(value)}`
+    );
+  if (Object.keys(node.style).length > 0) attributes.push(`style=${JSON.stringify(node.style)}`);
+
+  return [
+    [`${indent}${node.type}`, ...attributes].join(" "),
+    ...node.children.map((child) => printTree(child, `${indent}  `)),
+  ].join("\n");
+}
+
+// ============================================================================
+// Fixture
+// ============================================================================
+
+const text = (value: string, styles: Record<string, unknown> = {}) => ({
+  type: "text",
+  text: value,
+  styles,
+});
+
+const paragraph = (value: string, props: Record<string, unknown> = {}) => ({
+  type: "paragraph",
+  props,
+  content: [text(value)],
+  children: [],
+});
+
+const IMAGE_URL = `/api/assets/${"a".repeat(64)}.png`;
+
+const column = {
+  type: "column",
+  props: { width: 2 },
+  children: [paragraph("Left column")],
+};
+
+/**
+ * One block of every type of the schema; adding a block type fails to
+ * compile until it is covered here
+ */
+const BLOCKS: Record<PortfolioBlockType, object> = {
+  heading: {
+    id: "heading",
+    type: "heading",
+    props: { level: 2, textColor: "blue", textAlignment: "center" },
+    content: [text("Selected work")],
+  },
+  paragraph: {
+    type: "paragraph",
+    props: { textColor: "red", backgroundColor: "yellow", textAlignment: "right" },
+    content: [
+      text("Plain "),
+      text("bold", { bold: true, italic: true }),
+      text("struck", { underline: true, strike: true, textColor: "purple" }),
+      { type: "link", href: "https://example.com", content: [text("a link")] },
+    ],
+  },
+  quote: { type: "quote", props: { textAlignment: "left" }, content: [text("Quoted words")] },
+  codeBlock: {
+    type: "codeBlock",
+    props: { language: "typescript" },
+    content: [text("const answer = 42;")],
+  },
+  toggleListItem: {
+    type: "toggleListItem",
+    props: {},
+    content: [text("Toggle item")],
+    children: [paragraph("Hidden detail")],
+  },
+  bulletListItem: { type: "bulletListItem", props: {}, content: [text("Bullet item")] },
+  numberedListItem: {
+    type: "numberedListItem",
+    props: { start: 3 },
+    content: [text("Third item")],
+  },
+  checkListItem: {
+    type: "checkListItem",
+    props: { checked: true },
+    content: [text("Done item")],
+  },
+  table: {
+    type: "table",
+    props: {},
+    content: {
+      type: "tableContent",
+      columnWidths: [200, undefined, 100],
+      headerRows: 1,
+      rows: [
+        {
+          cells: [
+            [text("Name")],
+            {
+              type: "tableCell",
+              props: { colspan: 2, textColor: "green", textAlignment: "center" },
+              content: [text("Details")],
+            },
+          ],
+        },
+        { cells: [[text("Cell A")], [text("Cell B")], [text("Cell C")]] },
+      ],
+    },
+  },
+  file: {
+    type: "file",
+    props: { url: "https://example.com/cv.pdf", name: "CV", caption: "My CV" },
+  },
+  image: {
+    type: "image",
+    props: { url: IMAGE_URL, textAlignment: "center", previewWidth: 400, caption: "Screenshot" },
+  },
+  video: { type: "video", props: { url: "https://example.com/demo.mp4", name: "" } },
+  audio: { type: "audio", props: { url: "https://example.com/talk.mp3", name: "Talk" } },
+  columnList: {
+    type: "columnList",
+    props: {},
+    children: [
+      column,
+      { type: "column", props: { width: 1 }, children: [paragraph("Right column")] },
+    ],
+  },
+  column,
+  projectCard: {
+    id: "card",
+    type: "projectCard",
+    props: {
+      title: "Portfolio site",
+      subtext: "A personal website",
+      coverImage: "https://example.com/cover.jpg",
+      status: "completed",
+      role: "Lead developer",
+      startDate: "2023-01",
+      endDate: "",
+      tags: "React, TypeScript",
+      liveUrl: "https://example.com",
+      repoUrl: "https://github.com/example/site",
+    },
+  },
+};
+
+/**
+ * The blocks in a document (columns sit in their column list), with a
+ * second numbered item to continue the list
+ */
+const DOCUMENT = (Object.keys(BLOCKS) as PortfolioBlockType[])
+  .filter((type) => type !== "column")
+  .flatMap((type) =>
+    type === "numberedListItem"
+      ? [BLOCKS[type], { type, props: {}, content: [text("Fourth item")] }]
+      : [BLOCKS[type]]
+  );
+
+const NESTED_CONTENT = {
+  card: [paragraph("Inside the card")],
+} as unknown as NestedContentTable;
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe("PDFDocument", () => {
+  const root = render(DOCUMENT, NESTED_CONTENT);
+
+  it("renders a document page with the title and every block", () => {
+    expect(root.type).toBe("DOCUMENT");
+    expect(root.children.map((page) => page.type)).toEqual(["PAGE"]);
+    expect(root.children[0].children[0].text).toBe("My Portfolio");
+
+    for (const expected of [
+      "Selected work",
+      "Plain boldstruck",
+      "Quoted words",
+      "const answer = 42;",
+      "Toggle item",
+      "Hidden detail",
+      "Bullet item",
+      "Third item",
+      "Done item",
+      "Details",
+      "CV",
+      "Screenshot",
+      "https://example.com/demo.mp4",
+      "Talk",
+      "Left column",
+      "Right column",
+      "Portfolio site",
+      "Inside the card",
+    ]) {
+      expect(root.text).toContain(expected);
+    }
+  });
+
+  it("renders headings at their level, with an anchor", () => {
+    const heading = findText(root, "Selected work");
+    expect(heading.props.id).toBe("block-heading");
+    expect(heading.style).toMatchObject({ fontSize: 20, fontWeight: "bold" });
+  });
+
+  it("applies block colors and alignment", () => {
+    const heading = findText(root, "Selected work");
+    expect(heading.style).toMatchObject({
+      color: BLOCK_COLORS.blue.text,
+      textAlign: "center",
+    });
+
+    const paragraph = findText(root, "Plain boldstruck");
+    expect(paragraph.style).toMatchObject({
+      color: BLOCK_COLORS.red.text,
+      backgroundColor: BLOCK_COLORS.yellow.background,
+      textAlign: "right",
+    });
+
+    // Left is the default and needs no style
+    expect(findText(root, "Quoted words").style).toEqual({});
+  });
+
+  it("applies text styles and colors to runs of text", () => {
+    const paragraph = findText(root, "Plain boldstruck");
+    const [plain, bold, struck, link] = paragraph.children;
+
+    expect(plain.props.style).toBeUndefined();
+    expect(bold.style).toEqual({ fontWeight: "bold", fontStyle: "italic" });
+    expect(struck.style).toEqual({
+      textDecoration: "underline line-through",
+      color: BLOCK_COLORS.purple.text,
+    });
+    expect(link.type).toBe("LINK");
+    expect(link.props.src).toBe("https://example.com");
+  });
+
+  it("leaves out colors in the print theme", () => {
+    const print = render(DOCUMENT, NESTED_CONTENT, { theme: "print" });
+
+    expect(findText(print, "Selected work").style.color).toBe("#000000");
+    const paragraph = findText(print, "Plain boldstruck");
+    expect(paragraph.style.backgroundColor).toBeUndefined();
+    expect(paragraph.style.textAlign).toBe("right");
+    expect(paragraph.children[2].style.color).toBeUndefined();
+  });
+
+  it("renders list items with their markers", () => {
+    const marker = (text: string) => parentOf(root, findView(root, text)).children[0];
+    expect(marker("Bullet item").text).toBe("•");
+    expect(marker("Toggle item").text).toBe("›");
+
+    // Numbered lists count from their first item's start
+    expect(marker("Third item").text).toBe("3.");
+    expect(marker("Fourth item").text).toBe("4.");
+
+    const checkBox = marker("Done item").children[0];
+    expect(checkBox.style.backgroundColor).toBe("#3b82f6");
+  });
+
+  it("renders toggle list items expanded, with their children", () => {
+    const item = parentOf(root, findView(root, "Toggle item"));
+    expect(item.text).toContain("Hidden detail");
+  });
+
+  it("renders tables with header rows, spans and column widths", () => {
+    const table = parentOf(root, parentOf(root, findView(root, "Cell A")));
+    const [header, row] = table.children;
+
+    // The unset width is the average of the set ones; the span adds both up
+    expect(header.children.map((cell) => cell.style.flex)).toEqual([200, 250]);
+    expect(row.children.map((cell) => cell.style.flex)).toEqual([200, 150, 100]);
+
+    expect(header.children[0].children[0].style.fontWeight).toBe("bold");
+    expect(row.children[0].children[0].style.fontWeight).toBeUndefined();
+    expect(header.children[1].children[0].style).toMatchObject({
+      color: BLOCK_COLORS.green.text,
+      textAlign: "center",
+    });
+  });
+
+  it("embeds print variants of uploaded images, aligned and sized", () => {
+    const image = allNodes(root).find(
+      (node) => node.type === "IMAGE" && node.props.src.includes("/api/assets/")
+    )!;
+    expect(image.props.src).toMatch(
+      new RegExp(`^https://portfolio\\.example${IMAGE_URL}\\?w=\\d+&q=75&f=png$`)
+    );
+    expect(image.style.width).toBe(300);
+
+    const container = findView(root, "Screenshot");
+    expect(container.style.alignItems).toBe("center");
+  });
+
+  it("takes images from a given resolver, leaving out those without a source", () => {
+    const requests: unknown[][] = [];
+    const resolved = toNodes(
+      PDFDocument({
+        document: DOCUMENT as PortfolioBlock[],
+        nestedContent: NESTED_CONTENT,
+        resolveImage: (...request) => {
+          requests.push(request);
+          return request[0] === IMAGE_URL ? "data:image/png;base64,AAAA" : null;
+        },
+      })
+    )[0];
+
+    expect(requests).toContainEqual([IMAGE_URL, "standard", expect.any(Number)]);
+    expect(requests).toContainEqual(["https://example.com/cover.jpg", "standard", expect.any(Number)]);
+    const images = allNodes(resolved).filter((node) => node.type === "IMAGE");
+    expect(images.map((image) => image.props.src)).toEqual(["data:image/png;base64,AAAA"]);
+    const card = allNodes(resolved).find(
+      (node) => node.type === "VIEW" && node.props.id === "block-card"
+    )!;
+    expect(card.children.map((node) => node.type)).toEqual(["TEXT", "TEXT", "VIEW", "TEXT", "VIEW"]);
+  });
+
+  it("exports media and files as links", () => {
+    const file = findView(root, "My CV");
+    expect(file.text).toContain("File: ");
+    expect(allNodes(file).find((node) => node.type === "LINK")!.props.src).toBe(
+      "https://example.com/cv.pdf"
+    );
+
+    expect(findView(root, "demo.mp4").text).toBe("Video: https://example.com/demo.mp4");
+    expect(findView(root, "Talk").text).toBe("Audio: Talk");
+  });
+
+  it("renders code blocks with their language", () => {
+    const code = findView(root, "const answer");
+    expect(code.children.map((node) => node.text)).toEqual(["typescript", "const answer = 42;"]);
+  });
+
+  it("lays out columns side by side by their width", () => {
+    const list = parentOf(root, findView(root, "Right column"));
+    expect(list.children.map((node) => [node.text, node.style.flex])).toEqual([
+      ["Left column", 2],
+      ["Right column", 1],
+    ]);
+  });
+
+  it("renders ProjectCards with metadata, cover and nested document", () => {
+    const card = findView(root, "Inside the card");
+    const parent = allNodes(root).find(
+      (node) => node.type === "VIEW" && node.props.id === "block-card"
+    )!;
+    expect(allNodes(parent)).toContain(card);
+
+    expect(parent.children.map((node) => node.type)).toEqual([
+      "TEXT",
+      "TEXT",
+      "VIEW",
+      "TEXT",
+      "IMAGE",
+      "VIEW",
+    ]);
+    const [title, meta, tags, links, cover] = parent.children;
+    expect(title.text).toBe("Portfolio site");
+    expect(meta.text).toBe("Completed • Lead developer • Jan 2023 – Present");
+    expect(tags.children.map((tag) => tag.text)).toEqual(["React", "TypeScript"]);
+    const linkUrls = links.children
+      .filter((node) => node.type === "LINK")
+      .map((link) => link.props.src);
+    expect(linkUrls).toEqual(["https://example.com", "https://github.com/example/site"]);
+    expect(cover.props.src).toBe("https://example.com/cover.jpg");
+    expect(parent.props.break).toBe(false);
+  });
+
+  it("starts top-level cards after the first on a new page when asked", () => {
+    const cards = [BLOCKS.projectCard, { ...BLOCKS.projectCard, id: "second" }];
+    const tree = render(cards, {}, { cardPageBreaks: true });
+
+    const breaks = allNodes(tree)
+      .filter((node) => node.props.id === "block-card" || node.props.id === "block-second")
+      .map((node) => node.props.break);
+    expect(breaks).toEqual([false, true]);
+  });
+
+  it("adds a cover page and a table of contents when asked", () => {
+    const tree = render(DOCUMENT, NESTED_CONTENT, { coverPage: true, tableOfContents: true });
+
+    expect(tree.children.map((page) => page.type)).toEqual(["PAGE", "PAGE", "PAGE"]);
+    expect(tree.children[0].text).toContain("My Portfolio");
+    const links = tree.children[1].children.filter((node) => node.type === "LINK");
+    expect(links.map((link) => [link.props.src, link.text])).toEqual([
+      ["#block-heading", "Selected work"],
+      ["#block-card", "Portfolio site"],
+    ]);
+  });
+});
+
+describe("PDFDocument snapshots", () => {
+  /**
+   * A short portfolio: an intro, a screenshot beside its description, and
+   * a card with a nested document of its own
+   */
+  const PORTFOLIO = [
+    BLOCKS.heading,
+    paragraph("I build tools for teams that write together."),
+    {
+      type: "columnList",
+      props: {},
+      children: [
+        { type: "column", props: { width: 1 }, children: [BLOCKS.image] },
+        column,
+      ],
+    },
+    BLOCKS.projectCard,
+  ];
+  const PORTFOLIO_NESTED = {
+    card: [
+      paragraph("Inside the card"),
+      { type: "image", props: { url: "https://example.com/diagram.png", caption: "Architecture" } },
+    ],
+  } as unknown as NestedContentTable;
+
+  it("renders a portfolio with columns, images and a card", () => {
+    expect(printTree(render(PORTFOLIO, PORTFOLIO_NESTED))).toMatchSnapshot();
+  });
+
+  it("renders it in the print theme, with a cover page and a table of contents", () => {
+    // The cover page is dated with the day of the export
+    vi.useFakeTimers({ now: new Date(2024, 4, 1) });
+    try {
+      const tree = render(PORTFOLIO, PORTFOLIO_NESTED, {
+        theme: "print",
+        coverPage: true,
+        tableOfContents: true,
+      });
+      expect(printTree(tree)).toMatchSnapshot();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("renders a card's cover, metadata and links", () => {
+    const card = allNodes(render([BLOCKS.projectCard])).find(
+      (node) => node.type === "VIEW" && node.props.id === "block-card"
+    )!;
+    expect(printTree(card)).toMatchInlineSnapshot(`
+      "VIEW id="block-card" break=false style={"border":"1px solid #d1d5db","borderRadius":8,"padding":16,"marginVertical":12,"backgroundColor":"#f9fafb"}
+        TEXT style={"fontSize":18,"fontWeight":"bold","marginBottom":8,"color":"#1a1a1a"}
+          "Portfolio site"
+        TEXT style={"fontSize":10,"color":"#6b7280","marginBottom":6}
+          "Completed • Lead developer • Jan 2023 – Present"
+        VIEW style={"flexDirection":"row","flexWrap":"wrap","marginBottom":6}
+          TEXT style={"fontSize":9,"color":"#1d4ed8","backgroundColor":"#eff6ff","border":"1px solid #eff6ff","borderRadius":8,"paddingVertical":2,"paddingHorizontal":6,"marginRight":4,"marginBottom":4}
+            "React"
+          TEXT style={"fontSize":9,"color":"#1d4ed8","backgroundColor":"#eff6ff","border":"1px solid #eff6ff","borderRadius":8,"paddingVertical":2,"paddingHorizontal":6,"marginRight":4,"marginBottom":4}
+            "TypeScript"
+        TEXT style={"fontSize":10,"color":"#6b7280","marginBottom":6}
+          LINK src="https://example.com" style={"color":"#3b82f6","textDecoration":"underline"}
+            "Live"
+          " • "
+          LINK src="https://github.com/example/site" style={"color":"#3b82f6","textDecoration":"underline"}
+            "Repo"
+        IMAGE src="https://example.com/cover.jpg" style={"marginTop":8,"maxWidth":"100%","maxHeight":200,"objectFit":"cover","borderRadius":4}"
+    `);
+  });
+});
@@ -2,7 +2,9 @@
 // PDF Export Utility
 // ============================================================================
 // Converts BlockNote editor content to PDF format using @react-pdf/renderer
-// Handles different block types including custom ProjectCard blocks
+// Handles every block type of the editor schema (including tables, check and
+// toggle lists, media, columns and custom ProjectCard blocks), block and text
+// colors, and text alignment
 // ============================================================================
 
 import React from "react";
@@ -16,237 +18,482 @@ import {
   Link,
   Font,
 } from "@react-pdf/renderer";
+import type {
+  BlockOfType,
+  PortfolioBlock,
+  PortfolioBlockType,
+  PortfolioInlineContent,
+  PortfolioStyledText,
+} from "../components/schema";
+import {
+  getNestedDocument,
+  type NestedContentTable,
+} from "./nestedContent";
+import { inlineContentToText } from "./blockTraversal";
+import {
+  STATUS_LABELS,
+  formatDateRange,
+  getProjectMetadata,
+} from "./projectMetadata";
+import { printImageUrl, type PrintQuality } from "./imageUrls";
+import { backgroundColor, textColor } from "./blockColors";
+import {
+  PAGE_MARGINS,
+  contentWidth,
+  defaultExportOptions,
+  type ExportOptions,
+  type PdfTheme,
+} from "./exportOptions";
+
+/**
+ * Where the PDF renderer gets an image from: a URL it fetches, or a
+ * function that loads the image itself. Null leaves the image out.
+ */
+export type PdfImageSource =
+  | string
+  | (() => Promise<{ data: Buffer; format: "png" | "jpg" }>)
+  | null;
+
+/**
+ * Maps an image URL to its source in the PDF, given the export's image
+ * quality and the width the image takes on the page, in points
+ */
+export type PdfImageResolver = (
+  url: string,
+  quality: PrintQuality,
+  widthInPoints: number
+) => PdfImageSource;
+
+/**
+ * State shared by all block renderers of one export
+ * - nestedContent: ProjectCard nested documents
+ * - resolveImage: maps an image URL to its source in the PDF
+ * - styles: stylesheet for the chosen theme and margins
+ * - cardPageBreaks: start ProjectCards on a new page (top level only)
+ * - colors: apply text/background colors (off for the print theme)
+ */
+interface RenderContext {
+  nestedContent: NestedContentTable;
+  resolveImage: (url: string) => PdfImageSource;
+  styles: PdfStyles;
+  cardPageBreaks: boolean;
+  colors: boolean;
+}
+
+/**
+ * Color and alignment props of blocks and table cells
+ */
+type StyleProps = Partial<Record<"textColor" | "backgroundColor" | "textAlignment", string>>;
+
+/**
+ * Blocks rendered as list items
+ */
+type ListItemBlock = BlockOfType<
+  "bulletListItem" | "numberedListItem" | "checkListItem" | "toggleListItem"
+>;
 
 // ============================================================================
 // PDF Styles
 // ============================================================================
 
 /**
- * Stylesheet for PDF document
- * Defines consistent styling for all block types
+ * Colors used by a theme. "print" is black and white with no background
+ * fills, so documents print cleanly and save ink.
  */
-const styles = StyleSheet.create({
-  page: {
-    padding: 40,
-    fontSize: 12,
-    fontFamily: "Helvetica",
-    backgroundColor: "#ffffff",
-  },
-  heading1: {
-    fontSize: 24,
-    fontWeight: "bold",
-    marginBottom: 12,
-    marginTop: 16,
-    color: "#1a1a1a",
-  },
-  heading2: {
-    fontSize: 20,
-    fontWeight: "bold",
-    marginBottom: 10,
-    marginTop: 14,
-    color: "#2a2a2a",
-  },
-  heading3: {
-    fontSize: 16,
-    fontWeight: "bold",
-    marginBottom: 8,
-    marginTop: 12,
-    color: "#3a3a3a",
-  },
-  paragraph: {
-    fontSize: 12,
-    lineHeight: 1.6,
-    marginBottom: 8,
-    color: "#4a4a4a",
-    textAlign: "justify",
-  },
-  bulletList: {
-    marginLeft: 20,
-    marginBottom: 8,
-  },
-  numberedList: {
-    marginLeft: 20,
-    marginBottom: 8,
-  },
-  listItem: {
-    fontSize: 12,
-    lineHeight: 1.6,
-    marginBottom: 4,
-    flexDirection: "row",
-  },
-  listItemBullet: {
-    width: 15,
-    fontSize: 12,
-  },
-  listItemText: {
-    flex: 1,
-  },
-  image: {
-    marginVertical: 12,
-    maxWidth: "100%",
-    maxHeight: 300,
-    objectFit: "contain",
-  },
-  codeBlock: {
-    backgroundColor: "#f5f5f5",
-    padding: 12,
-    marginVertical: 8,
-    fontFamily: "Courier",
-    fontSize: 10,
-    borderRadius: 4,
-    border: "1px solid #e0e0e0",
-  },
-  quote: {
-    borderLeftWidth: 4,
-    borderLeftColor: "#3b82f6",
-    paddingLeft: 16,
-    marginVertical: 12,
-    fontStyle: "italic",
-    color: "#6b7280",
-  },
-  divider: {
-    borderBottomWidth: 1,
-    borderBottomColor: "#e5e7eb",
-    marginVertical: 16,
-  },
-  projectCard: {
-    border: "1px solid #d1d5db",
-    borderRadius: 8,
-    padding: 16,
-    marginVertical: 12,
-    backgroundColor: "#f9fafb",
-  },
-  projectCardTitle: {
-    fontSize: 18,
-    fontWeight: "bold",
-    marginBottom: 8,
-    color: "#1f2937",
-  },
-  projectCardImage: {
-    marginTop: 8,
-    maxWidth: "100%",
-    maxHeight: 200,
-    objectFit: "cover",
-    borderRadius: 4,
-  },
-  projectCardContent: {
-    marginTop: 12,
-    fontSize: 11,
-    lineHeight: 1.5,
-    color: "#4b5563",
-  },
-  link: {
-    color: "#3b82f6",
-    textDecoration: "underline",
-  },
-  bold: {
-    fontWeight: "bold",
-  },
-  italic: {
-    fontStyle: "italic",
-  },
-  underline: {
-    textDecoration: "underline",
-  },
-  strikethrough: {
-    textDecoration: "line-through",
-  },
-  code: {
-    fontFamily: "Courier",
-    backgroundColor: "#f5f5f5",
-    padding: 2,
-    fontSize: 10,
+interface ThemePalette {
+  heading: [string, string, string];
+  text: string;
+  muted: string;
+  subtle: string;
+  border: string;
+  cardBorder: string;
+  cardBackground: string;
+  codeBackground: string;
+  accent: string;
+  tagText: string;
+  tagBackground: string;
+}
+
+const THEME_PALETTES: Record<PdfTheme, ThemePalette> = {
+  light: {
+    heading: ["#1a1a1a", "#2a2a2a", "#3a3a3a"],
+    text: "#4a4a4a",
+    muted: "#6b7280",
+    subtle: "#9ca3af",
+    border: "#e5e7eb",
+    cardBorder: "#d1d5db",
+    cardBackground: "#f9fafb",
+    codeBackground: "#f5f5f5",
+    accent: "#3b82f6",
+    tagText: "#1d4ed8",
+    tagBackground: "#eff6ff",
   },
-  footer: {
-    position: "absolute",
-    bottom: 30,
-    left: 40,
-    right: 40,
-    fontSize: 10,
-    color: "#9ca3af",
-    textAlign: "center",
-    borderTopWidth: 1,
-    borderTopColor: "#e5e7eb",
-    paddingTop: 10,
+  print: {
+    heading: ["#000000", "#000000", "#000000"],
+    text: "#000000",
+    muted: "#333333",
+    subtle: "#555555",
+    border: "#999999",
+    cardBorder: "#666666",
+    cardBackground: "#ffffff",
+    codeBackground: "#ffffff",
+    accent: "#000000",
+    tagText: "#000000",
+    tagBackground: "#ffffff",
   },
-});
+};
+
+/**
+ * Creates the stylesheet for a PDF document
+ * Defines consistent styling for all block types
+ *
+ * @param {PdfTheme} theme - Color theme
+ * @param {number} margin - Page margin in points
+ * @returns The stylesheet
+ */
+function createStyles(theme: PdfTheme, margin: number) {
+  const palette = THEME_PALETTES[theme];
+
+  return StyleSheet.create({
+    page: {
+      paddingTop: margin,
+      paddingHorizontal: margin,
+      // Leave room for the footer below the content
+      paddingBottom: margin + 24,
+      fontSize: 12,
+      fontFamily: "Helvetica",
+      backgroundColor: "#ffffff",
+    },
+    coverPage: {
+      padding: margin,
+      fontFamily: "Helvetica",
+      backgroundColor: "#ffffff",
+      justifyContent: "center",
+      alignItems: "center",
+    },
+    coverTitle: {
+      fontSize: 32,
+      fontWeight: "bold",
+      color: palette.heading[0],
+      textAlign: "center",
+      marginBottom: 16,
+    },
+    coverSubtitle: {
+      fontSize: 12,
+      color: palette.muted,
+    },
+    tocEntry: {
+      fontSize: 12,
+      color: palette.text,
+      marginBottom: 6,
+      textDecoration: "none",
+    },
+    tocCardEntry: {
+      fontSize: 11,
+      color: palette.muted,
+      marginBottom: 6,
+      textDecoration: "none",
+    },
+    heading1: {
+      fontSize: 24,
+      fontWeight: "bold",
+      marginBottom: 12,
+      marginTop: 16,
+      color: palette.heading[0],
+    },
+    heading2: {
+      fontSize: 20,
+      fontWeight: "bold",
+      marginBottom: 10,
+      marginTop: 14,
+      color: palette.heading[1],
+    },
+    heading3: {
+      fontSize: 16,
+      fontWeight: "bold",
+      marginBottom: 8,
+      marginTop: 12,
+      color: palette.heading[2],
+    },
+    heading4: {
+      fontSize: 14,
+      fontWeight: "bold",
+      marginBottom: 6,
+      marginTop: 10,
+      color: palette.heading[2],
+    },
+    heading5: {
+      fontSize: 13,
+      fontWeight: "bold",
+      marginBottom: 6,
+      marginTop: 8,
+      color: palette.heading[2],
+    },
+    heading6: {
+      fontSize: 12,
+      fontWeight: "bold",
+      marginBottom: 6,
+      marginTop: 8,
+      color: palette.muted,
+    },
+    paragraph: {
+      fontSize: 12,
+      lineHeight: 1.6,
+      marginBottom: 8,
+      color: palette.text,
+      textAlign: "justify",
+    },
+    bulletList: {
+      marginLeft: 20,
+      marginBottom: 8,
+    },
+    numberedList: {
+      marginLeft: 20,
+      marginBottom: 8,
+    },
+    listItem: {
+      fontSize: 12,
+      lineHeight: 1.6,
+      marginBottom: 4,
+      flexDirection: "row",
+    },
+    listItemBullet: {
+      width: 18,
+      fontSize: 12,
+    },
+    listItemText: {
+      flex: 1,
+    },
+    checkBox: {
+      width: 9,
+      height: 9,
+      marginTop: 4,
+      border: `1px solid ${palette.muted}`,
+      borderRadius: 2,
+    },
+    checkBoxChecked: {
+      backgroundColor: palette.accent,
+      borderColor: palette.accent,
+    },
+    children: {
+      marginLeft: 20,
+    },
+    table: {
+      marginVertical: 8,
+      borderTopWidth: 1,
+      borderLeftWidth: 1,
+      borderColor: palette.border,
+    },
+    tableRow: {
+      flexDirection: "row",
+    },
+    tableCell: {
+      borderRightWidth: 1,
+      borderBottomWidth: 1,
+      borderColor: palette.border,
+    },
+    tableCellText: {
+      fontSize: 10,
+      padding: 4,
+      color: palette.text,
+    },
+    tableHeaderCell: {
+      backgroundColor: palette.codeBackground,
+    },
+    media: {
+      marginVertical: 8,
+      padding: 8,
+      border: `1px solid ${palette.border}`,
+      borderRadius: 4,
+      fontSize: 11,
+      color: palette.text,
+    },
+    image: {
+      marginVertical: 12,
+      maxWidth: "100%",
+      maxHeight: 300,
+      objectFit: "contain",
+    },
+    caption: {
+      fontSize: 10,
+      color: palette.muted,
+      marginTop: 4,
+    },
+    codeBlock: {
+      backgroundColor: palette.codeBackground,
+      padding: 12,
+      marginVertical: 8,
+      fontFamily: "Courier",
+      fontSize: 10,
+      borderRadius: 4,
+      border: `1px solid ${palette.border}`,
+    },
+    codeLanguage: {
+      fontSize: 8,
+      color: palette.subtle,
+      marginBottom: 4,
+    },
+    quote: {
+      borderLeftWidth: 4,
+      borderLeftColor: palette.accent,
+      paddingLeft: 16,
+      marginVertical: 12,
+      fontStyle: "italic",
+      color: palette.muted,
+    },
+    columnList: {
+      flexDirection: "row",
+      marginVertical: 8,
+    },
+    column: {
+      paddingHorizontal: 6,
+    },
+    projectCard: {
+      border: `1px solid ${palette.cardBorder}`,
+      borderRadius: 8,
+      padding: 16,
+      marginVertical: 12,
+      backgroundColor: palette.cardBackground,
+    },
+    projectCardTitle: {
+      fontSize: 18,
+      fontWeight: "bold",
+      marginBottom: 8,
+      color: palette.heading[0],
+    },
+    projectCardMeta: {
+      fontSize: 10,
+      color: palette.muted,
+      marginBottom: 6,
+    },
+    projectCardTags: {
+      flexDirection: "row",
+      flexWrap: "wrap",
+      marginBottom: 6,
+    },
+    projectCardTag: {
+      fontSize: 9,
+      color: palette.tagText,
+      backgroundColor: palette.tagBackground,
+      border: `1px solid ${theme === "print" ? palette.border : palette.tagBackground}`,
+      borderRadius: 8,
+      paddingVertical: 2,
+      paddingHorizontal: 6,
+      marginRight: 4,
+      marginBottom: 4,
+    },
+    projectCardImage: {
+      marginTop: 8,
+      maxWidth: "100%",
+      maxHeight: 200,
+      objectFit: "cover",
+      borderRadius: 4,
+    },
+    projectCardContent: {
+      marginTop: 12,
+      fontSize: 11,
+      lineHeight: 1.5,
+      color: palette.text,
+    },
+    link: {
+      color: palette.accent,
+      textDecoration: "underline",
+    },
+    bold: {
+      fontWeight: "bold",
+    },
+    italic: {
+      fontStyle: "italic",
+    },
+    underline: {
+      textDecoration: "underline",
+    },
+    strikethrough: {
+      textDecoration: "line-through",
+    },
+    code: {
+      fontFamily: "Courier",
+      backgroundColor: palette.codeBackground,
+      padding: 2,
+      fontSize: 10,
+    },
+    footer: {
+      position: "absolute",
+      bottom: margin / 2,
+      left: margin,
+      right: margin,
+      fontSize: 10,
+      color: palette.subtle,
+      textAlign: "center",
+      borderTopWidth: 1,
+      borderTopColor: palette.border,
+      paddingTop: 10,
+    },
+  });
+}
+
+type PdfStyles = ReturnType<typeof createStyles>;
 
 // ============================================================================
 // Helper Functions
 // ============================================================================
 
 /**
- * Extracts plain text from BlockNote inline content
- * Handles both string content and structured inline content arrays
+ * Converts BlockNote text styles (bold, italic, colors, ...) to a PDF style
  *
- * @param {any} content - BlockNote inline content
- * @returns {string} Extracted plain text
+ * @param {PortfolioStyledText["styles"]} textStyles - The `styles` of a text run
+ * @param {RenderContext} context - Stylesheet and color handling of the export
+ * @returns {Record<string, any>} Style for the text run (empty for plain text)
  */
-function extractTextContent(content: any): string {
-  if (!content) return "";
-  if (typeof content === "string") return content;
-  if (Array.isArray(content)) {
-    return content
-      .map((item) => {
-        if (typeof item === "string") return item;
-        if (item.type === "text" && item.text) return item.text;
-        if (item.type === "link" && item.content) {
-          return extractTextContent(item.content);
-        }
-        if (item.content) return extractTextContent(item.content);
-        return "";
-      })
-      .join("");
+function inlineTextStyle(
+  textStyles: PortfolioStyledText["styles"] | undefined,
+  context: RenderContext
+): Record<string, any> {
+  const style: Record<string, any> = {};
+  if (!textStyles || typeof textStyles !== "object") return style;
+
+  if (textStyles.bold === true) style.fontWeight = "bold";
+  if (textStyles.italic === true) style.fontStyle = "italic";
+
+  const decorations = [
+    textStyles.underline === true && "underline",
+    textStyles.strike === true && "line-through",
+  ].filter(Boolean);
+  if (decorations.length > 0) style.textDecoration = decorations.join(" ");
+
+  if (textStyles.code === true) Object.assign(style, context.styles.code);
+
+  if (context.colors) {
+    const color = textColor(textStyles.textColor);
+    const background = backgroundColor(textStyles.backgroundColor);
+    if (color) style.color = color;
+    if (background) style.backgroundColor = background;
   }
-  return "";
+
+  return style;
 }
 
 /**
- * Renders inline content with styling (bold, italic, etc.)
+ * Renders inline content with styling (bold, italic, colors, etc.)
  * Converts BlockNote inline content to PDF Text components
  *
- * @param {any} content - BlockNote inline content
+ * @param {string | PortfolioInlineContent[]} content - BlockNote inline content
+ * @param {RenderContext} context - Stylesheet and color handling of the export
  * @returns {React.ReactNode} PDF Text components with styles
  */
-function renderInlineContent(content: any): React.ReactNode {
+function renderInlineContent(
+  content: string | PortfolioInlineContent[] | undefined,
+  context: RenderContext
+): React.ReactNode {
   if (!content) return null;
   if (typeof content === "string") return content;
   if (Array.isArray(content)) {
     return content.map((item, index) => {
       if (!item) return null;
-      if (typeof item === "string") return <Text key={index}>{item}</Text>;
 
       // Handle text with styles
       if (item.type === "text") {
-        const textStyle: Record<string, any> = {};
-        
-        // Check if styles object exists and has actual properties
-        const hasStyles = item.styles && typeof item.styles === 'object' && Object.keys(item.styles).length > 0;
-        
-        if (hasStyles) {
-          try {
-            if (item.styles.bold === true) {
-              textStyle.fontWeight = "bold";
-            }
-            if (item.styles.italic === true) {
-              textStyle.fontStyle = "italic";
-            }
-            if (item.styles.underline === true) {
-              textStyle.textDecoration = "underline";
-            }
-            if (item.styles.strikethrough === true) {
-              textStyle.textDecoration = "line-through";
-            }
-            if (item.styles.code === true) {
-              textStyle.fontFamily = "Courier";
-              textStyle.backgroundColor = "#f5f5f5";
-              textStyle.padding = 2;
-              textStyle.fontSize = 10;
-            }
-          } catch (e) {
-            console.warn("Error applying text styles:", e);
-          }
-        }
+        const textStyle = inlineTextStyle(item.styles, context);
 
         // Only pass style prop if we have styles to apply
         const styleProps = Object.keys(textStyle).length > 0 ? { style: textStyle } : {};
@@ -262,8 +509,8 @@ function renderInlineContent(content: any): React.ReactNode {
       if (item.type === "link") {
         const href = item.href && typeof item.href === 'string' ? item.href : "#";
         return (
-          <Link key={index} src={href} style={styles.link}>
-            {renderInlineContent(item.content)}
+          <Link key={index} src={href} style={context.styles.link}>
+            {renderInlineContent(item.content, context)}
           </Link>
         );
       }
@@ -275,24 +522,88 @@ function renderInlineContent(content: any): React.ReactNode {
 }
 
 /**
- * Finds the first image URL in a document tree
- * Used for ProjectCard cover images
+ * Converts a block's color and alignment props to a PDF style
  *
- * @param {any[]} doc - BlockNote document array
- * @returns {string} First image URL found, or empty string
+ * @param {StyleProps} props - Block (or table cell) props
+ * @param {RenderContext} context - Color handling of the export
+ * @returns {Record<string, any>} Style for the block's text
  */
-function findFirstImage(doc: any[]): string {
-  if (!Array.isArray(doc)) return "";
-  for (const node of doc) {
-    if (node.type === "image" && node.props?.url) {
-      return node.props.url;
-    }
-    if (node.content && Array.isArray(node.content)) {
-      const nested = findFirstImage(node.content);
-      if (nested) return nested;
+function blockStyle(props: StyleProps | undefined, context: RenderContext): Record<string, any> {
+  const style: Record<string, any> = {};
+  if (!props) return style;
+
+  if (context.colors) {
+    const color = textColor(props.textColor);
+    const background = backgroundColor(props.backgroundColor);
+    if (color) style.color = color;
+    if (background) {
+      style.backgroundColor = background;
+      style.padding = 2;
     }
   }
-  return "";
+  if (props.textAlignment && props.textAlignment !== "left") {
+    style.textAlign = props.textAlignment;
+  }
+
+  return style;
+}
+
+/**
+ * Returns the destination id of a block, used by table of contents links
+ *
+ * @param {PortfolioBlock} block - BlockNote block object
+ * @returns {string | undefined} The id, or undefined for blocks without one
+ */
+function blockAnchor(block: PortfolioBlock): string | undefined {
+  return block?.id ? `block-${block.id}` : undefined;
+}
+
+/**
+ * A table of contents entry
+ * - anchor: destination id of the block
+ * - depth: indentation level (cards sit below the heading before them)
+ */
+interface TocEntry {
+  anchor: string;
+  label: string;
+  depth: number;
+  isCard: boolean;
+}
+
+/**
+ * Collects level 1-2 headings and ProjectCards of the main document,
+ * including those inside columns, in document order.
+ *
+ * @param {PortfolioBlock[]} document - BlockNote document array
+ * @returns {TocEntry[]} Table of contents entries
+ */
+function collectTocEntries(document: PortfolioBlock[]): TocEntry[] {
+  const entries: TocEntry[] = [];
+  let headingDepth = -1;
+
+  const visit = (blocks: PortfolioBlock[]) => {
+    for (const block of blocks) {
+      const anchor = blockAnchor(block);
+      if (block?.type === "heading" && anchor && (block.props?.level || 1) <= 2) {
+        const label = inlineContentToText(block.content).trim();
+        if (!label) continue;
+        headingDepth = (block.props?.level || 1) - 1;
+        entries.push({ anchor, label, depth: headingDepth, isCard: false });
+      } else if (block?.type === "projectCard" && anchor) {
+        entries.push({
+          anchor,
+          label: block.props?.title || "Untitled Project",
+          depth: headingDepth + 1,
+          isCard: true,
+        });
+      } else if (block?.type === "columnList" || block?.type === "column") {
+        visit(block.children || []);
+      }
+    }
+  };
+  visit(document);
+
+  return entries;
 }
 
 // ============================================================================
@@ -300,96 +611,329 @@ function findFirstImage(doc: any[]): string {
 // ============================================================================
 
 /**
- * Renders a single BlockNote block as PDF component
+ * Heading styles by level (BlockNote supports levels 1-6)
+ */
+const HEADING_STYLES = [
+  "heading1",
+  "heading2",
+  "heading3",
+  "heading4",
+  "heading5",
+  "heading6",
+] as const;
+
+/**
+ * Block types that render their own children; all other blocks get their
+ * children indented below them
+ */
+const OWN_CHILDREN_TYPES: PortfolioBlockType[] = [
+  "bulletListItem",
+  "numberedListItem",
+  "checkListItem",
+  "toggleListItem",
+  "columnList",
+  "projectCard",
+];
+
+/**
+ * Labels of media blocks, which can't play in a PDF and are exported as links
+ */
+const MEDIA_LABELS: Record<"video" | "audio" | "file", string> = {
+  video: "Video",
+  audio: "Audio",
+  file: "File",
+};
+
+/**
+ * CSS pixels (used by image preview widths) to PDF points
+ */
+const PX_TO_PT = 0.75;
+
+/**
+ * Flexbox alignment for a text alignment, used to align images
+ */
+const FLEX_ALIGNMENT: Record<string, "flex-start" | "center" | "flex-end"> = {
+  left: "flex-start",
+  center: "center",
+  right: "flex-end",
+};
+
+/**
+ * Returns the context for a block's descendants. Only top-level cards start
+ * a new page; nothing nested can break.
+ *
+ * @param {RenderContext} context - The block's context
+ * @returns {RenderContext} The context for its children
+ */
+function nestedContext(context: RenderContext): RenderContext {
+  return context.cardPageBreaks ? { ...context, cardPageBreaks: false } : context;
+}
+
+/**
+ * Renders a list item (bullet, numbered, check or toggle) with its marker,
+ * followed by its children. Toggle items are always shown expanded.
+ *
+ * @param {ListItemBlock} block - BlockNote list item block
+ * @param {number} index - Block index for React key
+ * @param {RenderContext} context - Nested documents, images and styles
+ * @param {number} listNumber - Number of a numbered list item
+ * @returns {React.ReactNode} PDF components for the item
+ */
+function renderListItem(
+  block: ListItemBlock,
+  index: number,
+  context: RenderContext,
+  listNumber?: number
+): React.ReactNode {
+  const { styles } = context;
+  const children: PortfolioBlock[] = Array.isArray(block.children) ? block.children : [];
+
+  let marker: React.ReactNode;
+  switch (block.type) {
+    case "numberedListItem":
+      marker = <Text style={styles.listItemBullet}>{listNumber ?? 1}.</Text>;
+      break;
+    case "checkListItem":
+      marker = (
+        <View style={styles.listItemBullet}>
+          <View
+            style={[styles.checkBox, block.props?.checked ? styles.checkBoxChecked : {}]}
+          />
+        </View>
+      );
+      break;
+    case "toggleListItem":
+      marker = <Text style={styles.listItemBullet}>›</Text>;
+      break;
+    default:
+      marker = <Text style={styles.listItemBullet}>•</Text>;
+  }
+
+  return (
+    <View key={index} style={styles.listItem}>
+      {marker}
+      <View style={styles.listItemText}>
+        <Text style={blockStyle(block.props, context)}>
+          {renderInlineContent(block.content, context)}
+        </Text>
+        {children.length > 0 && renderBlockList(children, nestedContext(context))}
+      </View>
+    </View>
+  );
+}
+
+/**
+ * Renders a table block as rows of bordered cells. Cells may be inline
+ * content or tableCell objects (with colspan, colors and alignment); column
+ * widths set in the editor are kept as proportions. Row spans can't be
+ * expressed in the PDF layout and are rendered as single cells.
  *
- * @param {any} block - BlockNote block object
+ * @param {BlockOfType<"table">} block - BlockNote table block
  * @param {number} index - Block index for React key
- * @param {number} listIndex - Current index in numbered list (optional)
+ * @param {RenderContext} context - Stylesheet and color handling
+ * @returns {React.ReactNode} PDF components for the table
+ */
+function renderTable(
+  block: BlockOfType<"table">,
+  index: number,
+  context: RenderContext
+): React.ReactNode {
+  const { styles } = context;
+  const rows = block.content?.rows ?? [];
+  const headerRows = block.content?.headerRows ?? 0;
+  const headerCols = block.content?.headerCols ?? 0;
+  const widths: unknown[] = block.content?.columnWidths ?? [];
+
+  // Columns without a set width get the average of those that have one
+  const knownWidths = widths.filter(
+    (width): width is number => typeof width === "number" && width > 0
+  );
+  const defaultWidth = knownWidths.length > 0
+    ? knownWidths.reduce((sum, width) => sum + width, 0) / knownWidths.length
+    : 1;
+  const columnFlex = (column: number) => {
+    const width = widths[column];
+    return typeof width === "number" && width > 0 ? width : defaultWidth;
+  };
+
+  return (
+    <View key={index} style={styles.table}>
+      {rows.map((row, rowIndex) => {
+        let column = 0;
+        return (
+          <View key={rowIndex} style={styles.tableRow} wrap={false}>
+            {(row.cells ?? []).map((cell, cellIndex) => {
+              const cellObject = "type" in cell && cell.type === "tableCell" ? cell : null;
+              const content = cellObject ? cellObject.content : (cell as PortfolioInlineContent[]);
+              const span = Number(cellObject?.props.colspan) || 1;
+              const isHeader = rowIndex < headerRows || column < headerCols;
+
+              let flex = 0;
+              for (let offset = 0; offset < span; offset++) {
+                flex += columnFlex(column + offset);
+              }
+              column += span;
+
+              return (
+                <View key={cellIndex} style={[styles.tableCell, { flex }]}>
+                  <Text
+                    style={[
+                      styles.tableCellText,
+                      isHeader ? styles.bold : {},
+                      isHeader ? styles.tableHeaderCell : {},
+                      cellObject ? blockStyle(cellObject.props, context) : {},
+                    ]}
+                  >
+                    {renderInlineContent(content, context)}
+                  </Text>
+                </View>
+              );
+            })}
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+/**
+ * Renders a single BlockNote block as PDF component, followed by its
+ * (indented) children
+ *
+ * @param {PortfolioBlock} block - BlockNote block object
+ * @param {number} index - Block index for React key
+ * @param {RenderContext} context - Nested documents, images and styles
+ * @param {number} listNumber - Number of a numbered list item (optional)
  * @returns {React.ReactNode} PDF component(s) for the block
  */
 function renderBlock(
-  block: any,
+  block: PortfolioBlock,
   index: number,
-  listIndex?: number
+  context: RenderContext,
+  listNumber?: number
 ): React.ReactNode {
   if (!block || !block.type) return null;
 
+  const node = renderBlockContent(block, index, context, listNumber);
+  const children: PortfolioBlock[] = Array.isArray(block.children) ? block.children : [];
+  if (children.length === 0 || OWN_CHILDREN_TYPES.indexOf(block.type) !== -1) {
+    return node;
+  }
+
+  return (
+    <View key={index}>
+      {node}
+      <View style={context.styles.children}>
+        {renderBlockList(children, nestedContext(context))}
+      </View>
+    </View>
+  );
+}
+
+/**
+ * Renders a single BlockNote block without its children (except for list
+ * items, columns and cards, which lay out their own)
+ *
+ * @param {PortfolioBlock} block - BlockNote block object
+ * @param {number} index - Block index for React key
+ * @param {RenderContext} context - Nested documents, images and styles
+ * @param {number} listNumber - Number of a numbered list item (optional)
+ * @returns {React.ReactNode} PDF component(s) for the block
+ */
+function renderBlockContent(
+  block: PortfolioBlock,
+  index: number,
+  context: RenderContext,
+  listNumber?: number
+): React.ReactNode {
+  const { styles } = context;
+  const childContext = nestedContext(context);
+
   switch (block.type) {
     case "heading": {
-      const level = block.props?.level || 1;
-      const headingStyle =
-        level === 1
-          ? styles.heading1
-          : level === 2
-          ? styles.heading2
-          : styles.heading3;
+      const level = Math.min(Math.max(Number(block.props?.level) || 1, 1), 6);
       return (
-        <Text key={index} style={headingStyle}>
-          {renderInlineContent(block.content)}
+        <Text
+          key={index}
+          id={blockAnchor(block)}
+          style={[styles[HEADING_STYLES[level - 1]], blockStyle(block.props, context)]}
+        >
+          {renderInlineContent(block.content, context)}
         </Text>
       );
     }
 
     case "paragraph": {
-      const text = extractTextContent(block.content);
+      const text = inlineContentToText(block.content);
       if (!text.trim()) return <View key={index} style={{ height: 8 }} />;
       return (
-        <Text key={index} style={styles.paragraph}>
-          {renderInlineContent(block.content)}
+        <Text key={index} style={[styles.paragraph, blockStyle(block.props, context)]}>
+          {renderInlineContent(block.content, context)}
         </Text>
       );
     }
 
-    case "bulletListItem": {
-      return (
-        <View key={index} style={styles.listItem}>
-          <Text style={styles.listItemBullet}>•</Text>
-          <View style={styles.listItemText}>
-            <Text>{renderInlineContent(block.content)}</Text>
-            {block.children &&
-              block.children.map((child: any, idx: number) =>
-                renderBlock(child, idx)
-              )}
-          </View>
-        </View>
-      );
-    }
+    case "bulletListItem":
+    case "numberedListItem":
+    case "checkListItem":
+    case "toggleListItem":
+      return renderListItem(block, index, context, listNumber);
+
+    case "table":
+      return renderTable(block, index, context);
 
-    case "numberedListItem": {
+    case "image": {
+      const url = block.props?.url;
+      if (!url) return null;
+      const source = context.resolveImage(url);
+      const alignment = FLEX_ALIGNMENT[block.props?.textAlignment] ?? "flex-start";
+      const previewWidth = Number(block.props?.previewWidth);
       return (
-        <View key={index} style={styles.listItem}>
-          <Text style={styles.listItemBullet}>{(listIndex || 0) + 1}.</Text>
-          <View style={styles.listItemText}>
-            <Text>{renderInlineContent(block.content)}</Text>
-            {block.children &&
-              block.children.map((child: any, idx: number) =>
-                renderBlock(child, idx)
-              )}
-          </View>
+        <View key={index} style={{ alignItems: alignment }}>
+          {source && (
+            /* eslint-disable-next-line jsx-a11y/alt-text */
+            <Image
+              src={source}
+              style={[styles.image, previewWidth > 0 ? { width: previewWidth * PX_TO_PT } : {}]}
+            />
+          )}
+          {block.props?.caption && (
+            <Text style={styles.caption}>
+              {block.props.caption}
+            </Text>
+          )}
         </View>
       );
     }
 
-    case "image": {
+    case "video":
+    case "audio":
+    case "file": {
       const url = block.props?.url;
       if (!url) return null;
       return (
-        <View key={index}>
-          {/* eslint-disable-next-line jsx-a11y/alt-text */}
-          <Image src={url} style={styles.image} />
+        <View key={index} style={styles.media}>
+          <Text>
+            <Text style={styles.bold}>{MEDIA_LABELS[block.type]}: </Text>
+            <Link src={url} style={styles.link}>
+              {block.props?.name || url}
+            </Link>
+          </Text>
           {block.props?.caption && (
-            <Text style={{ fontSize: 10, color: "#6b7280", marginTop: 4 }}>
-              {block.props.caption}
-            </Text>
+            <Text style={styles.caption}>{block.props.caption}</Text>
           )}
         </View>
       );
     }
 
     case "codeBlock": {
-      const code = extractTextContent(block.content);
+      const code = inlineContentToText(block.content);
+      const language = block.props?.language;
       return (
         <View key={index} style={styles.codeBlock}>
+          {language && language !== "text" && (
+            <Text style={styles.codeLanguage}>{language}</Text>
+          )}
           <Text style={{ fontFamily: "Courier" }}>{code}</Text>
         </View>
       );
@@ -398,53 +942,91 @@ function renderBlock(
     case "quote": {
       return (
         <View key={index} style={styles.quote}>
-          <Text>{renderInlineContent(block.content)}</Text>
+          <Text style={blockStyle(block.props, context)}>
+            {renderInlineContent(block.content, context)}
+          </Text>
         </View>
       );
     }
 
-    case "divider": {
-      return <View key={index} style={styles.divider} />;
+    case "columnList": {
+      // Columns sit side by side, sized by their relative width prop
+      const columns = (block.children || []).filter(
+        (column): column is BlockOfType<"column"> => column?.type === "column"
+      );
+      return (
+        <View key={index} style={styles.columnList}>
+          {columns.map((column, idx) => (
+            <View
+              key={idx}
+              style={[styles.column, { flex: Number(column.props?.width) || 1 }]}
+            >
+              {renderBlockList(column.children || [], childContext)}
+            </View>
+          ))}
+        </View>
+      );
     }
 
     case "projectCard": {
       try {
         const title = block.props?.title || "Untitled Project";
         const coverImage = block.props?.coverImage;
-        let nestedContent = null;
-
-        // Parse nested content if available
-        if (block.props?.nestedContent) {
-          try {
-            const parsed = JSON.parse(block.props.nestedContent);
-            if (Array.isArray(parsed)) {
-              // Filter out invalid blocks
-              nestedContent = parsed.filter(
-                (b) => b && typeof b === "object" && b.type
-              );
-            }
-          } catch (e) {
-            console.warn("Failed to parse nested content for ProjectCard:", e);
-          }
-        }
+        const coverSource =
+          typeof coverImage === "string" && coverImage.trim() !== ""
+            ? context.resolveImage(coverImage)
+            : null;
+        const metadata = getProjectMetadata(block.props);
+        const metaLine = [
+          metadata.status && STATUS_LABELS[metadata.status],
+          metadata.role,
+          formatDateRange(metadata),
+        ]
+          .filter(Boolean)
+          .join(" • ");
+
+        // Look up the card's nested document, filtering out invalid blocks
+        const nestedBlocks = getNestedDocument(context.nestedContent, block.id).filter(
+          (b) => b && typeof b === "object" && b.type
+        );
 
         return (
-          <View key={index} style={styles.projectCard}>
+          <View
+            key={index}
+            id={blockAnchor(block)}
+            break={context.cardPageBreaks && index > 0}
+            style={styles.projectCard}
+          >
             <Text style={styles.projectCardTitle}>{title}</Text>
-            {coverImage && typeof coverImage === "string" && coverImage.trim() && (
+            {metaLine !== "" && <Text style={styles.projectCardMeta}>{metaLine}</Text>}
+            {metadata.tags.length > 0 && (
+              <View style={styles.projectCardTags}>
+                {metadata.tags.map((tag) => (
+                  <Text key={tag} style={styles.projectCardTag}>
+                    {tag}
+                  </Text>
+                ))}
+              </View>
+            )}
+            {metadata.links.length > 0 && (
+              <Text style={styles.projectCardMeta}>
+                {metadata.links.map((link, idx) => (
+                  <React.Fragment key={link.label}>
+                    {idx > 0 && " • "}
+                    <Link src={link.url} style={styles.link}>
+                      {link.label}
+                    </Link>
+                  </React.Fragment>
+                ))}
+              </Text>
+            )}
+            {coverSource && (
               /* eslint-disable-next-line jsx-a11y/alt-text */
-              <Image src={coverImage} style={styles.projectCardImage} />
+              <Image src={coverSource} style={styles.projectCardImage} />
             )}
-            {nestedContent && nestedContent.length > 0 && (
+            {nestedBlocks.length > 0 && (
               <View style={styles.projectCardContent}>
-                {nestedContent.map((nestedBlock: any, idx: number) => {
-                  try {
-                    return renderBlock(nestedBlock, idx);
-                  } catch (err) {
-                    console.warn(`Error rendering nested block ${idx}:`, err);
-                    return null;
-                  }
-                })}
+                {renderBlockList(nestedBlocks, childContext)}
               </View>
             )}
           </View>
@@ -459,73 +1041,153 @@ function renderBlock(
       }
     }
 
+    case "column":
+      // Rendered by their column list
+      return null;
+
     default:
-      // Handle unknown block types gracefully
-      const text = extractTextContent(block.content);
-      if (text.trim()) {
-        return (
-          <Text key={index} style={styles.paragraph}>
-            {text}
-          </Text>
-        );
-      }
+      // Every block type of the schema is handled above; a new one fails
+      // to compile here until it is
+      block satisfies never;
       return null;
   }
 }
 
+/**
+ * Renders a list of sibling blocks, grouping consecutive bullet and numbered
+ * list items. Numbered lists count from their first item's `start` prop
+ * (1 by default); nested lists are numbered independently.
+ *
+ * @param {PortfolioBlock[]} blocks - Sibling BlockNote blocks
+ * @param {RenderContext} context - Nested documents, images and styles
+ * @returns {React.ReactNode[]} PDF components for the blocks
+ */
+function renderBlockList(
+  blocks: PortfolioBlock[],
+  context: RenderContext
+): React.ReactNode[] {
+  const { styles } = context;
+  const nodes: React.ReactNode[] = [];
+  let index = 0;
+
+  while (index < blocks.length) {
+    const block = blocks[index];
+    const listType = block?.type;
+
+    if (listType === "bulletListItem" || listType === "numberedListItem") {
+      // Group consecutive items of the same list type
+      const items: PortfolioBlock[] = [];
+      while (index < blocks.length && blocks[index]?.type === listType) {
+        items.push(blocks[index]);
+        index++;
+      }
+
+      const first = items[0];
+      const start = (first.type === "numberedListItem" && first.props.start) || 1;
+      nodes.push(
+        <View
+          key={nodes.length}
+          style={listType === "numberedListItem" ? styles.numberedList : styles.bulletList}
+        >
+          {items.map((item, itemIndex) =>
+            renderBlock(item, itemIndex, context, start + itemIndex)
+          )}
+        </View>
+      );
+      continue;
+    }
+
+    nodes.push(renderBlock(block, nodes.length, context));
+    index++;
+  }
+
+  return nodes;
+}
+
 // ============================================================================
 // Main PDF Document Component
 // ============================================================================
 
 /**
  * PDF Document Component
- * Renders the complete BlockNote document as a PDF
+ * Renders the complete BlockNote document as a PDF, laid out according to
+ * the export options
  *
  * @param {Object} props - Component props
- * @param {any[]} props.document - BlockNote document array
- * @param {string} props.title - Document title (optional)
+ * @param {PortfolioBlock[]} props.document - BlockNote document array
+ * @param {NestedContentTable} props.nestedContent - ProjectCard nested documents
+ * @param {Partial<ExportOptions>} props.options - Page setup, theme and sections
+ * @param {string} props.baseUrl - Origin for relative image URLs (defaults to
+ *   the page's origin)
+ * @param {PdfImageResolver} props.resolveImage - Where images come from
+ *   (defaults to print variants fetched from baseUrl; required when
+ *   rendering on the server)
  * @returns {JSX.Element} PDF Document component
+ *
+ * @example
+ * const blob = await pdf(
+ *   <PDFDocument document={document} options={{ pageSize: "LETTER" }} />
+ * ).toBlob();
  */
 export function PDFDocument({
   document,
-  title = "BlockNote Document",
+  nestedContent = {},
+  options: partialOptions = {},
+  baseUrl = typeof window !== "undefined" ? window.location.origin : "",
+  resolveImage = (url, quality, widthInPoints) => {
+    const variantUrl = printImageUrl(url, quality, widthInPoints);
+    return variantUrl.startsWith("/") ? `${baseUrl}${variantUrl}` : variantUrl;
+  },
 }: {
-  document: any[];
-  title?: string;
+  document: PortfolioBlock[];
+  nestedContent?: NestedContentTable;
+  options?: Partial<ExportOptions>;
+  baseUrl?: string;
+  resolveImage?: PdfImageResolver;
 }) {
+  const options: ExportOptions = { ...defaultExportOptions, ...partialOptions };
+  const title = options.title || defaultExportOptions.title;
+  const styles = createStyles(options.theme, PAGE_MARGINS[options.margin].size);
+  const imageWidth = contentWidth(options);
+
   const currentDate = new Date().toLocaleDateString("en-US", {
     year: "numeric",
     month: "long",
     day: "numeric",
   });
 
-  // Group numbered list items together
-  const processedBlocks: any[] = [];
-  let numberedListItems: any[] = [];
-
-  document.forEach((block, index) => {
-    if (block.type === "numberedListItem") {
-      numberedListItems.push(block);
-    } else {
-      // Flush accumulated numbered list items
-      if (numberedListItems.length > 0) {
-        processedBlocks.push({
-          type: "numberedList",
-          items: numberedListItems,
-        });
-        numberedListItems = [];
-      }
-      processedBlocks.push(block);
-    }
-  });
+  // Embed print-sized variants of uploaded images instead of the originals.
+  // By default the PDF renderer fetches them itself, so relative URLs are
+  // made absolute.
+  const context: RenderContext = {
+    nestedContent,
+    resolveImage: (url) => resolveImage(url, options.imageQuality, imageWidth),
+    styles,
+    cardPageBreaks: options.cardPageBreaks,
+    colors: options.theme !== "print",
+  };
 
-  // Flush any remaining numbered list items
-  if (numberedListItems.length > 0) {
-    processedBlocks.push({
-      type: "numberedList",
-      items: numberedListItems,
-    });
-  }
+  const tocEntries = options.tableOfContents ? collectTocEntries(document) : [];
+  const footerText = `Exported on ${currentDate} • Generated by BlockNote Portfolio`;
+  const pageProps = {
+    size: options.pageSize,
+    orientation: options.orientation,
+  };
+
+  // Footer with date and (optionally) page numbers, repeated on every page
+  const footer = (
+    <View style={styles.footer} fixed>
+      {options.pageNumbers ? (
+        <Text
+          render={({ pageNumber, totalPages }) =>
+            `${footerText} • Page ${pageNumber} of ${totalPages}`
+          }
+        />
+      ) : (
+        <Text>{footerText}</Text>
+      )}
+    </View>
+  );
 
   return (
     <Document
@@ -534,49 +1196,49 @@ export function PDFDocument({
       subject="Exported from BlockNote Editor"
       keywords="blocknote, portfolio, export"
     >
-      <Page size="A4" style={styles.page}>
-        {/* Document Title */}
-        <Text style={[styles.heading1, { marginTop: 0, marginBottom: 24 }]}>
-          {title}
-        </Text>
+      {/* Cover Page */}
+      {options.coverPage && (
+        <Page {...pageProps} style={styles.coverPage}>
+          <Text style={styles.coverTitle}>{title}</Text>
+          <Text style={styles.coverSubtitle}>{currentDate}</Text>
+        </Page>
+      )}
 
-        {/* Content */}
-        {processedBlocks.map((block, index) => {
-          if (block.type === "numberedList") {
-            return (
-              <View key={index} style={styles.numberedList}>
-                {block.items.map((item: any, itemIndex: number) =>
-                  renderBlock(item, itemIndex, itemIndex)
-                )}
-              </View>
-            );
-          }
-          return renderBlock(block, index);
-        })}
+      {/* Table of Contents */}
+      {tocEntries.length > 0 && (
+        <Page {...pageProps} style={styles.page}>
+          <Text style={[styles.heading1, { marginTop: 0, marginBottom: 24 }]}>
+            Contents
+          </Text>
+          {tocEntries.map((entry) => (
+            <Link
+              key={entry.anchor}
+              src={`#${entry.anchor}`}
+              style={[
+                entry.isCard ? styles.tocCardEntry : styles.tocEntry,
+                { marginLeft: entry.depth * 16 },
+              ]}
+            >
+              {entry.label}
+            </Link>
+          ))}
+          {footer}
+        </Page>
+      )}
 
-        {/* Footer with date */}
-        <View style={styles.footer} fixed>
-          <Text>
-            Exported on {currentDate} • Generated by BlockNote Portfolio
+      <Page {...pageProps} style={styles.page}>
+        {/* Document Title (on the cover page instead when there is one) */}
+        {!options.coverPage && (
+          <Text style={[styles.heading1, { marginTop: 0, marginBottom: 24 }]}>
+            {title}
           </Text>
-        </View>
+        )}
+
+        {/* Content */}
+        {renderBlockList(document, context)}
+
+        {footer}
       </Page>
     </Document>
   );
 }
-
-/**
- * Export Options Interface
- */
-export interface ExportOptions {
-  filename?: string;
-  title?: string;
-}
-
-/**
- * Default export options
- */
-export const defaultExportOptions: ExportOptions = {
-  filename: "blocknote-document.pdf",
-  title: "BlockNote Document",
-};
@@ -0,0 +1,136 @@
+// ============================================================================
+// Server-Side PDF Rendering
+// ============================================================================
+// Renders documents to PDF on the server with the same PDFDocument used by
+// the editor's export, for the /api/documents/:id/pdf and /api/pdf routes.
+//
+// Those routes live in src/pages/api rather than src/app/api: App Router
+// route handlers run on Next's bundled React build, while @react-pdf/renderer
+// is loaded from node_modules with the app's React, and the renderer only
+// accepts elements created by its own React.
+//
+// Images are never fetched: uploaded images are read from the asset store
+// on disk, as print variants, and inline PNG/JPEG data URIs are embedded.
+// Any other image is left out, so a document can't make the server request
+// arbitrary URLs (or read local files, which the renderer does for paths).
+//
+// This module is server-only; it must never be imported from client code.
+// ============================================================================
+
+import type { NextApiRequest, NextApiResponse } from "next";
+import { renderToStream } from "@react-pdf/renderer";
+
+import { PDFDocument, type PdfImageResolver } from "./pdfExport";
+import { repairContent } from "./documentValidation";
+import { parseExportOptions, pdfFilename, type ExportOptions } from "./exportOptions";
+import { getAssetName, printImageVariant } from "./imageUrls";
+import { getImageVariant } from "./imageVariants";
+import type { EditorContent } from "./schemaMigrations";
+
+/**
+ * Matches the inline images the renderer can embed without fetching
+ */
+const DATA_URI_PATTERN = /^data:image\/(?:png|jpe?g);base64,/i;
+
+/**
+ * Reads export options from a request's query parameters, ignoring
+ * route parameters such as `id`.
+ *
+ * @param {NextApiRequest["query"]} query - The parsed query string
+ * @returns The options, or an error naming the first invalid one
+ */
+export function exportOptionsFromQuery(
+  query: NextApiRequest["query"]
+): { options: Partial<ExportOptions> } | { error: string } {
+  const raw: Record<string, string> = {};
+  for (const key of Object.keys(query)) {
+    const value = query[key];
+    raw[key] = Array.isArray(value) ? value[value.length - 1] : value ?? "";
+  }
+  return parseExportOptions(raw);
+}
+
+/**
+ * Resolves images from the asset store: an uploaded image's print variant
+ * is read from disk when the renderer needs it. Data URIs are embedded as
+ * they are; other URLs are left out.
+ */
+const resolveStoredImage: PdfImageResolver = (url, quality, widthInPoints) => {
+  if (DATA_URI_PATTERN.test(url)) return url;
+
+  const name = getAssetName(url);
+  if (!name) return null;
+
+  const variant = printImageVariant(name, quality, widthInPoints);
+  return async () => {
+    const data = await getImageVariant(name, variant);
+    if (!data) throw new Error(`Image ${name} is not in the asset store`);
+    return { data, format: variant.format === "png" ? "png" : "jpg" };
+  };
+};
+
+/**
+ * Renders content to PDF and streams it to the response as a download.
+ * Malformed blocks (e.g. in documents stored before validation) are skipped,
+ * and so are images that aren't uploaded assets or inline data. The number
+ * of problems fixed is sent in the X-Repaired-Issues header.
+ *
+ * @param {NextApiResponse} response - The response to write to
+ * @param {EditorContent} content - Document and nested documents
+ * @param {Partial<ExportOptions>} options - Export options
+ *
+ * @example
+ * await sendPdf(res, stored, { title: stored.name });
+ */
+export async function sendPdf(
+  response: NextApiResponse,
+  content: EditorContent,
+  options: Partial<ExportOptions>
+): Promise<void> {
+  const { content: valid, issues } = repairContent(content);
+  if (issues.length > 0) {
+    console.warn(`⚠️ Skipping ${issues.length} malformed part(s) of the document in PDF`);
+  }
+
+  const stream = await renderToStream(
+    <PDFDocument
+      document={valid.document}
+      nestedContent={valid.nestedContent}
+      options={options}
+      resolveImage={resolveStoredImage}
+    />
+  );
+
+  const filename = pdfFilename(options.filename ?? "", `${slugify(options.title)}.pdf`);
+
+  response.setHeader("Content-Type", "application/pdf");
+  response.setHeader("Content-Disposition", contentDisposition(filename));
+  response.setHeader("Cache-Control", "no-store");
+  response.setHeader("X-Repaired-Issues", String(issues.length));
+
+  await new Promise<void>((resolve, reject) => {
+    stream.on("error", reject);
+    response.on("finish", resolve);
+    stream.pipe(response);
+  });
+}
+
+/**
+ * Turns a title into a file-name-safe slug ("My Portfolio" → "my-portfolio").
+ */
+function slugify(title: string | undefined): string {
+  const slug = (title ?? "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return slug || "portfolio";
+}
+
+/**
+ * Builds a Content-Disposition header with an ASCII fallback name and the
+ * full UTF-8 name for browsers that support it.
+ */
+function contentDisposition(filename: string): string {
+  const ascii = filename.replace(/[^\x20-\x7e]|["\\]/g, "_");
+  return `attachment; filename="${ascii}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
+}
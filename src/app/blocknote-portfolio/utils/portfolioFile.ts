@@ -0,0 +1,258 @@
+// ============================================================================
+// Portfolio JSON Files
+// ============================================================================
+// A self-describing JSON file for moving a portfolio between machines or
+// checking it into a repository:
+//
+//   {
+//     "format": "blocknote-portfolio",
+//     "formatVersion": 1,
+//     "exportedAt": "2024-05-01T12:00:00.000Z",
+//     "title": "My Portfolio",
+//     "schemaVersion": 4,          ← document schema (see schemaMigrations.ts)
+//     "document": [...],
+//     "nestedContent": { "<card block id>": [...] },
+//     "assets": [{ "url": "/api/assets/ab12….png", "asset": "ab12….png",
+//                  "blockIds": ["…"] }]
+//   }
+//
+// `assets` lists every image, media file and card cover the document uses.
+// Uploaded assets (with an `asset` name) live on the server the file was
+// exported from and must be copied along with the file; external URLs
+// (`asset: null`) work anywhere.
+//
+// Importing also accepts plain envelopes and legacy bare document arrays
+// (e.g. copied out of localStorage). Documents from older schema versions
+// are upgraded, and malformed blocks are reported by path — or, when asked
+// to, repaired (see documentValidation.ts).
+// ============================================================================
+
+import type { PortfolioBlockType } from "../components/schema";
+import { walkBlocks } from "./blockTraversal";
+import { getAssetName } from "./imageUrls";
+import {
+  CURRENT_SCHEMA_VERSION,
+  readEnvelope,
+  type EditorContent,
+} from "./schemaMigrations";
+import {
+  repairContent,
+  validateContent,
+  type ValidationIssue,
+} from "./documentValidation";
+
+/**
+ * Value of the `format` field identifying portfolio files
+ */
+export const PORTFOLIO_FILE_FORMAT = "blocknote-portfolio";
+
+/**
+ * Version of the file layout written by this version of the app. Bump it
+ * when the fields around the document change (document changes are covered
+ * by `schemaVersion`).
+ */
+export const PORTFOLIO_FILE_VERSION = 1;
+
+/**
+ * A file, image or card cover used by the document
+ * - asset: name of the uploaded asset, or null for external URLs
+ * - blockIds: blocks that use it
+ */
+export interface AssetReference {
+  url: string;
+  asset: string | null;
+  blockIds: string[];
+}
+
+/**
+ * Contents of a portfolio JSON file
+ */
+export interface PortfolioFile extends EditorContent {
+  format: typeof PORTFOLIO_FILE_FORMAT;
+  formatVersion: number;
+  exportedAt: string;
+  title: string;
+  schemaVersion: number;
+  assets: AssetReference[];
+}
+
+/**
+ * Result of reading a portfolio file
+ * - title: title stored in the file, or null for plain envelopes
+ * - issues: problems with individual blocks; when repairing, the fixes made
+ *   to the returned content
+ */
+export type ReadPortfolioFileResult =
+  | {
+      ok: true;
+      content: EditorContent;
+      title: string | null;
+      assets: AssetReference[];
+      issues: ValidationIssue[];
+    }
+  | { ok: false; error: string; issues: ValidationIssue[] };
+
+/**
+ * Block props that hold a URL of a file the block shows
+ */
+const ASSET_PROPS: Partial<Record<PortfolioBlockType, string>> = {
+  image: "url",
+  video: "url",
+  audio: "url",
+  file: "url",
+  projectCard: "coverImage",
+};
+
+// ============================================================================
+// Asset References
+// ============================================================================
+
+/**
+ * Lists the files used by a document and its nested card documents.
+ *
+ * @param {EditorContent} content - The document and its nested documents
+ * @returns {AssetReference[]} One reference per URL, in document order
+ */
+export function collectAssetReferences({
+  document,
+  nestedContent,
+}: EditorContent): AssetReference[] {
+  const references = new Map<string, AssetReference>();
+
+  walkBlocks(
+    document,
+    (block) => {
+      const prop = ASSET_PROPS[block.type];
+      const url = prop ? (block.props as Record<string, unknown>)?.[prop] : undefined;
+      if (typeof url === "string" && url.trim() !== "") {
+        const reference = references.get(url) ?? {
+          url,
+          asset: getAssetName(url),
+          blockIds: [],
+        };
+        if (block.id) reference.blockIds.push(block.id);
+        references.set(url, reference);
+      }
+    },
+    nestedContent
+  );
+
+  return Array.from(references.values());
+}
+
+// ============================================================================
+// Export & Import
+// ============================================================================
+
+/**
+ * Builds the JSON file for a portfolio.
+ *
+ * @param {EditorContent} content - The document and its nested documents
+ * @param {string} title - Title stored in the file
+ * @returns {string} The file contents
+ *
+ * @example
+ * downloadBlob(
+ *   new Blob([serializePortfolioFile(snapshotContent(), "My Portfolio")], {
+ *     type: "application/json",
+ *   }),
+ *   "portfolio.json"
+ * );
+ */
+export function serializePortfolioFile(content: EditorContent, title: string): string {
+  const file: PortfolioFile = {
+    format: PORTFOLIO_FILE_FORMAT,
+    formatVersion: PORTFOLIO_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    title,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    document: content.document,
+    nestedContent: content.nestedContent,
+    assets: collectAssetReferences(content),
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Reads a portfolio JSON file, upgrading its document to the current schema
+ * version and validating every block.
+ *
+ * @param {string} text - The file contents
+ * @param {boolean} repair - Drop or fix malformed blocks instead of
+ *   rejecting the file
+ * @returns {ReadPortfolioFileResult} The content, or why it can't be imported
+ *
+ * @example
+ * let result = readPortfolioFile(text);
+ * if (!result.ok && result.issues.length > 0 && confirm("Repair?")) {
+ *   result = readPortfolioFile(text, true);
+ * }
+ */
+export function readPortfolioFile(
+  text: string,
+  repair: boolean = false
+): ReadPortfolioFileResult {
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { ok: false, error: "The file is not valid JSON", issues: [] };
+  }
+
+  const isPortfolioFile = !!raw && raw.format === PORTFOLIO_FILE_FORMAT;
+  if (isPortfolioFile && typeof raw.formatVersion !== "number") {
+    return { ok: false, error: "The file has no format version", issues: [] };
+  }
+  if (isPortfolioFile && raw.formatVersion > PORTFOLIO_FILE_VERSION) {
+    return {
+      ok: false,
+      error: `The file was exported by a newer version of the app (format v${raw.formatVersion})`,
+      issues: [],
+    };
+  }
+
+  const document = Array.isArray(raw) ? raw : raw?.document;
+  if (!Array.isArray(document)) {
+    return { ok: false, error: "The file is not a portfolio document", issues: [] };
+  }
+
+  const envelope = readEnvelope(
+    isPortfolioFile
+      ? {
+          schemaVersion: raw.schemaVersion,
+          savedAt: raw.exportedAt,
+          document: raw.document,
+          nestedContent: raw.nestedContent,
+        }
+      : raw
+  );
+  if (!envelope) {
+    return {
+      ok: false,
+      error: "The file uses an unsupported schema version",
+      issues: [],
+    };
+  }
+
+  // Migrations only add and rename props, so paths still match the file
+  if (!repair) {
+    const issues = validateContent(envelope);
+    if (issues.length > 0) {
+      return {
+        ok: false,
+        error: `The document in the file has ${issues.length} ${issues.length === 1 ? "problem" : "problems"}`,
+        issues,
+      };
+    }
+  }
+
+  const { content, issues } = repairContent(envelope);
+  return {
+    ok: true,
+    content,
+    title: isPortfolioFile && typeof raw.title === "string" ? raw.title : null,
+    // Recomputed rather than trusted, since the file may have been edited
+    assets: collectAssetReferences(content),
+    issues,
+  };
+}
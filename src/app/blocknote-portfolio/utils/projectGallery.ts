@@ -0,0 +1,158 @@
+// ============================================================================
+// Project Gallery
+// ============================================================================
+// Collects every ProjectCard of a document (including cards inside list
+// items and columns) into gallery items, and filters/sorts them for the
+// gallery view.
+// ============================================================================
+
+import type { BlockOfType, PortfolioBlock } from "../components/schema";
+import { getNestedDocument, type NestedContentTable } from "./nestedContent";
+import { documentToText, findBlocksOfType } from "./blockTraversal";
+import {
+  PROJECT_STATUSES,
+  getProjectMetadata,
+  type ProjectMetadata,
+} from "./projectMetadata";
+
+/**
+ * One ProjectCard as shown in the gallery
+ */
+export interface GalleryItem {
+  block: BlockOfType<"projectCard">;
+  title: string;
+  subtext: string;
+  coverImage: string;
+  metadata: ProjectMetadata;
+  order: number; // Position in the document
+  searchText: string; // Lower-cased title, subtext, tags and nested text
+}
+
+export type GallerySort = "document" | "title" | "newest" | "status";
+
+/**
+ * Sort options, in menu order
+ */
+export const GALLERY_SORT_LABELS: Record<GallerySort, string> = {
+  document: "Document order",
+  title: "Title (A–Z)",
+  newest: "Newest first",
+  status: "Status",
+};
+
+/**
+ * Gallery search, tag filter and sort
+ */
+export interface GalleryFilter {
+  query: string;
+  tag: string; // "" for all tags
+  sort: GallerySort;
+}
+
+// ============================================================================
+// Collecting
+// ============================================================================
+
+/**
+ * Collects the document's ProjectCards, in document order.
+ *
+ * @param {PortfolioBlock[]} document - The main document
+ * @param {NestedContentTable} nestedContent - Nested documents by card id
+ * @returns {GalleryItem[]} One item per card
+ */
+export function collectGalleryItems(
+  document: PortfolioBlock[],
+  nestedContent: NestedContentTable
+): GalleryItem[] {
+  // Cards can sit inside list items and columns
+  return findBlocksOfType(document, "projectCard").map((block, order) => {
+    const { props } = block;
+    const metadata = getProjectMetadata(props);
+    const title = props.title || "Untitled Project";
+    const subtext = props.subtext || "";
+    return {
+      block,
+      title,
+      subtext,
+      coverImage: props.coverImage || "",
+      metadata,
+      order,
+      searchText: [
+        title,
+        subtext,
+        metadata.role,
+        metadata.tags.join(" "),
+        documentToText(getNestedDocument(nestedContent, block.id)),
+      ]
+        .join(" ")
+        .toLowerCase(),
+    };
+  });
+}
+
+/**
+ * Returns every tag used by the items, sorted alphabetically.
+ *
+ * @param {GalleryItem[]} items - Gallery items
+ * @returns {string[]} Unique tags
+ */
+export function collectGalleryTags(items: GalleryItem[]): string[] {
+  const tags = new Map<string, string>();
+  items.forEach((item) =>
+    item.metadata.tags.forEach((tag) => {
+      if (!tags.has(tag.toLowerCase())) tags.set(tag.toLowerCase(), tag);
+    })
+  );
+  return Array.from(tags.values()).sort((a, b) => a.localeCompare(b));
+}
+
+// ============================================================================
+// Filtering and Sorting
+// ============================================================================
+
+/**
+ * Comparators per sort option; ties keep document order
+ */
+const comparators: Record<GallerySort, (a: GalleryItem, b: GalleryItem) => number> = {
+  document: () => 0,
+  title: (a, b) => a.title.localeCompare(b.title),
+  // Undated projects go last; ongoing projects count as newest
+  newest: (a, b) =>
+    (b.metadata.endDate || (b.metadata.startDate ? "9999" : "")).localeCompare(
+      a.metadata.endDate || (a.metadata.startDate ? "9999" : "")
+    ) || b.metadata.startDate.localeCompare(a.metadata.startDate),
+  // Unspecified status goes last
+  status: (a, b) => statusRank(a) - statusRank(b),
+};
+
+function statusRank(item: GalleryItem): number {
+  return item.metadata.status
+    ? PROJECT_STATUSES.indexOf(item.metadata.status)
+    : PROJECT_STATUSES.length;
+}
+
+/**
+ * Applies the gallery's search, tag filter and sort.
+ *
+ * @param {GalleryItem[]} items - Items in document order
+ * @param {GalleryFilter} filter - Search query, tag and sort
+ * @returns {GalleryItem[]} The matching items, sorted
+ *
+ * @example
+ * filterGalleryItems(items, { query: "react", tag: "", sort: "title" });
+ */
+export function filterGalleryItems(
+  items: GalleryItem[],
+  { query, tag, sort }: GalleryFilter
+): GalleryItem[] {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const tagKey = tag.toLowerCase();
+
+  return items
+    .filter((item) => words.every((word) => item.searchText.indexOf(word) !== -1))
+    .filter(
+      (item) =>
+        !tagKey || item.metadata.tags.some((t) => t.toLowerCase() === tagKey)
+    )
+    .sort((a, b) => comparators[sort](a, b) || a.order - b.order);
+}
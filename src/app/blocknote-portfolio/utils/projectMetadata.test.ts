@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+
+import { getProjectMetadata } from "./projectMetadata";
+
+describe("getProjectMetadata", () => {
+  it("reads links in display order, skipping empty ones", () => {
+    expect(
+      getProjectMetadata({ repoUrl: "https://github.com/me/site", liveUrl: " https://me.dev " })
+        .links
+    ).toEqual([
+      { label: "Live", url: "https://me.dev" },
+      { label: "Repo", url: "https://github.com/me/site" },
+    ]);
+  });
+
+  it("leaves out links with unsafe targets", () => {
+    expect(
+      getProjectMetadata({
+        liveUrl: "javascript:alert(document.cookie)",
+        demoUrl: "data:text/html,<script>alert(1)</script>",
+        repoUrl: "https://github.com/me/site",
+      }).links
+    ).toEqual([{ label: "Repo", url: "https://github.com/me/site" }]);
+  });
+});
@@ -0,0 +1,185 @@
+// ============================================================================
+// ProjectCard Metadata
+// ============================================================================
+// Structured facts about a project, stored as ProjectCard props next to the
+// title and subtext: tech-stack tags, live/demo/repo links, start/end dates,
+// the author's role and the project status.
+//
+// BlockNote props can only hold primitives, so tags are stored as a single
+// comma-separated string and dates as "YYYY-MM" (or "YYYY-MM-DD") strings.
+// Use the helpers below instead of reading the raw props directly.
+// ============================================================================
+
+import { isSafeLinkUrl } from "./linkUrls";
+
+/**
+ * Project statuses; "" means the status isn't specified
+ */
+export const PROJECT_STATUSES = [
+  "",
+  "planned",
+  "in-progress",
+  "completed",
+  "maintained",
+  "archived",
+] as const;
+
+export type ProjectStatus = (typeof PROJECT_STATUSES)[number];
+
+/**
+ * Human-readable status labels
+ */
+export const STATUS_LABELS: Record<ProjectStatus, string> = {
+  "": "Not specified",
+  planned: "Planned",
+  "in-progress": "In progress",
+  completed: "Completed",
+  maintained: "Maintained",
+  archived: "Archived",
+};
+
+/**
+ * Default values of the metadata props, as used in ProjectCard's propSchema
+ * and by the v3 → v4 schema migration
+ */
+export const METADATA_PROP_DEFAULTS = {
+  tags: "",
+  role: "",
+  status: "" as ProjectStatus,
+  startDate: "",
+  endDate: "",
+  liveUrl: "",
+  demoUrl: "",
+  repoUrl: "",
+};
+
+export type MetadataProps = typeof METADATA_PROP_DEFAULTS;
+
+/**
+ * Link props with their display labels, in display order
+ */
+export const PROJECT_LINKS = [
+  { prop: "liveUrl", label: "Live" },
+  { prop: "demoUrl", label: "Demo" },
+  { prop: "repoUrl", label: "Repo" },
+] as const;
+
+/**
+ * Parsed metadata of a ProjectCard
+ */
+export interface ProjectMetadata {
+  tags: string[];
+  role: string;
+  status: ProjectStatus;
+  startDate: string;
+  endDate: string;
+  links: { label: string; url: string }[];
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Splits a comma-separated tag string into trimmed, de-duplicated tags.
+ *
+ * @param {unknown} value - The raw `tags` prop
+ * @returns {string[]} The tags, in their original order
+ *
+ * @example
+ * parseTags("React, TypeScript, react"); // ["React", "TypeScript"]
+ */
+export function parseTags(value: unknown): string[] {
+  if (typeof value !== "string") return [];
+
+  const seen = new Set<string>();
+  return value
+    .split(",")
+    .map((tag) => tag.trim())
+    .filter((tag) => {
+      const key = tag.toLowerCase();
+      if (!tag || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+/**
+ * Joins tags back into the stored comma-separated form.
+ *
+ * @param {string[]} tags - The tags
+ * @returns {string} The `tags` prop value
+ */
+export function formatTags(tags: string[]): string {
+  return tags.join(", ");
+}
+
+/**
+ * Checks that a status prop holds a known status.
+ */
+export function isProjectStatus(value: unknown): value is ProjectStatus {
+  return (PROJECT_STATUSES as readonly unknown[]).indexOf(value) !== -1;
+}
+
+/**
+ * Reads the structured metadata from a ProjectCard's props, ignoring
+ * missing or malformed values. Links with an unsafe target (see
+ * linkUrls.ts) are left out, so every view and exporter gets safe links.
+ *
+ * @param {Partial<MetadataProps>} props - The card's props
+ * @returns {ProjectMetadata} The parsed metadata
+ */
+export function getProjectMetadata(props: Partial<MetadataProps> = {}): ProjectMetadata {
+  const text = (value: unknown) => (typeof value === "string" ? value.trim() : "");
+
+  return {
+    tags: parseTags(props.tags),
+    role: text(props.role),
+    status: isProjectStatus(props.status) ? props.status : "",
+    startDate: text(props.startDate),
+    endDate: text(props.endDate),
+    links: PROJECT_LINKS.map(({ prop, label }) => ({
+      label,
+      url: text(props[prop]),
+    })).filter((link) => link.url && isSafeLinkUrl(link.url)),
+  };
+}
+
+/**
+ * Formats a "YYYY-MM" or "YYYY-MM-DD" date as e.g. "Mar 2024".
+ * Other values are returned unchanged.
+ */
+function formatDate(value: string): string {
+  const match = value.match(/^(\d{4})-(\d{2})/);
+  if (!match) return value;
+
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, 1);
+  return date.toLocaleDateString("en-US", { month: "short", year: "numeric" });
+}
+
+/**
+ * Formats a project's start/end dates for display. A start date without an
+ * end date is shown as ongoing.
+ *
+ * @param {ProjectMetadata} metadata - Parsed card metadata
+ * @returns {string} e.g. "Jan 2023 – Mar 2024", "Jan 2023 – Present", or ""
+ */
+export function formatDateRange({ startDate, endDate }: ProjectMetadata): string {
+  if (!startDate && !endDate) return "";
+  if (!startDate) return formatDate(endDate);
+  return `${formatDate(startDate)} – ${endDate ? formatDate(endDate) : "Present"}`;
+}
+
+/**
+ * Checks whether a card has any metadata worth displaying.
+ */
+export function hasProjectMetadata(metadata: ProjectMetadata): boolean {
+  return (
+    metadata.tags.length > 0 ||
+    metadata.links.length > 0 ||
+    !!metadata.role ||
+    !!metadata.status ||
+    !!metadata.startDate ||
+    !!metadata.endDate
+  );
+}
@@ -0,0 +1,338 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { emptyCommentTable } from "./comments";
+import {
+  CURRENT_SCHEMA_VERSION,
+  migrateEnvelope,
+  migrations,
+  readEnvelope,
+  type DocumentEnvelope,
+} from "./schemaMigrations";
+import { emptySuggestionTable } from "./suggestions";
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+/**
+ * An envelope at the given version, with empty tables
+ */
+function envelopeAt(
+  schemaVersion: number,
+  document: any[],
+  nestedContent: Record<string, any> = {}
+): DocumentEnvelope {
+  return {
+    schemaVersion,
+    savedAt: null,
+    document,
+    nestedContent,
+    comments: emptyCommentTable(),
+    suggestions: emptySuggestionTable(),
+  };
+}
+
+const paragraph = (id: string, text: string) => ({
+  id,
+  type: "paragraph",
+  props: {},
+  content: [{ type: "text", text, styles: {} }],
+  children: [],
+});
+
+const METADATA = {
+  tags: "",
+  role: "",
+  status: "",
+  startDate: "",
+  endDate: "",
+  liveUrl: "",
+  demoUrl: "",
+  repoUrl: "",
+};
+
+beforeEach(() => {
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+// ============================================================================
+// Migration Steps
+// ============================================================================
+
+describe("v1 → v2", () => {
+  it("fills in missing ProjectCard props", () => {
+    const { document } = migrations[1](
+      envelopeAt(1, [{ id: "card", type: "projectCard", props: { title: 42 } }])
+    );
+
+    expect(document[0].props).toEqual({
+      title: "New Project",
+      subtext: "Project description",
+      coverImage: "",
+      nestedContent: "",
+    });
+  });
+
+  it("keeps nested content that is a JSON block array", () => {
+    const serialized = JSON.stringify([paragraph("p1", "Inside")]);
+    const { document } = migrations[1](
+      envelopeAt(1, [
+        {
+          id: "card",
+          type: "projectCard",
+          props: { title: "Site", subtext: "A website", nestedContent: serialized },
+        },
+      ])
+    );
+
+    expect((document[0].props as any).nestedContent).toBe(serialized);
+  });
+
+  it("clears nested content that is not a JSON block array", () => {
+    const { document } = migrations[1](
+      envelopeAt(1, [
+        { id: "a", type: "projectCard", props: { nestedContent: "{not json" } },
+        { id: "b", type: "projectCard", props: { nestedContent: '{"type":"paragraph"}' } },
+      ])
+    );
+
+    expect((document[0].props as any).nestedContent).toBe("");
+    expect((document[1].props as any).nestedContent).toBe("");
+  });
+
+  it("normalizes cards in children and leaves other blocks alone", () => {
+    const { document } = migrations[1](
+      envelopeAt(1, [
+        {
+          ...paragraph("p1", "Parent"),
+          children: [{ id: "card", type: "projectCard", props: {} }],
+        },
+      ])
+    );
+
+    expect(document[0].props).toEqual({});
+    expect((document[0].children[0].props as any).title).toBe("New Project");
+  });
+});
+
+describe("v2 → v3", () => {
+  it("moves a card's nested content into the table", () => {
+    const nested = [paragraph("p1", "Inside")];
+    const migrated = migrations[2](
+      envelopeAt(2, [
+        {
+          id: "card",
+          type: "projectCard",
+          props: { title: "Site", nestedContent: JSON.stringify(nested) },
+        },
+      ])
+    );
+
+    expect(migrated.document[0].props).toEqual({ title: "Site" });
+    expect(migrated.nestedContent).toEqual({ card: nested });
+  });
+
+  it("moves cards nested inside other cards' content out at any depth", () => {
+    const innermost = [paragraph("p3", "Deepest")];
+    const inner = [
+      paragraph("p2", "Inner"),
+      {
+        id: "inner-card",
+        type: "projectCard",
+        props: { title: "Inner", nestedContent: JSON.stringify(innermost) },
+      },
+    ];
+    const outer = [
+      {
+        id: "middle-card",
+        type: "projectCard",
+        props: { title: "Middle", nestedContent: JSON.stringify(inner) },
+      },
+    ];
+    const migrated = migrations[2](
+      envelopeAt(2, [
+        {
+          id: "outer-card",
+          type: "projectCard",
+          props: { title: "Outer", nestedContent: JSON.stringify(outer) },
+        },
+      ])
+    );
+
+    expect(Object.keys(migrated.nestedContent).sort()).toEqual([
+      "inner-card",
+      "middle-card",
+      "outer-card",
+    ]);
+    expect(migrated.nestedContent["outer-card"]).toEqual([
+      { id: "middle-card", type: "projectCard", props: { title: "Middle" } },
+    ]);
+    expect(migrated.nestedContent["middle-card"][1]).toEqual({
+      id: "inner-card",
+      type: "projectCard",
+      props: { title: "Inner" },
+    });
+    expect(migrated.nestedContent["inner-card"]).toEqual(innermost);
+  });
+
+  it("gives cards without an id one so their content stays addressable", () => {
+    const migrated = migrations[2](
+      envelopeAt(2, [
+        {
+          type: "projectCard",
+          props: { nestedContent: JSON.stringify([paragraph("p1", "Inside")]) },
+        },
+      ])
+    );
+
+    const id = migrated.document[0].id;
+    expect(id).toMatch(/^card-/);
+    expect(migrated.nestedContent[id]).toHaveLength(1);
+  });
+
+  it("drops empty and unparseable nested content", () => {
+    const migrated = migrations[2](
+      envelopeAt(2, [
+        { id: "empty", type: "projectCard", props: { nestedContent: "[]" } },
+        { id: "broken", type: "projectCard", props: { nestedContent: "[{" } },
+      ])
+    );
+
+    expect(migrated.nestedContent).toEqual({});
+    expect(migrated.document[1].props).toEqual({});
+  });
+});
+
+describe("v3 → v4", () => {
+  it("adds metadata props to cards in the document and nested documents", () => {
+    const migrated = migrations[3](
+      envelopeAt(3, [{ id: "card", type: "projectCard", props: { title: "Site" } }], {
+        card: [{ id: "inner", type: "projectCard", props: { title: "Inner" } }],
+      })
+    );
+
+    expect(migrated.document[0].props).toEqual({ title: "Site", ...METADATA });
+    expect(migrated.nestedContent.card[0].props).toEqual({ title: "Inner", ...METADATA });
+  });
+
+  it("keeps valid metadata and drops values of the wrong type or status", () => {
+    const migrated = migrations[3](
+      envelopeAt(3, [
+        {
+          id: "a",
+          type: "projectCard",
+          props: { tags: "react, ts", role: 7, status: "shipped" },
+        },
+        { id: "b", type: "projectCard", props: { status: "in-progress" } },
+      ])
+    );
+
+    expect(migrated.document[0].props).toMatchObject({ tags: "react, ts", role: "", status: "" });
+    expect((migrated.document[1].props as any).status).toBe("in-progress");
+  });
+});
+
+describe("v4 → v5 and v5 → v6", () => {
+  it("start the document without comments and suggestions", () => {
+    const v5 = migrations[4]({ ...envelopeAt(4, []), comments: undefined as any });
+    expect(v5.comments).toEqual(emptyCommentTable());
+
+    const v6 = migrations[5]({ ...envelopeAt(5, []), suggestions: undefined as any });
+    expect(v6.suggestions).toEqual(emptySuggestionTable());
+  });
+});
+
+// ============================================================================
+// Upgrading
+// ============================================================================
+
+describe("readEnvelope", () => {
+  it("upgrades a legacy bare array to the current version", () => {
+    const nested = [paragraph("p1", "Inside")];
+    const envelope = readEnvelope([
+      paragraph("intro", "Hello"),
+      {
+        id: "card",
+        type: "projectCard",
+        props: { title: "Site", nestedContent: JSON.stringify(nested) },
+      },
+    ]);
+
+    expect(envelope).not.toBeNull();
+    expect(envelope!.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(envelope!.savedAt).toBeNull();
+    expect(envelope!.document[0]).toEqual(paragraph("intro", "Hello"));
+    expect(envelope!.document[1].props).toEqual({
+      title: "Site",
+      subtext: "Project description",
+      coverImage: "",
+      ...METADATA,
+    });
+    expect(envelope!.nestedContent).toEqual({ card: nested });
+    expect(envelope!.comments).toEqual(emptyCommentTable());
+    expect(envelope!.suggestions).toEqual(emptySuggestionTable());
+  });
+
+  it("upgrades an envelope from an older version", () => {
+    const envelope = readEnvelope({
+      schemaVersion: 2,
+      savedAt: "2024-01-01T00:00:00.000Z",
+      document: [{ id: "card", type: "projectCard", props: { title: "Site", nestedContent: "" } }],
+    });
+
+    expect(envelope).toMatchObject({
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      savedAt: "2024-01-01T00:00:00.000Z",
+      nestedContent: {},
+    });
+    expect(envelope!.document[0].props).toEqual({ title: "Site", ...METADATA });
+  });
+
+  it("returns a current envelope as it is", () => {
+    const document = [paragraph("p1", "Hello")];
+    const envelope = readEnvelope({
+      ...envelopeAt(CURRENT_SCHEMA_VERSION, document),
+      savedAt: "2024-01-01T00:00:00.000Z",
+    });
+
+    expect(envelope).toEqual({
+      ...envelopeAt(CURRENT_SCHEMA_VERSION, document),
+      savedAt: "2024-01-01T00:00:00.000Z",
+    });
+  });
+
+  it("rejects data that is not a document", () => {
+    expect(readEnvelope(null)).toBeNull();
+    expect(readEnvelope("hello")).toBeNull();
+    expect(readEnvelope({ schemaVersion: 3 })).toBeNull();
+    expect(readEnvelope({ document: [] })).toBeNull();
+  });
+});
+
+describe("migrateEnvelope", () => {
+  it("rejects envelopes from a newer app version", () => {
+    expect(migrateEnvelope(envelopeAt(CURRENT_SCHEMA_VERSION + 1, []))).toBeNull();
+  });
+
+  it("rejects envelopes whose migration step fails", () => {
+    const step = migrations[3];
+    migrations[3] = () => {
+      throw new Error("broken step");
+    };
+    try {
+      expect(migrateEnvelope(envelopeAt(1, []))).toBeNull();
+    } finally {
+      migrations[3] = step;
+    }
+  });
+
+  it("rejects envelopes without a registered migration step", () => {
+    expect(migrateEnvelope(envelopeAt(0, []))).toBeNull();
+  });
+});
@@ -0,0 +1,342 @@
+// ============================================================================
+// Storage Schema & Migrations
+// ============================================================================
+// Saved documents are wrapped in a versioned envelope:
+//
+//   { schemaVersion, savedAt, document, nestedContent, comments, suggestions }
+//
+// Whenever the shape of saved data changes (for example when ProjectCard's
+// propSchema gains a new prop), bump CURRENT_SCHEMA_VERSION and register a
+// migration that upgrades a document from the previous version. Old saves
+// are then upgraded step by step on load instead of being discarded.
+//
+// Version history:
+// - v1: bare BlockNote document array (no envelope)
+// - v2: envelope; ProjectCard props normalized to the full propSchema
+// - v3: ProjectCard nested documents moved out of the stringified
+//       `nestedContent` prop into the envelope's `nestedContent` table
+// - v4: ProjectCard metadata props (tags, links, dates, role, status)
+// - v5: `comments` table of review threads
+// - v6: `suggestions` table of pending suggested changes
+// ============================================================================
+
+import type { PortfolioBlock } from "../components/schema";
+import { emptyCommentTable, readCommentTable, type CommentTable } from "./comments";
+import type { NestedContentTable } from "./nestedContent";
+import { METADATA_PROP_DEFAULTS, isProjectStatus } from "./projectMetadata";
+import {
+  emptySuggestionTable,
+  readSuggestionTable,
+  type SuggestionTable,
+} from "./suggestions";
+
+/**
+ * Schema version written by this version of the app
+ */
+export const CURRENT_SCHEMA_VERSION = 6;
+
+/**
+ * Versioned wrapper around a persisted BlockNote document
+ */
+export interface DocumentEnvelope {
+  schemaVersion: number;
+  savedAt: string | null; // null for legacy saves that predate the envelope
+  document: PortfolioBlock[];
+  nestedContent: NestedContentTable; // ProjectCard documents keyed by block id
+  comments: CommentTable; // Review threads about the document
+  suggestions: SuggestionTable; // Pending suggested changes to it
+}
+
+/**
+ * The parts of an envelope the editor loads and saves. Comment threads and
+ * suggestions are kept out of it: restores, imports and exports replace the
+ * content but leave the review of it alone.
+ */
+export type EditorContent = Pick<DocumentEnvelope, "document" | "nestedContent">;
+
+/**
+ * Editor content together with the comment threads and suggestions about
+ * it, as saved
+ */
+export type SavedContent = EditorContent &
+  Pick<DocumentEnvelope, "comments" | "suggestions">;
+
+/**
+ * Upgrades an envelope from one schema version to the next
+ */
+type Migration = (envelope: DocumentEnvelope) => DocumentEnvelope;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Applies a transform to every block in a document, including nested
+ * `children`. The transform receives a shallow copy it may modify.
+ *
+ * @param {any[]} document - BlockNote document array
+ * @param {(block: any) => any} transform - Returns the migrated block
+ * @returns {any[]} A new document with every block transformed
+ */
+function mapBlocks(document: any[], transform: (block: any) => any): any[] {
+  return document.map((block) => {
+    if (!block || typeof block !== "object") return block;
+    const migrated = transform({ ...block });
+    if (Array.isArray(migrated.children)) {
+      migrated.children = mapBlocks(migrated.children, transform);
+    }
+    return migrated;
+  });
+}
+
+// ============================================================================
+// Migration Steps
+// ============================================================================
+
+/**
+ * v1 → v2: Ensures every ProjectCard carries the full set of props and that
+ * `nestedContent` is either empty or a JSON-encoded block array. Cards saved
+ * by early builds could be missing props or hold unparseable nested content,
+ * which crashed the card when it was opened.
+ */
+function migrateV1ToV2(envelope: DocumentEnvelope): DocumentEnvelope {
+  const document = mapBlocks(envelope.document, (block) => {
+    if (block.type !== "projectCard") return block;
+
+    const props = block.props ?? {};
+    let nestedContent =
+      typeof props.nestedContent === "string" ? props.nestedContent : "";
+    if (nestedContent.trim()) {
+      try {
+        if (!Array.isArray(JSON.parse(nestedContent))) nestedContent = "";
+      } catch {
+        nestedContent = "";
+      }
+    }
+
+    block.props = {
+      ...props,
+      title: typeof props.title === "string" ? props.title : "New Project",
+      subtext:
+        typeof props.subtext === "string" ? props.subtext : "Project description",
+      coverImage: typeof props.coverImage === "string" ? props.coverImage : "",
+      nestedContent,
+    };
+    return block;
+  });
+  return { ...envelope, document };
+}
+
+/**
+ * v2 → v3: Moves each ProjectCard's JSON-string `nestedContent` prop into the
+ * envelope's `nestedContent` table, keyed by the card's block id. Cards
+ * inside a card's nested document are moved out too, at any depth. Cards
+ * without an id are given one so their content stays addressable.
+ */
+function migrateV2ToV3(envelope: DocumentEnvelope): DocumentEnvelope {
+  const nestedContent: NestedContentTable = { ...envelope.nestedContent };
+
+  const extract = (blocks: any[]): any[] =>
+    mapBlocks(blocks, (block) => {
+      if (block.type !== "projectCard") return block;
+
+      const { nestedContent: serialized, ...props } = block.props ?? {};
+      block.props = props;
+
+      if (typeof serialized !== "string" || !serialized.trim()) return block;
+
+      try {
+        const parsed = JSON.parse(serialized);
+        if (Array.isArray(parsed) && parsed.length > 0) {
+          if (!block.id) {
+            block.id = `card-${Math.random().toString(36).slice(2, 10)}`;
+          }
+          nestedContent[block.id] = extract(parsed);
+        }
+      } catch {
+        // Unparseable content can't be recovered; the card opens with defaults
+        console.warn(`⚠️ Dropping unparseable nested content of card ${block.id}`);
+      }
+      return block;
+    });
+
+  const document = extract(envelope.document);
+  return { ...envelope, document, nestedContent };
+}
+
+/**
+ * v3 → v4: Gives every ProjectCard, including cards inside other cards'
+ * nested documents, the metadata props with their defaults, and drops
+ * values of the wrong type.
+ */
+function migrateV3ToV4(envelope: DocumentEnvelope): DocumentEnvelope {
+  const addMetadata = (block: any) => {
+    if (block.type !== "projectCard") return block;
+
+    const props = block.props ?? {};
+    const metadata: Record<string, string> = { ...METADATA_PROP_DEFAULTS };
+    for (const key of Object.keys(metadata)) {
+      if (typeof props[key] === "string") metadata[key] = props[key];
+    }
+    if (!isProjectStatus(metadata.status)) metadata.status = "";
+
+    block.props = { ...props, ...metadata };
+    return block;
+  };
+
+  const nestedContent: NestedContentTable = {};
+  for (const [blockId, nested] of Object.entries(envelope.nestedContent)) {
+    nestedContent[blockId] = Array.isArray(nested)
+      ? mapBlocks(nested, addMetadata)
+      : nested;
+  }
+
+  return {
+    ...envelope,
+    document: mapBlocks(envelope.document, addMetadata),
+    nestedContent,
+  };
+}
+
+/**
+ * v4 → v5: Starts every document without comment threads.
+ */
+function migrateV4ToV5(envelope: DocumentEnvelope): DocumentEnvelope {
+  return { ...envelope, comments: emptyCommentTable() };
+}
+
+/**
+ * v5 → v6: Starts every document without suggestions.
+ */
+function migrateV5ToV6(envelope: DocumentEnvelope): DocumentEnvelope {
+  return { ...envelope, suggestions: emptySuggestionTable() };
+}
+
+/**
+ * Migration registry, keyed by the version each step upgrades *from*.
+ * Every version below CURRENT_SCHEMA_VERSION must have an entry.
+ */
+export const migrations: Record<number, Migration> = {
+  1: migrateV1ToV2,
+  2: migrateV2ToV3,
+  3: migrateV3ToV4,
+  4: migrateV4ToV5,
+  5: migrateV5ToV6,
+};
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Wraps a document in an envelope stamped with the current schema version.
+ *
+ * @param {PortfolioBlock[]} document - The BlockNote document array
+ * @param {NestedContentTable} nestedContent - ProjectCard documents by block id
+ * @param {CommentTable} comments - Review threads about the document
+ * @param {SuggestionTable} suggestions - Pending suggested changes to it
+ * @returns {DocumentEnvelope} The envelope to persist
+ */
+export function createEnvelope(
+  document: PortfolioBlock[],
+  nestedContent: NestedContentTable = {},
+  comments: CommentTable = emptyCommentTable(),
+  suggestions: SuggestionTable = emptySuggestionTable()
+): DocumentEnvelope {
+  return {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    savedAt: new Date().toISOString(),
+    document,
+    nestedContent,
+    comments,
+    suggestions,
+  };
+}
+
+/**
+ * Upgrades an envelope to the current schema version by running every
+ * registered migration step in order.
+ *
+ * @param {DocumentEnvelope} envelope - Envelope at any supported version
+ * @returns {DocumentEnvelope | null} The upgraded envelope, or null if it
+ *   was written by a newer app version or a migration step is missing/fails
+ */
+export function migrateEnvelope(
+  envelope: DocumentEnvelope
+): DocumentEnvelope | null {
+  if (envelope.schemaVersion > CURRENT_SCHEMA_VERSION) {
+    console.error(
+      `❌ Document uses schema v${envelope.schemaVersion}, newer than supported v${CURRENT_SCHEMA_VERSION}`
+    );
+    return null;
+  }
+
+  let current = envelope;
+  while (current.schemaVersion < CURRENT_SCHEMA_VERSION) {
+    const fromVersion = current.schemaVersion;
+    const migrate = migrations[fromVersion];
+    if (!migrate) {
+      console.error(`❌ No migration registered from schema v${fromVersion}`);
+      return null;
+    }
+    try {
+      current = { ...migrate(current), schemaVersion: fromVersion + 1 };
+    } catch (error) {
+      console.error(`❌ Migration from schema v${fromVersion} failed:`, error);
+      return null;
+    }
+    console.log(`⬆️ Migrated document from schema v${fromVersion}`);
+  }
+
+  return current;
+}
+
+/**
+ * Interprets raw persisted data as an envelope and upgrades it to the
+ * current schema version. Accepts both envelopes and legacy bare arrays.
+ *
+ * @param {unknown} raw - Parsed JSON from storage
+ * @returns {DocumentEnvelope | null} The current-version envelope, or null if
+ *   the data is not a recognizable document
+ *
+ * @example
+ * const envelope = readEnvelope(JSON.parse(localStorage.getItem(key)!));
+ * if (envelope) editor.replaceBlocks(editor.document, envelope.document);
+ */
+export function readEnvelope(raw: unknown): DocumentEnvelope | null {
+  // Legacy v1 saves are the bare document array
+  if (Array.isArray(raw)) {
+    return migrateEnvelope({
+      schemaVersion: 1,
+      savedAt: null,
+      document: raw,
+      nestedContent: {},
+      comments: emptyCommentTable(),
+      suggestions: emptySuggestionTable(),
+    });
+  }
+
+  if (
+    raw &&
+    typeof raw === "object" &&
+    typeof (raw as any).schemaVersion === "number" &&
+    Array.isArray((raw as any).document)
+  ) {
+    const { schemaVersion, savedAt, document, nestedContent, comments, suggestions } =
+      raw as DocumentEnvelope;
+    return migrateEnvelope({
+      schemaVersion,
+      savedAt: typeof savedAt === "string" ? savedAt : null,
+      document,
+      // Envelopes older than v3 have no table; the v2 → v3 step fills it
+      nestedContent:
+        nestedContent && typeof nestedContent === "object" ? nestedContent : {},
+      // Malformed threads are dropped rather than failing the whole document
+      comments: readCommentTable(comments),
+      suggestions: readSuggestionTable(suggestions),
+    });
+  }
+
+  console.error("❌ Saved data is not a recognizable document envelope");
+  return null;
+}
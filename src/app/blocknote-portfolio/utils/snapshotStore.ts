@@ -0,0 +1,323 @@
+// ============================================================================
+// Snapshot Store (Server)
+// ============================================================================
+// Version history for portfolio documents. A snapshot is a frozen copy of a
+// document (including ProjectCard nested documents) taken either
+// automatically while editing or manually under a user-chosen name.
+//
+// Like the document store, the backend is pluggable ("file" or "memory",
+// selected by the same DOCUMENT_STORE setting) and snapshots are kept next to
+// the documents they belong to. Retention limits keep history bounded.
+//
+// This module is server-only; it must never be imported from client code.
+// ============================================================================
+
+import { promises as fs } from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import type { PortfolioBlock } from "../components/schema";
+import { writeFileAtomic } from "./atomicWrite";
+import type { NestedContentTable } from "./nestedContent";
+import { walkBlocks } from "./blockTraversal";
+import { CURRENT_SCHEMA_VERSION, readEnvelope } from "./schemaMigrations";
+
+/**
+ * How a snapshot was created
+ * - auto: periodic or safety snapshot taken by the editor
+ * - manual: named snapshot requested by the user
+ */
+export type SnapshotKind = "auto" | "manual";
+
+/**
+ * Lightweight description of a snapshot, used for history listings
+ */
+export interface SnapshotSummary {
+  id: string;
+  docId: string;
+  name: string;
+  kind: SnapshotKind;
+  createdAt: string;
+  blockCount: number;
+}
+
+/**
+ * A stored snapshot with its content
+ */
+export interface Snapshot extends SnapshotSummary {
+  schemaVersion?: number;
+  document: PortfolioBlock[];
+  nestedContent: NestedContentTable;
+}
+
+/**
+ * Data written to the store for a new snapshot
+ */
+export interface SnapshotInput {
+  name: string;
+  kind: SnapshotKind;
+  document: PortfolioBlock[];
+  nestedContent: NestedContentTable;
+}
+
+/**
+ * Minimal contract every snapshot backend implements
+ */
+export interface SnapshotStore {
+  list(docId: string): Promise<SnapshotSummary[]>;
+  get(docId: string, snapshotId: string): Promise<Snapshot | null>;
+  put(docId: string, input: SnapshotInput): Promise<Snapshot>;
+  delete(docId: string, snapshotId: string): Promise<boolean>;
+  deleteAll(docId: string): Promise<void>;
+}
+
+/**
+ * Maximum number of snapshots kept per document, by kind. The oldest
+ * snapshots beyond these limits are deleted when a new one is added.
+ */
+export const SNAPSHOT_RETENTION: Record<SnapshotKind, number> = {
+  auto: 20,
+  manual: 50,
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Counts every block in a document, including nested children.
+ */
+function countBlocks(document: PortfolioBlock[]): number {
+  let count = 0;
+  walkBlocks(document, () => {
+    count++;
+  });
+  return count;
+}
+
+/**
+ * Builds a snapshot record from its input.
+ */
+function createSnapshot(docId: string, input: SnapshotInput): Snapshot {
+  return {
+    id: randomUUID(),
+    docId,
+    name: input.name,
+    kind: input.kind,
+    createdAt: new Date().toISOString(),
+    blockCount: countBlocks(input.document),
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    document: input.document,
+    nestedContent: input.nestedContent,
+  };
+}
+
+/**
+ * Strips the content from a snapshot.
+ */
+function toSummary({
+  id,
+  docId,
+  name,
+  kind,
+  createdAt,
+  blockCount,
+}: Snapshot): SnapshotSummary {
+  return { id, docId, name, kind, createdAt, blockCount };
+}
+
+/**
+ * Sorts summaries so the newest snapshot comes first.
+ */
+function byNewest(a: SnapshotSummary, b: SnapshotSummary): number {
+  return b.createdAt.localeCompare(a.createdAt);
+}
+
+// ============================================================================
+// In-Memory Store
+// ============================================================================
+
+/**
+ * Creates a snapshot store that keeps snapshots in memory.
+ *
+ * @returns {SnapshotStore} The in-memory store
+ */
+export function createMemorySnapshotStore(): SnapshotStore {
+  const snapshots = new Map<string, Map<string, Snapshot>>();
+  const forDocument = (docId: string) => {
+    if (!snapshots.has(docId)) snapshots.set(docId, new Map());
+    return snapshots.get(docId)!;
+  };
+
+  return {
+    async list(docId) {
+      return Array.from(forDocument(docId).values())
+        .map(toSummary)
+        .sort(byNewest);
+    },
+    async get(docId, snapshotId) {
+      return forDocument(docId).get(snapshotId) ?? null;
+    },
+    async put(docId, input) {
+      const snapshot = createSnapshot(docId, input);
+      forDocument(docId).set(snapshot.id, snapshot);
+      return snapshot;
+    },
+    async delete(docId, snapshotId) {
+      return forDocument(docId).delete(snapshotId);
+    },
+    async deleteAll(docId) {
+      snapshots.delete(docId);
+    },
+  };
+}
+
+// ============================================================================
+// JSON File Store
+// ============================================================================
+
+/**
+ * Creates a snapshot store that writes one JSON file per snapshot into a
+ * `<docId>.snapshots` directory next to the document files.
+ *
+ * @param {string} directory - The document store directory
+ * @returns {SnapshotStore} The file-backed store
+ */
+export function createFileSnapshotStore(directory: string): SnapshotStore {
+  const snapshotDir = (docId: string) =>
+    path.join(directory, `${docId}.snapshots`);
+  const snapshotPath = (docId: string, snapshotId: string) =>
+    path.join(snapshotDir(docId), `${snapshotId}.json`);
+
+  const read = async (
+    docId: string,
+    snapshotId: string
+  ): Promise<Snapshot | null> => {
+    try {
+      const raw = await fs.readFile(snapshotPath(docId, snapshotId), "utf8");
+      const snapshot = JSON.parse(raw) as Snapshot;
+
+      // Upgrade snapshots written by older app versions on read
+      const envelope = readEnvelope({
+        schemaVersion: snapshot.schemaVersion ?? 1,
+        savedAt: snapshot.createdAt,
+        document: snapshot.document,
+        nestedContent: snapshot.nestedContent ?? {},
+      });
+      if (!envelope) {
+        throw new Error(
+          `Snapshot ${snapshotId} could not be upgraded to the current schema`
+        );
+      }
+
+      return {
+        ...snapshot,
+        schemaVersion: envelope.schemaVersion,
+        document: envelope.document,
+        nestedContent: envelope.nestedContent,
+      };
+    } catch (error: any) {
+      if (error?.code === "ENOENT") return null;
+      throw error;
+    }
+  };
+
+  return {
+    async list(docId) {
+      let entries: string[];
+      try {
+        entries = await fs.readdir(snapshotDir(docId));
+      } catch (error: any) {
+        if (error?.code === "ENOENT") return [];
+        throw error;
+      }
+
+      const snapshots = await Promise.all(
+        entries
+          .filter((entry) => entry.endsWith(".json"))
+          .map((entry) => read(docId, entry.slice(0, -".json".length)))
+      );
+      return snapshots
+        .filter((snapshot): snapshot is Snapshot => snapshot !== null)
+        .map(toSummary)
+        .sort(byNewest);
+    },
+    get: read,
+    async put(docId, input) {
+      const snapshot = createSnapshot(docId, input);
+      await fs.mkdir(snapshotDir(docId), { recursive: true });
+      // A crash can't leave a truncated snapshot in the history
+      await writeFileAtomic(snapshotPath(docId, snapshot.id), JSON.stringify(snapshot));
+      return snapshot;
+    },
+    async delete(docId, snapshotId) {
+      try {
+        await fs.unlink(snapshotPath(docId, snapshotId));
+        return true;
+      } catch (error: any) {
+        if (error?.code === "ENOENT") return false;
+        throw error;
+      }
+    },
+    async deleteAll(docId) {
+      await fs.rm(snapshotDir(docId), { recursive: true, force: true });
+    },
+  };
+}
+
+// ============================================================================
+// Store Selection & Retention
+// ============================================================================
+
+/**
+ * Default directory for the file store, shared with the document store
+ */
+const DEFAULT_STORE_DIR = path.join(process.cwd(), ".data", "documents");
+
+// Cached on globalThis for the same hot-reload reason as the document store
+const globalForStore = globalThis as unknown as {
+  snapshotStore?: SnapshotStore;
+};
+
+/**
+ * Returns the configured snapshot store, creating it on first use.
+ * Reads the same DOCUMENT_STORE / DOCUMENT_STORE_DIR settings as the
+ * document store so snapshots always live next to their documents.
+ *
+ * @returns {SnapshotStore} The shared store instance
+ */
+export function getSnapshotStore(): SnapshotStore {
+  if (!globalForStore.snapshotStore) {
+    globalForStore.snapshotStore =
+      process.env.DOCUMENT_STORE === "memory"
+        ? createMemorySnapshotStore()
+        : createFileSnapshotStore(
+            process.env.DOCUMENT_STORE_DIR || DEFAULT_STORE_DIR
+          );
+  }
+  return globalForStore.snapshotStore;
+}
+
+/**
+ * Adds a snapshot and then deletes the oldest snapshots of the same kind
+ * that exceed the retention limit.
+ *
+ * @param {SnapshotStore} store - The snapshot store
+ * @param {string} docId - The document the snapshot belongs to
+ * @param {SnapshotInput} input - The snapshot content
+ * @returns {Promise<Snapshot>} The stored snapshot
+ */
+export async function addSnapshot(
+  store: SnapshotStore,
+  docId: string,
+  input: SnapshotInput
+): Promise<Snapshot> {
+  const snapshot = await store.put(docId, input);
+
+  const sameKind = (await store.list(docId)).filter(
+    (summary) => summary.kind === input.kind
+  );
+  const expired = sameKind.slice(SNAPSHOT_RETENTION[input.kind]);
+  await Promise.all(expired.map((summary) => store.delete(docId, summary.id)));
+
+  return snapshot;
+}
@@ -0,0 +1,87 @@
+// ============================================================================
+// Static Document Styles
+// ============================================================================
+// Plain CSS for StaticDocument output. Shared by the share pages (injected
+// in a <style> tag) and the HTML bundle export (inlined into the file), so
+// published portfolios look the same wherever they are hosted. Deliberately
+// independent of Tailwind, which isn't available in the exported bundle.
+// ============================================================================
+
+export const STATIC_DOCUMENT_CSS = `
+.bn-static-page {
+  max-width: 760px;
+  margin: 0 auto;
+  padding: 48px 24px;
+  font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Helvetica, Arial, sans-serif;
+  color: #1f2937;
+  line-height: 1.6;
+}
+.bn-static-page > header { margin-bottom: 32px; }
+.bn-static-page > header h1 { font-size: 2.25rem; margin: 0; }
+.bn-static-page > header { display: flex; align-items: center; justify-content: space-between; gap: 16px; flex-wrap: wrap; }
+.bn-static-download { color: #2563eb; text-decoration: none; white-space: nowrap; }
+.bn-static-download:hover { text-decoration: underline; }
+.bn-static-back { display: inline-block; margin-bottom: 24px; color: #2563eb; text-decoration: none; }
+.bn-static-back:hover { text-decoration: underline; }
+
+.bn-static h1 { font-size: 2rem; margin: 1.2em 0 0.4em; }
+.bn-static h2 { font-size: 1.5rem; margin: 1.1em 0 0.4em; }
+.bn-static h3 { font-size: 1.25rem; margin: 1em 0 0.4em; }
+.bn-static h4, .bn-static h5, .bn-static h6 { font-size: 1rem; margin: 1em 0 0.4em; }
+.bn-static p { margin: 0.4em 0; min-height: 1em; }
+.bn-static a { color: #2563eb; }
+.bn-static ul, .bn-static ol { margin: 0.4em 0; padding-left: 1.5em; }
+.bn-static blockquote { margin: 0.6em 0; padding-left: 1em; border-left: 3px solid #d1d5db; color: #4b5563; }
+.bn-static pre { background: #1f2937; color: #f9fafb; padding: 12px 16px; border-radius: 6px; overflow-x: auto; }
+.bn-static code { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; font-size: 0.9em; }
+.bn-static :not(pre) > code { background: #f3f4f6; padding: 0.1em 0.3em; border-radius: 4px; }
+.bn-static figure { margin: 1em 0; }
+.bn-static figure img, .bn-static figure video { max-width: 100%; height: auto; border-radius: 6px; }
+.bn-static figcaption { font-size: 0.875rem; color: #6b7280; margin-top: 4px; }
+.bn-static-children { padding-left: 1.5em; }
+.bn-static-columns { display: flex; gap: 24px; margin: 0.6em 0; }
+.bn-static-column { min-width: 0; }
+.bn-static-column > .bn-static-block:first-child > .bn-static-card { margin-top: 0; }
+@media (max-width: 640px) {
+  .bn-static-columns { flex-direction: column; gap: 0; }
+}
+.bn-static-check { display: flex; gap: 8px; align-items: baseline; }
+.bn-static-table { border-collapse: collapse; margin: 1em 0; width: 100%; }
+.bn-static-table th, .bn-static-table td { border: 1px solid #d1d5db; padding: 6px 10px; text-align: left; }
+.bn-static-table th { background: #f9fafb; }
+
+.bn-static-card {
+  display: flex;
+  flex-direction: column;
+  margin: 1em 0;
+  border: 1px solid #e5e7eb;
+  border-radius: 8px;
+  overflow: hidden;
+  color: inherit !important;
+  text-decoration: none;
+  box-shadow: 0 1px 2px rgba(0, 0, 0, 0.05);
+  transition: box-shadow 0.15s;
+}
+.bn-static-card:hover { box-shadow: 0 4px 12px rgba(0, 0, 0, 0.1); }
+.bn-static-card img { width: 100%; max-height: 260px; object-fit: cover; }
+.bn-static-card-body { display: flex; flex-direction: column; gap: 4px; padding: 16px; }
+.bn-static-card-body strong { font-size: 1.125rem; }
+.bn-static-card-body > span { color: #6b7280; font-size: 0.9rem; }
+.bn-static-cover { width: 100%; max-height: 360px; object-fit: cover; border-radius: 8px; margin-bottom: 24px; }
+.bn-static-meta { display: flex; flex-wrap: wrap; gap: 4px; margin-top: 8px; }
+.bn-static-chip {
+  display: inline-block;
+  padding: 1px 8px;
+  border-radius: 9999px;
+  background: #f3f4f6;
+  color: #374151 !important;
+  font-size: 0.75rem;
+  text-decoration: none;
+}
+.bn-static-tag { background: #eff6ff; color: #1d4ed8 !important; border: 1px solid #bfdbfe; }
+.bn-static-status-planned { background: #f3e8ff; color: #6b21a8 !important; }
+.bn-static-status-in-progress { background: #fef9c3; color: #854d0e !important; }
+.bn-static-status-completed { background: #dcfce7; color: #166534 !important; }
+.bn-static-status-maintained { background: #dbeafe; color: #1e40af !important; }
+.bn-static-subtext { color: #6b7280; margin: 8px 0 0; }
+`;
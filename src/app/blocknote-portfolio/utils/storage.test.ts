@@ -0,0 +1,175 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { emptyCommentTable } from "./comments";
+import { CURRENT_SCHEMA_VERSION } from "./schemaMigrations";
+import {
+  clearEditorContent,
+  hasSavedContent,
+  loadEditorContent,
+  saveEditorContent,
+} from "./storage";
+import { emptySuggestionTable } from "./suggestions";
+
+const KEY = "blocknote-portfolio-content";
+
+/**
+ * A Map-backed stand-in for the browser's localStorage
+ */
+function createLocalStorage(): Storage {
+  const items = new Map<string, string>();
+  return {
+    get length() {
+      return items.size;
+    },
+    key: (index) => Array.from(items.keys())[index] ?? null,
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, String(value)),
+    removeItem: (key) => void items.delete(key),
+    clear: () => items.clear(),
+  };
+}
+
+const paragraph = (id: string, text: string) => ({
+  id,
+  type: "paragraph",
+  props: {},
+  content: [{ type: "text", text, styles: {} }],
+  children: [],
+});
+
+beforeEach(() => {
+  vi.stubGlobal("localStorage", createLocalStorage());
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("saveEditorContent / loadEditorContent", () => {
+  it("round-trips a document with its nested content", () => {
+    const document = [paragraph("p1", "Hello")] as any[];
+    const nestedContent = { card: [paragraph("p2", "Inside")] } as any;
+
+    expect(saveEditorContent(document, "default", nestedContent)).toBe(true);
+    const saved = JSON.parse(localStorage.getItem(KEY)!);
+    expect(saved.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+
+    expect(loadEditorContent()).toEqual({
+      document,
+      nestedContent,
+      comments: emptyCommentTable(),
+      suggestions: emptySuggestionTable(),
+    });
+  });
+
+  it("stores documents other than the default under their own key", () => {
+    saveEditorContent([paragraph("p1", "Other")] as any[], "resume");
+
+    expect(localStorage.getItem(`${KEY}:resume`)).not.toBeNull();
+    expect(localStorage.getItem(KEY)).toBeNull();
+    expect(hasSavedContent("resume")).toBe(true);
+    expect(hasSavedContent()).toBe(false);
+    expect(loadEditorContent("resume")!.document).toHaveLength(1);
+  });
+
+  it("returns null when nothing is saved", () => {
+    expect(loadEditorContent()).toBeNull();
+  });
+
+  it("upgrades a legacy bare array", () => {
+    localStorage.setItem(
+      KEY,
+      JSON.stringify([
+        paragraph("p1", "Hello"),
+        {
+          id: "card",
+          type: "projectCard",
+          props: {
+            title: "Site",
+            nestedContent: JSON.stringify([paragraph("p2", "Inside")]),
+          },
+          children: [],
+        },
+      ])
+    );
+
+    const loaded = loadEditorContent();
+    expect(loaded).not.toBeNull();
+    expect(loaded!.document).toHaveLength(2);
+    expect(loaded!.document[1].props).toMatchObject({
+      title: "Site",
+      subtext: "Project description",
+      status: "",
+    });
+    expect(loaded!.nestedContent).toEqual({ card: [paragraph("p2", "Inside")] });
+    expect(localStorage.getItem(`${KEY}:before-repair`)).toBeNull();
+  });
+
+  it("moves content that is not JSON to a backup key", () => {
+    localStorage.setItem(KEY, "{not json");
+
+    expect(loadEditorContent()).toBeNull();
+    expect(localStorage.getItem(KEY)).toBeNull();
+    expect(localStorage.getItem(`${KEY}:unreadable`)).toBe("{not json");
+  });
+
+  it("moves content that is not a document to a backup key", () => {
+    const serialized = JSON.stringify({ hello: "world" });
+    localStorage.setItem(KEY, serialized);
+
+    expect(loadEditorContent()).toBeNull();
+    expect(localStorage.getItem(KEY)).toBeNull();
+    expect(localStorage.getItem(`${KEY}:unreadable`)).toBe(serialized);
+  });
+
+  it("moves content from a newer app version to a backup key", () => {
+    const serialized = JSON.stringify({
+      schemaVersion: CURRENT_SCHEMA_VERSION + 1,
+      document: [paragraph("p1", "Future")],
+    });
+    localStorage.setItem(KEY, serialized);
+
+    expect(loadEditorContent()).toBeNull();
+    expect(localStorage.getItem(`${KEY}:unreadable`)).toBe(serialized);
+  });
+
+  it("repairs malformed blocks and keeps a backup of the original", () => {
+    const serialized = JSON.stringify({
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      savedAt: null,
+      document: [
+        paragraph("p1", "Kept"),
+        { id: "bad", type: "callout", props: {} },
+        { ...paragraph("p2", "Also kept"), props: { textAlignment: "sideways" } },
+      ],
+      nestedContent: {},
+    });
+    localStorage.setItem(KEY, serialized);
+
+    const loaded = loadEditorContent();
+    expect(loaded!.document.map((block) => block.id)).toEqual(["p1", "p2"]);
+    expect(loaded!.document[1].props).toEqual({ textAlignment: "left" });
+    expect(localStorage.getItem(KEY)).toBe(serialized);
+    expect(localStorage.getItem(`${KEY}:before-repair`)).toBe(serialized);
+  });
+
+  it("returns null for an empty document", () => {
+    saveEditorContent([], "default");
+
+    expect(loadEditorContent()).toBeNull();
+  });
+});
+
+describe("clearEditorContent", () => {
+  it("removes the saved document", () => {
+    saveEditorContent([paragraph("p1", "Hello")] as any[]);
+
+    expect(clearEditorContent()).toBe(true);
+    expect(hasSavedContent()).toBe(false);
+    expect(loadEditorContent()).toBeNull();
+  });
+});
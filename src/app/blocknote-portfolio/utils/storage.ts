@@ -4,34 +4,112 @@
 // Provides functions to save and load BlockNote editor content to/from
 // localStorage. Handles serialization and deserialization of the complete
 // document structure, including custom ProjectCard blocks with nested content.
+//
+// The server API (see documentApi.ts) is the primary persistence layer; this
+// localStorage copy is kept as an offline fallback.
+//
+// Documents are stored inside a versioned envelope (see schemaMigrations.ts)
+// so saves from older app versions are upgraded rather than discarded, and
+// malformed blocks are repaired on load (see documentValidation.ts).
 // ============================================================================
 
+import type { PortfolioBlock } from "../components/schema";
+import type { CommentTable } from "./comments";
+import { DEFAULT_DOCUMENT_ID } from "./documentApi";
+import { formatValidationIssues, repairContent } from "./documentValidation";
+import type { NestedContentTable } from "./nestedContent";
+import type { SuggestionTable } from "./suggestions";
+import {
+  createEnvelope,
+  readEnvelope,
+  type SavedContent,
+} from "./schemaMigrations";
+
 /**
- * Storage key for the editor content in localStorage
+ * Storage key prefix for editor content in localStorage
  */
 const STORAGE_KEY = "blocknote-portfolio-content";
 
+/**
+ * Returns the localStorage key for a document.
+ *
+ * The default document keeps the original un-suffixed key so content saved
+ * before multiple documents existed is still found.
+ *
+ * @param {string} docId - The document id
+ * @returns {string} The localStorage key
+ */
+function storageKey(docId: string): string {
+  return docId === DEFAULT_DOCUMENT_ID ? STORAGE_KEY : `${STORAGE_KEY}:${docId}`;
+}
+
+/**
+ * Moves unreadable saved data aside to a backup key so it can still be
+ * recovered by hand instead of being deleted.
+ *
+ * @param {string} docId - The document id
+ * @param {string} serialized - The raw saved string
+ */
+function backupUnreadableContent(docId: string, serialized: string): void {
+  try {
+    localStorage.setItem(`${storageKey(docId)}:unreadable`, serialized);
+    localStorage.removeItem(storageKey(docId));
+    console.warn("⚠️ Unreadable saved content moved to backup key");
+  } catch (error) {
+    console.error("❌ Failed to back up unreadable content:", error);
+  }
+}
+
+/**
+ * Keeps a copy of saved data that needed repairs, so anything dropped while
+ * repairing can still be recovered by hand.
+ *
+ * @param {string} docId - The document id
+ * @param {string} serialized - The raw saved string
+ */
+function backupRepairedContent(docId: string, serialized: string): void {
+  try {
+    localStorage.setItem(`${storageKey(docId)}:before-repair`, serialized);
+  } catch (error) {
+    console.error("❌ Failed to back up content before repair:", error);
+  }
+}
+
 /**
  * Saves the complete BlockNote editor document to localStorage.
  * 
- * The document is serialized to JSON and stored persistently. This includes
- * all blocks, their properties, and any custom block data (like ProjectCard
- * nested content).
+ * The document is wrapped in a versioned envelope, serialized to JSON and
+ * stored persistently. This includes all blocks, their properties, and the
+ * side tables of ProjectCard nested documents, comment threads and
+ * suggestions.
  * 
- * @param {any[]} document - The BlockNote document array to save
+ * @param {PortfolioBlock[]} document - The BlockNote document array to save
+ * @param {string} docId - The document id (defaults to the default document)
+ * @param {NestedContentTable} nestedContent - ProjectCard documents by block id
+ * @param {CommentTable} comments - Comment threads about the document
+ * @param {SuggestionTable} suggestions - Pending suggested changes to it
  * @returns {boolean} True if save was successful, false otherwise
  * 
  * @example
  * const document = editor.document;
- * const success = saveEditorContent(document);
+ * const nested = getNestedContentStore(editor).toTable(document);
+ * const success = saveEditorContent(document, "default", nested);
  * if (success) {
  *   console.log("Content saved successfully");
  * }
  */
-export function saveEditorContent(document: any[]): boolean {
+export function saveEditorContent(
+  document: PortfolioBlock[],
+  docId: string = DEFAULT_DOCUMENT_ID,
+  nestedContent: NestedContentTable = {},
+  comments?: CommentTable,
+  suggestions?: SuggestionTable
+): boolean {
   try {
-    const serialized = JSON.stringify(document);
-    localStorage.setItem(STORAGE_KEY, serialized);
+    const serialized = JSON.stringify(
+      createEnvelope(document, nestedContent, comments, suggestions)
+    );
+    localStorage.setItem(storageKey(docId), serialized);
     console.log("✅ Editor content saved to localStorage");
     return true;
   } catch (error) {
@@ -43,45 +121,65 @@ export function saveEditorContent(document: any[]): boolean {
 /**
  * Loads the BlockNote editor document from localStorage.
  * 
- * Retrieves the previously saved document and deserializes it back into
- * the BlockNote document structure. Returns null if no saved content exists.
+ * Retrieves the previously saved envelope, upgrades it to the current schema
+ * version if needed, and returns the BlockNote document together with its
+ * ProjectCard nested documents, comment threads and suggestions. Returns null if no saved content exists.
+ * Unreadable content is moved to a backup key rather than deleted; malformed
+ * blocks are repaired, keeping a backup of the original.
  * 
- * @returns {any[] | null} The loaded document array, or null if not found
+ * @param {string} docId - The document id (defaults to the default document)
+ * @returns {SavedContent | null} The loaded content, or null if not found
  * 
  * @example
- * const savedContent = loadEditorContent();
+ * const saved = loadEditorContent();
  * const editor = useCreateBlockNote({
- *   initialContent: savedContent || defaultContent
+ *   initialContent: saved?.document || defaultContent
  * });
  */
-export function loadEditorContent(): any[] | null {
+export function loadEditorContent(
+  docId: string = DEFAULT_DOCUMENT_ID
+): SavedContent | null {
   try {
-    const serialized = localStorage.getItem(STORAGE_KEY);
+    const serialized = localStorage.getItem(storageKey(docId));
     if (!serialized) {
       console.log("ℹ️ No saved editor content found");
       return null;
     }
-    const document = JSON.parse(serialized);
-    
-    // Validate that the loaded data is an array
-    if (!Array.isArray(document)) {
-      console.error("❌ Loaded content is not an array, clearing corrupted data");
-      clearEditorContent();
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(serialized);
+    } catch (error) {
+      console.error("❌ Saved content is not valid JSON:", error);
+      backupUnreadableContent(docId, serialized);
+      return null;
+    }
+
+    // Upgrade older saves (including legacy bare arrays) to the current schema
+    const envelope = readEnvelope(parsed);
+    if (!envelope) {
+      backupUnreadableContent(docId, serialized);
       return null;
     }
+
+    const { content, issues } = repairContent(envelope);
+    if (issues.length > 0) {
+      console.warn(
+        `⚠️ Repaired ${issues.length} problem(s) in saved content:\n${formatValidationIssues(issues)}`
+      );
+      backupRepairedContent(docId, serialized);
+    }
     
-    // Validate that the array is not empty
-    if (document.length === 0) {
+    // Validate that the document is not empty
+    if (content.document.length === 0) {
       console.warn("⚠️ Loaded content is an empty array");
       return null;
     }
     
     console.log("✅ Editor content loaded from localStorage");
-    return document;
+    return { ...content, comments: envelope.comments, suggestions: envelope.suggestions };
   } catch (error) {
     console.error("❌ Failed to load editor content:", error);
-    // Clear corrupted data
-    clearEditorContent();
     return null;
   }
 }
@@ -92,6 +190,7 @@ export function loadEditorContent(): any[] | null {
  * Useful for resetting the editor to a clean state or for implementing
  * a "clear all" feature.
  * 
+ * @param {string} docId - The document id (defaults to the default document)
  * @returns {boolean} True if clear was successful, false otherwise
  * 
  * @example
@@ -99,9 +198,11 @@ export function loadEditorContent(): any[] | null {
  *   console.log("Content cleared, editor reset");
  * }
  */
-export function clearEditorContent(): boolean {
+export function clearEditorContent(
+  docId: string = DEFAULT_DOCUMENT_ID
+): boolean {
   try {
-    localStorage.removeItem(STORAGE_KEY);
+    localStorage.removeItem(storageKey(docId));
     console.log("✅ Editor content cleared from localStorage");
     return true;
   } catch (error) {
@@ -113,11 +214,12 @@ export function clearEditorContent(): boolean {
 /**
  * Checks if there is saved editor content in localStorage.
  * 
+ * @param {string} docId - The document id (defaults to the default document)
  * @returns {boolean} True if saved content exists, false otherwise
  */
-export function hasSavedContent(): boolean {
+export function hasSavedContent(docId: string = DEFAULT_DOCUMENT_ID): boolean {
   try {
-    const serialized = localStorage.getItem(STORAGE_KEY);
+    const serialized = localStorage.getItem(storageKey(docId));
     return serialized !== null && serialized.trim() !== "";
   } catch (error) {
     return false;
@@ -0,0 +1,669 @@
+// ============================================================================
+// Suggestion Mode
+// ============================================================================
+// Runtime side of suggested changes (see suggestions.ts for the persisted
+// form). Edits are turned into suggestions by
+// @handlewithcare/prosemirror-suggest-changes, whose insertion, deletion and
+// modification marks BlockNote's schema already has:
+//
+// - Every editor, main or nested, gets the library's plugin through the
+//   `extensions` option; it draws the marks' paragraph breaks.
+// - trackSuggestedChanges() puts the library's transform in front of an
+//   editor's dispatch. While suggestion mode is on, the user's edits are
+//   rewritten into suggestions; loading content, collaborators' changes and
+//   undo/redo pass through unchanged.
+// - One ReviewSuggestions object per portfolio document holds the mode and
+//   the marks of every document in it, which editors report with
+//   collectSuggestionMarks() as they change and get back with
+//   applySuggestionMarks() when a document is opened, like comment ranges.
+// ============================================================================
+
+import { BlockNoteExtension, type BlockNoteEditor } from "@blocknote/core";
+import {
+  applySuggestion,
+  applySuggestions,
+  revertSuggestion,
+  revertSuggestions,
+  selectSuggestion,
+  suggestChanges,
+  suggestChangesKey,
+  transformToSuggestionTransaction,
+} from "@handlewithcare/prosemirror-suggest-changes";
+
+import {
+  SUGGESTION_MARK_TYPES,
+  emptySuggestionTable,
+  type StoredSuggestionMark,
+  type SuggestionTable,
+} from "./suggestions";
+
+type Transaction = Parameters<typeof transformToSuggestionTransaction>[0];
+
+/**
+ * Props whose changes are bookkeeping rather than edits, and never
+ * suggested: a card's content revision changes with every modal session.
+ */
+const UNTRACKED_ATTRS = new Set(["contentRevision"]);
+
+const COMMENT_MARK = "comment";
+
+/**
+ * Suggestion modes and pending suggestions of one portfolio document
+ */
+export interface ReviewSuggestions {
+  /** Whether edits are currently suggested rather than made */
+  isSuggesting(): boolean;
+  /** Switches suggestion mode, for the main editor and every card */
+  setSuggesting(suggesting: boolean): void;
+  /** Replaces the suggestion marks of a document: the main one (null) or a card's */
+  setMarks(cardId: string | null, marks: StoredSuggestionMark[]): void;
+  /** Returns the suggestion marks of a document */
+  getMarks(cardId: string | null): StoredSuggestionMark[];
+  /** Returns the number of pending suggestions in a document */
+  countPending(cardId: string | null): number;
+  /** Returns a plain table of all suggestion marks, to persist */
+  toTable(): SuggestionTable;
+  /**
+   * Returns the marks of every document as a key/value entry, for sharing
+   * with collaborators. Keys are `document` and `card:<id>`.
+   */
+  entries(): Array<[string, unknown]>;
+  /** Returns one entry's value, or undefined if there is none */
+  getEntry(key: string): unknown;
+  /** Applies an entry received from a collaborator; undefined removes it */
+  applyEntry(key: string, value: unknown): void;
+  /**
+   * Registers a listener called with the key of every changed entry, or
+   * null when suggestion mode is switched; returns an unsubscribe
+   */
+  subscribe(listener: (key: string | null) => void): () => void;
+}
+
+/**
+ * A pending suggestion, as listed for review
+ * - inserted/deleted: text it adds or removes
+ * - insertedBlocks/deletedBlocks: whole blocks it adds or removes
+ * - changes: props it changes
+ */
+export interface PendingSuggestion {
+  id: number | string;
+  inserted: string;
+  deleted: string;
+  insertedBlocks: number;
+  deletedBlocks: number;
+  changes: PropChange[];
+}
+
+/**
+ * A block prop (or block type, as `type`) changed by a suggestion
+ */
+export interface PropChange {
+  suggestionId: number | string;
+  blockId: string;
+  blockType: string;
+  attrName: string;
+  previousValue: unknown;
+  newValue: unknown;
+}
+
+// ============================================================================
+// Review Suggestions
+// ============================================================================
+
+const entryKey = (cardId: string | null) => (cardId ? `card:${cardId}` : "document");
+
+/**
+ * Returns the number of distinct suggestions among a document's marks.
+ */
+function countSuggestions(marks: StoredSuggestionMark[]): number {
+  return new Set(marks.map(({ mark }) => mark.attrs.id)).size;
+}
+
+/**
+ * Creates the suggestions of a portfolio document, optionally seeded from
+ * its persisted table. Suggestion mode starts off.
+ *
+ * @param {SuggestionTable} table - Persisted table to start from
+ * @returns {ReviewSuggestions} The suggestions
+ *
+ * @example
+ * const suggestions = createReviewSuggestions(loaded.suggestions);
+ * suggestions.setSuggesting(true); // edits from now on are suggestions
+ */
+export function createReviewSuggestions(
+  table: SuggestionTable = emptySuggestionTable()
+): ReviewSuggestions {
+  const marksByKey = new Map<string, StoredSuggestionMark[]>();
+  if (table.document.length > 0) marksByKey.set(entryKey(null), table.document);
+  Object.entries(table.cards).forEach(([cardId, marks]) =>
+    marksByKey.set(entryKey(cardId), marks)
+  );
+
+  let suggesting = false;
+  const listeners = new Set<(key: string | null) => void>();
+  const notify = (key: string | null) => listeners.forEach((listener) => listener(key));
+
+  const setEntry = (key: string, marks: StoredSuggestionMark[] | undefined) => {
+    const next = marks && marks.length > 0 ? marks : undefined;
+    if (JSON.stringify(next) === JSON.stringify(marksByKey.get(key))) return;
+    if (next) marksByKey.set(key, next);
+    else marksByKey.delete(key);
+    notify(key);
+  };
+
+  return {
+    isSuggesting: () => suggesting,
+    setSuggesting(next) {
+      if (next === suggesting) return;
+      suggesting = next;
+      notify(null);
+    },
+    setMarks(cardId, marks) {
+      setEntry(entryKey(cardId), marks);
+    },
+    getMarks(cardId) {
+      return marksByKey.get(entryKey(cardId)) ?? [];
+    },
+    countPending(cardId) {
+      return countSuggestions(marksByKey.get(entryKey(cardId)) ?? []);
+    },
+    toTable() {
+      const result = emptySuggestionTable();
+      marksByKey.forEach((marks, key) => {
+        if (key === entryKey(null)) result.document = marks;
+        else result.cards[key.slice("card:".length)] = marks;
+      });
+      return result;
+    },
+    entries() {
+      return Array.from(marksByKey.entries());
+    },
+    getEntry(key) {
+      return marksByKey.get(key);
+    },
+    applyEntry(key, value) {
+      if (key !== entryKey(null) && !key.startsWith("card:")) {
+        console.warn(`⚠️ Ignoring unknown suggestion entry ${key}`);
+        return;
+      }
+      setEntry(key, Array.isArray(value) ? (value as StoredSuggestionMark[]) : undefined);
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+// Suggestions are keyed by the main editor instance, like comment threads,
+// so card renderers can find the suggestions of their document.
+const suggestionsByEditor = new WeakMap<object, ReviewSuggestions>();
+
+/**
+ * Records the suggestions an editor was created with.
+ *
+ * @param {object} editor - The main BlockNote editor
+ * @param {ReviewSuggestions} suggestions - Its document's suggestions
+ */
+export function attachReviewSuggestions(editor: object, suggestions: ReviewSuggestions): void {
+  suggestionsByEditor.set(editor, suggestions);
+}
+
+/**
+ * Returns the suggestions attached to an editor, attaching empty ones if
+ * the editor has none (e.g. read-only previews).
+ *
+ * @param {object} editor - The main BlockNote editor
+ * @returns {ReviewSuggestions} The suggestions
+ */
+export function getReviewSuggestions(editor: object): ReviewSuggestions {
+  let suggestions = suggestionsByEditor.get(editor);
+  if (!suggestions) {
+    suggestions = createReviewSuggestions();
+    suggestionsByEditor.set(editor, suggestions);
+  }
+  return suggestions;
+}
+
+// ============================================================================
+// Tracking Edits
+// ============================================================================
+
+/**
+ * Adds the suggestion plugin to an editor
+ */
+class SuggestChangesExtension extends BlockNoteExtension {
+  public static key() {
+    return "suggestChanges";
+  }
+
+  constructor() {
+    super();
+    this.addProsemirrorPlugin(suggestChanges());
+  }
+}
+
+/**
+ * Returns the extension that lets an editor show suggestions, for its
+ * `extensions` option. Every editor needs its own.
+ *
+ * @returns {BlockNoteExtension} The extension
+ */
+export function createSuggestionExtension(): BlockNoteExtension {
+  return new SuggestChangesExtension();
+}
+
+/**
+ * Returns whether a transaction is an edit by the user, to be suggested
+ * rather than made. Loading content and putting marks back (kept out of
+ * the undo history), undo/redo, collaborators' changes, resolving
+ * suggestions and commenting are left alone.
+ */
+function isSuggestableEdit(tr: Transaction): boolean {
+  if (!tr.docChanged) return false;
+  if (tr.getMeta("addToHistory") === false || tr.getMeta("history$")) return false;
+
+  const ySync = tr.getMeta("y-sync$") ?? {};
+  if (ySync.isChangeOrigin || ySync.isUndoRedoOperation) return false;
+  if (tr.getMeta(suggestChangesKey)?.skip) return false;
+
+  return !tr.steps.every((step) => {
+    const json = step.toJSON();
+    return (
+      (json.stepType === "addMark" || json.stepType === "removeMark") &&
+      json.mark?.type === COMMENT_MARK
+    );
+  });
+}
+
+const isAttrModification = (mark: any, attrName?: string) =>
+  mark.type.name === "modification" &&
+  mark.attrs.type === "attr" &&
+  (attrName === undefined || mark.attrs.attrName === attrName);
+
+/**
+ * Tidies the modification marks of a suggestion transaction:
+ * - changes to untracked props aren't suggested;
+ * - a prop changed again keeps the value from before its first change
+ *   (the library records the value it had just before), and a prop
+ *   changed back to that value is no longer a suggestion.
+ */
+function tidyModifications(before: any, tracked: Transaction): void {
+  const originals: { pos: number; attrName: string; previousValue: unknown }[] = [];
+  before.descendants((node: any, pos: number) => {
+    node.marks.forEach((mark: any) => {
+      if (isAttrModification(mark)) {
+        originals.push({ pos, attrName: mark.attrs.attrName, previousValue: mark.attrs.previousValue });
+      }
+    });
+    return !node.isTextblock;
+  });
+
+  originals.forEach(({ pos, attrName, previousValue }) => {
+    const mapped = tracked.mapping.map(pos, -1);
+    const node = tracked.doc.nodeAt(mapped);
+    const mark = node?.marks.find((candidate: any) => isAttrModification(candidate, attrName));
+    if (!node || !mark || mark.attrs.previousValue === previousValue) return;
+
+    tracked.removeNodeMark(mapped, mark);
+    if (node.attrs[attrName] !== previousValue) {
+      tracked.addNodeMark(mapped, mark.type.create({ ...mark.attrs, previousValue }));
+    }
+  });
+
+  tracked.doc.descendants((node: any, pos: number) => {
+    node.marks
+      .filter((mark: any) => isAttrModification(mark) && UNTRACKED_ATTRS.has(mark.attrs.attrName))
+      .forEach((mark: any) => tracked.removeNodeMark(pos, mark));
+    return !node.isTextblock;
+  });
+}
+
+const trackedEditors = new WeakSet<object>();
+
+/**
+ * Makes an editor's edits suggestions while suggestion mode is on. Call
+ * before the editor is mounted, once per editor; the editor must have been
+ * created with createSuggestionExtension().
+ *
+ * @param {BlockNoteEditor} editor - A main or nested editor
+ * @param {ReviewSuggestions} suggestions - The document's suggestions
+ *
+ * @example
+ * const editor = useCreateBlockNote({ extensions: [createSuggestionExtension()] });
+ * trackSuggestedChanges(editor, suggestions);
+ */
+export function trackSuggestedChanges(
+  editor: BlockNoteEditor<any, any, any>,
+  suggestions: ReviewSuggestions
+): void {
+  if (trackedEditors.has(editor)) return;
+  trackedEditors.add(editor);
+
+  // The view dispatches through this method too, once it is created on mount
+  const tiptap = editor._tiptapEditor as any;
+  const dispatch = tiptap.dispatch.bind(tiptap);
+  tiptap.dispatch = (tr: Transaction) => {
+    // Transactions being captured are dispatched again once complete
+    if (!suggestions.isSuggesting() || tiptap.isCapturingTransaction || !isSuggestableEdit(tr)) {
+      dispatch(tr);
+      return;
+    }
+    const tracked = transformToSuggestionTransaction(tr, tiptap.state);
+    tidyModifications(tiptap.state.doc, tracked);
+    dispatch(tracked);
+  };
+}
+
+// ============================================================================
+// Suggestion Marks
+// ============================================================================
+
+const SUGGESTION_MARKS = new Set<string>(SUGGESTION_MARK_TYPES);
+
+/**
+ * Calls back with every node of a document, its position, the nearest block
+ * (or column) with an id it is in or is, and the ids of the insertions and
+ * deletions of the block-level nodes around it.
+ */
+function walkDocument(
+  doc: any,
+  callback: (
+    node: any,
+    pos: number,
+    anchor: { id: string; pos: number } | null,
+    inherited: any[]
+  ) => void
+): void {
+  const visit = (node: any, pos: number, anchor: { id: string; pos: number } | null, inherited: any[]) => {
+    const here = typeof node.attrs.id === "string" && node.attrs.id ? { id: node.attrs.id, pos } : anchor;
+    callback(node, pos, here, inherited);
+    if (node.isLeaf) return;
+
+    const marks = node.isInline
+      ? inherited
+      : [...inherited, ...node.marks.filter((mark: any) => mark.type.name !== "modification" && SUGGESTION_MARKS.has(mark.type.name))];
+    node.forEach((child: any, offset: number) => visit(child, pos + 1 + offset, here, marks));
+  };
+  doc.forEach((child: any, offset: number) => visit(child, offset, null, []));
+}
+
+/**
+ * Returns the suggestion marks in an editor, located relative to their
+ * blocks.
+ *
+ * @param {BlockNoteEditor} editor - A main or nested editor
+ * @returns {StoredSuggestionMark[]} The marks, in document order
+ */
+export function collectSuggestionMarks(editor: BlockNoteEditor<any, any, any>): StoredSuggestionMark[] {
+  const marks: StoredSuggestionMark[] = [];
+
+  walkDocument(editor.prosemirrorState.doc, (node, pos, anchor) => {
+    if (!anchor) return;
+    node.marks.forEach((mark: any) => {
+      if (!SUGGESTION_MARKS.has(mark.type.name)) return;
+      const json = mark.toJSON();
+      const from = pos - anchor.pos;
+
+      if (!node.isInline) {
+        marks.push({ blockId: anchor.id, from, mark: json });
+        return;
+      }
+      // Text split by other marks continues the same range
+      const to = from + node.nodeSize;
+      const last = marks[marks.length - 1];
+      if (
+        last?.to === from &&
+        last.blockId === anchor.id &&
+        JSON.stringify(last.mark) === JSON.stringify(json)
+      ) {
+        last.to = to;
+      } else {
+        marks.push({ blockId: anchor.id, from, to, mark: json });
+      }
+    });
+  });
+
+  return marks;
+}
+
+/**
+ * Puts suggestion marks back in an editor whose document was just opened.
+ * Marks that no longer fit their block are skipped. Not an undo step.
+ *
+ * @param {BlockNoteEditor} editor - A main or nested editor
+ * @param {StoredSuggestionMark[]} marks - The document's marks, from getMarks()
+ */
+export function applySuggestionMarks(
+  editor: BlockNoteEditor<any, any, any>,
+  marks: StoredSuggestionMark[]
+): void {
+  if (marks.length === 0) return;
+
+  editor.transact((tr) => {
+    tr.setMeta("addToHistory", false);
+    const { schema } = tr.doc.type;
+
+    const blocks = new Map<string, { pos: number; end: number }>();
+    walkDocument(tr.doc, (node, pos, anchor) => {
+      if (anchor?.pos === pos) blocks.set(anchor.id, { pos, end: pos + node.nodeSize });
+    });
+
+    let skipped = 0;
+    marks.forEach(({ blockId, from, to, mark }) => {
+      const block = blocks.get(blockId);
+      const start = block ? block.pos + from : -1;
+      try {
+        if (!block || (to ?? from) + block.pos > block.end) throw new Error("out of range");
+        if (to === undefined) {
+          const node = tr.doc.nodeAt(start);
+          if (!node || node.isInline) throw new Error("not a node");
+          tr.addNodeMark(start, schema.markFromJSON(mark));
+        } else {
+          tr.addMark(start, block.pos + to, schema.markFromJSON(mark));
+        }
+      } catch {
+        skipped++;
+      }
+    });
+    if (skipped > 0) {
+      console.warn(`⚠️ Skipped ${skipped} suggestion mark(s) that no longer fit the document`);
+    }
+  });
+}
+
+// ============================================================================
+// Reviewing
+// ============================================================================
+
+/**
+ * Lists the pending suggestions in an editor, in document order.
+ *
+ * @param {BlockNoteEditor} editor - A main or nested editor
+ * @returns {PendingSuggestion[]} The suggestions
+ */
+export function listSuggestions(editor: BlockNoteEditor<any, any, any>): PendingSuggestion[] {
+  const byId = new Map<number | string, PendingSuggestion>();
+  const suggestionOf = (id: number | string) => {
+    let suggestion = byId.get(id);
+    if (!suggestion) {
+      suggestion = { id, inserted: "", deleted: "", insertedBlocks: 0, deletedBlocks: 0, changes: [] };
+      byId.set(id, suggestion);
+    }
+    return suggestion;
+  };
+
+  walkDocument(editor.prosemirrorState.doc, (node, _pos, anchor, inherited) => {
+    const own = node.marks.filter((mark: any) => SUGGESTION_MARKS.has(mark.type.name));
+
+    own.forEach((mark: any) => {
+      const suggestion = suggestionOf(mark.attrs.id);
+      if (mark.type.name === "modification") {
+        if (mark.attrs.type !== "attr" && mark.attrs.type !== "nodeType") return;
+        suggestion.changes.push({
+          suggestionId: mark.attrs.id,
+          blockId: anchor?.id ?? "",
+          blockType: node.type.name,
+          attrName: mark.attrs.type === "attr" ? mark.attrs.attrName : "type",
+          previousValue: mark.attrs.previousValue,
+          newValue: mark.attrs.newValue,
+        });
+      } else if (node.type.name === "blockContainer") {
+        if (mark.type.name === "insertion") suggestion.insertedBlocks++;
+        else suggestion.deletedBlocks++;
+      }
+    });
+
+    if (!node.isText) return;
+    // Text is counted under its own mark, or else the mark of its block
+    const mark =
+      own.find((candidate: any) => candidate.type.name !== "modification") ??
+      inherited[inherited.length - 1];
+    if (!mark) return;
+    const text = node.text.replace(/\u200B/g, "");
+    if (mark.type.name === "insertion") suggestionOf(mark.attrs.id).inserted += text;
+    else suggestionOf(mark.attrs.id).deleted += text;
+  });
+
+  return Array.from(byId.values());
+}
+
+/**
+ * Returns the prop changes suggested for one block, e.g. a ProjectCard.
+ *
+ * @param {BlockNoteEditor} editor - The editor the block is in
+ * @param {string} blockId - The block
+ * @returns {PropChange[]} The changes
+ */
+export function getSuggestedPropChanges(
+  editor: BlockNoteEditor<any, any, any>,
+  blockId: string
+): PropChange[] {
+  return listSuggestions(editor).flatMap(({ changes }) =>
+    changes.filter((change) => change.blockId === blockId)
+  );
+}
+
+/**
+ * Returns the range a suggestion's insertion and deletion marks cover, or
+ * null if it only changes props.
+ */
+function contentExtent(doc: any, id: number | string): { from: number; to: number } | null {
+  let from = -1;
+  let to = -1;
+  doc.descendants((node: any, pos: number) => {
+    const marked = node.marks.some(
+      (mark: any) =>
+        mark.type.name !== "modification" &&
+        SUGGESTION_MARKS.has(mark.type.name) &&
+        mark.attrs.id === id
+    );
+    if (marked) {
+      if (from < 0) from = pos;
+      to = Math.max(to, pos + node.nodeSize);
+    }
+    return true;
+  });
+  return from < 0 ? null : { from, to };
+}
+
+/**
+ * Accepts or rejects a suggestion's prop changes. Rejecting one puts the
+ * previous value back.
+ */
+function resolveModifications(tr: Transaction, id: number | string, accept: boolean): void {
+  const found: { pos: number; node: any; mark: any }[] = [];
+  tr.doc.descendants((node: any, pos: number) => {
+    node.marks.forEach((mark: any) => {
+      if (mark.type.name === "modification" && mark.attrs.id === id) found.push({ pos, node, mark });
+    });
+    return true;
+  });
+
+  found.forEach(({ pos, node, mark }) => {
+    if (!accept && mark.attrs.type === "attr") {
+      tr.setNodeAttribute(pos, mark.attrs.attrName, mark.attrs.previousValue);
+    } else if (!accept && mark.attrs.type === "nodeType") {
+      const type = tr.doc.type.schema.nodes[mark.attrs.previousValue];
+      if (type) tr.setNodeMarkup(pos, type, node.attrs);
+    }
+    tr.removeNodeMark(pos, mark);
+  });
+}
+
+/**
+ * Accepts or rejects one suggestion as one undo step.
+ */
+function resolveSuggestion(
+  editor: BlockNoteEditor<any, any, any>,
+  id: number | string,
+  accept: boolean
+): boolean {
+  return editor.exec((state, dispatch) => {
+    let tr = state.tr;
+    const extent = contentExtent(state.doc, id);
+    if (extent) {
+      const command = accept
+        ? applySuggestion(id, extent.from, extent.to)
+        : revertSuggestion(id, extent.from, extent.to);
+      command(state, (resolved) => {
+        tr = resolved;
+      });
+    }
+    resolveModifications(tr, id, accept);
+    if (!tr.docChanged) return false;
+
+    tr.setMeta(suggestChangesKey, { skip: true });
+    dispatch?.(tr);
+    return true;
+  });
+}
+
+/**
+ * Accepts a suggestion: its insertions stay, its deletions are removed and
+ * its prop changes are kept.
+ *
+ * @param {BlockNoteEditor} editor - The editor the suggestion is in
+ * @param {number | string} id - The suggestion
+ * @returns {boolean} False if there is no such suggestion
+ */
+export function acceptSuggestion(editor: BlockNoteEditor<any, any, any>, id: number | string): boolean {
+  return resolveSuggestion(editor, id, true);
+}
+
+/**
+ * Rejects a suggestion: its insertions are removed, its deletions stay and
+ * its prop changes are undone.
+ *
+ * @param {BlockNoteEditor} editor - The editor the suggestion is in
+ * @param {number | string} id - The suggestion
+ * @returns {boolean} False if there is no such suggestion
+ */
+export function rejectSuggestion(editor: BlockNoteEditor<any, any, any>, id: number | string): boolean {
+  return resolveSuggestion(editor, id, false);
+}
+
+/**
+ * Accepts or rejects every suggestion in an editor, as one undo step.
+ *
+ * @param {BlockNoteEditor} editor - A main or nested editor
+ * @param {boolean} accept - True to accept, false to reject
+ */
+export function resolveAllSuggestions(editor: BlockNoteEditor<any, any, any>, accept: boolean): void {
+  editor.exec(accept ? applySuggestions : revertSuggestions);
+}
+
+/**
+ * Selects and scrolls to the content of a suggestion. Does nothing for
+ * suggestions that only change props.
+ *
+ * @param {BlockNoteEditor} editor - The editor the suggestion is in
+ * @param {number | string} id - The suggestion
+ */
+export function selectSuggestedContent(editor: BlockNoteEditor<any, any, any>, id: number | string): void {
+  if (contentExtent(editor.prosemirrorState.doc, id)) {
+    editor.exec(selectSuggestion(id));
+  }
+}
@@ -0,0 +1,320 @@
+// @vitest-environment jsdom
+import { BlockNoteEditor } from "@blocknote/core";
+import { describe, expect, it } from "vitest";
+
+import {
+  schema,
+  type PartialPortfolioBlock,
+  type PortfolioBlock,
+  type PortfolioEditor,
+} from "../components/schema";
+import type { EditorContent } from "./schemaMigrations";
+import {
+  applySuggestionMarks,
+  collectSuggestionMarks,
+  createReviewSuggestions,
+  createSuggestionExtension,
+  resolveAllSuggestions,
+  trackSuggestedChanges,
+} from "./suggestionMode";
+import {
+  emptySuggestionTable,
+  hasPendingSuggestions,
+  resolveSuggestedContent,
+  type StoredSuggestionMark,
+} from "./suggestions";
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const createEditor = (initialContent: PartialPortfolioBlock[]) =>
+  BlockNoteEditor.create({
+    schema,
+    extensions: [createSuggestionExtension()],
+    initialContent,
+  }) as unknown as PortfolioEditor;
+
+/**
+ * Makes edits to a document in suggestion mode and returns the document
+ * with its suggestion marks, as saved.
+ */
+function suggest(
+  initialContent: PartialPortfolioBlock[],
+  edit: (editor: PortfolioEditor) => void
+) {
+  const editor = createEditor(initialContent);
+  const suggestions = createReviewSuggestions();
+  trackSuggestedChanges(editor, suggestions);
+  suggestions.setSuggesting(true);
+  edit(editor);
+  return { document: editor.document, marks: collectSuggestionMarks(editor) };
+}
+
+/**
+ * Resolves a saved document's suggestions in an editor.
+ */
+function resolveInEditor(
+  document: PortfolioBlock[],
+  marks: StoredSuggestionMark[],
+  accept: boolean
+): PortfolioBlock[] {
+  const editor = createEditor(document);
+  applySuggestionMarks(editor, marks);
+  resolveAllSuggestions(editor, accept);
+  return editor.document;
+}
+
+/**
+ * Resolves a saved document's suggestions from its JSON.
+ */
+function resolveStored(
+  document: PortfolioBlock[],
+  marks: StoredSuggestionMark[],
+  accept: boolean
+): PortfolioBlock[] {
+  const content: EditorContent = { document, nestedContent: {} };
+  return resolveSuggestedContent(content, { document: marks, cards: {} }, accept).document;
+}
+
+const inlineText = (content: PortfolioBlock["content"]): string =>
+  Array.isArray(content)
+    ? content.map((run) => (run.type === "link" ? inlineText(run.content) : run.text)).join("")
+    : "";
+
+/**
+ * The type, text and props of a block, with its children
+ */
+interface BlockSummary {
+  type: string;
+  text: string | string[][];
+  props: PortfolioBlock["props"];
+  children: BlockSummary[];
+}
+
+function summarize(blocks: PortfolioBlock[]): BlockSummary[] {
+  return blocks.map((block) => ({
+    type: block.type,
+    text:
+      block.content && "type" in block.content
+        ? block.content.rows.map((row) =>
+            row.cells.map((cell) => inlineText(Array.isArray(cell) ? cell : cell.content))
+          )
+        : inlineText(block.content),
+    props: block.props,
+    children: summarize(block.children),
+  }));
+}
+
+/**
+ * Checks that resolving from JSON matches the editor, both ways.
+ */
+function expectSameAsEditor(document: PortfolioBlock[], marks: StoredSuggestionMark[]) {
+  for (const accept of [false, true]) {
+    expect(summarize(resolveStored(document, marks, accept))).toEqual(
+      summarize(resolveInEditor(document, marks, accept))
+    );
+  }
+}
+
+const texts = (blocks: PortfolioBlock[]) => blocks.map((block) => inlineText(block.content));
+
+/**
+ * The position of a block in an editor's document
+ */
+function positionOf(editor: PortfolioEditor, id: string): number {
+  let found = -1;
+  editor.prosemirrorState.doc.descendants((node, pos) => {
+    if (node.attrs.id === id && found < 0) found = pos;
+  });
+  return found;
+}
+
+// ============================================================================
+// Resolving
+// ============================================================================
+
+describe("resolveSuggestedContent", () => {
+  it("removes or keeps suggested text like the editor", () => {
+    const { document, marks } = suggest(
+      [{ id: "p1", type: "paragraph", content: "Hello brave world" }],
+      (editor) => {
+        const start = positionOf(editor, "p1") + 2;
+        editor.transact((tr) => tr.delete(start + 6, start + 12));
+        editor.transact((tr) => tr.insertText("big ", start + 12));
+      }
+    );
+
+    expect(texts(resolveStored(document, marks, false))).toEqual(["Hello brave world"]);
+    expect(texts(resolveStored(document, marks, true))).toEqual(["Hello big world"]);
+    expectSameAsEditor(document, marks);
+  });
+
+  it("keeps styles and links around suggested text", () => {
+    const { document, marks } = suggest(
+      [
+        {
+          id: "p1",
+          type: "paragraph",
+          content: [
+            { type: "text", text: "Bold ", styles: { bold: true } },
+            { type: "link", href: "https://example.com", content: "my site" },
+          ],
+        },
+      ],
+      (editor) => {
+        const start = positionOf(editor, "p1") + 2;
+        editor.transact((tr) => tr.delete(start + 8, start + 12));
+      }
+    );
+
+    const accepted = resolveStored(document, marks, true)[0].content;
+    expect(accepted).toEqual([
+      { type: "text", text: "Bold ", styles: { bold: true } },
+      expect.objectContaining({ type: "link", href: "https://example.com" }),
+    ]);
+    expect(inlineText(accepted)).toBe("Bold my ");
+    expectSameAsEditor(document, marks);
+  });
+
+  it("removes or keeps suggested blocks like the editor", () => {
+    const { document, marks } = suggest(
+      [
+        { id: "p1", type: "paragraph", content: "First" },
+        { id: "p2", type: "paragraph", content: "Second" },
+      ],
+      (editor) => {
+        editor.removeBlocks(["p2"]);
+        editor.insertBlocks(
+          [{ id: "new", type: "paragraph", content: "Inserted" }],
+          "p1",
+          "after"
+        );
+      }
+    );
+
+    expect(texts(resolveStored(document, marks, false))).toEqual(["First", "Second"]);
+    expect(texts(resolveStored(document, marks, true))).toEqual(["First", "Inserted"]);
+    expectSameAsEditor(document, marks);
+  });
+
+  it("resolves suggested text in table cells like the editor", () => {
+    const { document, marks } = suggest(
+      [
+        {
+          id: "t1",
+          type: "table",
+          content: {
+            type: "tableContent",
+            rows: [{ cells: ["ab", "cd"] }, { cells: ["ef", "gh"] }],
+          },
+        },
+      ],
+      (editor) => {
+        const start = positionOf(editor, "t1");
+        // After "c" in the first row, and over "h" in the second
+        editor.transact((tr) => tr.insertText("X", start + 12));
+        editor.transact((tr) => tr.delete(start + 27, start + 28));
+      }
+    );
+
+    expect(summarize(resolveStored(document, marks, false))[0].text).toEqual([
+      ["ab", "cd"],
+      ["ef", "gh"],
+    ]);
+    expect(summarize(resolveStored(document, marks, true))[0].text).toEqual([
+      ["ab", "cXd"],
+      ["ef", "g"],
+    ]);
+    expectSameAsEditor(document, marks);
+  });
+
+  it("reverts or keeps suggested prop changes like the editor", () => {
+    const { document, marks } = suggest(
+      [
+        { id: "h1", type: "heading", props: { level: 1 }, content: "Title" },
+        { id: "card", type: "projectCard", props: { title: "Old title" } },
+      ],
+      (editor) => {
+        editor.updateBlock("h1", { props: { level: 2, textColor: "red" } });
+        const pos = positionOf(editor, "card") + 1;
+        editor.transact((tr) => tr.setNodeAttribute(pos, "title", "New title"));
+      }
+    );
+
+    const [heading, card] = resolveStored(document, marks, false);
+    expect(heading.props).toMatchObject({ level: 1, textColor: "default" });
+    expect(card.props).toMatchObject({ title: "Old title" });
+    expect(resolveStored(document, marks, true)[1].props).toMatchObject({ title: "New title" });
+    expectSameAsEditor(document, marks);
+  });
+
+  it("joins paragraphs whose suggested break is removed", () => {
+    const { document, marks } = suggest(
+      [
+        { id: "p1", type: "paragraph", content: "Hello world" },
+        { id: "p2", type: "paragraph", content: "Second" },
+        { id: "p3", type: "paragraph", content: "Third" },
+      ],
+      (editor) => {
+        // The second half gets an id of its own, as when pressing Enter
+        const split = positionOf(editor, "p1") + 2 + 5;
+        const blockContainer = editor.prosemirrorState.schema.nodes.blockContainer;
+        editor.transact((tr) =>
+          tr.split(split, 2, [{ type: blockContainer, attrs: { id: "p1-end" } }])
+        );
+        const from = positionOf(editor, "p2") + 2 + 6;
+        const to = positionOf(editor, "p3") + 2;
+        editor.transact((tr) => tr.delete(from, to));
+      }
+    );
+
+    expect(texts(resolveStored(document, marks, false))).toEqual([
+      "Hello world",
+      "Second",
+      "Third",
+    ]);
+    expect(texts(resolveStored(document, marks, true))).toEqual([
+      "Hello",
+      " world",
+      "SecondThird",
+    ]);
+  });
+
+  it("resolves nested documents with their cards' marks", () => {
+    const { document: nested, marks } = suggest(
+      [
+        { id: "kept", type: "paragraph", content: "Kept" },
+        { id: "removed", type: "paragraph", content: "Removed" },
+      ],
+      (editor) => editor.removeBlocks(["removed"])
+    );
+    const content: EditorContent = {
+      document: [
+        { id: "card", type: "projectCard", props: {}, children: [] },
+      ] as unknown as PortfolioBlock[],
+      nestedContent: { card: nested, other: nested },
+    };
+
+    const resolved = resolveSuggestedContent(content, { document: [], cards: { card: marks } }, true);
+    expect(resolved.document).toBe(content.document);
+    expect(texts(resolved.nestedContent.card)).toEqual(["Kept"]);
+    expect(resolved.nestedContent.other).toBe(nested);
+    expect(texts(content.nestedContent.card)).toEqual(["Kept", "Removed"]);
+  });
+});
+
+describe("hasPendingSuggestions", () => {
+  it("tells whether any document has marks", () => {
+    const mark: StoredSuggestionMark = {
+      blockId: "p1",
+      from: 0,
+      mark: { type: "insertion", attrs: { id: 1 } },
+    };
+
+    expect(hasPendingSuggestions(emptySuggestionTable())).toBe(false);
+    expect(hasPendingSuggestions({ document: [], cards: { card: [] } })).toBe(false);
+    expect(hasPendingSuggestions({ document: [mark], cards: {} })).toBe(true);
+    expect(hasPendingSuggestions({ document: [], cards: { card: [mark] } })).toBe(true);
+  });
+});
@@ -0,0 +1,429 @@
+// ============================================================================
+// Suggested Changes (persisted form)
+// ============================================================================
+// In suggestion mode, edits are proposed rather than made: inserted content
+// is marked as an insertion, deleted content stays in the document marked
+// as a deletion, and changed block props (a ProjectCard's title, cover,
+// metadata, ...) keep their previous value in a modification mark. The
+// owner then accepts or rejects each suggestion (see suggestionMode.ts).
+//
+// The marks aren't part of the document JSON, so pending suggestions are
+// saved next to the document, in the envelope's `suggestions` table: for
+// the main document and for each ProjectCard's nested document, the marks
+// it holds. Until a suggestion is resolved, its content is part of the
+// document like any other, deleted text included.
+//
+// A mark is located relative to the nearest block (or column) with an id:
+// inline marks as a range of positions from the start of that block, node
+// marks as the position of the marked node.
+//
+// Kept free of @blocknote/core imports so it can run on the server.
+// ============================================================================
+
+import type {
+  PortfolioBlock,
+  PortfolioInlineContent,
+  PortfolioStyledText,
+  PortfolioTableContent,
+} from "../components/schema";
+import type { EditorContent } from "./schemaMigrations";
+
+/**
+ * Kinds of suggestion marks, named after BlockNote's marks
+ */
+export const SUGGESTION_MARK_TYPES = ["insertion", "deletion", "modification"] as const;
+
+/**
+ * A kind of suggestion mark
+ */
+export type SuggestionMarkType = (typeof SUGGESTION_MARK_TYPES)[number];
+
+/**
+ * One suggestion mark
+ * - blockId: the nearest block with an id
+ * - from: start of the marked text, or position of the marked node,
+ *   relative to the start of that block
+ * - to: end of the marked text; absent for node marks
+ * - mark: the mark as ProseMirror JSON. `attrs.id` names the suggestion the
+ *   mark belongs to; one suggestion can span several marks.
+ */
+export interface StoredSuggestionMark {
+  blockId: string;
+  from: number;
+  to?: number;
+  mark: { type: SuggestionMarkType; attrs: Record<string, any> };
+}
+
+/**
+ * Persisted form: the suggestion marks of the main document and of each
+ * ProjectCard's nested document, by card block id
+ */
+export interface SuggestionTable {
+  document: StoredSuggestionMark[];
+  cards: Record<string, StoredSuggestionMark[]>;
+}
+
+/**
+ * Returns a table without suggestions.
+ *
+ * @returns {SuggestionTable} An empty table
+ */
+export function emptySuggestionTable(): SuggestionTable {
+  return { document: [], cards: {} };
+}
+
+// ============================================================================
+// Reading
+// ============================================================================
+
+function isObject(value: unknown): value is Record<string, any> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+function isSuggestionMarkType(value: unknown): value is SuggestionMarkType {
+  return SUGGESTION_MARK_TYPES.includes(value as SuggestionMarkType);
+}
+
+function readMark(raw: unknown): StoredSuggestionMark | null {
+  if (!isObject(raw) || typeof raw.blockId !== "string") return null;
+  if (!Number.isInteger(raw.from) || raw.from < 0) return null;
+  if (raw.to !== undefined && !(Number.isInteger(raw.to) && raw.to > raw.from)) return null;
+  if (!isObject(raw.mark) || !isSuggestionMarkType(raw.mark.type)) return null;
+  if (!isObject(raw.mark.attrs) || raw.mark.attrs.id === undefined) return null;
+
+  const mark: StoredSuggestionMark = {
+    blockId: raw.blockId,
+    from: raw.from,
+    mark: { type: raw.mark.type, attrs: raw.mark.attrs },
+  };
+  if (raw.to !== undefined) mark.to = raw.to;
+  return mark;
+}
+
+function readMarks(raw: unknown): StoredSuggestionMark[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.map(readMark).filter((mark): mark is StoredSuggestionMark => mark !== null);
+}
+
+/**
+ * Reads a persisted suggestion table, dropping malformed marks. Anything
+ * that isn't a table reads as an empty one, so documents saved before
+ * suggestions existed open without any.
+ *
+ * @param {unknown} raw - The `suggestions` field of a saved envelope
+ * @returns {SuggestionTable} The table
+ *
+ * @example
+ * const suggestions = readSuggestionTable(envelope.suggestions);
+ * suggestions.document.length; // number of marks in the main document
+ */
+export function readSuggestionTable(raw: unknown): SuggestionTable {
+  const table = emptySuggestionTable();
+  if (!isObject(raw)) return table;
+
+  table.document = readMarks(raw.document);
+  if (isObject(raw.cards)) {
+    for (const [cardId, value] of Object.entries(raw.cards)) {
+      const marks = readMarks(value);
+      if (marks.length > 0) table.cards[cardId] = marks;
+    }
+  }
+  return table;
+}
+
+// ============================================================================
+// Resolving
+// ============================================================================
+// Exports and published pages show a document as it would read once its
+// pending suggestions are resolved, without an editor: from the document
+// JSON and its table, rejected by default or accepted on request. The
+// document itself keeps its suggestions until the owner reviews them.
+//
+// Positions follow ProseMirror's: a block's own node mark is at 0 and its
+// content node at 1, so its inline content starts at 2. A paragraph break
+// is suggested by zero-width spaces marked at the end of one block and the
+// start of the next.
+// ============================================================================
+
+/**
+ * Marks a suggested paragraph break
+ */
+const PARAGRAPH_BREAK = "\u200B";
+
+/**
+ * How to resolve a document's suggestions
+ * - drop: the mark type whose content is removed
+ * - accept: whether prop changes are kept
+ */
+interface Resolution {
+  drop: SuggestionMarkType;
+  accept: boolean;
+}
+
+function groupByBlock(marks: StoredSuggestionMark[]): Map<string, StoredSuggestionMark[]> {
+  const byBlock = new Map<string, StoredSuggestionMark[]>();
+  marks.forEach((mark) => {
+    const list = byBlock.get(mark.blockId) ?? [];
+    list.push(mark);
+    byBlock.set(mark.blockId, list);
+  });
+  return byBlock;
+}
+
+const isRangeMark = (mark: StoredSuggestionMark) =>
+  mark.to !== undefined && mark.mark.type !== "modification";
+
+/**
+ * Returns the number of positions inline content takes: one per character
+ * of styled text and links, one per other inline content.
+ */
+function inlineSize(content: PortfolioInlineContent[]): number {
+  return content.reduce((size, run) => {
+    if (run.type === "text") return size + run.text.length;
+    if (run.type === "link") return size + inlineSize(run.content);
+    return size + 1;
+  }, 0);
+}
+
+/**
+ * Removes the characters of a text the resolution drops, and the paragraph
+ * break markers of the suggestions it keeps.
+ */
+function resolveText(
+  text: string,
+  from: number,
+  marks: StoredSuggestionMark[],
+  resolution: Resolution
+): string {
+  let result = "";
+  for (let index = 0; index < text.length; index++) {
+    const pos = from + index;
+    const covering = marks.filter((mark) => mark.from <= pos && pos < mark.to!);
+    if (covering.some((mark) => mark.mark.type === resolution.drop)) continue;
+    if (text[index] === PARAGRAPH_BREAK && covering.length > 0) continue;
+    result += text[index];
+  }
+  return result;
+}
+
+/**
+ * Resolves styled text that starts at a position. Runs left empty are
+ * removed.
+ */
+function resolveStyledText(
+  content: PortfolioStyledText[],
+  from: number,
+  marks: StoredSuggestionMark[],
+  resolution: Resolution
+): PortfolioStyledText[] {
+  let pos = from;
+  return content.flatMap((run) => {
+    const text = resolveText(run.text, pos, marks, resolution);
+    pos += run.text.length;
+    return text ? [{ ...run, text }] : [];
+  });
+}
+
+/**
+ * Resolves inline content that starts at a position. Runs and links left
+ * empty are removed.
+ */
+function resolveInline(
+  content: PortfolioInlineContent[],
+  from: number,
+  marks: StoredSuggestionMark[],
+  resolution: Resolution
+): PortfolioInlineContent[] {
+  let pos = from;
+  return content.flatMap((run): PortfolioInlineContent[] => {
+    const start = pos;
+    pos += inlineSize([run]);
+
+    if (run.type === "text") return resolveStyledText([run], start, marks, resolution);
+    if (run.type === "link") {
+      const linked = resolveStyledText(run.content, start, marks, resolution);
+      return linked.length > 0 ? [{ ...run, content: linked }] : [];
+    }
+    const dropped = marks.some(
+      (mark) => mark.mark.type === resolution.drop && mark.from <= start && start < mark.to!
+    );
+    return dropped ? [] : [run];
+  });
+}
+
+/**
+ * Resolves a table's cells. Each row and cell opens and closes a node, and
+ * a cell's text sits in a paragraph of its own.
+ */
+function resolveTable(
+  table: PortfolioTableContent,
+  marks: StoredSuggestionMark[],
+  resolution: Resolution
+): PortfolioTableContent {
+  let pos = 2; // The table node opens at 1
+  const rows = table.rows.map((row) => {
+    pos += 1;
+    const cells = row.cells.map((cell) => {
+      const inline = Array.isArray(cell) ? cell : cell.content;
+      const content = resolveInline(inline, pos + 2, marks, resolution);
+      pos += inlineSize(inline) + 4;
+      return Array.isArray(cell) ? content : { ...cell, content };
+    });
+    pos += 1;
+    // Rows hold either plain inline cells or tableCell objects, never both
+    return { ...row, cells: cells as PortfolioTableContent["rows"][number]["cells"] };
+  });
+  return { ...table, rows };
+}
+
+/**
+ * Resolves a block's content, whichever kind it holds. Saved JSON may hold
+ * inline content as a plain string.
+ */
+function resolveContent(
+  content: PortfolioBlock["content"] | string,
+  marks: StoredSuggestionMark[],
+  resolution: Resolution
+): PortfolioBlock["content"] {
+  if (typeof content === "string") {
+    return resolveInline([{ type: "text", text: content, styles: {} }], 2, marks, resolution);
+  }
+  if (Array.isArray(content)) return resolveInline(content, 2, marks, resolution);
+  if (content?.type === "tableContent") return resolveTable(content, marks, resolution);
+  return content;
+}
+
+/**
+ * Whether inline content ends with the marker of a paragraph break the
+ * resolution drops, i.e. the block and the next one read as one.
+ */
+function endsWithDroppedBreak(
+  content: PortfolioBlock["content"],
+  marks: StoredSuggestionMark[],
+  resolution: Resolution
+): boolean {
+  if (!Array.isArray(content)) return false;
+  const end = 2 + inlineSize(content);
+  const last = content[content.length - 1];
+  return (
+    last?.type === "text" &&
+    last.text.endsWith(PARAGRAPH_BREAK) &&
+    marks.some(
+      (mark) => mark.mark.type === resolution.drop && mark.from <= end - 1 && end - 1 < mark.to!
+    )
+  );
+}
+
+/**
+ * Puts back the previous value of every prop a rejected suggestion changes.
+ * The previous values come from the marks, so they are only as well-typed
+ * as the saved marks; repairContent checks them like any other prop.
+ */
+function revertProps(block: PortfolioBlock, marks: StoredSuggestionMark[]): PortfolioBlock {
+  let reverted = block;
+  marks.forEach(({ to, mark }) => {
+    if (to !== undefined || mark.type !== "modification") return;
+    if (mark.attrs.type === "attr" && mark.attrs.attrName !== "id") {
+      reverted = {
+        ...reverted,
+        props: { ...reverted.props, [mark.attrs.attrName]: mark.attrs.previousValue },
+      } as PortfolioBlock;
+    } else if (mark.attrs.type === "nodeType" && typeof mark.attrs.previousValue === "string") {
+      reverted = { ...reverted, type: mark.attrs.previousValue } as PortfolioBlock;
+    }
+  });
+  return reverted;
+}
+
+/**
+ * Resolves a list of blocks and their children: drops blocks the
+ * resolution removes, resolves the content of the rest, and joins blocks
+ * whose paragraph break it removes.
+ */
+function resolveBlocks(
+  blocks: PortfolioBlock[],
+  marksByBlock: Map<string, StoredSuggestionMark[]>,
+  resolution: Resolution
+): PortfolioBlock[] {
+  const resolved: PortfolioBlock[] = [];
+  let joinsNext = false;
+
+  blocks.forEach((block) => {
+    if (!isObject(block)) return;
+    const marks = marksByBlock.get(block.id) ?? [];
+    const removed = marks.some(
+      ({ from, to, mark }) => from === 0 && to === undefined && mark.type === resolution.drop
+    );
+    if (removed) return;
+
+    const textMarks = marks.filter(isRangeMark);
+    const breaksAfter = endsWithDroppedBreak(block.content, textMarks, resolution);
+    const next = {
+      ...(resolution.accept ? block : revertProps(block, marks)),
+      ...(block.content !== undefined && {
+        content: resolveContent(block.content, textMarks, resolution),
+      }),
+      ...(Array.isArray(block.children) && {
+        children: resolveBlocks(block.children, marksByBlock, resolution),
+      }),
+    } as PortfolioBlock;
+
+    const previous = resolved[resolved.length - 1];
+    if (joinsNext && Array.isArray(previous?.content) && Array.isArray(next.content)) {
+      resolved[resolved.length - 1] = {
+        ...previous,
+        content: [...previous.content, ...next.content],
+        children: [...(previous.children ?? []), ...(next.children ?? [])],
+      } as PortfolioBlock;
+    } else {
+      resolved.push(next);
+    }
+    joinsNext = breaksAfter;
+  });
+
+  return resolved;
+}
+
+/**
+ * Returns a document and its nested documents as they read with their
+ * pending suggestions rejected, or accepted: suggested text and blocks are
+ * removed or kept, text suggested for deletion kept or removed, and changed
+ * props reverted or kept. The content passed in is left as it is.
+ *
+ * @param {EditorContent} content - The document and its nested documents
+ * @param {SuggestionTable} suggestions - Their pending suggestions
+ * @param {boolean} accept - True to accept the suggestions rather than reject them
+ * @returns {EditorContent} The resolved content
+ *
+ * @example
+ * const published = resolveSuggestedContent(stored, stored.suggestions);
+ * const withChanges = resolveSuggestedContent(content, suggestions, true);
+ */
+export function resolveSuggestedContent(
+  content: EditorContent,
+  suggestions: SuggestionTable,
+  accept = false
+): EditorContent {
+  const resolution: Resolution = { drop: accept ? "deletion" : "insertion", accept };
+  const resolve = (blocks: PortfolioBlock[], marks: StoredSuggestionMark[] | undefined) =>
+    marks && marks.length > 0 ? resolveBlocks(blocks, groupByBlock(marks), resolution) : blocks;
+
+  const nestedContent: EditorContent["nestedContent"] = {};
+  for (const [cardId, blocks] of Object.entries(content.nestedContent)) {
+    nestedContent[cardId] = resolve(blocks, suggestions.cards[cardId]);
+  }
+  return { document: resolve(content.document, suggestions.document), nestedContent };
+}
+
+/**
+ * Whether a table holds any pending suggestion.
+ *
+ * @param {SuggestionTable} suggestions - The table
+ * @returns {boolean} True if there is something to resolve
+ */
+export function hasPendingSuggestions(suggestions: SuggestionTable): boolean {
+  return (
+    suggestions.document.length > 0 ||
+    Object.values(suggestions.cards).some((marks) => marks.length > 0)
+  );
+}
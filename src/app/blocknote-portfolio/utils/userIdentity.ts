@@ -0,0 +1,105 @@
+// ============================================================================
+// User Identity
+// ============================================================================
+// There are no accounts; each browser is one user, remembered in
+// localStorage. The id marks the user's comments as theirs. The name and
+// colour are shown on their comments and, when collaborating, with their
+// cursor. The name is only asked for once it is first shown to anyone.
+// ============================================================================
+
+/**
+ * localStorage key for the current user
+ */
+const USER_STORAGE_KEY = "blocknote-portfolio-collab-user";
+
+/**
+ * Colours handed out to new users
+ */
+const USER_COLORS = [
+  "#e03131",
+  "#2f9e44",
+  "#1971c2",
+  "#f08c00",
+  "#9c36b5",
+  "#0c8599",
+  "#e8590c",
+  "#5c940d",
+];
+
+/**
+ * The user of this browser. `name` is empty until it has been asked for.
+ */
+export interface AppUser {
+  id: string;
+  name: string;
+  color: string;
+}
+
+function createUserId(): string {
+  return `user-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+function saveUser(user: AppUser): void {
+  try {
+    localStorage.setItem(USER_STORAGE_KEY, JSON.stringify(user));
+  } catch {
+    console.warn("⚠️ Could not remember the current user");
+  }
+}
+
+/**
+ * Reads the remembered user, creating one without a name the first time.
+ * Users remembered before they had ids are given one.
+ */
+function loadUser(): AppUser {
+  let saved: any = null;
+  try {
+    saved = JSON.parse(localStorage.getItem(USER_STORAGE_KEY) ?? "null");
+  } catch {
+    console.warn("⚠️ Ignoring unreadable current user");
+  }
+
+  const user: AppUser = {
+    id: typeof saved?.id === "string" ? saved.id : createUserId(),
+    name: typeof saved?.name === "string" ? saved.name : "",
+    color:
+      typeof saved?.color === "string"
+        ? saved.color
+        : USER_COLORS[Math.floor(Math.random() * USER_COLORS.length)],
+  };
+  if (
+    user.id !== saved?.id ||
+    user.name !== saved?.name ||
+    user.color !== saved?.color
+  ) {
+    saveUser(user);
+  }
+  return user;
+}
+
+/**
+ * Returns the current user's id without asking for anything.
+ *
+ * @returns {string} The user id
+ */
+export function getUserId(): string {
+  return loadUser().id;
+}
+
+/**
+ * Returns the current user, asking for a name the first time.
+ *
+ * @returns {AppUser} The user, with a name
+ *
+ * @example
+ * const { name, color } = getCurrentUser();
+ */
+export function getCurrentUser(): AppUser {
+  const user = loadUser();
+  if (user.name) return user;
+
+  const name = prompt("Your name, shown on your comments and to people editing with you:", "")?.trim();
+  const named = { ...user, name: name || `Guest ${Math.floor(Math.random() * 1000)}` };
+  saveUser(named);
+  return named;
+}
@@ -0,0 +1,68 @@
+// ============================================================================
+// Public Project Card Page
+// ============================================================================
+// Read-only detail view of one ProjectCard of a shared portfolio at
+// /p/:slug/:cardId, showing the card's cover, title and nested document,
+// with pending suggestions rejected like on the share page.
+// ============================================================================
+
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+
+import { StaticCardDetail } from "@/app/blocknote-portfolio/components/StaticDocument";
+import {
+  getDocumentStore,
+  isValidDocumentId,
+} from "@/app/blocknote-portfolio/utils/documentStore";
+import {
+  findProjectCard,
+  getNestedDocument,
+} from "@/app/blocknote-portfolio/utils/nestedContent";
+import { STATIC_DOCUMENT_CSS } from "@/app/blocknote-portfolio/utils/staticStyles";
+import { resolveSuggestedContent } from "@/app/blocknote-portfolio/utils/suggestions";
+
+// Always render the latest saved version
+export const dynamic = "force-dynamic";
+
+type PageProps = { params: Promise<{ slug: string; cardId: string }> };
+
+/**
+ * Loads the shared document and the requested card, or null if either is
+ * missing.
+ */
+async function loadSharedCard(slug: string, cardId: string) {
+  if (!isValidDocumentId(slug)) return null;
+
+  const stored = await getDocumentStore().get(slug);
+  if (!stored) return null;
+
+  const { document, nestedContent } = resolveSuggestedContent(stored, stored.suggestions);
+  const card = findProjectCard(document, nestedContent, cardId);
+  if (!card) return null;
+
+  return { card, nested: getNestedDocument(nestedContent, cardId) };
+}
+
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const { slug, cardId } = await params;
+  const shared = await loadSharedCard(slug, cardId);
+  return { title: shared?.card.props?.title || "Project" };
+}
+
+export default async function SharedProjectCardPage({ params }: PageProps) {
+  const { slug, cardId } = await params;
+  const shared = await loadSharedCard(slug, cardId);
+  if (!shared) notFound();
+
+  return (
+    <main className="bn-static-page">
+      <style dangerouslySetInnerHTML={{ __html: STATIC_DOCUMENT_CSS }} />
+      <StaticCardDetail
+        card={shared.card}
+        nested={shared.nested}
+        backHref={`/p/${slug}`}
+        cardHref={(nestedCardId) => `/p/${slug}/${nestedCardId}`}
+      />
+    </main>
+  );
+}
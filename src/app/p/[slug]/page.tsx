@@ -0,0 +1,61 @@
+// ============================================================================
+// Public Share Page
+// ============================================================================
+// Read-only, server-rendered view of a saved portfolio at /p/:slug, where
+// the slug is the document id. ProjectCards link to /p/:slug/:cardId, and
+// the header links to the server-rendered PDF. Pending suggestions are
+// shown rejected: the page shows the document as agreed so far.
+// ============================================================================
+
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+
+import { StaticDocument } from "@/app/blocknote-portfolio/components/StaticDocument";
+import {
+  getDocumentStore,
+  isValidDocumentId,
+} from "@/app/blocknote-portfolio/utils/documentStore";
+import { STATIC_DOCUMENT_CSS } from "@/app/blocknote-portfolio/utils/staticStyles";
+import { resolveSuggestedContent } from "@/app/blocknote-portfolio/utils/suggestions";
+
+// Always render the latest saved version
+export const dynamic = "force-dynamic";
+
+type PageProps = { params: Promise<{ slug: string }> };
+
+/**
+ * Loads the shared document, or null for unknown/unsafe slugs.
+ */
+async function loadSharedDocument(slug: string) {
+  if (!isValidDocumentId(slug)) return null;
+  return getDocumentStore().get(slug);
+}
+
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const { slug } = await params;
+  const stored = await loadSharedDocument(slug);
+  return { title: stored?.name ?? "Portfolio" };
+}
+
+export default async function SharedPortfolioPage({ params }: PageProps) {
+  const { slug } = await params;
+  const stored = await loadSharedDocument(slug);
+  if (!stored) notFound();
+  const { document } = resolveSuggestedContent(stored, stored.suggestions);
+
+  return (
+    <main className="bn-static-page">
+      <style dangerouslySetInnerHTML={{ __html: STATIC_DOCUMENT_CSS }} />
+      <header>
+        <h1>{stored.name}</h1>
+        <a className="bn-static-download" href={`/api/documents/${slug}/pdf`}>
+          ⬇️ Download PDF
+        </a>
+      </header>
+      <StaticDocument
+        blocks={document}
+        cardHref={(cardId) => `/p/${slug}/${cardId}`}
+      />
+    </main>
+  );
+}
@@ -0,0 +1,71 @@
+// ============================================================================
+// Document PDF API Route
+// ============================================================================
+// - GET /api/documents/:id/pdf → the stored document rendered as a PDF
+//
+// Export options are query parameters, e.g.
+//   /api/documents/:id/pdf?pageSize=LETTER&theme=print&tableOfContents=1
+// The title defaults to the document's name. Pending suggestions are left
+// out, as on the share page. (A Pages Router API route; see pdfRender.tsx
+// for why.)
+// ============================================================================
+
+import type { NextApiRequest, NextApiResponse } from "next";
+import {
+  getDocumentStore,
+  isValidDocumentId,
+} from "@/app/blocknote-portfolio/utils/documentStore";
+import {
+  exportOptionsFromQuery,
+  sendPdf,
+} from "@/app/blocknote-portfolio/utils/pdfRender";
+import { resolveSuggestedContent } from "@/app/blocknote-portfolio/utils/suggestions";
+
+/**
+ * Renders the stored document, or returns 404 if it does not exist.
+ */
+export default async function handler(
+  request: NextApiRequest,
+  response: NextApiResponse
+) {
+  if (request.method !== "GET") {
+    response.setHeader("Allow", "GET");
+    return response.status(405).json({ error: "Method not allowed" });
+  }
+
+  const { id, ...query } = request.query;
+  if (typeof id !== "string" || !isValidDocumentId(id)) {
+    return response.status(400).json({ error: "Invalid document id" });
+  }
+
+  const parsed = exportOptionsFromQuery(query);
+  if ("error" in parsed) {
+    return response.status(400).json({ error: parsed.error });
+  }
+
+  try {
+    const stored = await getDocumentStore().get(id);
+    if (!stored) {
+      return response.status(404).json({ error: "Document not found" });
+    }
+    await sendPdf(
+      response,
+      resolveSuggestedContent(stored, stored.suggestions),
+      { title: stored.name, ...parsed.options }
+    );
+  } catch (error) {
+    console.error("❌ Failed to render PDF:", error);
+    if (!response.headersSent) {
+      response.status(500).json({ error: "Failed to render PDF" });
+    } else {
+      response.end();
+    }
+  }
+}
+
+export const config = {
+  api: {
+    // PDFs of large portfolios are bigger than the default 4MB limit
+    responseLimit: false,
+  },
+};
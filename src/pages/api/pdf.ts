@@ -0,0 +1,92 @@
+// ============================================================================
+// PDF API Route
+// ============================================================================
+// - POST /api/pdf → render posted document JSON as a PDF
+//
+// Body: { document, nestedContent?, schemaVersion?, options? }, where
+// options are the same export options as the editor's PDF dialog. Documents
+// with an older `schemaVersion` are upgraded before rendering; malformed
+// blocks are repaired like when saving, and the number of problems fixed is
+// sent in the X-Repaired-Issues header. Only uploaded images and inline data
+// URIs are embedded; the server fetches nothing. (A Pages Router API route;
+// see pdfRender.tsx for why.)
+// ============================================================================
+
+import type { NextApiRequest, NextApiResponse } from "next";
+import {
+  CURRENT_SCHEMA_VERSION,
+  readEnvelope,
+} from "@/app/blocknote-portfolio/utils/schemaMigrations";
+import { parseExportOptions } from "@/app/blocknote-portfolio/utils/exportOptions";
+import { sendPdf } from "@/app/blocknote-portfolio/utils/pdfRender";
+
+/**
+ * Checks that a request body field is a JSON object (not an array or null).
+ */
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * Renders the posted document and streams back the PDF.
+ */
+export default async function handler(
+  request: NextApiRequest,
+  response: NextApiResponse
+) {
+  if (request.method !== "POST") {
+    response.setHeader("Allow", "POST");
+    return response.status(405).json({ error: "Method not allowed" });
+  }
+
+  // Next parses JSON bodies; anything else arrives as a string
+  const body = request.body;
+  if (!isPlainObject(body)) {
+    return response.status(400).json({ error: "Request body must be JSON" });
+  }
+
+  if (!Array.isArray(body.document)) {
+    return response
+      .status(400)
+      .json({ error: "Request body must contain a document array" });
+  }
+
+  const parsed = parseExportOptions(isPlainObject(body.options) ? body.options : {});
+  if ("error" in parsed) {
+    return response.status(400).json({ error: parsed.error });
+  }
+
+  const envelope = readEnvelope({
+    schemaVersion:
+      typeof body.schemaVersion === "number"
+        ? body.schemaVersion
+        : CURRENT_SCHEMA_VERSION,
+    savedAt: null,
+    document: body.document,
+    nestedContent: isPlainObject(body.nestedContent) ? body.nestedContent : {},
+  });
+  if (!envelope) {
+    return response
+      .status(422)
+      .json({ error: "Document schema version is not supported" });
+  }
+
+  try {
+    await sendPdf(response, envelope, parsed.options);
+  } catch (error) {
+    console.error("❌ Failed to render PDF:", error);
+    if (!response.headersSent) {
+      response.status(500).json({ error: "Failed to render PDF" });
+    } else {
+      response.end();
+    }
+  }
+}
+
+export const config = {
+  api: {
+    // Posted documents with inlined images can exceed the default 1MB
+    bodyParser: { sizeLimit: "10mb" },
+    responseLimit: false,
+  },
+};